@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Read once by the config module: the per-instance store, with a short TTL and room for three entries
+vi.hoisted(() => {
+    process.env.ANSWER_CACHE_STORE = 'memory';
+    process.env.ANSWER_CACHE_TTL_SECONDS = '60';
+    process.env.ANSWER_CACHE_MAX_ENTRIES = '3';
+    process.env.ANSWER_CACHE_SIMILARITY_THRESHOLD = '0.5';
+});
+
+import { invalidateAnswerCache, lookupCachedAnswer, normalizeQuestion, storeCachedAnswer } from './answerCache';
+import { LLMStructuredResponse } from './llmService';
+
+const KB_V1 = 'hash-v1';
+const KB_V2 = 'hash-v2';
+const answer = (text: string): LLMStructuredResponse => ({ type: 'text', answer: text });
+const store = (question: string, model = 'model-a', contentHash = KB_V1, text = `Answer to ${question}`) =>
+    storeCachedAnswer(question, contentHash, { provider: `${model}-provider`, model }, answer(text));
+
+describe('normalizeQuestion', () => {
+    it('ignores case, accents, punctuation and spacing', () => {
+        expect(normalizeQuestion('  What are SAFEs?! ')).toBe('what are safes');
+        expect(normalizeQuestion('Qu’est-ce qu’une  levée de fonds ?')).toBe(normalizeQuestion("qu'est ce qu'une levee de fonds"));
+    });
+});
+
+describe('answer cache', () => {
+    beforeEach(async () => {
+        await invalidateAnswerCache();
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2026-03-10T12:00:00Z'));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('returns an answer stored for the same question worded differently', async () => {
+        await store('What is a SAFE?');
+        const hit = await lookupCachedAnswer('what is a safe', KB_V1, ['model-a']);
+        expect(hit).toMatchObject({ match: 'exact', similarity: 1, model: 'model-a', provider: 'model-a-provider', response: answer('Answer to What is a SAFE?') });
+    });
+
+    it('keys answers by knowledge base text and model', async () => {
+        await store('What is a SAFE?');
+        expect(await lookupCachedAnswer('What is a SAFE?', KB_V2, ['model-a'])).toBeNull();
+        expect(await lookupCachedAnswer('What is a SAFE?', KB_V1, ['model-b'])).toBeNull();
+    });
+
+    it('prefers the model that comes first in the provider chain', async () => {
+        await store('What is a SAFE?', 'model-b');
+        await store('What is a SAFE?', 'model-a');
+        expect((await lookupCachedAnswer('What is a SAFE?', KB_V1, ['model-b', 'model-a']))?.model).toBe('model-b');
+        expect((await lookupCachedAnswer('What is a SAFE?', KB_V1, ['model-a', 'model-b']))?.model).toBe('model-a');
+    });
+
+    it('expires answers after the TTL', async () => {
+        await store('What is a SAFE?');
+        vi.setSystemTime(new Date('2026-03-10T12:00:59Z'));
+        expect(await lookupCachedAnswer('What is a SAFE?', KB_V1, ['model-a'])).not.toBeNull();
+        vi.setSystemTime(new Date('2026-03-10T12:01:00Z'));
+        expect(await lookupCachedAnswer('What is a SAFE?', KB_V1, ['model-a'])).toBeNull();
+    });
+
+    it('evicts the least recently used answer when full', async () => {
+        await store('What is a SAFE?');
+        await store('What is a cap table?');
+        await store('What is vesting?');
+        await lookupCachedAnswer('What is a SAFE?', KB_V1, ['model-a']); // Now the most recently used
+        await store('What is dilution?');
+        expect(await lookupCachedAnswer('What is a cap table?', KB_V1, ['model-a'])).toBeNull();
+        expect(await lookupCachedAnswer('What is a SAFE?', KB_V1, ['model-a'])).not.toBeNull();
+    });
+
+    it('reuses the answer to a near-duplicate question above the similarity threshold', async () => {
+        await store('How does a convertible note work?');
+        const similar = await lookupCachedAnswer('How do convertible notes work', KB_V1, ['model-a']);
+        expect(similar).toMatchObject({ match: 'similar' });
+        expect(similar!.similarity).toBeGreaterThanOrEqual(0.5);
+        expect(await lookupCachedAnswer('Who signs the note?', KB_V1, ['model-a'])).toBeNull();
+    });
+
+    it('never stores error responses', async () => {
+        await storeCachedAnswer('What is a SAFE?', KB_V1, { provider: 'p', model: 'model-a' }, { type: 'error', message: 'Timed out.' });
+        expect(await lookupCachedAnswer('What is a SAFE?', KB_V1, ['model-a'])).toBeNull();
+    });
+
+    it('hands out copies that callers can change', async () => {
+        await store('What is a SAFE?');
+        const first = await lookupCachedAnswer('What is a SAFE?', KB_V1, ['model-a']);
+        (first!.response as { answer: string }).answer = 'changed';
+        expect((await lookupCachedAnswer('What is a SAFE?', KB_V1, ['model-a']))!.response).toEqual(answer('Answer to What is a SAFE?'));
+    });
+
+    it('invalidates by question, knowledge base text or model', async () => {
+        await store('What is a SAFE?');
+        await store('What is a SAFE?', 'model-b');
+        await store('What is vesting?', 'model-a', KB_V2);
+        expect(await invalidateAnswerCache({ question: 'what is a safe', model: 'model-b' })).toBe(1);
+        expect(await invalidateAnswerCache({ contentHash: KB_V2 })).toBe(1);
+        expect(await lookupCachedAnswer('What is a SAFE?', KB_V1, ['model-a'])).not.toBeNull();
+        expect(await invalidateAnswerCache()).toBe(1);
+    });
+});
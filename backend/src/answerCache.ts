@@ -0,0 +1,282 @@
+import mongoose from 'mongoose';
+import AnswerCacheEntryModel from './models/answerCacheEntry.model';
+import { tokenize } from './knowledgeBase';
+import { LLMStructuredResponse } from './llmService';
+import { createLogger } from './logger';
+import { config } from './config';
+
+const logger = createLogger('Answer Cache');
+
+// --- Configuration ---
+// "mongo" (shared between instances), "memory" (per instance) or "off"
+const ANSWER_CACHE_STORE = config.answerCache.store;
+const ANSWER_CACHE_TTL_MS = config.answerCache.ttlMs;
+const ANSWER_CACHE_MAX_ENTRIES = config.answerCache.maxEntries; // Memory store only
+// Keyword overlap (Jaccard, 0-1) above which a differently worded question reuses an answer. 0 disables it.
+const ANSWER_CACHE_SIMILARITY_THRESHOLD = config.answerCache.similarityThreshold;
+const SIMILAR_CANDIDATE_LIMIT = 200;
+
+// --- Type Definitions ---
+// Reported in LLMAnswerMetadata. "bypass" means the cache was not consulted (follow-up turn, cache off).
+export interface AnswerCacheInfo {
+    status: 'hit' | 'miss' | 'bypass';
+    match?: 'exact' | 'similar';
+    similarity?: number;
+    cachedAt?: Date;
+}
+
+export interface CachedAnswer {
+    response: LLMStructuredResponse;
+    provider: string;
+    model: string;
+    match: 'exact' | 'similar';
+    similarity: number;
+    cachedAt: Date;
+}
+
+interface CacheEntry {
+    questionKey: string;
+    tokens: string[];
+    contentHash: string;
+    llmModel: string;
+    provider: string;
+    response: LLMStructuredResponse;
+    createdAt: Date;
+    expiresAt: Date;
+}
+
+export interface AnswerCacheFilter {
+    question?: string;      // Normalized before matching
+    contentHash?: string;
+    model?: string;
+}
+
+interface AnswerCacheStore {
+    findExact(questionKey: string, contentHash: string, models: string[]): Promise<CacheEntry[]>;
+    findCandidates(tokens: string[], contentHash: string, models: string[]): Promise<CacheEntry[]>;
+    save(entry: CacheEntry): Promise<void>;
+    recordHit(entry: CacheEntry): Promise<void>;
+    invalidate(filter: AnswerCacheFilter): Promise<number>;
+}
+
+// --- Normalization ---
+// Case, accents, punctuation and whitespace don't change the question: "What are SAFEs?" == "what are safes"
+export function normalizeQuestion(question: string): string {
+    return question
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}]+/gu, ' ')
+        .trim();
+}
+
+function questionTokens(questionKey: string): string[] {
+    return [...new Set(tokenize(questionKey))].sort();
+}
+
+function jaccardSimilarity(a: string[], b: string[]): number {
+    if (a.length === 0 || b.length === 0) return 0;
+    const setB = new Set(b);
+    const shared = a.filter(token => setB.has(token)).length;
+    return shared / (a.length + b.length - shared);
+}
+
+// --- Stores ---
+class MemoryAnswerCacheStore implements AnswerCacheStore {
+    private entries = new Map<string, CacheEntry>(); // Insertion order doubles as LRU order
+
+    private key(questionKey: string, contentHash: string, model: string): string {
+        return `${contentHash}\u0000${model}\u0000${questionKey}`;
+    }
+
+    private live(): CacheEntry[] {
+        const now = Date.now();
+        for (const [key, entry] of this.entries) {
+            if (entry.expiresAt.getTime() <= now) this.entries.delete(key);
+        }
+        return [...this.entries.values()];
+    }
+
+    async findExact(questionKey: string, contentHash: string, models: string[]): Promise<CacheEntry[]> {
+        const now = Date.now();
+        return models
+            .map(model => this.entries.get(this.key(questionKey, contentHash, model)))
+            .filter((entry): entry is CacheEntry => !!entry && entry.expiresAt.getTime() > now);
+    }
+
+    async findCandidates(tokens: string[], contentHash: string, models: string[]): Promise<CacheEntry[]> {
+        return this.live().filter(entry =>
+            entry.contentHash === contentHash && models.includes(entry.llmModel) && entry.tokens.some(token => tokens.includes(token)));
+    }
+
+    async save(entry: CacheEntry): Promise<void> {
+        const key = this.key(entry.questionKey, entry.contentHash, entry.llmModel);
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        while (this.entries.size > ANSWER_CACHE_MAX_ENTRIES) {
+            this.entries.delete(this.entries.keys().next().value!);
+        }
+    }
+
+    async recordHit(entry: CacheEntry): Promise<void> {
+        const key = this.key(entry.questionKey, entry.contentHash, entry.llmModel);
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+    }
+
+    async invalidate(filter: AnswerCacheFilter): Promise<number> {
+        const questionKey = filter.question !== undefined ? normalizeQuestion(filter.question) : undefined;
+        let deleted = 0;
+        for (const [key, entry] of this.entries) {
+            if (questionKey !== undefined && entry.questionKey !== questionKey) continue;
+            if (filter.contentHash && entry.contentHash !== filter.contentHash) continue;
+            if (filter.model && entry.llmModel !== filter.model) continue;
+            this.entries.delete(key);
+            deleted++;
+        }
+        return deleted;
+    }
+}
+
+// Reads and writes are skipped while MongoDB is not connected, so an outage only costs cache hits.
+class MongoAnswerCacheStore implements AnswerCacheStore {
+    private get connected(): boolean {
+        return mongoose.connection.readyState === 1;
+    }
+
+    async findExact(questionKey: string, contentHash: string, models: string[]): Promise<CacheEntry[]> {
+        if (!this.connected) return [];
+        return AnswerCacheEntryModel.find({ questionKey, contentHash, llmModel: { $in: models }, expiresAt: { $gt: new Date() } }).lean<CacheEntry[]>();
+    }
+
+    async findCandidates(tokens: string[], contentHash: string, models: string[]): Promise<CacheEntry[]> {
+        if (!this.connected || tokens.length === 0) return [];
+        return AnswerCacheEntryModel.find({ contentHash, llmModel: { $in: models }, tokens: { $in: tokens }, expiresAt: { $gt: new Date() } })
+            .limit(SIMILAR_CANDIDATE_LIMIT)
+            .lean<CacheEntry[]>();
+    }
+
+    async save(entry: CacheEntry): Promise<void> {
+        if (!this.connected) return;
+        const { questionKey, contentHash, llmModel } = entry;
+        // createdAt is set explicitly so a re-answered question starts a fresh entry
+        await AnswerCacheEntryModel.updateOne({ questionKey, contentHash, llmModel }, { $set: { ...entry, hits: 0 } }, { upsert: true, timestamps: false });
+    }
+
+    async recordHit(entry: CacheEntry): Promise<void> {
+        if (!this.connected) return;
+        const { questionKey, contentHash, llmModel } = entry;
+        await AnswerCacheEntryModel.updateOne({ questionKey, contentHash, llmModel }, { $inc: { hits: 1 } });
+    }
+
+    async invalidate(filter: AnswerCacheFilter): Promise<number> {
+        const query: Record<string, string> = {};
+        if (filter.question !== undefined) query.questionKey = normalizeQuestion(filter.question);
+        if (filter.contentHash) query.contentHash = filter.contentHash;
+        if (filter.model) query.llmModel = filter.model;
+        const result = await AnswerCacheEntryModel.deleteMany(query);
+        return result.deletedCount;
+    }
+}
+
+let store: AnswerCacheStore | null | undefined;
+function getStore(): AnswerCacheStore | null {
+    if (store === undefined) {
+        if (ANSWER_CACHE_STORE === 'off') store = null;
+        else if (ANSWER_CACHE_STORE === 'memory') store = new MemoryAnswerCacheStore();
+        else {
+            if (ANSWER_CACHE_STORE !== 'mongo') logger.warn(`Unknown ANSWER_CACHE_STORE '${ANSWER_CACHE_STORE}', using mongo.`);
+            store = new MongoAnswerCacheStore();
+        }
+        logger.info(`Store: ${store ? ANSWER_CACHE_STORE : 'disabled'}, TTL ${ANSWER_CACHE_TTL_MS / 1000}s` +
+            (ANSWER_CACHE_SIMILARITY_THRESHOLD > 0 ? `, near-duplicates at ${ANSWER_CACHE_SIMILARITY_THRESHOLD}` : ''));
+    }
+    return store;
+}
+
+export function isAnswerCacheEnabled(): boolean {
+    return getStore() !== null;
+}
+
+// --- Public API ---
+// Looks for an answer to the same question over the same knowledge base text from one of `models`,
+// preferring models in the order given (the provider chain order). Cache failures count as misses.
+export async function lookupCachedAnswer(question: string, contentHash: string, models: string[]): Promise<CachedAnswer | null> {
+    const cacheStore = getStore();
+    const questionKey = normalizeQuestion(question);
+    if (!cacheStore || !questionKey || models.length === 0) return null;
+
+    const byChainOrder = (a: CacheEntry, b: CacheEntry) => models.indexOf(a.llmModel) - models.indexOf(b.llmModel);
+    try {
+        const exact = (await cacheStore.findExact(questionKey, contentHash, models)).sort(byChainOrder)[0];
+        if (exact) {
+            await cacheStore.recordHit(exact);
+            return toCachedAnswer(exact, 'exact', 1);
+        }
+        if (ANSWER_CACHE_SIMILARITY_THRESHOLD <= 0) return null;
+
+        const tokens = questionTokens(questionKey);
+        let best: { entry: CacheEntry; similarity: number } | null = null;
+        for (const entry of (await cacheStore.findCandidates(tokens, contentHash, models)).sort(byChainOrder)) {
+            const similarity = jaccardSimilarity(tokens, entry.tokens);
+            if (similarity >= ANSWER_CACHE_SIMILARITY_THRESHOLD && (!best || similarity > best.similarity)) {
+                best = { entry, similarity };
+            }
+        }
+        if (!best) return null;
+        await cacheStore.recordHit(best.entry);
+        logger.info(`Near-duplicate match (${best.similarity.toFixed(2)}).`, { question, cachedQuestion: best.entry.questionKey });
+        return toCachedAnswer(best.entry, 'similar', best.similarity);
+    } catch (error: any) {
+        logger.error('Lookup failed, answering without the cache.', { error: error.message });
+        return null;
+    }
+}
+
+function toCachedAnswer(entry: CacheEntry, match: 'exact' | 'similar', similarity: number): CachedAnswer {
+    return {
+        response: JSON.parse(JSON.stringify(entry.response)), // Callers may modify their copy
+        provider: entry.provider,
+        model: entry.llmModel,
+        match,
+        similarity,
+        cachedAt: entry.createdAt,
+    };
+}
+
+// Stores a successful answer. Error responses are never cached.
+export async function storeCachedAnswer(
+    question: string,
+    contentHash: string,
+    answeredBy: { provider: string; model: string },
+    response: LLMStructuredResponse
+): Promise<void> {
+    const cacheStore = getStore();
+    const questionKey = normalizeQuestion(question);
+    if (!cacheStore || !questionKey || response.type === 'error') return;
+
+    const now = new Date();
+    try {
+        await cacheStore.save({
+            questionKey,
+            tokens: questionTokens(questionKey),
+            contentHash,
+            llmModel: answeredBy.model,
+            provider: answeredBy.provider,
+            response,
+            createdAt: now,
+            expiresAt: new Date(now.getTime() + ANSWER_CACHE_TTL_MS),
+        });
+    } catch (error: any) {
+        logger.error('Failed to store answer.', { error: error.message });
+    }
+}
+
+// Removes matching entries; an empty filter clears the whole cache. Returns how many were removed.
+export async function invalidateAnswerCache(filter: AnswerCacheFilter = {}): Promise<number> {
+    const cacheStore = getStore();
+    if (!cacheStore) return 0;
+    const deleted = await cacheStore.invalidate(filter);
+    logger.info(`Invalidated ${deleted} entries.`, { filter });
+    return deleted;
+}
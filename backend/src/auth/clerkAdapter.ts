@@ -0,0 +1,34 @@
+import { ClerkExpressRequireAuth } from '@clerk/clerk-sdk-node';
+import { RequestHandler } from 'express';
+import { AuthAdapter, rolesFromClaims } from './types';
+
+// Clerk session tokens, verified by Clerk's middleware with CLERK_SECRET_KEY. Its failures (401) reach the
+// global error handler as Clerk errors. Roles come from the token's claims; the admin of the active Clerk
+// organization (`org_role` "org:admin") is an org_admin. The active organization is the token's `org_id`.
+interface ClerkAuth {
+    userId: string | null;
+    sessionId: string | null;
+    claims: Record<string, any>;
+}
+
+export function createClerkAdapter(): AuthAdapter {
+    const clerkRequireAuth = ClerkExpressRequireAuth() as unknown as RequestHandler; // Typed for Clerk's own Request
+
+    const authenticate: RequestHandler = (req, res, next) => {
+        clerkRequireAuth(req, res, (error?: unknown) => {
+            if (error) return next(error);
+            const clerkAuth = req.auth as unknown as ClerkAuth | undefined;
+            if (!clerkAuth?.userId) {
+                res.status(401).json({ type: "error", message: "Authentication required. (E:AUTH401)" });
+                return;
+            }
+            const claims = clerkAuth.claims ?? {};
+            const roles = rolesFromClaims(claims, ['org:admin', 'admin'].includes(claims.org_role) ? ['org_admin'] : []);
+            const orgId = typeof claims.org_id === 'string' && claims.org_id ? claims.org_id : null;
+            req.auth = { userId: clerkAuth.userId, sessionId: clerkAuth.sessionId, roles, orgId, claims, provider: 'clerk' };
+            next();
+        });
+    };
+
+    return { name: 'clerk', authenticate };
+}
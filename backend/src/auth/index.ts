@@ -0,0 +1,18 @@
+import { config } from '../config';
+import { AuthAdapter } from './types';
+import { createClerkAdapter } from './clerkAdapter';
+import { createLocalJwtAdapter } from './localJwtAdapter';
+
+export type { AuthAdapter, AuthInfo, Role } from './types';
+export { ROLES } from './types';
+export { signLocalToken } from './localJwtAdapter';
+
+let adapter: AuthAdapter | null = null;
+
+// The adapter for AUTH_MODE, created on first use
+export function getAuthAdapter(): AuthAdapter {
+    if (!adapter) {
+        adapter = config.auth.mode === 'local' ? createLocalJwtAdapter(config.auth.localJwtSecret!) : createClerkAdapter();
+    }
+    return adapter;
+}
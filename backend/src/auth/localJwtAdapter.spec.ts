@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import crypto from 'crypto';
+import { signLocalToken, verifyLocalToken } from './localJwtAdapter';
+
+const SECRET = 'spec-local-jwt-secret';
+
+// Swaps the token's header and signs it again with the secret, so only the header can be at fault
+const withHeader = (token: string, header: object, secret = SECRET) => {
+    const [, payload] = token.split('.');
+    const unsigned = `${Buffer.from(JSON.stringify(header)).toString('base64url')}.${payload}`;
+    return `${unsigned}.${crypto.createHmac('sha256', secret).update(unsigned).digest('base64url')}`;
+};
+
+describe('verifyLocalToken', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('returns the claims of a token it signed', () => {
+        const { token } = signLocalToken('user_1', ['admin'], SECRET, 60, 'org_1');
+        const result = verifyLocalToken(token, SECRET);
+        expect(result).toEqual({ claims: expect.objectContaining({ sub: 'user_1', roles: ['admin'], org_id: 'org_1' }) });
+    });
+
+    it('rejects a token signed with another secret', () => {
+        const { token } = signLocalToken('user_1', [], 'another-local-jwt-secret', 60);
+        expect(verifyLocalToken(token, SECRET)).toEqual({ error: 'Invalid token signature.' });
+    });
+
+    it('rejects a token whose payload was changed after signing', () => {
+        const { token } = signLocalToken('user_1', [], SECRET, 60);
+        const [header, payload, signature] = token.split('.');
+        const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+        const forged = Buffer.from(JSON.stringify({ ...claims, roles: ['admin'] })).toString('base64url');
+        expect(verifyLocalToken(`${header}.${forged}.${signature}`, SECRET)).toEqual({ error: 'Invalid token signature.' });
+    });
+
+    it('rejects an expired token', () => {
+        vi.useFakeTimers();
+        const { token } = signLocalToken('user_1', [], SECRET, 60);
+        vi.advanceTimersByTime(61_000);
+        expect(verifyLocalToken(token, SECRET)).toEqual({ error: 'Token expired.' });
+    });
+
+    it('rejects any algorithm but HS256', () => {
+        const { token } = signLocalToken('user_1', [], SECRET, 60);
+        expect(verifyLocalToken(withHeader(token, { alg: 'none', typ: 'JWT' }), SECRET)).toEqual({ error: 'Unsupported token algorithm.' });
+        expect(verifyLocalToken(withHeader(token, { alg: 'HS512', typ: 'JWT' }), SECRET)).toEqual({ error: 'Unsupported token algorithm.' });
+    });
+
+    it('rejects an unsigned token', () => {
+        const { token } = signLocalToken('user_1', [], SECRET, 60);
+        const [header, payload] = token.split('.');
+        expect(verifyLocalToken(`${header}.${payload}.`, SECRET)).toEqual({ error: 'Malformed token.' });
+        expect(verifyLocalToken(`${header}.${payload}`, SECRET)).toEqual({ error: 'Malformed token.' });
+    });
+});
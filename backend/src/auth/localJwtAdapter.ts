@@ -0,0 +1,68 @@
+import crypto from 'crypto';
+import { RequestHandler } from 'express';
+import { AuthAdapter, Role, rolesFromClaims } from './types';
+
+// JWTs signed by this backend with AUTH_LOCAL_JWT_SECRET (HS256), for offline development and tests without
+// a Clerk tenant. Tokens come from POST /api/auth/dev/token or `npm run auth:token`; the roles are whatever
+// the token says, so this mode is refused in production. `org_id` plays the part of Clerk's active organization.
+const ISSUER = 'fundraising-qa-local';
+
+export interface LocalTokenClaims {
+    sub: string;
+    roles: Role[];
+    org_id?: string;
+    iss: string;
+    iat: number;
+    exp: number;
+}
+
+const base64url = (input: Buffer | string) => Buffer.from(input).toString('base64url');
+const sign = (data: string, secret: string) => crypto.createHmac('sha256', secret).update(data).digest('base64url');
+
+export function signLocalToken(
+    userId: string,
+    roles: Role[],
+    secret: string,
+    ttlSeconds: number,
+    orgId: string | null = null
+): { token: string; claims: LocalTokenClaims } {
+    const now = Math.floor(Date.now() / 1000);
+    const claims: LocalTokenClaims = { sub: userId, roles, ...(orgId ? { org_id: orgId } : {}), iss: ISSUER, iat: now, exp: now + ttlSeconds };
+    const unsigned = `${base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))}.${base64url(JSON.stringify(claims))}`;
+    return { token: `${unsigned}.${sign(unsigned, secret)}`, claims };
+}
+
+// The token's claims, or the reason it was rejected
+export function verifyLocalToken(token: string, secret: string): { claims: LocalTokenClaims } | { error: string } {
+    const [header, payload, signature, ...rest] = token.split('.');
+    if (!header || !payload || !signature || rest.length > 0) return { error: 'Malformed token.' };
+    const expected = Buffer.from(sign(`${header}.${payload}`, secret));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return { error: 'Invalid token signature.' };
+    try {
+        if (JSON.parse(Buffer.from(header, 'base64url').toString()).alg !== 'HS256') return { error: 'Unsupported token algorithm.' };
+        const claims = JSON.parse(Buffer.from(payload, 'base64url').toString()) as LocalTokenClaims;
+        if (claims.iss !== ISSUER || typeof claims.sub !== 'string' || !claims.sub) return { error: 'Token was not issued by this backend.' };
+        if (claims.org_id !== undefined && typeof claims.org_id !== 'string') return { error: 'Malformed token.' };
+        if (typeof claims.exp !== 'number' || claims.exp * 1000 <= Date.now()) return { error: 'Token expired.' };
+        return { claims };
+    } catch {
+        return { error: 'Malformed token.' };
+    }
+}
+
+export function createLocalJwtAdapter(secret: string): AuthAdapter {
+    const authenticate: RequestHandler = (req, res, next) => {
+        const token = req.headers.authorization?.match(/^Bearer (\S+)$/)?.[1];
+        const result = token ? verifyLocalToken(token, secret) : { error: 'Missing bearer token.' };
+        if ('error' in result) {
+            res.status(401).json({ type: "error", message: `Authentication Error: ${result.error} (E:AUTH401)` });
+            return;
+        }
+        const { claims } = result;
+        req.auth = { userId: claims.sub, sessionId: null, roles: rolesFromClaims(claims), orgId: claims.org_id || null, claims: { ...claims }, provider: 'local' };
+        next();
+    };
+
+    return { name: 'local', authenticate };
+}
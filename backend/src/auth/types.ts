@@ -0,0 +1,33 @@
+import type { RequestHandler } from 'express';
+import type { AuthMode } from '../config';
+
+// Roles, from least to most privileged. Admins pass every role check.
+export const ROLES = ['user', 'org_admin', 'admin'] as const;
+export type Role = typeof ROLES[number];
+
+// What the routes know about the caller, on req.auth after requireAuth
+export interface AuthInfo {
+    userId: string;
+    sessionId: string | null;
+    roles: Role[];                     // Always contains 'user'
+    orgId: string | null;              // The active organization, whose shared history and settings apply
+    claims: Record<string, unknown>;   // The verified token's claims, e.g. for tiers in rateLimit.ts
+    provider: AuthMode;
+}
+
+export interface AuthAdapter {
+    readonly name: AuthMode;
+    // Verifies the request's credentials and sets req.auth, or answers 401
+    authenticate: RequestHandler;
+}
+
+// Roles named in a token: `roles` (list) or `role`, at the top level or under `metadata`
+// (e.g. a Clerk custom claim "metadata": "{{user.public_metadata}}"), plus `granted` ones. Unknown names are ignored.
+export function rolesFromClaims(claims: Record<string, any>, granted: Role[] = []): Role[] {
+    const named = [claims.roles, claims.role, claims.metadata?.roles, claims.metadata?.role, granted].flat();
+    const roles = new Set<Role>(['user']);
+    for (const name of named) {
+        if ((ROLES as readonly unknown[]).includes(name)) roles.add(name);
+    }
+    return ROLES.filter(role => roles.has(role));
+}
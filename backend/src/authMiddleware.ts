@@ -1,25 +1,62 @@
-import { ClerkExpressRequireAuth, StrictAuthProp } from '@clerk/clerk-sdk-node'; // Import StrictAuthProp
-import { Request } from 'express'; // Use your project's Request type
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { createLogger } from './logger';
+import { config } from './config';
+import { getAuthAdapter, AuthInfo, Role } from './auth';
 
-// This makes Clerk's auth object available on req.auth
-// You'll need to augment the Express Request type if you want strong typing for req.auth
-// For now, you can access it as (req as any).auth or req.auth if you've augmented Request
+const logger = createLogger('Auth');
 
+// req.auth is set by requireAuth, whichever adapter (AUTH_MODE) verified the request
 declare global {
   namespace Express {
-    interface Request extends StrictAuthProp {}
+    interface Request {
+      auth?: AuthInfo;
+    }
   }
 }
 
+// Protects a route: verifies the caller with the configured auth adapter (Clerk, or local JWTs)
+// and sets req.auth, or answers 401.
+export const requireAuth: RequestHandler = (req: Request, res: Response, next: NextFunction) => {
+    getAuthAdapter().authenticate(req, res, (error?: unknown) => {
+        if (error) return next(error);
+        // Users listed in ADMIN_USER_IDS are admins whatever their token says
+        if (req.auth && config.auth.adminUserIds.includes(req.auth.userId) && !req.auth.roles.includes('admin')) {
+            req.auth.roles = [...req.auth.roles, 'admin'];
+        }
+        next();
+    });
+};
 
-// Export Clerk's middleware directly. It will handle its own type requirements.
-// You can pass options directly here if needed.
-export const requireAuth = ClerkExpressRequireAuth({
-    // onError: (err) => {
-    //   console.error('Clerk authentication error in requireAuth:', err);
-    //   // Clerk usually handles sending the 401/403 for auth failures
-    // },
-    // onUnauthenticated: (req, res) => {
-    //   res.status(401).json({ type: "error", message: "Unauthenticated."});
-    // }
-});
\ No newline at end of file
+// Admins pass every role check
+export function hasRole(req: Request, role: Role): boolean {
+    const roles = req.auth?.roles ?? [];
+    return roles.includes(role) || roles.includes('admin');
+}
+
+// Admins are the user IDs listed in ADMIN_USER_IDS (comma-separated), and users whose token carries the role
+// "admin" (`role`, `roles` or `metadata.role`, e.g. a Clerk custom claim "metadata": "{{user.public_metadata}}").
+export function isAdmin(req: Request): boolean {
+    return hasRole(req, 'admin');
+}
+
+// Routes for users with at least one of the roles. Use after requireAuth so req.auth is populated.
+export function requireRole(...roles: Role[]): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction) => {
+        if (!roles.some(role => hasRole(req, role))) {
+            logger.warn(`Route ${req.originalUrl} denied, requires ${roles.join(' or ')}.`, { userId: req.auth?.userId, roles: req.auth?.roles });
+            res.status(403).json({ type: "error", message: `This requires the ${roles.join(' or ')} role. (E:ROLE403)` });
+            return;
+        }
+        next();
+    };
+}
+
+// Admin-only routes. Use after requireAuth so req.auth is populated.
+export const requireAdmin: RequestHandler = (req: Request, res: Response, next: NextFunction) => {
+    if (!isAdmin(req)) {
+        logger.warn(`Admin route ${req.originalUrl} denied.`, { userId: req.auth?.userId });
+        res.status(403).json({ type: "error", message: "Admin access required. (E:ADM403)" });
+        return;
+    }
+    next();
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { ConfigError, assertServerConfig, loadConfig } from './config';
+
+const LOCAL_SECRET = 'spec-local-jwt-secret';
+
+describe('loadConfig auth settings', () => {
+    it('defaults to Clerk and leaves a missing key to the server check, so scripts still load', () => {
+        const config = loadConfig({ APP_ENV: 'development' });
+        expect(config.auth.mode).toBe('clerk');
+        expect(config.serverProblems).toEqual([expect.stringContaining('CLERK_SECRET_KEY is required')]);
+        expect(() => assertServerConfig(config)).toThrow(ConfigError);
+    });
+
+    it('accepts Clerk with its key', () => {
+        const config = loadConfig({ APP_ENV: 'development', CLERK_SECRET_KEY: 'sk_test_spec' });
+        expect(config.serverProblems).toEqual([]);
+        expect(() => assertServerConfig(config)).not.toThrow();
+    });
+
+    it('requires a secret of at least 16 characters for local tokens', () => {
+        expect(loadConfig({ APP_ENV: 'development', AUTH_MODE: 'local' }).serverProblems)
+            .toEqual([expect.stringContaining('AUTH_LOCAL_JWT_SECRET is required')]);
+        expect(loadConfig({ APP_ENV: 'development', AUTH_MODE: 'local', AUTH_LOCAL_JWT_SECRET: 'short' }).serverProblems)
+            .toEqual([expect.stringContaining('at least 16 characters')]);
+        expect(loadConfig({ APP_ENV: 'development', AUTH_MODE: 'local', AUTH_LOCAL_JWT_SECRET: LOCAL_SECRET }).serverProblems).toEqual([]);
+    });
+
+    it('refuses local tokens in production', () => {
+        const config = loadConfig({
+            APP_ENV: 'production', AUTH_MODE: 'local', AUTH_LOCAL_JWT_SECRET: LOCAL_SECRET,
+            MONGODB_URI: 'mongodb://localhost/spec', CORS_ORIGINS: 'https://app.example.com', LLM_PROVIDER_CHAIN: 'mock',
+        });
+        expect(config.serverProblems).toEqual([expect.stringContaining('must not be used in production')]);
+    });
+
+    it('runs the test profile with its built-in local secret', () => {
+        const config = loadConfig({ APP_ENV: 'test' });
+        expect(config.auth.mode).toBe('local');
+        expect(config.serverProblems).toEqual([]);
+    });
+});
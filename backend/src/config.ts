@@ -0,0 +1,514 @@
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+
+// The backend's settings, read once from the environment and dotenv files, validated and typed.
+// Every module takes its values from `config` instead of reading process.env.
+//
+// The profile comes from APP_ENV (development, test or production), otherwise from NODE_ENV ("production"
+// and "test" map to those profiles, anything else is development). Files are read from the working directory,
+// earlier ones winning, and never override variables that are already set:
+//   .env.<profile>.local, .env.local (not in test), .env.<profile>, .env
+// Each profile has its own defaults (PROFILE_DEFAULTS). Invalid values, and in production missing secrets,
+// stop the startup with a ConfigError that lists every problem; elsewhere missing secrets are warnings.
+// Auth settings only matter to the server: assertServerConfig() checks them when it starts, in every
+// profile, so CLI scripts (ingest, eval) run offline without Clerk.
+
+export type ConfigProfile = 'development' | 'test' | 'production';
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type InjectionPolicy = 'block' | 'warn';
+export type AuthMode = 'clerk' | 'local';
+
+export const PROVIDER_NAMES = ['openrouter', 'googleai', 'local', 'mock', 'recorded'] as const;
+export type ProviderName = typeof PROVIDER_NAMES[number];
+
+// Timeout and retries for one provider: LLM_<NAME>_TIMEOUT_MS and LLM_<NAME>_RETRIES
+export interface ProviderCallConfig {
+    timeoutMs: number;
+    retries: number; // Extra attempts on the same provider before moving to the next one
+}
+
+export interface ModelPriceConfig {
+    prompt: number;      // USD per million prompt tokens
+    completion: number;  // USD per million completion tokens
+}
+
+export interface TierLimitsConfig {
+    windowSeconds?: number;
+    maxPerWindow?: number | null;
+    dailyQuota?: number | null;
+}
+
+export interface AppConfig {
+    profile: ConfigProfile;
+    envFiles: string[];                   // Dotenv files that were read
+    server: {
+        port: number;
+        corsOrigins: string[] | '*';      // '*' allows any origin
+        connectDatabaseOnStart: boolean;  // Off in tests and on serverless platforms, which connect per request
+        listen: boolean;                  // Off in tests, which call the exported app, and on AWS Lambda, where the platform calls it
+    };
+    database: {
+        mongoUri: string | null;
+    };
+    auth: {
+        mode: AuthMode;                   // 'local' verifies JWTs signed with localJwtSecret, for offline development and tests
+        clerkSecretKey: string | null;
+        localJwtSecret: string | null;
+        localTokenTtlSeconds: number;
+        adminUserIds: string[];
+    };
+    logging: {
+        level: LogLevel;
+        format: 'json' | 'pretty';
+        includeContent: boolean;
+    };
+    tracing: {
+        otlpEndpoint: string | null;
+        serviceName: string;
+    };
+    llm: {
+        providerChain: ProviderName[];
+        repairAttempts: number;
+        conversationHistoryTokenBudget: number; // Rough budget for earlier turns, at ~4 characters per token
+        circuitFailureThreshold: number;
+        circuitCooldownMs: number;
+        priceOverrides: Record<string, ModelPriceConfig>;
+        openrouter: ProviderCallConfig & { apiKey: string | null; model: string; siteUrl: string; appName: string };
+        googleai: ProviderCallConfig & { apiKey: string | null; model: string };
+        local: ProviderCallConfig & { baseUrl: string; model: string; apiKey: string | null; jsonMode: boolean };
+        mock: ProviderCallConfig;
+        recorded: ProviderCallConfig & { recordingsFile: string | null };
+    };
+    knowledgeBase: {
+        retrievalTopK: number;
+        contextMaxChars: number;          // Budget for the sections put in the prompt
+        refreshIntervalMs: number;
+        uploadLimit: string;
+        contentOverride: string | null;
+    };
+    answerCache: {
+        store: 'mongo' | 'memory' | 'off';
+        ttlMs: number;
+        maxEntries: number;               // Memory store only
+        similarityThreshold: number;      // 0 disables near-duplicate matching
+    };
+    triage: {
+        enabled: boolean;
+        minCoverage: number;
+        minTermFrequency: number;
+        blockedTerms: string[];
+    };
+    grounding: {
+        enabled: boolean;
+        minConfidence: number;
+        quoteMinSimilarity: number;
+    };
+    promptInjection: {
+        policy: InjectionPolicy;
+        knowledgeBasePolicy: InjectionPolicy;
+    };
+    rateLimit: {
+        enabled: boolean;
+        defaultTier: string;
+        tierOverrides: Record<string, TierLimitsConfig>;
+        userTiers: Record<string, string>;
+    };
+    history: {
+        pageSize: number;
+        maxPageSize: number;
+        exportMaxEntries: number;
+        exportMaxIds: number;
+    };
+    warnings: string[];                   // Settings worth a look that didn't stop the startup
+    serverProblems: string[];             // Auth problems: assertServerConfig() refuses to serve with them, scripts ignore them
+}
+
+// Thrown at startup when the configuration can't be used
+export class ConfigError extends Error {
+    constructor(public readonly profile: ConfigProfile, public readonly problems: string[]) {
+        super(`Invalid configuration (${profile} profile):\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+        this.name = 'ConfigError';
+    }
+}
+
+// Used when a variable is not set; values set in the environment or a dotenv file always win
+const PROFILE_DEFAULTS: Record<ConfigProfile, Record<string, string>> = {
+    development: {
+        LOG_FORMAT: 'pretty',
+    },
+    test: {
+        AUTH_MODE: 'local',
+        AUTH_LOCAL_JWT_SECRET: 'test-profile-local-jwt-secret', // Tests sign their own tokens; never a deployment's secret
+        LLM_PROVIDER_CHAIN: 'mock',
+        ANSWER_CACHE_STORE: 'memory',
+        RATE_LIMIT_ENABLED: 'false',
+        LOG_LEVEL: 'warn',
+    },
+    production: {},
+};
+
+const DEFAULT_PROVIDER_CALLS: Record<ProviderName, ProviderCallConfig> = {
+    openrouter: { timeoutMs: 75000, retries: 0 }, // Long timeout for potentially slower free models
+    googleai: { timeoutMs: 60000, retries: 0 },
+    local: { timeoutMs: 120000, retries: 0 },
+    mock: { timeoutMs: 5000, retries: 0 },
+    recorded: { timeoutMs: 5000, retries: 0 },
+};
+
+// API keys needed by the providers that call a hosted service
+const PROVIDER_KEYS: Partial<Record<ProviderName, string>> = { openrouter: 'OPENROUTER_API_KEY', googleai: 'GOOGLE_AI_API_KEY' };
+
+function resolveProfile(env: NodeJS.ProcessEnv, problems: string[]): ConfigProfile {
+    const appEnv = env.APP_ENV?.trim();
+    if (appEnv) {
+        if (appEnv === 'development' || appEnv === 'test' || appEnv === 'production') return appEnv;
+        problems.push(`APP_ENV must be one of development, test, production (got "${appEnv}").`);
+    }
+    if (env.NODE_ENV === 'production') return 'production';
+    if (env.NODE_ENV === 'test') return 'test';
+    return 'development';
+}
+
+function loadEnvFiles(profile: ConfigProfile, directory: string = process.cwd()): string[] {
+    const files = [`.env.${profile}.local`, ...(profile === 'test' ? [] : ['.env.local']), `.env.${profile}`, '.env'];
+    return files.filter(file => {
+        const filePath = path.join(directory, file);
+        if (!fs.existsSync(filePath)) return false;
+        dotenv.config({ path: filePath });
+        return true;
+    });
+}
+
+// Reads typed values, recording a problem (and returning the fallback) for anything invalid
+class EnvReader {
+    constructor(
+        private readonly env: NodeJS.ProcessEnv,
+        private readonly defaults: Record<string, string>,
+        readonly problems: string[]
+    ) {}
+
+    raw(name: string): string | undefined {
+        const value = this.env[name]?.trim();
+        return value ? value : this.defaults[name];
+    }
+
+    string(name: string, fallback: string): string {
+        return this.raw(name) ?? fallback;
+    }
+
+    optional(name: string): string | null {
+        return this.raw(name) ?? null;
+    }
+
+    integer(name: string, fallback: number, min = 0, max = Number.MAX_SAFE_INTEGER): number {
+        const value = this.raw(name);
+        if (value === undefined) return fallback;
+        const parsed = Number(value);
+        if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+            this.problems.push(`${name} must be an integer${max === Number.MAX_SAFE_INTEGER ? ` of at least ${min}` : ` between ${min} and ${max}`} (got "${value}").`);
+            return fallback;
+        }
+        return parsed;
+    }
+
+    rate(name: string, fallback: number): number {
+        const value = this.raw(name);
+        if (value === undefined) return fallback;
+        const parsed = Number(value);
+        if (!Number.isFinite(parsed) || parsed < 0 || parsed > 1) {
+            this.problems.push(`${name} must be a number between 0 and 1 (got "${value}").`);
+            return fallback;
+        }
+        return parsed;
+    }
+
+    boolean(name: string, fallback: boolean): boolean {
+        const value = this.raw(name)?.toLowerCase();
+        if (value === undefined) return fallback;
+        if (value === 'true' || value === '1') return true;
+        if (value === 'false' || value === '0') return false;
+        this.problems.push(`${name} must be true or false (got "${value}").`);
+        return fallback;
+    }
+
+    oneOf<T extends string>(name: string, allowed: readonly T[], fallback: T): T {
+        const value = this.raw(name)?.toLowerCase();
+        if (value === undefined) return fallback;
+        if ((allowed as readonly string[]).includes(value)) return value as T;
+        this.problems.push(`${name} must be one of ${allowed.join(', ')} (got "${value}").`);
+        return fallback;
+    }
+
+    list(name: string): string[] {
+        return (this.raw(name) ?? '').split(',').map(item => item.trim()).filter(Boolean);
+    }
+
+    url(name: string): string | null {
+        const value = this.raw(name);
+        if (value === undefined) return null;
+        if (!/^https?:\/\/\S+$/.test(value)) {
+            this.problems.push(`${name} must be an http(s) URL (got "${value}").`);
+            return null;
+        }
+        return value.replace(/\/+$/, '');
+    }
+
+    // Body size limits as understood by Express, e.g. 500kb or 10mb
+    size(name: string, fallback: string): string {
+        const value = this.raw(name);
+        if (value === undefined) return fallback;
+        if (!/^\d+(\.\d+)?\s*(b|kb|mb|gb)?$/i.test(value)) {
+            this.problems.push(`${name} must be a size such as 500kb or 10mb (got "${value}").`);
+            return fallback;
+        }
+        return value;
+    }
+
+    json(name: string): unknown {
+        const value = this.raw(name);
+        if (value === undefined) return undefined;
+        try {
+            return JSON.parse(value);
+        } catch (error: any) {
+            this.problems.push(`${name} is not valid JSON (${error.message}).`);
+            return undefined;
+        }
+    }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isLimit = (value: unknown) => value === null || (typeof value === 'number' && Number.isInteger(value) && value >= 0);
+
+function readPriceOverrides(env: EnvReader): Record<string, ModelPriceConfig> {
+    const table = env.json('LLM_PRICE_TABLE');
+    if (table === undefined) return {};
+    if (!isObject(table)) {
+        env.problems.push('LLM_PRICE_TABLE must be a JSON object keyed by model id.');
+        return {};
+    }
+    const prices: Record<string, ModelPriceConfig> = {};
+    for (const [model, price] of Object.entries(table)) {
+        if (isObject(price) && typeof price.prompt === 'number' && typeof price.completion === 'number' && price.prompt >= 0 && price.completion >= 0) {
+            prices[model] = { prompt: price.prompt, completion: price.completion };
+        } else {
+            env.problems.push(`LLM_PRICE_TABLE entry '${model}' must be { "prompt": number, "completion": number } in USD per million tokens.`);
+        }
+    }
+    return prices;
+}
+
+function readTierOverrides(env: EnvReader): Record<string, TierLimitsConfig> {
+    const tiers = env.json('RATE_LIMIT_TIERS');
+    if (tiers === undefined) return {};
+    if (!isObject(tiers)) {
+        env.problems.push('RATE_LIMIT_TIERS must be a JSON object keyed by tier name.');
+        return {};
+    }
+    const overrides: Record<string, TierLimitsConfig> = {};
+    for (const [tier, limits] of Object.entries(tiers)) {
+        const valid = isObject(limits)
+            && (limits.windowSeconds === undefined || (typeof limits.windowSeconds === 'number' && Number.isInteger(limits.windowSeconds) && limits.windowSeconds > 0))
+            && (limits.maxPerWindow === undefined || isLimit(limits.maxPerWindow))
+            && (limits.dailyQuota === undefined || isLimit(limits.dailyQuota));
+        if (valid) overrides[tier] = limits as TierLimitsConfig;
+        else env.problems.push(`RATE_LIMIT_TIERS entry '${tier}' must only set windowSeconds (positive integer), maxPerWindow and dailyQuota (integer or null).`);
+    }
+    return overrides;
+}
+
+// "user_abc:pro,user_def:unlimited"
+function readUserTiers(env: EnvReader): Record<string, string> {
+    const userTiers: Record<string, string> = {};
+    for (const pair of env.list('RATE_LIMIT_USER_TIERS')) {
+        const [userId, tier, ...rest] = pair.split(':').map(part => part.trim());
+        if (userId && tier && rest.length === 0) userTiers[userId] = tier;
+        else env.problems.push(`RATE_LIMIT_USER_TIERS entries must look like user_id:tier (got "${pair}").`);
+    }
+    return userTiers;
+}
+
+function readProviderChain(env: EnvReader): ProviderName[] {
+    const names = env.list('LLM_PROVIDER_CHAIN').map(name => name.toLowerCase());
+    const chain = names.length > 0 ? names : ['openrouter', 'googleai'];
+    const unknown = chain.filter(name => !(PROVIDER_NAMES as readonly string[]).includes(name));
+    if (unknown.length > 0) {
+        env.problems.push(`LLM_PROVIDER_CHAIN has unknown provider(s) ${unknown.join(', ')}. Known: ${PROVIDER_NAMES.join(', ')}.`);
+    }
+    return chain.filter((name): name is ProviderName => (PROVIDER_NAMES as readonly string[]).includes(name));
+}
+
+function readProviderCall(env: EnvReader, name: ProviderName): ProviderCallConfig {
+    const prefix = `LLM_${name.toUpperCase()}`;
+    return {
+        timeoutMs: env.integer(`${prefix}_TIMEOUT_MS`, DEFAULT_PROVIDER_CALLS[name].timeoutMs, 1),
+        retries: env.integer(`${prefix}_RETRIES`, DEFAULT_PROVIDER_CALLS[name].retries, 0, 10),
+    };
+}
+
+// Loads the dotenv files for the profile, then reads and validates every setting. Throws a ConfigError
+// listing all problems at once, so a misconfigured deployment can be fixed in one go.
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): AppConfig {
+    const problems: string[] = [];
+    const warnings: string[] = [];
+    const profile = resolveProfile(env, problems);
+    const envFiles = env === process.env ? loadEnvFiles(profile) : [];
+    const read = new EnvReader(env, PROFILE_DEFAULTS[profile], problems);
+    const production = profile === 'production';
+
+    // Required in production, a warning elsewhere
+    const secret = (name: string, consequence: string): string | null => {
+        const value = read.optional(name);
+        if (!value) {
+            if (production) problems.push(`${name} is required in production (without it ${consequence}).`);
+            else warnings.push(`${name} is not set: ${consequence}.`);
+        }
+        return value;
+    };
+
+    const mongoUri = secret('MONGODB_URI', 'history, feedback, quotas and knowledge base documents are disabled');
+    if (mongoUri && !/^mongodb(\+srv)?:\/\//.test(mongoUri)) problems.push('MONGODB_URI must start with mongodb:// or mongodb+srv://.');
+
+    // Clerk unless local tokens are asked for (AUTH_MODE=local), so a deployment that lost its Clerk key refuses to
+    // start instead of handing out self-signed tokens. Only the test profile has a built-in local secret.
+    const authMode = read.oneOf<AuthMode>('AUTH_MODE', ['clerk', 'local'], 'clerk');
+    const clerkSecretKey = read.optional('CLERK_SECRET_KEY');
+    const serverProblems: string[] = [];
+    if (authMode === 'clerk' && !clerkSecretKey) {
+        serverProblems.push('CLERK_SECRET_KEY is required with AUTH_MODE=clerk (the default). To develop without Clerk, set AUTH_MODE=local and AUTH_LOCAL_JWT_SECRET.');
+    }
+    if (authMode === 'local' && production) serverProblems.push('AUTH_MODE=local must not be used in production: anyone could sign their own tokens with a shared secret.');
+    const localJwtSecret = read.optional('AUTH_LOCAL_JWT_SECRET');
+    if (authMode === 'local' && !localJwtSecret) serverProblems.push('AUTH_LOCAL_JWT_SECRET is required with AUTH_MODE=local: the secret local tokens are signed with.');
+    if (localJwtSecret && localJwtSecret.length < 16) serverProblems.push('AUTH_LOCAL_JWT_SECRET must be at least 16 characters.');
+
+    const corsOrigins = read.list('CORS_ORIGINS');
+    if (corsOrigins.length === 0 && production) problems.push('CORS_ORIGINS is required in production: the frontend origins allowed to call the API, comma-separated (or * for any).');
+
+    const providerChain = readProviderChain(read);
+    const missingKeys = providerChain.filter(name => PROVIDER_KEYS[name] && !read.raw(PROVIDER_KEYS[name]!));
+    if (production && providerChain.length > 0 && missingKeys.length === providerChain.length) {
+        problems.push(`No provider in LLM_PROVIDER_CHAIN can answer: set ${missingKeys.map(name => PROVIDER_KEYS[name]).join(' or ')}.`);
+    } else {
+        missingKeys.forEach(name => warnings.push(`${PROVIDER_KEYS[name]} is not set, so '${name}' in LLM_PROVIDER_CHAIN will be skipped.`));
+    }
+
+    const logging = {
+        level: read.oneOf<LogLevel>('LOG_LEVEL', ['debug', 'info', 'warn', 'error'], 'info'),
+        format: read.oneOf('LOG_FORMAT', ['json', 'pretty'] as const, 'json'),
+        includeContent: read.boolean('LOG_INCLUDE_CONTENT', false),
+    };
+    if (logging.includeContent && production) problems.push('LOG_INCLUDE_CONTENT must not be enabled in production: it writes questions and answers to the logs.');
+
+    const history = {
+        pageSize: read.integer('HISTORY_PAGE_SIZE', 20, 1),
+        maxPageSize: read.integer('HISTORY_MAX_PAGE_SIZE', 100, 1),
+        exportMaxEntries: read.integer('HISTORY_EXPORT_MAX_ENTRIES', 1000, 1),
+        exportMaxIds: read.integer('HISTORY_EXPORT_MAX_IDS', 500, 1),
+    };
+    if (history.pageSize > history.maxPageSize) problems.push(`HISTORY_PAGE_SIZE (${history.pageSize}) must not exceed HISTORY_MAX_PAGE_SIZE (${history.maxPageSize}).`);
+
+    const serverless = !!read.raw('AWS_LAMBDA_FUNCTION_NAME');
+    const config: AppConfig = {
+        profile,
+        envFiles,
+        server: {
+            port: read.integer('PORT', 3005, 1, 65535),
+            corsOrigins: corsOrigins.length === 0 || corsOrigins.includes('*') ? '*' : corsOrigins,
+            connectDatabaseOnStart: profile !== 'test' && !read.raw('IS_OFFLINE') && !serverless,
+            listen: profile !== 'test' && !serverless,
+        },
+        database: { mongoUri },
+        auth: {
+            mode: authMode,
+            clerkSecretKey,
+            localJwtSecret,
+            localTokenTtlSeconds: read.integer('AUTH_LOCAL_TOKEN_TTL_SECONDS', 8 * 60 * 60, 60),
+            adminUserIds: read.list('ADMIN_USER_IDS'),
+        },
+        logging,
+        tracing: {
+            otlpEndpoint: read.url('OTEL_EXPORTER_OTLP_TRACES_ENDPOINT') ?? read.url('OTEL_EXPORTER_OTLP_ENDPOINT'),
+            serviceName: read.string('OTEL_SERVICE_NAME', 'fundraising-qa-backend'),
+        },
+        llm: {
+            providerChain,
+            repairAttempts: read.integer('LLM_REPAIR_ATTEMPTS', 1, 0, 5),
+            conversationHistoryTokenBudget: read.integer('CONVERSATION_HISTORY_TOKEN_BUDGET', 1500, 0),
+            circuitFailureThreshold: read.integer('LLM_CIRCUIT_FAILURE_THRESHOLD', 3, 1),
+            circuitCooldownMs: read.integer('LLM_CIRCUIT_COOLDOWN_MS', 60000, 0),
+            priceOverrides: readPriceOverrides(read),
+            openrouter: {
+                ...readProviderCall(read, 'openrouter'),
+                apiKey: read.optional('OPENROUTER_API_KEY'),
+                model: read.string('OPENROUTER_MODEL', 'google/gemma-3-27b-it:free'),
+                siteUrl: read.string('YOUR_SITE_URL', 'http://localhost:3000'),
+                appName: read.string('YOUR_APP_NAME', 'FundraisingQABot-OR'),
+            },
+            googleai: {
+                ...readProviderCall(read, 'googleai'),
+                apiKey: read.optional('GOOGLE_AI_API_KEY'),
+                model: read.string('GOOGLE_AI_MODEL', 'gemini-2.0-flash'),
+            },
+            local: {
+                ...readProviderCall(read, 'local'),
+                baseUrl: read.url('LOCAL_LLM_BASE_URL') ?? 'http://localhost:11434/v1', // Ollama's default
+                model: read.string('LOCAL_LLM_MODEL', 'llama3.1'),
+                apiKey: read.optional('LOCAL_LLM_API_KEY'),
+                jsonMode: read.boolean('LOCAL_LLM_JSON_MODE', true),
+            },
+            mock: readProviderCall(read, 'mock'),
+            recorded: {
+                ...readProviderCall(read, 'recorded'),
+                recordingsFile: read.optional('LLM_RECORDINGS_FILE'),
+            },
+        },
+        knowledgeBase: {
+            retrievalTopK: read.integer('KB_RETRIEVAL_TOP_K', 5, 1, 50),
+            contextMaxChars: read.integer('KB_CONTEXT_MAX_CHARS', 12000, 500),
+            refreshIntervalMs: read.integer('KB_REFRESH_INTERVAL_MS', 30000, 0),
+            uploadLimit: read.size('KB_UPLOAD_LIMIT', '10mb'),
+            contentOverride: env.KNOWLEDGE_BASE_CONTENT_OVERRIDE || null, // Not trimmed: it is the document itself
+        },
+        answerCache: {
+            store: read.oneOf('ANSWER_CACHE_STORE', ['mongo', 'memory', 'off'] as const, 'mongo'),
+            ttlMs: read.integer('ANSWER_CACHE_TTL_SECONDS', 24 * 60 * 60, 1) * 1000,
+            maxEntries: read.integer('ANSWER_CACHE_MAX_ENTRIES', 1000, 1),
+            similarityThreshold: read.rate('ANSWER_CACHE_SIMILARITY_THRESHOLD', 0),
+        },
+        triage: {
+            enabled: read.boolean('TRIAGE_ENABLED', true),
+            minCoverage: read.rate('TRIAGE_MIN_COVERAGE', 0.6),
+            minTermFrequency: read.integer('TRIAGE_MIN_TERM_FREQUENCY', 3, 1),
+            blockedTerms: read.list('TRIAGE_BLOCKED_TERMS').map(term => term.toLowerCase()),
+        },
+        grounding: {
+            enabled: read.boolean('GROUNDING_ENABLED', true),
+            minConfidence: read.rate('GROUNDING_MIN_CONFIDENCE', 0.5),
+            quoteMinSimilarity: read.rate('GROUNDING_QUOTE_MIN_SIMILARITY', 0.8),
+        },
+        promptInjection: {
+            policy: read.oneOf<InjectionPolicy>('PROMPT_INJECTION_POLICY', ['block', 'warn'], 'block'),
+            knowledgeBasePolicy: read.oneOf<InjectionPolicy>('PROMPT_INJECTION_KB_POLICY', ['block', 'warn'], 'warn'),
+        },
+        rateLimit: {
+            enabled: read.boolean('RATE_LIMIT_ENABLED', true),
+            defaultTier: read.string('RATE_LIMIT_DEFAULT_TIER', 'free'),
+            tierOverrides: readTierOverrides(read),
+            userTiers: readUserTiers(read),
+        },
+        history,
+        warnings,
+        serverProblems,
+    };
+
+    if (problems.length > 0) throw new ConfigError(profile, problems);
+    return config;
+}
+
+export const config: AppConfig = loadConfig();
+
+// Called by the server before it serves requests: stops it with a ConfigError while auth is misconfigured
+export function assertServerConfig(appConfig: AppConfig = config): void {
+    if (appConfig.serverProblems.length > 0) throw new ConfigError(appConfig.profile, appConfig.serverProblems);
+}
@@ -1,12 +1,11 @@
 import mongoose from 'mongoose';
-import dotenv from 'dotenv';
+import { createLogger } from './logger';
+import { withSpan } from './tracing';
+import { config } from './config';
 
-dotenv.config(); // Ensures .env variables are loaded
+const logger = createLogger('DB');
 
-const MONGODB_URI = 'API-KEY'
-if (!MONGODB_URI) {
-    console.error("CRITICAL: MONGODB_URI is not defined in environment variables. Database functionality will be disabled.");
-}
+const MONGODB_URI = config.database.mongoUri; // A missing value is reported by config at startup
 
 // Mongoose connection options (Mongoose 6+ has different defaults, some old options are deprecated)
 const mongooseOptions = {
@@ -23,38 +22,38 @@ let isConnected: boolean = false;
 
 export const connectToDatabase = async (): Promise<void> => {
     if (isConnected) {
-        console.log('[DB] Already connected to MongoDB.');
+        logger.debug('Already connected to MongoDB.');
         return;
     }
 
     if (!MONGODB_URI) {
-        console.warn("[DB] MONGODB_URI not set. Skipping database connection.");
+        logger.warn("MONGODB_URI not set. Skipping database connection.");
         return;
     }
 
     try {
-        console.log('[DB] Attempting to connect to MongoDB Atlas...');
+        logger.info('Attempting to connect to MongoDB Atlas...');
         await mongoose.connect(MONGODB_URI, mongooseOptions);
         isConnected = true;
-        console.log('[DB] Successfully connected to MongoDB Atlas.');
+        logger.info('Successfully connected to MongoDB Atlas.');
 
         mongoose.connection.on('error', (err) => {
-            console.error('[DB] MongoDB connection error after initial connection:', err);
+            logger.error('MongoDB connection error after initial connection.', { error: err });
             isConnected = false; // Update status on error
         });
 
         mongoose.connection.on('disconnected', () => {
-            console.log('[DB] MongoDB disconnected.');
+            logger.warn('MongoDB disconnected.');
             isConnected = false; // Update status on disconnection
         });
 
         mongoose.connection.on('reconnected', () => {
-            console.log('[DB] MongoDB reconnected.');
+            logger.info('MongoDB reconnected.');
             isConnected = true; // Update status on reconnection
         });
 
     } catch (error) {
-        console.error('[DB] Error connecting to MongoDB Atlas during initial setup:', error);
+        logger.error('Error connecting to MongoDB Atlas during initial setup.', { error });
         isConnected = false;
         // Depending on the context, you might want to throw the error
         // to prevent the application from starting if DB is critical.
@@ -66,11 +65,12 @@ export const connectToDatabase = async (): Promise<void> => {
 // Optional: Helper to ensure connection before an operation.
 // This can be useful in Lambda environments where you want to ensure the connection
 // is active before each DB operation, handling reconnections if needed.
-export const ensureDbConnection = async (): Promise<void> => {
+export const ensureDbConnection = (): Promise<void> => withSpan('db.ensure_connection', {}, async span => {
+    span.setAttribute('db.connected', isConnected);
     if (!isConnected && MONGODB_URI) {
-        console.log("[DB] Connection lost or not established. Attempting to reconnect...");
+        logger.info("Connection lost or not established. Attempting to reconnect...");
         await connectToDatabase();
     } else if (!MONGODB_URI) {
-        console.warn("[DB] Cannot ensure DB connection: MONGODB_URI not set.");
+        logger.warn("Cannot ensure DB connection: MONGODB_URI not set.");
     }
-};
+});
@@ -0,0 +1,42 @@
+import fs from 'fs';
+import { AnswerType, GoldenCase, GoldenSet } from './types';
+
+const ANSWER_TYPES: readonly AnswerType[] = ['text', 'list', 'table', 'steps', 'comparison'];
+
+// Reads and checks a golden set file. Mistakes in the file are reported all at once rather than
+// surfacing as confusing scores halfway through a paid run.
+export function loadGoldenSet(filePath: string): GoldenSet {
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    const problems: string[] = [];
+
+    if (!Number.isInteger(data?.version) || data.version < 1) problems.push('"version" must be a positive integer.');
+    if (!Array.isArray(data?.cases) || data.cases.length === 0) problems.push('"cases" must be a non-empty array.');
+
+    const seenIds = new Set<string>();
+    const cases: GoldenCase[] = Array.isArray(data?.cases) ? data.cases : [];
+    cases.forEach((goldenCase, index) => {
+        const label = `cases[${index}]${typeof goldenCase?.id === 'string' ? ` (${goldenCase.id})` : ''}`;
+        if (typeof goldenCase?.id !== 'string' || !goldenCase.id) problems.push(`${label}: "id" is required.`);
+        else if (seenIds.has(goldenCase.id)) problems.push(`${label}: duplicate id.`);
+        else seenIds.add(goldenCase.id);
+        if (typeof goldenCase?.question !== 'string' || !goldenCase.question.trim()) problems.push(`${label}: "question" is required.`);
+        if (goldenCase?.category !== 'in_scope' && goldenCase?.category !== 'out_of_scope') problems.push(`${label}: "category" must be "in_scope" or "out_of_scope".`);
+        if (goldenCase?.expectedType !== undefined) {
+            const types: unknown[] = Array.isArray(goldenCase.expectedType) ? goldenCase.expectedType : [goldenCase.expectedType];
+            if (types.length === 0 || types.some(type => !ANSWER_TYPES.includes(type as AnswerType))) {
+                problems.push(`${label}: "expectedType" must be one of ${ANSWER_TYPES.map(type => `"${type}"`).join(', ')} or an array of them.`);
+            }
+        }
+        if (goldenCase?.expectedSectionIds !== undefined && !Array.isArray(goldenCase.expectedSectionIds)) {
+            problems.push(`${label}: "expectedSectionIds" must be an array.`);
+        }
+        if (goldenCase?.category === 'out_of_scope' && (goldenCase.expectedPassage || goldenCase.expectedSectionIds?.length)) {
+            problems.push(`${label}: out-of-scope cases can't expect a passage or section.`);
+        }
+    });
+
+    if (problems.length > 0) {
+        throw new Error(`Invalid golden set ${filePath}:\n  ${problems.join('\n  ')}`);
+    }
+    return data as GoldenSet;
+}
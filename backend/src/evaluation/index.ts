@@ -0,0 +1,79 @@
+import { getAnswerFromLLM, describeAnswerPipeline, LLMStructuredResponse } from '../llmService';
+import { KnowledgeBaseRef } from '../knowledgeBase';
+import { triageQuestion, triagedAnswer, TriageCategory } from '../triage';
+import { scoreCase, summarize } from './scoring';
+import { CaseResult, EvaluationReport, GoldenSet } from './types';
+
+export interface EvaluationOptions {
+    goldenSetFile: string;
+    providerChain: string;
+    minPassageOverlap: number;
+    onCaseDone?: (result: CaseResult, index: number, total: number) => void;
+}
+
+// Asks every question of the golden set as the first question of a new thread, one at a time so
+// latencies are comparable and free-tier rate limits aren't hit in bursts.
+export async function runEvaluation(goldenSet: GoldenSet, options: EvaluationOptions): Promise<EvaluationReport> {
+    const startedAt = new Date();
+    const results: CaseResult[] = [];
+    let knowledgeBase: KnowledgeBaseRef | null = null;
+
+    for (const [index, goldenCase] of goldenSet.cases.entries()) {
+        const caseStartedAt = Date.now();
+        let response: LLMStructuredResponse;
+        let provider: string | null = null;
+        let model: string | null = null;
+        let triage: TriageCategory = 'in_scope';
+        try {
+            // Triaged like /api/ask does, so off-topic cases measure the whole pipeline
+            const decision = await triageQuestion(goldenCase.question);
+            triage = decision.category;
+            const answer = triage === 'in_scope' ? await getAnswerFromLLM(goldenCase.question) : await triagedAnswer(decision, goldenCase.question);
+            response = answer.response;
+            provider = answer.metadata.provider;
+            model = answer.metadata.model;
+            knowledgeBase = knowledgeBase ?? answer.metadata.knowledgeBase;
+        } catch (error: any) {
+            response = { type: "error", message: `Evaluation call failed: ${error.message || 'Unknown error'}` };
+        }
+
+        const { scores, failures } = scoreCase(goldenCase, response, options.minPassageOverlap);
+        const result: CaseResult = {
+            id: goldenCase.id,
+            question: goldenCase.question,
+            category: goldenCase.category,
+            passed: failures.length === 0,
+            failures,
+            scores,
+            triage,
+            provider,
+            model,
+            latencyMs: Date.now() - caseStartedAt,
+            response,
+        };
+        results.push(result);
+        options.onCaseDone?.(result, index, goldenSet.cases.length);
+    }
+
+    const pipeline = describeAnswerPipeline();
+    return {
+        reportVersion: 1,
+        goldenSet: { file: options.goldenSetFile, version: goldenSet.version, caseCount: goldenSet.cases.length },
+        run: {
+            startedAt: startedAt.toISOString(),
+            finishedAt: new Date().toISOString(),
+            providerChain: options.providerChain,
+            providers: pipeline.providers,
+            promptHash: pipeline.promptHash,
+            knowledgeBase,
+            minPassageOverlap: options.minPassageOverlap,
+        },
+        summary: summarize(results),
+        cases: results,
+    };
+}
+
+export { loadGoldenSet } from './goldenSet';
+export { compareReports, renderMarkdownReport } from './report';
+export { DEFAULT_MIN_PASSAGE_OVERLAP } from './scoring';
+export type { EvaluationReport, GoldenSet, CaseResult, ReportComparison } from './types';
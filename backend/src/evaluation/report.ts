@@ -0,0 +1,106 @@
+import { CaseChange, EvaluationReport, ReportComparison } from './types';
+
+// Cases are matched by id, so reordering or rewording the golden set keeps runs comparable.
+// Scores of cases whose question changed are still compared; bump the set version when that happens.
+export function compareReports(current: EvaluationReport, baseline: EvaluationReport): ReportComparison {
+    const baselineCases = new Map(baseline.cases.map(result => [result.id, result]));
+    const currentIds = new Set(current.cases.map(result => result.id));
+    const changes: CaseChange[] = [];
+
+    for (const result of current.cases) {
+        const previous = baselineCases.get(result.id);
+        if (!previous) changes.push({ id: result.id, change: 'added', failures: result.failures });
+        else if (previous.passed && !result.passed) changes.push({ id: result.id, change: 'regressed', failures: result.failures });
+        else if (!previous.passed && result.passed) changes.push({ id: result.id, change: 'fixed', failures: [] });
+    }
+    for (const previous of baseline.cases) {
+        if (!currentIds.has(previous.id)) changes.push({ id: previous.id, change: 'removed', failures: [] });
+    }
+
+    const overlapNow = current.summary.meanPassageOverlap;
+    const overlapBefore = baseline.summary.meanPassageOverlap;
+    return {
+        baseline: {
+            startedAt: baseline.run.startedAt,
+            goldenSetVersion: baseline.goldenSet.version,
+            promptHash: baseline.run.promptHash,
+            providerChain: baseline.run.providerChain,
+        },
+        summaryDelta: {
+            passRate: current.summary.passRate - baseline.summary.passRate,
+            meanPassageOverlap: overlapNow !== null && overlapBefore !== null ? overlapNow - overlapBefore : null,
+            meanLatencyMs: current.summary.meanLatencyMs - baseline.summary.meanLatencyMs,
+        },
+        changes,
+    };
+}
+
+// --- Markdown ---
+const percent = (value: number | null) => value === null ? 'n/a' : `${(value * 100).toFixed(1)}%`;
+const signed = (value: number, format: (n: number) => string) => `${value >= 0 ? '+' : ''}${format(value)}`;
+const check = (value: boolean | null) => value === null ? '–' : value ? '✓' : '✗';
+const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\s+/g, ' ');
+
+export function renderMarkdownReport(report: EvaluationReport, comparison?: ReportComparison): string {
+    const { summary, run } = report;
+    const lines: string[] = [
+        `# Evaluation report`,
+        '',
+        `- Golden set: \`${report.goldenSet.file}\` v${report.goldenSet.version} (${report.goldenSet.caseCount} cases)`,
+        `- Run: ${run.startedAt} → ${run.finishedAt}`,
+        `- Providers: ${run.providers.map(provider => `${provider.name} (${provider.model})`).join(' → ') || 'none'}`,
+        `- Prompt hash: \`${run.promptHash.substring(0, 12)}\``,
+        `- Knowledge base: ${run.knowledgeBase ? `${run.knowledgeBase.documentSlug} v${run.knowledgeBase.version} (\`${run.knowledgeBase.contentHash.substring(0, 12)}\`)` : 'unknown'}`,
+        '',
+        `## Summary`,
+        '',
+        `| Metric | Value |`,
+        `| --- | --- |`,
+        `| Passed | ${summary.passed} / ${summary.total} (${percent(summary.passRate)}) |`,
+        `| Valid schema | ${percent(summary.schemaValidRate)} |`,
+        `| Expected type | ${percent(summary.typeAccuracy)} |`,
+        `| Correct refusal behaviour | ${percent(summary.refusalAccuracy)} (${summary.falseRefusals} false refusals, ${summary.missedRefusals} missed) |`,
+        `| Expected source section | ${percent(summary.sourceAccuracy)} |`,
+        `| Mean passage overlap | ${percent(summary.meanPassageOverlap)} (pass threshold ${percent(run.minPassageOverlap)}) |`,
+        `| Mean latency | ${Math.round(summary.meanLatencyMs)} ms |`,
+        '',
+    ];
+
+    if (comparison) {
+        const { summaryDelta, baseline } = comparison;
+        lines.push(
+            `## Compared with ${baseline.startedAt}`,
+            '',
+            `Baseline: golden set v${baseline.goldenSetVersion}, providers \`${baseline.providerChain}\`, prompt \`${baseline.promptHash.substring(0, 12)}\`` +
+                (baseline.promptHash !== run.promptHash ? ' (prompt changed)' : ''),
+            '',
+            `- Pass rate: ${signed(summaryDelta.passRate * 100, n => `${n.toFixed(1)} pts`)}`,
+            `- Mean passage overlap: ${summaryDelta.meanPassageOverlap === null ? 'n/a' : signed(summaryDelta.meanPassageOverlap * 100, n => `${n.toFixed(1)} pts`)}`,
+            `- Mean latency: ${signed(summaryDelta.meanLatencyMs, n => `${Math.round(n)} ms`)}`,
+            '',
+        );
+        if (comparison.changes.length === 0) {
+            lines.push('No case changed outcome.', '');
+        } else {
+            lines.push(`| Case | Change | Failures |`, `| --- | --- | --- |`);
+            for (const change of comparison.changes) {
+                lines.push(`| ${change.id} | ${change.change} | ${cell(change.failures.join('; ')) || '–'} |`);
+            }
+            lines.push('');
+        }
+    }
+
+    lines.push(
+        `## Cases`,
+        '',
+        `| Case | Result | Triage | Schema | Type | Refusal | Source | Overlap | Latency | Failures |`,
+        `| --- | --- | --- | --- | --- | --- | --- | --- | --- | --- |`,
+    );
+    for (const result of report.cases) {
+        const { scores } = result;
+        lines.push(`| ${result.id} | ${result.passed ? 'pass' : '**fail**'} | ${result.triage ?? 'in_scope'} | ${check(scores.schemaValid)} | ${check(scores.typeCorrect)} | ${check(scores.refusalCorrect)} | ` +
+            `${check(scores.sourceCorrect)} | ${scores.passageOverlap === null ? '–' : scores.passageOverlap.toFixed(2)} | ${result.latencyMs} ms | ${cell(result.failures.join('; ')) || '–'} |`);
+    }
+    lines.push('');
+    return lines.join('\n');
+}
@@ -0,0 +1,103 @@
+import { LLMStructuredResponse, NOT_FOUND_ANSWER } from '../llmService';
+import { validateLLMResponse } from '../shared/llmResponseSchema';
+import { tokenize } from '../knowledgeBase';
+import { AnswerType, CaseResult, CaseScores, GoldenCase, RunSummary } from './types';
+
+export const DEFAULT_MIN_PASSAGE_OVERLAP = 0.3;
+
+// The model sometimes rephrases the standard reply slightly; its core sentence is what counts
+const REFUSAL_MARKER = 'cannot find specific information';
+
+export function isRefusal(response: LLMStructuredResponse): boolean {
+    return response.type === 'text' && (response.answer.trim() === NOT_FOUND_ANSWER || response.answer.toLowerCase().includes(REFUSAL_MARKER));
+}
+
+// Stricter than the service's own validation, which tolerates and patches some malformed items
+function hasValidSchema(response: LLMStructuredResponse): boolean {
+    if (response.type === 'text') return typeof response.answer === 'string' && response.answer.trim().length > 0;
+    if (response.type === 'list') {
+        return typeof response.title === 'string' && Array.isArray(response.items) && response.items.length > 0 &&
+            response.items.every(item => typeof item.point === 'string' && typeof item.detail === 'string' && item.point !== 'N/A' && item.detail !== 'N/A');
+    }
+    if (response.type === 'error') return false;
+    return validateLLMResponse(response).valid;
+}
+
+function answerText(response: LLMStructuredResponse): string {
+    if (response.type === 'text') return response.answer;
+    if (response.type === 'list') return [response.title, ...response.items.map(item => `${item.point} ${item.detail}`)].join('\n');
+    if (response.type === 'table') return [response.title, ...response.columns, ...response.rows.flat()].join('\n');
+    if (response.type === 'steps') return [response.title, ...response.steps.flatMap(step => [step.title, step.detail, ...(step.sub_points ?? [])])].join('\n');
+    if (response.type === 'comparison') {
+        return [response.title, ...response.options, ...response.criteria.flatMap(criterion => [criterion.criterion, ...criterion.values]), response.summary ?? ''].join('\n');
+    }
+    return '';
+}
+
+// Share of the passage's distinct keywords (stemmed, stop words removed) that appear in the answer
+export function passageOverlap(answer: string, passage: string): number {
+    const passageTokens = new Set(tokenize(passage));
+    if (passageTokens.size === 0) return 0;
+    const answerTokens = new Set(tokenize(answer));
+    let found = 0;
+    for (const token of passageTokens) {
+        if (answerTokens.has(token)) found++;
+    }
+    return found / passageTokens.size;
+}
+
+export function scoreCase(goldenCase: GoldenCase, response: LLMStructuredResponse, minPassageOverlap: number): { scores: CaseScores; failures: string[] } {
+    const refused = isRefusal(response);
+    const outOfScope = goldenCase.category === 'out_of_scope';
+    const sourceId = response.type === 'error' ? null : response.source_section_id ?? null;
+    const expectedTypes = goldenCase.expectedType === undefined ? null : ([] as AnswerType[]).concat(goldenCase.expectedType);
+
+    const scores: CaseScores = {
+        schemaValid: hasValidSchema(response),
+        // A refusal is always a text answer, so that is the expected type for out-of-scope questions
+        typeCorrect: outOfScope ? response.type === 'text' : expectedTypes ? expectedTypes.some(type => type === response.type) : null,
+        refusalCorrect: outOfScope ? refused : !refused,
+        sourceCorrect: !outOfScope && goldenCase.expectedSectionIds?.length ? !!sourceId && goldenCase.expectedSectionIds.includes(sourceId) : null,
+        passageOverlap: !outOfScope && goldenCase.expectedPassage ? passageOverlap(answerText(response), goldenCase.expectedPassage) : null,
+    };
+
+    const failures: string[] = [];
+    if (!scores.schemaValid) {
+        failures.push(response.type === 'error' ? `error response: ${response.message}` : 'response does not match the schema');
+    }
+    if (scores.typeCorrect === false) failures.push(`expected type ${outOfScope ? 'text' : expectedTypes?.join(' or ')}, got ${response.type}`);
+    if (!scores.refusalCorrect && response.type !== 'error') failures.push(outOfScope ? 'answered an out-of-scope question' : 'refused an in-scope question');
+    if (scores.passageOverlap !== null && scores.passageOverlap < minPassageOverlap && !refused && response.type !== 'error') {
+        failures.push(`passage overlap ${scores.passageOverlap.toFixed(2)} below ${minPassageOverlap}`);
+    }
+    // The cited section is reported but doesn't fail a case: several sections often cover the same fact
+    return { scores, failures };
+}
+
+function rate(values: boolean[]): number | null {
+    return values.length === 0 ? null : values.filter(Boolean).length / values.length;
+}
+
+function mean(values: number[]): number | null {
+    return values.length === 0 ? null : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+export function summarize(results: CaseResult[]): RunSummary {
+    const passed = results.filter(result => result.passed).length;
+    const applicable = <T>(pick: (scores: CaseScores) => T | null) =>
+        results.map(result => pick(result.scores)).filter((value): value is T => value !== null);
+
+    return {
+        total: results.length,
+        passed,
+        passRate: results.length ? passed / results.length : 0,
+        schemaValidRate: rate(results.map(result => result.scores.schemaValid)) ?? 0,
+        typeAccuracy: rate(applicable(scores => scores.typeCorrect)),
+        refusalAccuracy: rate(results.map(result => result.scores.refusalCorrect)) ?? 0,
+        falseRefusals: results.filter(result => result.category === 'in_scope' && isRefusal(result.response)).length,
+        missedRefusals: results.filter(result => result.category === 'out_of_scope' && !result.scores.refusalCorrect).length,
+        sourceAccuracy: rate(applicable(scores => scores.sourceCorrect)),
+        meanPassageOverlap: mean(applicable(scores => scores.passageOverlap)),
+        meanLatencyMs: mean(results.map(result => result.latencyMs)) ?? 0,
+    };
+}
@@ -0,0 +1,90 @@
+import type { LLMStructuredResponse } from '../llmService';
+import type { LLMResponseType } from '../shared/llmResponseSchema';
+import type { TriageCategory } from '../triage';
+import type { KnowledgeBaseRef } from '../knowledgeBase';
+
+// --- Golden set (evaluation/golden-set.json) ---
+export type CaseCategory = 'in_scope' | 'out_of_scope';
+export type AnswerType = Exclude<LLMResponseType, 'error'>;
+
+export interface GoldenCase {
+    id: string;
+    question: string;
+    category: CaseCategory;            // out_of_scope questions must get the standard "cannot find" reply
+    expectedType?: AnswerType | AnswerType[]; // Any of these types passes; omitted when every type is acceptable
+    expectedSectionIds?: string[];     // Sections a correct answer may cite
+    expectedPassage?: string;          // What a correct answer says, in the guide's words
+}
+
+export interface GoldenSet {
+    version: number;
+    description?: string;
+    cases: GoldenCase[];
+}
+
+// --- Scores ---
+// null means the check doesn't apply to the case (e.g. no expected type given)
+export interface CaseScores {
+    schemaValid: boolean;
+    typeCorrect: boolean | null;
+    refusalCorrect: boolean;           // Refused an out-of-scope question / answered an in-scope one
+    sourceCorrect: boolean | null;
+    passageOverlap: number | null;     // Share of the expected passage's keywords found in the answer, 0-1
+}
+
+export interface CaseResult {
+    id: string;
+    question: string;
+    category: CaseCategory;
+    passed: boolean;
+    failures: string[];                // Human readable reasons when !passed
+    scores: CaseScores;
+    triage: TriageCategory;            // Anything but in_scope was answered with a template, without a model call
+    provider: string | null;
+    model: string | null;
+    latencyMs: number;
+    response: LLMStructuredResponse;
+}
+
+export interface RunSummary {
+    total: number;
+    passed: number;
+    passRate: number;
+    schemaValidRate: number;
+    typeAccuracy: number | null;
+    refusalAccuracy: number;
+    falseRefusals: number;             // In-scope questions answered with "cannot find"
+    missedRefusals: number;            // Out-of-scope questions answered anyway
+    sourceAccuracy: number | null;
+    meanPassageOverlap: number | null;
+    meanLatencyMs: number;
+}
+
+// Everything needed to tell two runs apart: what was asked, with which prompt, models and knowledge base
+export interface EvaluationReport {
+    reportVersion: 1;
+    goldenSet: { file: string; version: number; caseCount: number };
+    run: {
+        startedAt: string;
+        finishedAt: string;
+        providerChain: string;
+        providers: { name: string; model: string }[];
+        promptHash: string;
+        knowledgeBase: KnowledgeBaseRef | null;
+        minPassageOverlap: number;
+    };
+    summary: RunSummary;
+    cases: CaseResult[];
+}
+
+export interface CaseChange {
+    id: string;
+    change: 'regressed' | 'fixed' | 'added' | 'removed';
+    failures: string[];
+}
+
+export interface ReportComparison {
+    baseline: { startedAt: string; goldenSetVersion: number; promptHash: string; providerChain: string };
+    summaryDelta: { passRate: number; meanPassageOverlap: number | null; meanLatencyMs: number };
+    changes: CaseChange[];
+}
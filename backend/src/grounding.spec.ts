@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { locateQuote, quoteSimilarity, verifyGrounding } from './grounding';
+import { KnowledgeSection } from './knowledgeBase';
+import { NOT_FOUND_ANSWER } from './llmService';
+
+const SECTION: KnowledgeSection = {
+    id: 'safes',
+    title: 'SAFEs',
+    order: 1,
+    content: 'A SAFE is a simple agreement for future equity.\nIt converts into shares at the next priced round, usually with a valuation cap. Investors like the cap because it limits dilution.',
+};
+const words = (text: string) => text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+const documentWords = words(`${SECTION.title}\n${SECTION.content}`);
+const similarity = (quote: string) => quoteSimilarity(quote, documentWords, ` ${documentWords.join(' ')} `);
+
+describe('quoteSimilarity', () => {
+    it('is 1 for a quote copied word for word, whatever the case, punctuation or line breaks', () => {
+        expect(similarity('a simple agreement for future equity')).toBe(1);
+        expect(similarity('Future equity. It converts into shares')).toBe(1);
+    });
+
+    it('tolerates a small edit', () => {
+        expect(similarity('It converts into stock at the next priced round')).toBeCloseTo(8 / 9);
+    });
+
+    it('does not accept a quote stitched together from distant passages', () => {
+        expect(similarity('simple agreement limits dilution')).toBeLessThan(0.8);
+    });
+
+    it('is 0 for an empty quote', () => {
+        expect(similarity('...')).toBe(0);
+    });
+});
+
+describe('locateQuote', () => {
+    it('returns the character range of the passage', () => {
+        const range = locateQuote('the next priced round', SECTION.content);
+        expect(SECTION.content.slice(range!.start, range!.end)).toBe('the next priced round');
+    });
+
+    it('trims window words that are not part of the quote', () => {
+        // "priced" is missing, so the best window of seven words starts at "It", which is not in the quote
+        const range = locateQuote('converts into shares at the next round', SECTION.content);
+        expect(range).not.toBeNull();
+        expect(SECTION.content.slice(range!.start, range!.end)).toBe('converts into shares at the next');
+    });
+
+    it('returns null for a quote that is not in the text', () => {
+        expect(locateQuote('board seats for every investor', SECTION.content)).toBeNull();
+    });
+});
+
+describe('verifyGrounding', () => {
+    it('grounds claims by their evidence quotes and drops the evidence', () => {
+        const result = verifyGrounding({
+            type: 'text',
+            answer: 'A SAFE turns into equity later. The cap protects early investors.',
+            evidence: [
+                { claim: 'SAFE turns into equity later', quotes: ['It converts into shares at the next priced round'] },
+                { claim: 'cap protects early investors', quotes: ['Investors like the cap because it limits dilution.'] },
+            ],
+        }, [SECTION], NOT_FOUND_ANSWER);
+        expect(result).toMatchObject({ confidence: 1, rejected: false });
+        expect(result.response).not.toHaveProperty('evidence');
+        expect(result.response).toMatchObject({ grounding: { confidence: 1, claims: [
+            { target: 'answer.0', grounded: true, quote: 'It converts into shares at the next priced round', similarity: 1 },
+            { target: 'answer.1', grounded: true, similarity: 1 },
+        ] } });
+    });
+
+    it('marks claims without support and keeps the answer above the minimum confidence', () => {
+        const result = verifyGrounding({
+            type: 'list',
+            title: 'SAFE facts',
+            items: [
+                { point: 'Conversion', detail: 'It converts into shares at the next priced round' },
+                { point: 'Interest', detail: 'SAFEs accrue eight percent interest per year' },
+            ],
+        }, [SECTION], NOT_FOUND_ANSWER);
+        expect(result).toMatchObject({ confidence: 0.5, rejected: false });
+        expect(result.response).toMatchObject({ grounding: { claims: [{ target: 'items.0', grounded: true }, { target: 'items.1', grounded: false, quote: null }] } });
+    });
+
+    it('replaces an answer below the minimum confidence with the "cannot find" reply', () => {
+        const result = verifyGrounding({ type: 'text', answer: 'SAFEs always come with a board seat. They expire after a year.' }, [SECTION], NOT_FOUND_ANSWER);
+        expect(result).toMatchObject({ confidence: 0, rejected: true, response: { type: 'text', answer: NOT_FOUND_ANSWER } });
+    });
+
+    it('does not check the "cannot find" reply', () => {
+        const result = verifyGrounding({ type: 'text', answer: NOT_FOUND_ANSWER }, [SECTION], NOT_FOUND_ANSWER);
+        expect(result).toEqual({ response: { type: 'text', answer: NOT_FOUND_ANSWER }, confidence: null, rejected: false });
+    });
+});
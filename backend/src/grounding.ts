@@ -0,0 +1,136 @@
+import { KnowledgeSection, tokenize } from './knowledgeBase';
+import { listClaims } from './shared/answerClaims';
+import type { LLMEvidence, LLMGroundingClaim, LLMStructuredResponse } from './shared/llmResponseSchema';
+import { createLogger } from './logger';
+import { config } from './config';
+
+const logger = createLogger('Grounding');
+
+// --- Configuration ---
+// Checks the quotes the model gives for each claim against the sections that were in its prompt.
+// Answers whose share of grounded claims is below GROUNDING_MIN_CONFIDENCE are replaced by the
+// standard "cannot find" reply.
+const GROUNDING_ENABLED = config.grounding.enabled;
+const GROUNDING_MIN_CONFIDENCE = config.grounding.minConfidence;
+// How much of a quote must appear, in order-insensitive word overlap within a window of the document, to count
+const GROUNDING_QUOTE_MIN_SIMILARITY = config.grounding.quoteMinSimilarity;
+// Share of an evidence entry's claim keywords that must appear in an answer claim for its quotes to apply
+const EVIDENCE_CLAIM_MIN_OVERLAP = 0.6;
+
+export interface GroundingResult {
+    response: LLMStructuredResponse; // With `grounding` attached and the model's `evidence` removed
+    confidence: number | null;       // null when nothing was checked (disabled, errors, the "cannot find" reply)
+    rejected: boolean;               // Confidence was below GROUNDING_MIN_CONFIDENCE
+}
+
+// --- Fuzzy matching ---
+// Words without stemming or stop word removal: quotes are supposed to be copied, not paraphrased
+function words(text: string): string[] {
+    return text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+// 1 when the quote appears word for word, otherwise the best share of its words found within any
+// window of the document as long as the quote. Tolerates small edits, changed punctuation and
+// dropped line breaks from PDF exports, but not a quote stitched together from distant passages.
+export function quoteSimilarity(quote: string, documentWords: string[], documentText: string): number {
+    const quoteWords = words(quote);
+    if (quoteWords.length === 0) return 0;
+    if (documentText.includes(` ${quoteWords.join(' ')} `)) return 1;
+    return bestWindow(quoteWords, documentWords).matched / quoteWords.length;
+}
+
+// Character range of the passage a quote was taken from, for highlighting it in the guide.
+// Found with the same window matching as quoteSimilarity; null when the quote isn't in the text.
+export function locateQuote(quote: string, text: string): { start: number; end: number } | null {
+    const quoteWords = words(quote);
+    const positions = Array.from(text.toLowerCase().matchAll(/[a-z0-9]+/g), match => ({ word: match[0], start: match.index!, end: match.index! + match[0].length }));
+    if (quoteWords.length === 0 || positions.length === 0) return null;
+    const { matched, end } = bestWindow(quoteWords, positions.map(position => position.word));
+    if (matched / quoteWords.length < GROUNDING_QUOTE_MIN_SIMILARITY) return null;
+
+    // The window may start or end with words that aren't part of the quote
+    const quoteWordSet = new Set(quoteWords);
+    let first = Math.max(0, end - Math.min(quoteWords.length, positions.length) + 1);
+    let last = end;
+    while (first < last && !quoteWordSet.has(positions[first].word)) first++;
+    while (last > first && !quoteWordSet.has(positions[last].word)) last--;
+    return { start: positions[first].start, end: positions[last].end };
+}
+
+// Slides a window as long as the quote over the document, counting the quote's words (with multiplicity)
+// inside it. Returns the best count and the index of the last word of that window.
+function bestWindow(quoteWords: string[], documentWords: string[]): { matched: number; end: number } {
+    const needed = new Map<string, number>();
+    for (const word of quoteWords) needed.set(word, (needed.get(word) ?? 0) + 1);
+    const windowSize = Math.min(quoteWords.length, documentWords.length);
+    const inWindow = new Map<string, number>();
+    let matched = 0;
+    let best = { matched: 0, end: 0 };
+    for (let i = 0; i < documentWords.length; i++) {
+        const entering = documentWords[i];
+        const enteringCount = (inWindow.get(entering) ?? 0) + 1;
+        inWindow.set(entering, enteringCount);
+        if (enteringCount <= (needed.get(entering) ?? 0)) matched++;
+        if (i >= windowSize) {
+            const leaving = documentWords[i - windowSize];
+            const leavingCount = inWindow.get(leaving)!;
+            inWindow.set(leaving, leavingCount - 1);
+            if (leavingCount <= (needed.get(leaving) ?? 0)) matched--;
+        }
+        if (matched > best.matched) best = { matched, end: i };
+    }
+    return best;
+}
+
+// The model's evidence names its claim in its own words; entries are matched to the answer's claims by keywords
+function quotesForClaim(claimText: string, evidence: LLMEvidence[]): string[] {
+    const claimTokens = new Set(tokenize(claimText));
+    return evidence.flatMap(entry => {
+        const entryTokens = [...new Set(tokenize(entry.claim))];
+        if (entryTokens.length === 0) return [];
+        const overlap = entryTokens.filter(token => claimTokens.has(token)).length / entryTokens.length;
+        return overlap >= EVIDENCE_CLAIM_MIN_OVERLAP ? entry.quotes : [];
+    });
+}
+
+// --- Verification ---
+export function verifyGrounding(response: LLMStructuredResponse, sections: KnowledgeSection[], notFoundAnswer: string): GroundingResult {
+    if (response.type === 'error') return { response, confidence: null, rejected: false };
+
+    const { evidence, ...answer } = response;
+    if (!GROUNDING_ENABLED || (answer.type === 'text' && answer.answer.trim() === notFoundAnswer)) return { response: answer, confidence: null, rejected: false };
+
+    const documentWords = sections.flatMap(section => words(`${section.title}\n${section.content}`));
+    const documentText = ` ${documentWords.join(' ')} `;
+    const claims: LLMGroundingClaim[] = listClaims(answer).map(claim => {
+        // Claims without a matching quote are checked as if they quoted themselves, which only passes near-verbatim wording
+        const candidates = quotesForClaim(claim.text, evidence ?? []);
+        if (candidates.length === 0) candidates.push(claim.text);
+        let quote: string | null = null;
+        let similarity = 0;
+        for (const candidate of candidates) {
+            const candidateSimilarity = quoteSimilarity(candidate, documentWords, documentText);
+            if (candidateSimilarity > similarity) {
+                similarity = candidateSimilarity;
+                quote = candidate;
+            }
+        }
+        const grounded = similarity >= GROUNDING_QUOTE_MIN_SIMILARITY;
+        return { target: claim.target, grounded, quote: grounded ? quote : null, similarity: Math.round(similarity * 100) / 100 };
+    });
+
+    const confidence = claims.length > 0 ? claims.filter(claim => claim.grounded).length / claims.length : 1;
+    const rounded = Math.round(confidence * 100) / 100;
+    const ungrounded = claims.filter(claim => !claim.grounded).map(claim => claim.target);
+    logger.info(`Confidence ${rounded} (${claims.length - ungrounded.length}/${claims.length} claims grounded).`, { unsupported: ungrounded.length ? ungrounded : undefined });
+
+    if (confidence < GROUNDING_MIN_CONFIDENCE) {
+        logger.warn(`Below GROUNDING_MIN_CONFIDENCE (${GROUNDING_MIN_CONFIDENCE}), answering with the "cannot find" reply instead.`);
+        return {
+            response: { type: 'text', answer: notFoundAnswer, follow_up: null, source_section_id: null, source_section_title: null },
+            confidence: rounded,
+            rejected: true,
+        };
+    }
+    return { response: { ...answer, grounding: { confidence: rounded, claims } }, confidence: rounded, rejected: false };
+}
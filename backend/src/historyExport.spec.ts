@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { ExportEntry, renderCsv, renderJson, renderMarkdown, renderPdf, toExportEntry } from './historyExport';
+
+const EXPORTED_AT = new Date('2026-03-11T09:30:00Z');
+
+const textEntry: ExportEntry = {
+    id: 'entry_1',
+    conversationId: 'conversation_1',
+    question: 'What is a SAFE?',
+    response: {
+        type: 'text',
+        answer: 'A SAFE converts into equity at the next priced round.',
+        follow_up: 'How is the cap set?',
+        source_section_id: '4.2',
+        source_section_title: 'Convertible Instruments',
+    },
+    timestamp: new Date('2026-03-10T12:05:00Z'),
+};
+
+const tableEntry: ExportEntry = {
+    id: 'entry_2',
+    conversationId: null,
+    question: 'Compare the instruments',
+    response: {
+        type: 'table',
+        title: 'Instruments',
+        columns: ['Instrument', 'Notes'],
+        rows: [['SAFE', 'No interest | no maturity'], ['Note', 'Debt, "accrues" interest']],
+    },
+    timestamp: new Date('2026-03-10T12:06:00Z'),
+};
+
+describe('toExportEntry', () => {
+    it('keeps stored answers that predate the current validation rules', () => {
+        const entry = toExportEntry({ _id: 'a1', question: 'Q', llmResponse: { type: 'list', title: '', items: [] }, timestamp: textEntry.timestamp });
+        expect(entry.response).toEqual({ type: 'list', title: '', items: [] });
+        expect(entry.conversationId).toBeNull();
+    });
+
+    it('replaces an unreadable stored answer with an error', () => {
+        const entry = toExportEntry({ _id: 'a1', question: 'Q', llmResponse: { type: 'poem' }, timestamp: textEntry.timestamp });
+        expect(entry.response).toEqual({ type: 'error', message: 'This stored answer could not be read.' });
+    });
+});
+
+describe('renderMarkdown', () => {
+    it('renders a section per entry with its follow-up and source', () => {
+        const markdown = renderMarkdown([textEntry], EXPORTED_AT);
+        expect(markdown).toContain('Exported 2026-03-11 09:30 UTC, 1 entry.');
+        expect(markdown).toContain('## What is a SAFE?\n\n_Asked 2026-03-10 12:05 UTC_\n\nA SAFE converts into equity at the next priced round.');
+        expect(markdown).toContain('**Follow-up:** How is the cap set?');
+        expect(markdown).toContain('_Source: Convertible Instruments (4.2)_');
+    });
+
+    it('escapes pipes inside table cells', () => {
+        const markdown = renderMarkdown([tableEntry], EXPORTED_AT);
+        expect(markdown).toContain('| Instrument | Notes |\n| --- | --- |\n| SAFE | No interest \\| no maturity |');
+    });
+});
+
+describe('renderCsv', () => {
+    it('writes a header and one quoted row per entry', () => {
+        const lines = renderCsv([textEntry, tableEntry]).replace(/^﻿/, '').split('\r\n');
+        expect(lines[0]).toBe('id,timestamp,conversation_id,question,answer_type,answer,follow_up,source_section_id,source_section_title');
+        expect(lines[1]).toBe('entry_1,2026-03-10T12:05:00.000Z,conversation_1,What is a SAFE?,text,A SAFE converts into equity at the next priced round.,How is the cap set?,4.2,Convertible Instruments');
+        expect(lines[2]).toMatch(/^entry_2,2026-03-10T12:06:00\.000Z,,Compare the instruments,table,".*""accrues"" interest.*",,,$/s);
+    });
+
+    it('starts with a byte order mark so spreadsheets read UTF-8', () => {
+        expect(renderCsv([]).startsWith('﻿')).toBe(true);
+    });
+
+    it('defuses cells a spreadsheet would run as a formula', () => {
+        const csv = renderCsv([{ ...textEntry, question: '=HYPERLINK("http://example.com")' }]);
+        expect(csv).toContain(`"'=HYPERLINK(""http://example.com"")"`);
+    });
+});
+
+describe('renderJson', () => {
+    it('lists the entries with ISO timestamps and their structured answers', () => {
+        const json = JSON.parse(renderJson([textEntry], EXPORTED_AT));
+        expect(json).toEqual({
+            exportedAt: '2026-03-11T09:30:00.000Z',
+            count: 1,
+            entries: [{ id: 'entry_1', conversationId: 'conversation_1', timestamp: '2026-03-10T12:05:00.000Z', question: 'What is a SAFE?', llmResponse: textEntry.response }],
+        });
+    });
+});
+
+describe('renderPdf', () => {
+    it('renders every answer type to a PDF document', async () => {
+        const entries: ExportEntry[] = [
+            textEntry,
+            tableEntry,
+            { ...textEntry, response: { type: 'list', title: 'Terms', items: [{ point: 'Cap', detail: 'The maximum valuation.' }] } },
+            { ...textEntry, response: { type: 'steps', title: 'Closing', steps: [{ title: 'Sign', detail: 'Both parties sign.', sub_points: ['Countersign'] }] } },
+            { ...textEntry, response: { type: 'comparison', title: 'SAFE vs note', options: ['SAFE', 'Note'], criteria: [{ criterion: 'Interest', values: ['None', 'Yes'] }] } },
+            { ...textEntry, response: { type: 'error', message: 'This stored answer could not be read.' } },
+        ];
+        const pdf = await renderPdf(entries, EXPORTED_AT);
+        expect(pdf.subarray(0, 5).toString('latin1')).toBe('%PDF-');
+    });
+});
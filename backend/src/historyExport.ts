@@ -0,0 +1,213 @@
+import PDFDocument from 'pdfkit';
+import type { LLMStructuredResponse } from './llmService';
+import { validateStoredResponse } from './shared/llmResponseSchema';
+import { responseToPlainText } from './providers/promptFormat';
+
+// --- Type Definitions ---
+export const EXPORT_FORMATS = ['markdown', 'csv', 'json', 'pdf'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const EXPORT_FILE_TYPES: Record<ExportFormat, { contentType: string; extension: string }> = {
+    markdown: { contentType: 'text/markdown; charset=utf-8', extension: 'md' },
+    csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+    json: { contentType: 'application/json; charset=utf-8', extension: 'json' },
+    pdf: { contentType: 'application/pdf', extension: 'pdf' },
+};
+
+// One history entry as exported; stored answers that no longer match the schema become an error response
+export interface ExportEntry {
+    id: string;
+    conversationId: string | null;
+    question: string;
+    response: LLMStructuredResponse;
+    timestamp: Date;
+}
+
+export function toExportEntry(entry: { _id: unknown; conversationId?: unknown; question: string; llmResponse: unknown; timestamp: Date }): ExportEntry {
+    const validation = validateStoredResponse(entry.llmResponse);
+    return {
+        id: String(entry._id),
+        conversationId: entry.conversationId ? String(entry.conversationId) : null,
+        question: entry.question,
+        response: validation.valid ? validation.value : { type: 'error', message: 'This stored answer could not be read.' },
+        timestamp: entry.timestamp,
+    };
+}
+
+function formatTimestamp(date: Date): string {
+    return `${date.toISOString().substring(0, 16).replace('T', ' ')} UTC`;
+}
+
+function sourceOf(response: LLMStructuredResponse): { id: string; title: string } | null {
+    if (response.type === 'error' || !response.source_section_title) return null;
+    return { id: response.source_section_id ?? '', title: response.source_section_title };
+}
+
+// --- Markdown ---
+const escapeCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+
+function markdownTable(header: string[], rows: string[][]): string {
+    return [
+        `| ${header.map(escapeCell).join(' | ')} |`,
+        `| ${header.map(() => '---').join(' | ')} |`,
+        ...rows.map(row => `| ${row.map(escapeCell).join(' | ')} |`),
+    ].join('\n');
+}
+
+function responseToMarkdown(response: LLMStructuredResponse): string {
+    switch (response.type) {
+        case 'text':
+            return response.answer;
+        case 'list':
+            return `**${response.title}**\n\n${response.items.map(item => `- **${item.point}**: ${item.detail}`).join('\n')}`;
+        case 'table':
+            return `**${response.title}**\n\n${markdownTable(response.columns, response.rows)}`;
+        case 'steps':
+            return `**${response.title}**\n\n${response.steps.map((step, index) =>
+                [`${index + 1}. **${step.title}**: ${step.detail}`, ...(step.sub_points ?? []).map(point => `    - ${point}`)].join('\n')).join('\n')}`;
+        case 'comparison':
+            return [
+                `**${response.title}**`,
+                markdownTable(['', ...response.options], response.criteria.map(criterion => [criterion.criterion, ...criterion.values])),
+                ...(response.summary ? [response.summary] : []),
+            ].join('\n\n');
+        case 'error':
+            return `_Error: ${response.message}_`;
+    }
+}
+
+export function renderMarkdown(entries: ExportEntry[], exportedAt: Date): string {
+    const blocks = entries.map(entry => {
+        const { response } = entry;
+        const source = sourceOf(response);
+        return [
+            `## ${entry.question.replace(/\s*\n\s*/g, ' ')}`,
+            `_Asked ${formatTimestamp(entry.timestamp)}_`,
+            responseToMarkdown(response),
+            ...(response.type !== 'error' && response.follow_up ? [`**Follow-up:** ${response.follow_up}`] : []),
+            ...(source ? [`_Source: ${source.title}${source.id ? ` (${source.id})` : ''}_`] : []),
+        ].join('\n\n');
+    });
+    const header = `# Q&A history\n\nExported ${formatTimestamp(exportedAt)}, ${entries.length} ${entries.length === 1 ? 'entry' : 'entries'}.`;
+    return [header, ...blocks].join('\n\n---\n\n') + '\n';
+}
+
+// --- CSV ---
+// RFC 4180 quoting. Cells a spreadsheet would read as a formula get a leading apostrophe.
+function csvCell(value: string | null): string {
+    if (value === null) return '';
+    const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function renderCsv(entries: ExportEntry[]): string {
+    const header = ['id', 'timestamp', 'conversation_id', 'question', 'answer_type', 'answer', 'follow_up', 'source_section_id', 'source_section_title'];
+    const rows = entries.map(entry => {
+        const { response } = entry;
+        const source = sourceOf(response);
+        return [
+            entry.id,
+            entry.timestamp.toISOString(),
+            entry.conversationId,
+            entry.question,
+            response.type,
+            responseToPlainText(response),
+            response.type !== 'error' ? response.follow_up ?? null : null,
+            source?.id || null,
+            source?.title ?? null,
+        ].map(csvCell).join(',');
+    });
+    return '﻿' + [header.join(','), ...rows].join('\r\n') + '\r\n'; // The BOM makes Excel read the file as UTF-8
+}
+
+// --- JSON ---
+export function renderJson(entries: ExportEntry[], exportedAt: Date): string {
+    return JSON.stringify({
+        exportedAt: exportedAt.toISOString(),
+        count: entries.length,
+        entries: entries.map(entry => ({
+            id: entry.id,
+            conversationId: entry.conversationId,
+            timestamp: entry.timestamp.toISOString(),
+            question: entry.question,
+            llmResponse: entry.response,
+        })),
+    }, null, 2);
+}
+
+// --- PDF ---
+// Rendered with the standard PDF fonts, so no font files are needed at runtime
+const PDF_FONT = 'Helvetica';
+const PDF_FONT_BOLD = 'Helvetica-Bold';
+const PDF_FONT_ITALIC = 'Helvetica-Oblique';
+const PDF_MUTED = '#6b7280';
+
+function writeResponse(doc: PDFKit.PDFDocument, response: LLMStructuredResponse): void {
+    const title = (text: string) => doc.font(PDF_FONT_BOLD).fontSize(11).text(text).moveDown(0.3).font(PDF_FONT).fontSize(10);
+    const table = (data: string[][]) => {
+        doc.table({ data: data.map((row, rowIndex) => row.map(cell => ({ text: cell, font: rowIndex === 0 ? { src: PDF_FONT_BOLD } : undefined }))) });
+        doc.moveDown(0.5);
+    };
+    doc.font(PDF_FONT).fontSize(10).fillColor('black');
+    switch (response.type) {
+        case 'text':
+            doc.text(response.answer);
+            break;
+        case 'list':
+            title(response.title);
+            for (const item of response.items) {
+                doc.font(PDF_FONT_BOLD).text(`•  ${item.point}: `, { continued: true }).font(PDF_FONT).text(item.detail);
+            }
+            break;
+        case 'table':
+            title(response.title);
+            table([response.columns, ...response.rows]);
+            break;
+        case 'steps':
+            title(response.title);
+            response.steps.forEach((step, index) => {
+                doc.font(PDF_FONT_BOLD).text(`${index + 1}. ${step.title}: `, { continued: true }).font(PDF_FONT).text(step.detail);
+                for (const point of step.sub_points ?? []) doc.text(`-  ${point}`, { indent: 18 });
+            });
+            break;
+        case 'comparison':
+            title(response.title);
+            table([['', ...response.options], ...response.criteria.map(criterion => [criterion.criterion, ...criterion.values])]);
+            if (response.summary) doc.text(response.summary);
+            break;
+        case 'error':
+            doc.font(PDF_FONT_ITALIC).fillColor('#b91c1c').text(`Error: ${response.message}`).fillColor('black');
+            break;
+    }
+}
+
+export function renderPdf(entries: ExportEntry[], exportedAt: Date): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        const doc = new PDFDocument({ size: 'A4', margin: 56, info: { Title: 'Q&A history', Creator: 'Fundraising Q&A Bot' } });
+        const chunks: Buffer[] = [];
+        doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+        doc.on('end', () => resolve(Buffer.concat(chunks)));
+        doc.on('error', reject);
+
+        doc.font(PDF_FONT_BOLD).fontSize(18).text('Q&A history');
+        doc.font(PDF_FONT).fontSize(9).fillColor(PDF_MUTED)
+            .text(`Exported ${formatTimestamp(exportedAt)}, ${entries.length} ${entries.length === 1 ? 'entry' : 'entries'}.`).moveDown(1);
+        entries.forEach((entry, index) => {
+            const { response } = entry;
+            if (index > 0) {
+                doc.moveDown(0.5);
+                doc.moveTo(doc.page.margins.left, doc.y).lineTo(doc.page.width - doc.page.margins.right, doc.y).strokeColor('#e5e7eb').stroke();
+                doc.moveDown(0.8);
+            }
+            doc.font(PDF_FONT_BOLD).fontSize(13).fillColor('black').text(entry.question);
+            doc.font(PDF_FONT).fontSize(8).fillColor(PDF_MUTED).text(`Asked ${formatTimestamp(entry.timestamp)}`).moveDown(0.5);
+            writeResponse(doc, response);
+            if (response.type !== 'error' && response.follow_up) {
+                doc.moveDown(0.3).font(PDF_FONT_ITALIC).fontSize(10).fillColor(PDF_MUTED).text(`Follow-up: ${response.follow_up}`);
+            }
+            const source = sourceOf(response);
+            if (source) doc.moveDown(0.3).font(PDF_FONT_ITALIC).fontSize(8).fillColor(PDF_MUTED).text(`Source: ${source.title}`);
+        });
+        doc.end();
+    });
+}
@@ -1,110 +1,72 @@
-import express, { Request, Response, NextFunction, ErrorRequestHandler, RequestHandler } from 'express';
-import dotenv from 'dotenv';
+import { config, assertServerConfig } from './config'; // First: loads the dotenv files and fails fast on an invalid configuration
+import express, { Request, Response, NextFunction, ErrorRequestHandler } from 'express';
 import cors from 'cors';
-import { getAnswerFromLLM, LLMStructuredResponse } from './llmService';
-import { requireAuth }  from './authMiddleware';
-import { connectToDatabase, ensureDbConnection } from './db';
-import QAHistoryModel, { IQAHistory } from './models/qaHistory.model';
-
-dotenv.config();
+import { createLogger, requestLogging, REQUEST_ID_HEADER } from './logger';
+import { tracingEnabled } from './tracing';
+import { LLMStructuredResponse } from './llmService';
+import { connectToDatabase } from './db';
+import askRouter from './routes/ask.routes';
+import conversationsRouter from './routes/conversations.routes';
+import historyRouter from './routes/history.routes';
+import feedbackRouter from './routes/feedback.routes';
+import usageRouter from './routes/usage.routes';
+import meRouter from './routes/me.routes';
+import authRouter from './routes/auth.routes';
+import knowledgeRouter from './routes/knowledge.routes';
+import orgRouter from './routes/org.routes';
+import sharesRouter from './routes/shares.routes';
+import sharedRouter from './routes/shared.routes';
+import knowledgeAdminRouter from './routes/knowledgeAdmin.routes';
+import cacheAdminRouter from './routes/cacheAdmin.routes';
+import feedbackAdminRouter from './routes/feedbackAdmin.routes';
+import securityAdminRouter from './routes/securityAdmin.routes';
+import llmUsageAdminRouter from './routes/llmUsageAdmin.routes';
+import dashboardAdminRouter from './routes/dashboardAdmin.routes';
+
+// Before anything is served: no requests without a working auth configuration
+assertServerConfig();
 
 const app = express();
-const port = process.env.PORT || 3005;
+const port = config.server.port;
+const logger = createLogger('Server');
 
-if (process.env.NODE_ENV !== 'test' && !process.env.IS_OFFLINE && !process.env.AWS_LAMBDA_FUNCTION_NAME) {
+if (config.server.connectDatabaseOnStart) {
     connectToDatabase().catch(err => {
-        console.error("FATAL: Initial database connection failed. Exiting.", err);
+        logger.error("FATAL: Initial database connection failed.", { error: err });
         // process.exit(1); // Consider uncommenting for critical DB dependency
     });
 }
 
-app.use(cors());
+app.use(requestLogging); // First, so every later middleware logs with the request ID
+app.use(cors({ origin: config.server.corsOrigins, exposedHeaders: [REQUEST_ID_HEADER, 'X-Answer-Cache', 'X-History-Id', 'X-Quota-Limit', 'X-Quota-Remaining', 'Retry-After', 'Content-Disposition', 'X-Export-Truncated'] })); // Let browsers read our custom response headers
+// Knowledge base uploads are far larger than the default 100kb JSON limit, so they get their own parser
+app.use('/api/admin/knowledge', express.json({ limit: config.knowledgeBase.uploadLimit }), knowledgeAdminRouter);
 app.use(express.json());
 
 app.get('/api/health', (req: Request, res: Response) => {
     res.status(200).json({ status: 'healthy', timestamp: new Date().toISOString() });
 });
 
-app.post(
-    '/api/ask',
-    requireAuth as unknown as RequestHandler, // Double casting for Clerk middleware type
-    async (req: Request, res: Response, next: NextFunction): Promise<void> => { // Explicitly return Promise<void>
-        const { question } = req.body;
-        const userId = req.auth?.userId;
-
-        if (!question || typeof question !== 'string' || question.trim() === "") {
-            // No need to return the res.status().json() call, it sends the response and finishes.
-            res.status(400).json({
-                type: "error",
-                message: 'Question is required and must be a non-empty string.'
-            } as LLMStructuredResponse);
-            return; // Ensure function exits
-        }
-
-        try {
-            await ensureDbConnection();
-
-            console.log(`[API /ask] Received question from user ${userId || 'unknown'}: "${question.substring(0,100)}..."`);
-            const llmResponse: LLMStructuredResponse = await getAnswerFromLLM(question);
-            
-            console.log(`[API /ask] LLM service response:`, JSON.stringify(llmResponse).substring(0,500) + "...");
-
-            if (userId && (llmResponse.type === 'text' || llmResponse.type === 'list')) {
-                try {
-                    const historyEntry = new QAHistoryModel({
-                        userId: userId,
-                        question: question,
-                        llmResponse: llmResponse,
-                    });
-                    await historyEntry.save();
-                    console.log(`[DB] Saved Q&A history for user ${userId}`);
-                } catch (dbError: any) {
-                    console.error(`[DB] Failed to save Q&A history for user ${userId}:`, dbError.message);
-                }
-            } else if (userId && llmResponse.type === 'error') {
-                 console.log(`[DB] LLM returned an error, not saving interaction for user ${userId}. Error: ${llmResponse.message}`);
-            }
-
-            res.status(200).json(llmResponse);
-            // No explicit return needed here, res.json() ends the request-response cycle for this path.
-        } catch (error: any) {
-            console.error(`[API /ask] Error processing question for user ${userId || 'unknown'}:`, error.message);
-            next(error); // Pass error to global error handler
-        }
-    }
-);
-
-app.get(
-    '/api/history',
-    requireAuth as unknown as RequestHandler, // Double casting
-    async (req: Request, res: Response, next: NextFunction): Promise<void> => { // Explicitly return Promise<void>
-        const userId = req.auth?.userId;
-
-        // requireAuth should handle unauthenticated cases, but this is a safeguard.
-        if (!userId) {
-            res.status(401).json({ type: "error", message: "User not authenticated." } as LLMStructuredResponse);
-            return;
-        }
-
-        try {
-            await ensureDbConnection();
-
-            console.log(`[API /history] Fetching history for user ${userId}`);
-            const historyItems: IQAHistory[] = await QAHistoryModel.find({ userId: userId })
-                                               .sort({ timestamp: -1 })
-                                               .limit(20);
-
-            res.status(200).json(historyItems);
-        } catch (error: any) {
-            console.error(`[API /history] Error fetching history for user ${userId}:`, error.message);
-            next(error);
-        }
-    }
-);
+app.use('/api/ask', askRouter);
+app.use('/api/conversations', conversationsRouter);
+app.use('/api/history', historyRouter);
+app.use('/api/feedback', feedbackRouter);
+app.use('/api/usage', usageRouter);
+app.use('/api/me', meRouter);
+app.use('/api/auth', authRouter); // Public: local sign-in
+app.use('/api/knowledge', knowledgeRouter);
+app.use('/api/org', orgRouter);
+app.use('/api/shares', sharesRouter);
+app.use('/api/shared', sharedRouter); // Public: no requireAuth
+app.use('/api/admin/cache', cacheAdminRouter);
+app.use('/api/admin/feedback', feedbackAdminRouter);
+app.use('/api/admin/security', securityAdminRouter);
+app.use('/api/admin/llm-usage', llmUsageAdminRouter);
+app.use('/api/admin/dashboard', dashboardAdminRouter);
 
 const globalErrorHandler: ErrorRequestHandler = (err: any, req: Request, res: Response, next: NextFunction) => {
-    console.error("[Global Error Handler] Caught:", err.status, err.message, err.stack?.substring(0,200));
-    
+    logger.error("Unhandled error", { status: err.status, message: err.message, stack: err.stack?.substring(0,200) });
+
     const statusCode = err.statusCode || err.status || 500;
     let errorMessage = err.message || "Internal Server Error";
 
@@ -126,24 +88,15 @@ const globalErrorHandler: ErrorRequestHandler = (err: any, req: Request, res: Re
 };
 app.use(globalErrorHandler);
 
-if (!process.env.AWS_LAMBDA_FUNCTION_NAME) {
+if (config.server.listen) {
     app.listen(port, () => {
-        console.log(`Backend server listening at http://localhost:${port}`);
-        if (!process.env.MONGODB_URI) {
-            console.warn("Warning: MONGODB_URI is not set. Database features will be disabled.");
-        }
-        if (!process.env.OPENROUTER_API_KEY) {
-            console.warn("Warning: OPENROUTER_API_KEY is not set in .env file.");
-        }
-        if (!process.env.GOOGLE_AI_API_KEY) {
-             console.warn("Warning: GOOGLE_AI_API_KEY is not set (for fallback).");
-        }
-        if (!process.env.CLERK_SECRET_KEY) {
-            console.warn("Warning: CLERK_SECRET_KEY is not set in .env file.");
-        }
+        logger.info(`Backend server listening at http://localhost:${port}`, { profile: config.profile, envFiles: config.envFiles, tracing: tracingEnabled });
+        config.warnings.forEach(warning => logger.warn(warning));
     });
 }
 
+export default app;
+
 // For AWS Lambda using serverless-http if this is serverless.ts
 // import serverless from 'serverless-http';
 // export const handler = serverless(app);
\ No newline at end of file
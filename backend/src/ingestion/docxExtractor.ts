@@ -0,0 +1,13 @@
+import mammoth from 'mammoth';
+import { ExtractionResult } from './types';
+import { extractHtml } from './htmlExtractor';
+
+// mammoth maps Word's "Heading 1..6" styles to <h1>..<h6>, so the HTML extractor keeps the hierarchy.
+export async function extractDocx(buffer: Buffer): Promise<ExtractionResult> {
+    const result = await mammoth.convertToHtml({ buffer });
+    const extraction = extractHtml(result.value);
+    const warnings = result.messages
+        .filter(message => message.type === 'warning' || message.type === 'error')
+        .map(message => `DOCX: ${message.message}`);
+    return { ...extraction, warnings: [...extraction.warnings, ...warnings] };
+}
@@ -0,0 +1,108 @@
+import { parse, HTMLElement, Node, NodeType } from 'node-html-parser';
+import { ExtractedBlock, ExtractionResult } from './types';
+import { normalizeWhitespace } from './textQuality';
+
+// Never part of the guide's text
+const SKIPPED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'nav', 'header', 'footer', 'aside', 'svg', 'head', 'iframe']);
+// Elements whose text forms one paragraph
+const TEXT_BLOCK_TAGS = new Set(['p', 'pre', 'blockquote', 'dt', 'dd', 'figcaption', 'caption', 'address']);
+const LIST_TAGS = new Set(['ul', 'ol']);
+
+function inlineText(node: Node): string {
+    return normalizeWhitespace(node.text.replace(/\s+/g, ' '));
+}
+
+// Walks the DOM in document order, turning h1-h6 into headings and block elements into paragraphs.
+// Text sitting directly inside containers (div, section...) is collected too.
+export function extractHtml(html: string): ExtractionResult {
+    const root = parse(html, { blockTextElements: { pre: true } });
+    const blocks: ExtractedBlock[] = [];
+    let looseText: string[] = [];
+
+    const flushLooseText = () => {
+        const text = normalizeWhitespace(looseText.join(' '));
+        if (text) blocks.push({ kind: 'paragraph', text });
+        looseText = [];
+    };
+    const pushParagraph = (text: string) => {
+        flushLooseText();
+        if (text) blocks.push({ kind: 'paragraph', text });
+    };
+
+    const walk = (node: Node) => {
+        if (node.nodeType === NodeType.TEXT_NODE) {
+            const text = node.text.replace(/\s+/g, ' ').trim();
+            if (text) looseText.push(text);
+            return;
+        }
+        if (node.nodeType !== NodeType.ELEMENT_NODE) return;
+
+        const element = node as HTMLElement;
+        const tag = element.rawTagName?.toLowerCase() || '';
+        if (SKIPPED_TAGS.has(tag)) return;
+
+        const heading = tag.match(/^h([1-6])$/);
+        if (heading) {
+            flushLooseText();
+            const text = inlineText(element);
+            if (text) blocks.push({ kind: 'heading', level: Number(heading[1]), text });
+            return;
+        }
+        if (tag === 'pre') {
+            pushParagraph(element.text.replace(/\r\n?/g, '\n').trim());
+            return;
+        }
+        if (TEXT_BLOCK_TAGS.has(tag)) {
+            pushParagraph(inlineText(element));
+            return;
+        }
+        if (LIST_TAGS.has(tag)) {
+            flushLooseText();
+            const items = listItems(element, 0);
+            if (items.length > 0) blocks.push({ kind: 'paragraph', text: items.join('\n') });
+            return;
+        }
+        if (tag === 'tr') {
+            // One line per table row, cells separated the way the plain-text guide would
+            pushParagraph(element.querySelectorAll('td, th').map(cell => inlineText(cell)).filter(Boolean).join(' | '));
+            return;
+        }
+        if (tag === 'br') {
+            flushLooseText();
+            return;
+        }
+        const isBlock = ['div', 'section', 'article', 'main', 'body', 'html', 'table', 'tbody', 'thead', 'figure', 'form', 'li'].includes(tag);
+        if (isBlock) flushLooseText();
+        element.childNodes.forEach(walk);
+        if (isBlock) flushLooseText();
+    };
+
+    root.childNodes.forEach(walk);
+    flushLooseText();
+
+    const titleElement = root.querySelector('title');
+    const firstHeading = blocks.find(block => block.kind === 'heading' && block.level === 1);
+    const title = (titleElement && inlineText(titleElement)) || (firstHeading ? firstHeading.text : null);
+    return { title, blocks, pages: null, warnings: [] };
+}
+
+// Flattens (nested) lists into "- item" lines, indenting nested items.
+function listItems(list: HTMLElement, depth: number): string[] {
+    const lines: string[] = [];
+    for (const item of list.childNodes) {
+        if (!(item instanceof HTMLElement) || item.rawTagName?.toLowerCase() !== 'li') continue;
+        const ownText = item.childNodes
+            .filter(child => !(child instanceof HTMLElement && LIST_TAGS.has(child.rawTagName?.toLowerCase() || '')))
+            .map(child => child.text)
+            .join(' ')
+            .replace(/\s+/g, ' ')
+            .trim();
+        if (ownText) lines.push(`${'  '.repeat(depth)}- ${ownText}`);
+        for (const child of item.childNodes) {
+            if (child instanceof HTMLElement && LIST_TAGS.has(child.rawTagName?.toLowerCase() || '')) {
+                lines.push(...listItems(child, depth + 1));
+            }
+        }
+    }
+    return lines;
+}
@@ -0,0 +1,125 @@
+import path from 'path';
+import { splitIntoSections } from '../knowledgeBase';
+import { ExtractedBlock, ExtractionResult, IngestionReport, IngestionResult, SourceFormat } from './types';
+import { extractMarkdown } from './markdownExtractor';
+import { extractHtml } from './htmlExtractor';
+import { extractDocx } from './docxExtractor';
+import { extractPdf } from './pdfExtractor';
+import { isEffectivelyEmpty, looksGarbled } from './textQuality';
+import { createLogger } from '../logger';
+
+const logger = createLogger('Ingestion');
+
+// Errors with a status are turned into 4xx responses by the routes
+export class IngestionError extends Error {
+    constructor(message: string, public readonly status: number = 422) {
+        super(message);
+        this.name = 'IngestionError';
+    }
+}
+
+const EXTENSION_FORMATS: Record<string, SourceFormat> = {
+    '.pdf': 'pdf',
+    '.md': 'markdown',
+    '.markdown': 'markdown',
+    '.html': 'html',
+    '.htm': 'html',
+    '.docx': 'docx',
+    '.txt': 'text',
+};
+
+const CONTENT_TYPE_FORMATS: Record<string, SourceFormat> = {
+    'application/pdf': 'pdf',
+    'text/markdown': 'markdown',
+    'text/x-markdown': 'markdown',
+    'text/html': 'html',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+    'text/plain': 'text',
+};
+
+export const SUPPORTED_FORMATS: SourceFormat[] = ['pdf', 'markdown', 'html', 'docx', 'text'];
+
+// The file extension wins over the content type, which browsers and curl often get wrong for .md files.
+export function detectFormat(fileName?: string | null, contentType?: string | null): SourceFormat | null {
+    const extension = fileName ? path.extname(fileName).toLowerCase() : '';
+    if (EXTENSION_FORMATS[extension]) return EXTENSION_FORMATS[extension];
+    const mimeType = contentType?.split(';')[0].trim().toLowerCase() || '';
+    return CONTENT_TYPE_FORMATS[mimeType] || null;
+}
+
+async function extract(buffer: Buffer, format: SourceFormat): Promise<ExtractionResult> {
+    switch (format) {
+        case 'pdf':
+            return extractPdf(buffer);
+        case 'docx':
+            return extractDocx(buffer);
+        case 'html':
+            return extractHtml(buffer.toString('utf-8'));
+        case 'markdown':
+            return extractMarkdown(buffer.toString('utf-8'));
+        case 'text':
+            // Already in the knowledge base format, kept untouched so its own heading detection still works
+            return { title: null, blocks: [{ kind: 'raw', text: buffer.toString('utf-8').replace(/\r\n?/g, '\n') }], pages: null, warnings: [] };
+    }
+}
+
+// Renders blocks as the text llmService loads. Headings become Markdown "#" lines so the hierarchy
+// survives and each one starts a section; "#" lines inside paragraphs (code samples) are escaped.
+export function renderKnowledgeBaseText(blocks: ExtractedBlock[]): string {
+    return blocks
+        .map(block => {
+            if (block.kind === 'heading') return `${'#'.repeat(block.level)} ${block.text.replace(/\s+/g, ' ')}`;
+            if (block.kind === 'raw') return block.text;
+            return block.text.replace(/^(\s*)(#{1,6}\s)/gm, '$1\\$2');
+        })
+        .join('\n\n')
+        .trim() + '\n';
+}
+
+// Converts a PDF, Markdown, HTML, DOCX or text file into knowledge base text and reports what was extracted.
+export async function ingestDocument(buffer: Buffer, format: SourceFormat, fileName: string | null = null): Promise<IngestionResult> {
+    let extraction: ExtractionResult;
+    try {
+        extraction = await extract(buffer, format);
+    } catch (error: any) {
+        throw new IngestionError(`Could not read ${fileName || 'the file'} as ${format}: ${error.message || error}`);
+    }
+
+    const content = renderKnowledgeBaseText(extraction.blocks);
+    if (isEffectivelyEmpty(content)) {
+        throw new IngestionError(`No text could be extracted from ${fileName || 'the file'}. Scanned PDFs need OCR first.`);
+    }
+
+    const pages = extraction.pages;
+    const emptyPages = pages ? pages.filter(page => isEffectivelyEmpty(page.text)).map(page => page.number) : [];
+    const garbledPages = pages ? pages.filter(page => looksGarbled(page.text)).map(page => page.number) : [];
+    const warnings = [...extraction.warnings];
+    if (!pages && looksGarbled(content)) {
+        warnings.push('The extracted text looks garbled; check the file encoding.');
+    }
+
+    const sections = splitIntoSections(content);
+    const headingCount = extraction.blocks.filter(block => block.kind === 'heading').length;
+    if (headingCount === 0 && format !== 'text' && format !== 'pdf') {
+        warnings.push('No headings found; the whole file will be indexed as few large sections.');
+    }
+
+    const report: IngestionReport = {
+        fileName,
+        format,
+        title: extraction.title,
+        pageCount: pages ? pages.length : null,
+        emptyPages,
+        garbledPages,
+        headingCount,
+        sectionCount: sections.length,
+        sections: sections.map(section => ({ id: section.id, title: section.title, chars: section.content.length })),
+        charCount: content.length,
+        warnings,
+    };
+    logger.info(`${fileName || format}: ${report.sectionCount} sections, ${report.charCount} chars` +
+        (pages ? `, ${pages.length} pages (${emptyPages.length} empty, ${garbledPages.length} garbled)` : '') + '.');
+    return { content, report };
+}
+
+export type { SourceFormat, IngestionReport, IngestionResult } from './types';
@@ -0,0 +1,85 @@
+import { ExtractedBlock, ExtractionResult } from './types';
+import { normalizeWhitespace } from './textQuality';
+
+// Removes inline Markdown so the stored text reads like the plain-text guide.
+export function stripInlineMarkdown(text: string): string {
+    return text
+        .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')     // Images keep their alt text
+        .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')      // Links keep their label
+        .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')     // Reference-style links
+        .replace(/`([^`]+)`/g, '$1')
+        .replace(/(\*\*|__)(.+?)\1/g, '$2')
+        .replace(/(^|[^\w*])[*_]([^*_\n]+)[*_](?=[^\w*]|$)/g, '$1$2')
+        .replace(/~~(.+?)~~/g, '$1')
+        .replace(/<\/?[a-z][^>]*>/gi, '');
+}
+
+export function extractMarkdown(source: string): ExtractionResult {
+    const lines = source.replace(/\r\n?/g, '\n').split('\n');
+    const blocks: ExtractedBlock[] = [];
+    let paragraph: string[] = [];
+    let title: string | null = null;
+
+    const flushParagraph = () => {
+        const text = normalizeWhitespace(paragraph.join('\n'));
+        if (text) blocks.push({ kind: 'paragraph', text });
+        paragraph = [];
+    };
+    const pushHeading = (level: number, rawText: string) => {
+        flushParagraph();
+        const text = stripInlineMarkdown(rawText).trim();
+        if (!text) return;
+        if (level === 1 && title === null) title = text;
+        blocks.push({ kind: 'heading', level, text });
+    };
+
+    let i = 0;
+    // YAML front matter
+    if (lines[0]?.trim() === '---') {
+        const end = lines.findIndex((line, index) => index > 0 && line.trim() === '---');
+        if (end > 0) i = end + 1;
+    }
+
+    let inFence: string | null = null;
+    for (; i < lines.length; i++) {
+        const line = lines[i];
+        const trimmed = line.trim();
+
+        // Code blocks are kept verbatim; a "#" inside them is not a heading
+        const fence = trimmed.match(/^(```|~~~)/);
+        if (fence) {
+            inFence = inFence === fence[1] ? null : (inFence ?? fence[1]);
+            continue;
+        }
+        if (inFence) {
+            paragraph.push(line);
+            continue;
+        }
+
+        const atxHeading = trimmed.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+        if (atxHeading) {
+            pushHeading(atxHeading[1].length, atxHeading[2]);
+            continue;
+        }
+        // Setext headings: a paragraph line underlined with === or ---
+        const nextLine = lines[i + 1]?.trim() ?? '';
+        if (trimmed && paragraph.length === 0 && /^(=+|-+)$/.test(nextLine) && nextLine.length >= 2) {
+            pushHeading(nextLine.startsWith('=') ? 1 : 2, trimmed);
+            i++;
+            continue;
+        }
+        if (trimmed === '' || /^([-*_]\s*){3,}$/.test(trimmed)) {
+            flushParagraph();
+            continue;
+        }
+
+        const withoutQuote = trimmed.replace(/^>\s?/, '');
+        // List items stay as "- item" lines, which is how the plain-text guide writes them
+        const listItem = withoutQuote.match(/^(?:[-*+]|\d+[.)])\s+(.*)$/);
+        paragraph.push(stripInlineMarkdown(listItem ? `- ${listItem[1]}` : withoutQuote));
+    }
+    flushParagraph();
+
+    const warnings = inFence ? ['A fenced code block was never closed; the rest of the file was kept as code.'] : [];
+    return { title, blocks, pages: null, warnings };
+}
@@ -0,0 +1,88 @@
+import { PDFParse } from 'pdf-parse';
+import { ExtractedBlock, ExtractedPage, ExtractionResult } from './types';
+import { normalizeWhitespace } from './textQuality';
+
+interface OutlineHeading {
+    level: number;
+    title: string;
+    key: string;
+}
+
+// Headings in PDFs often differ from their bookmark only in spacing, punctuation or ligature glyphs
+function headingKey(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function flattenOutline(nodes: Array<{ title: string; items: any[] }> | null | undefined, level = 1): OutlineHeading[] {
+    if (!nodes) return [];
+    return nodes.flatMap(node => [
+        { level: Math.min(level, 6), title: node.title.trim(), key: headingKey(node.title) },
+        ...flattenOutline(node.items, level + 1),
+    ]).filter(heading => heading.key.length > 0);
+}
+
+// Text comes out page by page. When the PDF has bookmarks, lines matching a bookmark title become
+// headings at the bookmark's depth. Without bookmarks the text is kept as is and splitIntoSections
+// falls back to its own heading detection (CHAPTER markers and the table of contents).
+export async function extractPdf(buffer: Buffer): Promise<ExtractionResult> {
+    const parser = new PDFParse({ data: new Uint8Array(buffer) });
+    try {
+        const info = await parser.getInfo();
+        const textResult = await parser.getText();
+
+        const pages: ExtractedPage[] = textResult.pages.map(page => ({ number: page.num, text: normalizeWhitespace(page.text) }));
+        const outline = flattenOutline(info.outline);
+        const warnings: string[] = [];
+        if (outline.length === 0) {
+            warnings.push('PDF has no bookmarks; section boundaries are detected from the text layout.');
+        }
+
+        const blocks: ExtractedBlock[] = [];
+        let remaining = [...outline]; // Each bookmark is matched once, in order
+        for (const page of pages) {
+            const lines = page.text.split('\n');
+            let paragraph: string[] = [];
+            const flushParagraph = () => {
+                const text = paragraph.join('\n').trim();
+                if (text) blocks.push({ kind: 'paragraph', text });
+                paragraph = [];
+            };
+
+            for (let i = 0; i < lines.length; i++) {
+                const match = matchOutlineHeading(lines, i, remaining);
+                if (match) {
+                    flushParagraph();
+                    blocks.push({ kind: 'heading', level: match.heading.level, text: match.heading.title });
+                    remaining = remaining.slice(remaining.indexOf(match.heading) + 1);
+                    i += match.lineCount - 1;
+                    continue;
+                }
+                paragraph.push(lines[i]);
+            }
+            flushParagraph();
+        }
+
+        const unmatched = remaining.length;
+        if (outline.length > 0 && unmatched > 0) {
+            warnings.push(`${unmatched} of ${outline.length} bookmarks were not found in the page text.`);
+        }
+        const title = typeof info.info?.Title === 'string' && info.info.Title.trim() ? info.info.Title.trim() : null;
+        return { title, blocks, pages, warnings };
+    } finally {
+        await parser.destroy();
+    }
+}
+
+// Bookmark titles can wrap over up to three lines on the page.
+function matchOutlineHeading(lines: string[], start: number, candidates: OutlineHeading[]): { heading: OutlineHeading; lineCount: number } | null {
+    if (candidates.length === 0 || !lines[start].trim()) return null;
+    let joined = '';
+    for (let count = 1; count <= 3 && start + count - 1 < lines.length; count++) {
+        joined += headingKey(lines[start + count - 1]);
+        if (!joined) return null;
+        const heading = candidates.find(candidate => candidate.key === joined);
+        if (heading) return { heading, lineCount: count };
+        if (!candidates.some(candidate => candidate.key.startsWith(joined))) return null;
+    }
+    return null;
+}
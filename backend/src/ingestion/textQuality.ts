@@ -0,0 +1,30 @@
+// Below this many non-space characters a page counts as empty (scanned image, blank page, page number only).
+const EMPTY_PAGE_MIN_CHARS = 10;
+const MAX_BAD_CHAR_RATIO = 0.05;
+const MIN_LETTER_RATIO = 0.4;
+
+export function isEffectivelyEmpty(text: string): boolean {
+    return text.replace(/\s+/g, '').length < EMPTY_PAGE_MIN_CHARS;
+}
+
+// Garbled text is what broken font encodings produce: replacement characters, control or private-use
+// glyphs, or runs of symbols with hardly any letters.
+export function looksGarbled(text: string): boolean {
+    const visible = text.replace(/\s+/g, '');
+    if (visible.length < EMPTY_PAGE_MIN_CHARS) return false;
+    const badChars = (visible.match(/[\uFFFD\u0000-\u0008\u000E-\u001F\uE000-\uF8FF]/g) || []).length;
+    const letters = (visible.match(/\p{L}/gu) || []).length;
+    return badChars / visible.length > MAX_BAD_CHAR_RATIO || letters / visible.length < MIN_LETTER_RATIO;
+}
+
+// Collapses runs of spaces and blank lines without touching line structure.
+export function normalizeWhitespace(text: string): string {
+    return text
+        .replace(/\r\n?/g, '\n')
+        .replace(/[ \t\u00A0]+/g, ' ')
+        .split('\n')
+        .map(line => line.trim())
+        .join('\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
@@ -0,0 +1,44 @@
+export type SourceFormat = 'pdf' | 'markdown' | 'html' | 'docx' | 'text';
+
+// Extractors turn a file into a flat list of blocks; headings keep their level (1 = top).
+export type ExtractedBlock =
+    | { kind: 'heading'; level: number; text: string }
+    | { kind: 'paragraph'; text: string }
+    | { kind: 'raw'; text: string };    // Already knowledge base text, copied verbatim
+
+export interface ExtractedPage {
+    number: number; // 1-based
+    text: string;
+}
+
+export interface ExtractionResult {
+    title: string | null;           // Document title if the file declares one
+    blocks: ExtractedBlock[];
+    pages: ExtractedPage[] | null;  // Only for paged formats (PDF)
+    warnings: string[];
+}
+
+export interface IngestedSectionSummary {
+    id: string;
+    title: string;
+    chars: number;
+}
+
+export interface IngestionReport {
+    fileName: string | null;
+    format: SourceFormat;
+    title: string | null;
+    pageCount: number | null;   // null for formats without pages
+    emptyPages: number[];
+    garbledPages: number[];
+    headingCount: number;       // Headings found in the source file
+    sectionCount: number;       // Sections the knowledge base will index from the output
+    sections: IngestedSectionSummary[];
+    charCount: number;
+    warnings: string[];
+}
+
+export interface IngestionResult {
+    content: string;            // Knowledge base text: headings as "#" lines, which splitIntoSections treats as section boundaries
+    report: IngestionReport;
+}
@@ -0,0 +1,326 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { createLogger } from './logger';
+import { config } from './config';
+
+const logger = createLogger('Knowledge Base');
+
+// --- Configuration ---
+const KNOWLEDGE_BASE_FILE_PATH = path.resolve(__dirname, 'knowledge_base.txt'); // Adjusted for common build structure
+const MAX_SECTION_CHARS = 4000; // Larger sections are split into parts so one chapter can't eat the whole prompt
+const MIN_SECTION_CHARS = 20;
+const DEFAULT_TOP_K = config.knowledgeBase.retrievalTopK;
+const DEFAULT_CONTEXT_MAX_CHARS = config.knowledgeBase.contextMaxChars;
+
+// BM25 tuning, standard values
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// --- Type Definitions ---
+export interface KnowledgeSection {
+    id: string;       // Stable, derived from the heading (e.g. "fundraising-stages-explained")
+    title: string;
+    content: string;
+    order: number;    // Position in the original document
+}
+
+export interface RetrievedSection extends KnowledgeSection {
+    score: number;
+}
+
+// Identifies the exact text an answer was produced from
+export interface KnowledgeBaseRef {
+    documentId: string | null;  // null for the bundled file or the env override
+    documentSlug: string;
+    version: number;            // 0 for the bundled file or the env override
+    contentHash: string;
+}
+
+export interface LoadedKnowledgeBase {
+    ref: KnowledgeBaseRef;
+    title: string;
+    content: string;
+    index: KnowledgeIndex;
+}
+
+interface IndexedSection {
+    section: KnowledgeSection;
+    termFrequencies: Map<string, number>;
+    length: number;
+}
+
+const STOP_WORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'i', 'if',
+    'in', 'into', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'our', 're', 's', 'should', 'so', 'some', 'that',
+    'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'to', 'was', 'we', 'what', 'when', 'where',
+    'which', 'who', 'why', 'will', 'with', 'you', 'your',
+]);
+
+// --- Tokenization ---
+export function tokenize(text: string): string[] {
+    return text
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(token => token.length > 1 && !STOP_WORDS.has(token))
+        .map(stemToken);
+}
+
+// Very light plural stemming so "SAFEs" matches "SAFE" and "investors" matches "investor"
+function stemToken(token: string): string {
+    if (token.length > 4 && token.endsWith('ies')) return token.slice(0, -3) + 'y';
+    if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1);
+    return token;
+}
+
+function slugify(text: string): string {
+    return text
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .substring(0, 60) || 'section';
+}
+
+// --- Section Splitting ---
+// Headings are detected three ways:
+//  1. Markdown-style "# Heading" lines.
+//  2. "CHAPTER ONE" style markers, where the next non-empty line is the chapter title.
+//  3. Lines that repeat an entry of the table of contents found before the first chapter.
+//     PDF exports wrap long headings, so a heading may span up to three lines in the body.
+// Text that has none of these is cut into fixed-size parts so retrieval still works.
+export function splitIntoSections(rawText: string): KnowledgeSection[] {
+    const lines = rawText.replace(/\r\n?/g, '\n').split('\n');
+    const chapterPattern = /^CHAPTER\s+[A-Z0-9]+\s*$/;
+    const markdownHeadingPattern = /^#{1,6}\s+(.+?)\s*#*\s*$/;
+
+    const firstChapterIndex = lines.findIndex(line => chapterPattern.test(line.trim()));
+    const tableOfContents = firstChapterIndex > 0 ? parseTableOfContents(lines.slice(0, firstChapterIndex)) : new Set<string>();
+
+    const rawSections: { title: string; lines: string[] }[] = [{ title: 'Front matter', lines: [] }];
+    const bodyStart = Math.max(firstChapterIndex, 0);
+    if (firstChapterIndex > 0) rawSections[0].lines.push(...lines.slice(0, firstChapterIndex));
+
+    let pendingChapterTitle = false;
+    for (let i = bodyStart; i < lines.length; i++) {
+        const trimmed = lines[i].trim();
+        if (chapterPattern.test(trimmed)) {
+            pendingChapterTitle = true;
+            continue;
+        }
+        if (pendingChapterTitle && trimmed !== '') {
+            pendingChapterTitle = false;
+            rawSections.push({ title: trimmed, lines: [] });
+            continue;
+        }
+        const markdownMatch = trimmed.match(markdownHeadingPattern);
+        if (markdownMatch) {
+            rawSections.push({ title: markdownMatch[1], lines: [] });
+            continue;
+        }
+        const headingLineCount = trimmed.length > 2 ? matchTableOfContentsHeading(lines, i, tableOfContents) : 0;
+        if (headingLineCount > 0) {
+            const title = lines.slice(i, i + headingLineCount).map(line => line.trim()).join(' ').replace(/\s+/g, ' ');
+            rawSections.push({ title, lines: [] });
+            i += headingLineCount - 1;
+            continue;
+        }
+        rawSections[rawSections.length - 1].lines.push(lines[i]);
+    }
+
+    const usedIds = new Map<string, number>();
+    const sections: KnowledgeSection[] = [];
+    for (const raw of rawSections) {
+        const content = raw.lines.join('\n').trim();
+        // Sub-heading listings (e.g. "Team", "Problem" followed only by a page number) carry no content
+        if (content.replace(/\s/g, '').length < MIN_SECTION_CHARS) continue;
+
+        const baseSlug = slugify(raw.title);
+        const seen = usedIds.get(baseSlug) || 0;
+        usedIds.set(baseSlug, seen + 1);
+        const baseId = seen === 0 ? baseSlug : `${baseSlug}-${seen + 1}`;
+
+        const parts = splitLongContent(content, MAX_SECTION_CHARS);
+        parts.forEach((part, partIndex) => {
+            sections.push({
+                id: parts.length > 1 ? `${baseId}-part-${partIndex + 1}` : baseId,
+                title: parts.length > 1 ? `${raw.title} (part ${partIndex + 1})` : raw.title,
+                content: part,
+                order: sections.length,
+            });
+        });
+    }
+    return sections;
+}
+
+// Compares headings on letters and digits only, which also absorbs ligature glyphs lost in PDF export
+function compactHeading(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// A table of contents entry is every non-numeric line between two page numbers.
+function parseTableOfContents(lines: string[]): Set<string> {
+    const entries = new Set<string>();
+    let currentEntry: string[] = [];
+    for (const line of lines) {
+        const trimmed = line.trim();
+        if (/^\d+$/.test(trimmed)) {
+            const compact = compactHeading(currentEntry.join(' '));
+            if (compact.length > 2 && compact.length <= 80) entries.add(compact);
+            currentEntry = [];
+        } else if (trimmed !== '') {
+            currentEntry.push(trimmed);
+        }
+    }
+    return entries;
+}
+
+// Returns how many lines (1-3) starting at `index` form a table of contents heading, or 0.
+function matchTableOfContentsHeading(lines: string[], index: number, tableOfContents: Set<string>): number {
+    let joined = '';
+    for (let count = 1; count <= 3 && index + count - 1 < lines.length; count++) {
+        joined += lines[index + count - 1];
+        if (tableOfContents.has(compactHeading(joined))) return count;
+    }
+    return 0;
+}
+
+// Splits at line boundaries so no part cuts a sentence line in half.
+function splitLongContent(content: string, maxChars: number): string[] {
+    if (content.length <= maxChars) return [content];
+
+    const parts: string[] = [];
+    let current = '';
+    for (const line of content.split('\n')) {
+        if (current.length + line.length + 1 > maxChars && current.trim() !== '') {
+            parts.push(current.trim());
+            current = '';
+        }
+        current += (current ? '\n' : '') + line;
+    }
+    if (current.trim() !== '') parts.push(current.trim());
+    return parts;
+}
+
+// --- BM25 Index ---
+export class KnowledgeIndex {
+    private readonly indexed: IndexedSection[];
+    private readonly documentFrequencies = new Map<string, number>();
+    private readonly collectionFrequencies = new Map<string, number>(); // Occurrences in the whole document
+    private readonly averageLength: number;
+
+    constructor(public readonly sections: KnowledgeSection[]) {
+        this.indexed = sections.map(section => {
+            // The title is counted twice so a heading match outranks a passing mention
+            const tokens = tokenize(`${section.title} ${section.title} ${section.content}`);
+            const termFrequencies = new Map<string, number>();
+            for (const token of tokens) termFrequencies.set(token, (termFrequencies.get(token) || 0) + 1);
+            for (const [term, count] of termFrequencies) this.collectionFrequencies.set(term, (this.collectionFrequencies.get(term) || 0) + count);
+            for (const term of termFrequencies.keys()) {
+                this.documentFrequencies.set(term, (this.documentFrequencies.get(term) || 0) + 1);
+            }
+            return { section, termFrequencies, length: tokens.length };
+        });
+        const totalLength = this.indexed.reduce((sum, entry) => sum + entry.length, 0);
+        this.averageLength = this.indexed.length > 0 ? totalLength / this.indexed.length : 0;
+    }
+
+    search(query: string, topK: number = DEFAULT_TOP_K): RetrievedSection[] {
+        const queryTerms = Array.from(new Set(tokenize(query)));
+        if (queryTerms.length === 0 || this.indexed.length === 0) return [];
+
+        const totalDocs = this.indexed.length;
+        const scored: RetrievedSection[] = [];
+        for (const entry of this.indexed) {
+            let score = 0;
+            for (const term of queryTerms) {
+                const tf = entry.termFrequencies.get(term);
+                if (!tf) continue;
+                const df = this.documentFrequencies.get(term) || 0;
+                const idf = Math.log(1 + (totalDocs - df + 0.5) / (df + 0.5));
+                const lengthNorm = 1 - BM25_B + BM25_B * (entry.length / (this.averageLength || 1));
+                score += idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * lengthNorm);
+            }
+            if (score > 0) scored.push({ ...entry.section, score });
+        }
+        return scored.sort((a, b) => b.score - a.score).slice(0, topK);
+    }
+
+    // How often a (tokenized) term occurs in the document, headings counted twice
+    collectionFrequency(term: string): number {
+        return this.collectionFrequencies.get(term) || 0;
+    }
+
+    getSection(id: string): KnowledgeSection | undefined {
+        return this.sections.find(section => section.id === id);
+    }
+}
+
+export function hashContent(content: string): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+export function buildKnowledgeBase(ref: Omit<KnowledgeBaseRef, 'contentHash'>, title: string, content: string): LoadedKnowledgeBase {
+    const index = new KnowledgeIndex(splitIntoSections(content));
+    logger.info(`Indexed ${index.sections.length} sections of '${ref.documentSlug}' v${ref.version}.`);
+    return { ref: { ...ref, contentHash: hashContent(content) }, title, content, index };
+}
+
+// --- Load Bundled Knowledge Base ---
+// The file shipped with the build is the fallback when no document has been uploaded through the admin API.
+let KNOWLEDGE_BASE_CONTENT = '';
+try {
+    logger.info(`Attempting to load from resolved path: ${KNOWLEDGE_BASE_FILE_PATH}`);
+    KNOWLEDGE_BASE_CONTENT = fs.readFileSync(KNOWLEDGE_BASE_FILE_PATH, 'utf-8');
+    logger.info(`Loaded successfully.`);
+} catch (error) {
+    logger.error(`CRITICAL: Failed to load from: ${KNOWLEDGE_BASE_FILE_PATH}. Check path and deployment.`, { error });
+}
+
+let bundledKnowledgeBase: LoadedKnowledgeBase | null = null;
+
+// The KNOWLEDGE_BASE_CONTENT_OVERRIDE text (e.g. another guide under evaluation) replaces the file. Built lazily.
+export function getBundledKnowledgeBase(): LoadedKnowledgeBase {
+    const override = config.knowledgeBase.contentOverride;
+    const content = override || KNOWLEDGE_BASE_CONTENT;
+    if (!bundledKnowledgeBase || bundledKnowledgeBase.content !== content) {
+        bundledKnowledgeBase = buildKnowledgeBase(
+            { documentId: null, documentSlug: override ? 'env-override' : 'bundled-file', version: 0 },
+            'Raise Millions',
+            content
+        );
+    }
+    return bundledKnowledgeBase;
+}
+
+// Build the index at startup rather than on the first question
+if (KNOWLEDGE_BASE_CONTENT || config.knowledgeBase.contentOverride) getBundledKnowledgeBase();
+
+// --- Retrieval ---
+// Returns the best-ranked sections that fit in the character budget for the prompt.
+export function retrieveRelevantSections(
+    knowledgeBase: LoadedKnowledgeBase,
+    question: string,
+    topK: number = DEFAULT_TOP_K,
+    maxChars: number = DEFAULT_CONTEXT_MAX_CHARS
+): RetrievedSection[] {
+    const ranked = knowledgeBase.index.search(question, topK);
+    const selected: RetrievedSection[] = [];
+    let usedChars = 0;
+    for (const section of ranked) {
+        if (usedChars + section.content.length > maxChars && selected.length > 0) continue;
+        selected.push(section);
+        usedChars += section.content.length;
+    }
+    return selected;
+}
+
+// Formats retrieved sections for the DOCUMENT block of the prompt. Each section is labelled
+// with its ID so the model can cite which one it used.
+export function formatSectionsForPrompt(sections: KnowledgeSection[]): string {
+    if (sections.length === 0) {
+        return '(No section of the guide matched this question.)';
+    }
+    return sections
+        .map(section => `[SECTION ${section.id}] ${section.title}\n${section.content}`)
+        .join('\n\n');
+}
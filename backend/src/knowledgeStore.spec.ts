@@ -0,0 +1,33 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import KnowledgeDocumentModel from './models/knowledgeDocument.model';
+import { createDocument, KnowledgeStoreError } from './knowledgeStore';
+
+const UPLOAD = { slug: 'acme-handbook', title: 'Acme Handbook', content: '# Raising\nStart with angels.' };
+
+describe('createDocument', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('refuses a slug that already exists', async () => {
+        vi.spyOn(KnowledgeDocumentModel, 'exists').mockResolvedValue({ _id: 'existing' });
+        const create = vi.spyOn(KnowledgeDocumentModel, 'create');
+        await expect(createDocument(UPLOAD, 'user_spec')).rejects.toMatchObject({ name: 'KnowledgeStoreError', status: 409 });
+        expect(create).not.toHaveBeenCalled();
+    });
+
+    it('answers 409, not 500, when a concurrent upload of the same slug wins the unique index', async () => {
+        vi.spyOn(KnowledgeDocumentModel, 'exists').mockResolvedValue(null);
+        vi.spyOn(KnowledgeDocumentModel, 'create').mockRejectedValue(Object.assign(new Error('E11000 duplicate key error collection: knowledgedocuments index: slug_1'), { code: 11000 }));
+        const error = await createDocument(UPLOAD, 'user_spec').catch(caught => caught);
+        expect(error).toBeInstanceOf(KnowledgeStoreError);
+        expect(error).toMatchObject({ status: 409, message: "Knowledge document 'acme-handbook' already exists. Upload a new version instead." });
+    });
+
+    it('passes other database errors through', async () => {
+        vi.spyOn(KnowledgeDocumentModel, 'exists').mockResolvedValue(null);
+        const failure = new Error('connection reset');
+        vi.spyOn(KnowledgeDocumentModel, 'create').mockRejectedValue(failure);
+        await expect(createDocument(UPLOAD, 'user_spec')).rejects.toBe(failure);
+    });
+});
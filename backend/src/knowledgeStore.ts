@@ -0,0 +1,258 @@
+import mongoose from 'mongoose';
+import KnowledgeDocumentModel, { IKnowledgeDocument } from './models/knowledgeDocument.model';
+import KnowledgeDocumentVersionModel, { IKnowledgeDocumentVersion } from './models/knowledgeDocumentVersion.model';
+import { LoadedKnowledgeBase, buildKnowledgeBase, getBundledKnowledgeBase, hashContent } from './knowledgeBase';
+import { scanKnowledgeContent, getKnowledgeInjectionPolicy, recordInjectionAttempt, SectionFindings } from './promptInjection';
+import { getOrgSettings } from './orgSettings';
+import { createLogger } from './logger';
+import { config } from './config';
+
+const logger = createLogger('Knowledge Store');
+
+// How often an instance re-checks MongoDB for a new active version. Admin changes made on this
+// instance apply immediately; other (serverless) instances pick them up within this interval.
+const KB_REFRESH_INTERVAL_MS = config.knowledgeBase.refreshIntervalMs;
+
+// Errors with a status are turned into 4xx responses by the routes
+export class KnowledgeStoreError extends Error {
+    constructor(message: string, public readonly status: number) {
+        super(message);
+        this.name = 'KnowledgeStoreError';
+    }
+}
+
+let databaseKnowledgeBase: LoadedKnowledgeBase | null = null;
+let lastCheckedAt = 0;
+let refreshInFlight: Promise<void> | null = null;
+// Documents picked by organizations, by slug; null when the document or its active version is gone
+const documentKnowledgeBases = new Map<string, { knowledgeBase: LoadedKnowledgeBase | null; checkedAt: number }>();
+
+// Returns the knowledge base questions should be answered from: the env override if set, else the active
+// version of the organization's document (see orgSettings.ts), else that of the default document in MongoDB,
+// else the bundled knowledge_base.txt.
+export async function getActiveKnowledgeBase(orgId: string | null = null): Promise<LoadedKnowledgeBase> {
+    if (config.knowledgeBase.contentOverride) return getBundledKnowledgeBase();
+
+    if (orgId) {
+        const { knowledgeDocumentSlug } = await getOrgSettings(orgId);
+        const orgKnowledgeBase = knowledgeDocumentSlug ? await getDocumentKnowledgeBase(knowledgeDocumentSlug) : null;
+        if (orgKnowledgeBase) return orgKnowledgeBase;
+    }
+
+    if (Date.now() - lastCheckedAt > KB_REFRESH_INTERVAL_MS) {
+        // Concurrent requests share one refresh instead of each querying MongoDB
+        refreshInFlight = refreshInFlight || refreshFromDatabase().finally(() => { refreshInFlight = null; });
+        await refreshInFlight;
+    }
+    return databaseKnowledgeBase || getBundledKnowledgeBase();
+}
+
+// Forces the next getActiveKnowledgeBase() call to re-read MongoDB.
+export function invalidateKnowledgeBaseCache(): void {
+    lastCheckedAt = 0;
+    documentKnowledgeBases.clear();
+}
+
+// The active version of one document, re-read from MongoDB at most every KB_REFRESH_INTERVAL_MS
+async function getDocumentKnowledgeBase(slug: string): Promise<LoadedKnowledgeBase | null> {
+    const cached = documentKnowledgeBases.get(slug);
+    if (cached && Date.now() - cached.checkedAt <= KB_REFRESH_INTERVAL_MS) return cached.knowledgeBase;
+    if (mongoose.connection.readyState !== 1) return cached?.knowledgeBase ?? null;
+
+    try {
+        let knowledgeBase: LoadedKnowledgeBase | null = null;
+        const document = await KnowledgeDocumentModel.findOne({ slug }).lean();
+        const current = cached?.knowledgeBase;
+        if (document && current && current.ref.documentId === String(document._id) && current.ref.version === document.activeVersion) {
+            knowledgeBase = current;
+        } else if (document) {
+            const version = await KnowledgeDocumentVersionModel.findOne({ documentId: document._id, version: document.activeVersion }).lean();
+            if (version) {
+                knowledgeBase = buildKnowledgeBase({ documentId: String(document._id), documentSlug: document.slug, version: version.version }, document.title, version.content);
+            } else {
+                logger.error(`Active version ${document.activeVersion} of '${slug}' is missing.`);
+            }
+        }
+        if (!knowledgeBase) logger.info(`Document '${slug}' picked by an organization is unavailable, using the default.`);
+        documentKnowledgeBases.set(slug, { knowledgeBase, checkedAt: Date.now() });
+        return knowledgeBase;
+    } catch (error: any) {
+        logger.error(`Failed to load document '${slug}'.`, { error: error.message });
+        return cached?.knowledgeBase ?? null;
+    }
+}
+
+async function refreshFromDatabase(): Promise<void> {
+    if (mongoose.connection.readyState !== 1) {
+        // Not connected (yet); keep serving what we have and try again on the next question
+        return;
+    }
+    lastCheckedAt = Date.now();
+    try {
+        const defaultDocument = await KnowledgeDocumentModel.findOne({ isDefault: true }).lean();
+        if (!defaultDocument) {
+            if (databaseKnowledgeBase) logger.info('No default document anymore, using the bundled file.');
+            databaseKnowledgeBase = null;
+            return;
+        }
+
+        const documentId = String(defaultDocument._id);
+        const current = databaseKnowledgeBase?.ref;
+        if (current && current.documentId === documentId && current.version === defaultDocument.activeVersion) return;
+
+        const version = await KnowledgeDocumentVersionModel.findOne({ documentId: defaultDocument._id, version: defaultDocument.activeVersion }).lean();
+        if (!version) {
+            logger.error(`Active version ${defaultDocument.activeVersion} of '${defaultDocument.slug}' is missing. Keeping the current knowledge base.`);
+            return;
+        }
+        databaseKnowledgeBase = buildKnowledgeBase(
+            { documentId, documentSlug: defaultDocument.slug, version: version.version },
+            defaultDocument.title,
+            version.content
+        );
+        logger.info(`Now answering from '${defaultDocument.slug}' v${version.version}.`);
+    } catch (error: any) {
+        logger.error('Failed to refresh the active knowledge base.', { error: error.message });
+    }
+}
+
+// --- Admin Operations ---
+
+export async function listDocuments(): Promise<IKnowledgeDocument[]> {
+    return KnowledgeDocumentModel.find().sort({ isDefault: -1, slug: 1 });
+}
+
+export async function findDocument(slug: string): Promise<IKnowledgeDocument> {
+    const document = await KnowledgeDocumentModel.findOne({ slug: slug.toLowerCase() });
+    if (!document) throw new KnowledgeStoreError(`Knowledge document '${slug}' not found.`, 404);
+    return document;
+}
+
+export async function documentExists(slug: string): Promise<boolean> {
+    return (await KnowledgeDocumentModel.exists({ slug: slug.toLowerCase() })) !== null;
+}
+
+const documentAlreadyExists = (slug: string) =>
+    new KnowledgeStoreError(`Knowledge document '${slug}' already exists. Upload a new version instead.`, 409);
+
+export async function createDocument(
+    params: { slug: string; title: string; content: string; note?: string; makeDefault?: boolean },
+    userId: string
+): Promise<IKnowledgeDocument> {
+    if (await documentExists(params.slug)) {
+        throw documentAlreadyExists(params.slug);
+    }
+    const injectionFindings = await checkForInjection(params.slug, params.content, userId);
+    // The first document becomes the default automatically so the bot switches over from the bundled file
+    const makeDefault = params.makeDefault || !(await KnowledgeDocumentModel.exists({ isDefault: true }));
+
+    // The unique slug index settles concurrent uploads of the same slug: the one that loses gets the same 409
+    const document = await KnowledgeDocumentModel.create({
+        slug: params.slug,
+        title: params.title,
+        activeVersion: 1,
+        latestVersion: 1,
+        isDefault: false,
+        createdBy: userId,
+    }).catch((error: any) => {
+        if (error?.code === 11000) throw documentAlreadyExists(params.slug);
+        throw error;
+    });
+    await saveVersion(document, 1, params.content, params.note, userId, injectionFindings);
+    if (makeDefault) await setDefaultDocument(document.slug);
+    invalidateKnowledgeBaseCache();
+    return (await KnowledgeDocumentModel.findById(document._id))!;
+}
+
+// Uploads a replacement text as a new version and activates it. The version number is reserved atomically,
+// so concurrent uploads get consecutive numbers and the newest one ends up active.
+export async function addVersion(slug: string, content: string, note: string | undefined, userId: string): Promise<IKnowledgeDocumentVersion> {
+    const document = await findDocument(slug);
+    const latest = await KnowledgeDocumentVersionModel.findOne({ documentId: document._id, version: document.latestVersion }).select('contentHash').lean();
+    if (latest && latest.contentHash === hashContent(content)) {
+        throw new KnowledgeStoreError(`Content is identical to version ${document.latestVersion}.`, 409);
+    }
+
+    const injectionFindings = await checkForInjection(slug, content, userId);
+
+    const reserved = await KnowledgeDocumentModel.findOneAndUpdate({ _id: document._id }, { $inc: { latestVersion: 1 } }, { new: true });
+    if (!reserved) throw new KnowledgeStoreError(`Knowledge document '${slug}' not found.`, 404);
+    const version = await saveVersion(reserved, reserved.latestVersion, content, note, userId, injectionFindings);
+    await KnowledgeDocumentModel.updateOne({ _id: document._id }, { $max: { activeVersion: reserved.latestVersion } });
+    invalidateKnowledgeBaseCache();
+    return version;
+}
+
+// Points the document back (or forward) at an existing version. Versions themselves are never removed.
+export async function activateVersion(slug: string, versionNumber: number): Promise<IKnowledgeDocument> {
+    const document = await findDocument(slug);
+    if (!(await KnowledgeDocumentVersionModel.exists({ documentId: document._id, version: versionNumber }))) {
+        throw new KnowledgeStoreError(`Version ${versionNumber} of '${slug}' does not exist.`, 404);
+    }
+    document.activeVersion = versionNumber;
+    await document.save();
+    invalidateKnowledgeBaseCache();
+    return document;
+}
+
+export async function setDefaultDocument(slug: string): Promise<IKnowledgeDocument> {
+    const document = await findDocument(slug);
+    await KnowledgeDocumentModel.updateMany({ _id: { $ne: document._id }, isDefault: true }, { isDefault: false });
+    document.isDefault = true;
+    await document.save();
+    invalidateKnowledgeBaseCache();
+    return document;
+}
+
+export async function listVersions(slug: string): Promise<IKnowledgeDocumentVersion[]> {
+    const document = await findDocument(slug);
+    return KnowledgeDocumentVersionModel.find({ documentId: document._id }).select('-content').sort({ version: -1 });
+}
+
+export async function getVersion(slug: string, versionNumber: number): Promise<IKnowledgeDocumentVersion> {
+    const document = await findDocument(slug);
+    const version = await KnowledgeDocumentVersionModel.findOne({ documentId: document._id, version: versionNumber });
+    if (!version) throw new KnowledgeStoreError(`Version ${versionNumber} of '${slug}' does not exist.`, 404);
+    return version;
+}
+
+// Sections that read like instructions to the model would be put in front of it as part of the DOCUMENT.
+// Under the "block" policy the upload is rejected; under "warn" it is logged and the findings are stored with the version.
+async function checkForInjection(slug: string, content: string, userId: string): Promise<SectionFindings[]> {
+    const findings = scanKnowledgeContent(content);
+    if (findings.length === 0) return findings;
+    const described = findings.map(finding => `${finding.sectionId} (${finding.patterns.join(', ')})`).join('; ');
+    const action = getKnowledgeInjectionPolicy() === 'block' ? 'blocked' : 'warned';
+    await recordInjectionAttempt({
+        userId,
+        source: 'knowledge_base',
+        patterns: [...new Set(findings.flatMap(finding => finding.patterns))],
+        action,
+        text: described,
+        documentSlug: slug.toLowerCase(),
+    });
+    if (action === 'blocked') {
+        throw new KnowledgeStoreError(`The content looks like it contains instructions to the assistant, in sections: ${described}. (E:PI02)`, 422);
+    }
+    return findings;
+}
+
+async function saveVersion(
+    document: IKnowledgeDocument,
+    versionNumber: number,
+    content: string,
+    note: string | undefined,
+    userId: string,
+    injectionFindings: SectionFindings[]
+) {
+    return KnowledgeDocumentVersionModel.create({
+        documentId: document._id,
+        version: versionNumber,
+        content,
+        contentHash: hashContent(content),
+        sizeChars: content.length,
+        note: note || null,
+        uploadedBy: userId,
+        injectionFindings,
+    });
+}
@@ -0,0 +1,35 @@
+import type { TokenUsage } from './providers';
+import { config } from './config';
+
+// Estimated cost of LLM calls. Prices are in USD per million tokens, keyed by model id as sent to the provider.
+// LLM_PRICE_TABLE (JSON, validated by config) adds models or overrides the defaults, e.g.
+//   LLM_PRICE_TABLE={"openai/gpt-4o-mini": {"prompt": 0.15, "completion": 0.6}}
+// OpenRouter ":free" models and providers that don't bill (local servers, mock, recorded) cost nothing.
+// Any other model missing from the table has an unknown cost (null), so a missing price is never read as free.
+export interface ModelPrice {
+    prompt: number;      // USD per million prompt tokens
+    completion: number;  // USD per million completion tokens
+}
+
+const DEFAULT_PRICE_TABLE: Record<string, ModelPrice> = {
+    'gemini-2.0-flash': { prompt: 0.10, completion: 0.40 },
+    'gemini-2.0-flash-lite': { prompt: 0.075, completion: 0.30 },
+    'gemini-1.5-flash': { prompt: 0.075, completion: 0.30 },
+    'gemini-1.5-pro': { prompt: 1.25, completion: 5.00 },
+};
+const FREE_PROVIDERS = new Set(['local', 'mock', 'recorded']);
+
+const PRICE_TABLE: Record<string, ModelPrice> = { ...DEFAULT_PRICE_TABLE, ...config.llm.priceOverrides };
+
+export function getModelPrice(provider: string, model: string): ModelPrice | null {
+    if (FREE_PROVIDERS.has(provider) || model.endsWith(':free')) return { prompt: 0, completion: 0 };
+    return PRICE_TABLE[model] ?? null;
+}
+
+// null when the model has no price. Calls that reported no usage (e.g. timeouts) cost 0.
+export function estimateCost(provider: string, model: string, usage: TokenUsage | null): number | null {
+    if (!usage) return 0;
+    const price = getModelPrice(provider, model);
+    if (!price) return null;
+    return (usage.promptTokens * price.prompt + usage.completionTokens * price.completion) / 1_000_000;
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { parseAIResponse } from './llmService';
+
+const parse = (output: unknown) => parseAIResponse(typeof output === 'string' ? output : JSON.stringify(output), 'Spec');
+
+describe('parseAIResponse', () => {
+    it('removes markdown bold from the answer text but not from the quotes', () => {
+        const { response, errors } = parse({
+            type: 'list',
+            title: '**Key** terms',
+            items: [{ point: '__Cap__', detail: 'The **highest** valuation.' }],
+            evidence: [{ claim: 'Cap', quotes: ['the **cap** is'] }],
+        });
+        expect(errors).toEqual([]);
+        expect(response).toMatchObject({ title: 'Key terms', items: [{ point: 'Cap', detail: 'The highest valuation.' }] });
+        expect(response).toMatchObject({ evidence: [{ quotes: ['the **cap** is'] }] });
+    });
+
+    it('rejects a field that is only markup once the markup is removed', () => {
+        const { response, errors } = parse({ type: 'table', title: '****', columns: ['Stage'], rows: [['Seed']] });
+        expect(response).toBeNull();
+        expect(errors).toEqual(['title: must not be empty (E:PV02_Spec)']);
+    });
+
+    it('reads JSON wrapped in a markdown code block', () => {
+        const { response } = parse('```json\n{"type": "text", "answer": "Yes."}\n```');
+        expect(response).toEqual({ type: 'text', answer: 'Yes.' });
+    });
+
+    it('asks for a repair when the output is not JSON', () => {
+        const { errors } = parse('Sure! A SAFE is...');
+        expect(errors).toEqual([expect.stringMatching(/^The output is not valid JSON .*\(E:PV01_Spec\)$/)]);
+    });
+
+    it('does not let the model answer with an error response', () => {
+        const { response, flags } = parse({ type: 'error', message: 'I refuse.' });
+        expect(response).toBeNull();
+        expect(flags).toEqual(['error_output']);
+    });
+});
@@ -0,0 +1,151 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { SpanKind, SpanStatusCode, context as otelContext, trace } from '@opentelemetry/api';
+import { tracer } from './tracing';
+import { config, LogLevel } from './config';
+
+// Structured logging. Each entry is one JSON line (or a readable line with LOG_FORMAT=pretty) carrying the
+// request's correlation ID and, when tracing is on, its trace and span IDs.
+// Level, format and whether questions and answers are logged come from config.logging.
+
+export type { LogLevel };
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+    debug(msg: string, fields?: LogFields): void;
+    info(msg: string, fields?: LogFields): void;
+    warn(msg: string, fields?: LogFields): void;
+    error(msg: string, fields?: LogFields): void;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+const LOG_LEVEL = config.logging.level;
+const LOG_FORMAT = config.logging.format;
+const LOG_INCLUDE_CONTENT = config.logging.includeContent;
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+const INCOMING_REQUEST_ID = /^[A-Za-z0-9._-]{1,128}$/;
+
+interface RequestContext {
+    requestId: string;
+}
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+export function currentRequestId(): string | undefined {
+    return requestContext.getStore()?.requestId;
+}
+
+// --- Redaction ---
+
+// Fields holding user or model text: logged as their length only
+const CONTENT_KEYS = new Set(['question', 'query', 'prompt', 'text', 'answer', 'excerpt', 'content', 'rawcontent', 'output', 'body', 'cachedquestion']);
+// Fields holding credentials: never logged
+const SECRET_KEY = /(api[_-]?key|token|secret|password|authorization|cookie|credential)/i;
+// Credentials that can turn up inside messages (error texts, URLs)
+const SECRET_PATTERNS: [RegExp, string][] = [
+    [/\b(sk|pk|rk)_(live|test)_[A-Za-z0-9]{10,}/g, '[redacted key]'],   // Clerk
+    [/\bsk-[A-Za-z0-9_-]{16,}/g, '[redacted key]'],                      // OpenRouter / OpenAI style
+    [/\bAIza[0-9A-Za-z_-]{30,}/g, '[redacted key]'],                     // Google
+    [/\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g, '[redacted token]'], // JWTs
+    [/\bBearer\s+[A-Za-z0-9._~+/=-]+/gi, 'Bearer [redacted]'],
+    [/(mongodb(?:\+srv)?:\/\/)[^:@/\s]+:[^@/\s]+@/g, '$1[redacted]@'],
+    [/([?&](?:key|api_key|apikey|token)=)[^&\s]+/gi, '$1[redacted]'],
+];
+
+export function scrub(value: string): string {
+    return SECRET_PATTERNS.reduce((text, [pattern, replacement]) => text.replace(pattern, replacement), value);
+}
+
+function redact(value: unknown, key: string | null, depth: number): unknown {
+    if (key !== null) {
+        if (SECRET_KEY.test(key)) return value === undefined || value === null ? value : '[redacted]';
+        if (!LOG_INCLUDE_CONTENT && CONTENT_KEYS.has(key.toLowerCase()) && typeof value === 'string') {
+            return `[redacted: ${value.length} chars]`;
+        }
+    }
+    if (typeof value === 'string') return scrub(value);
+    if (value instanceof Error) {
+        return { name: value.name, message: scrub(value.message), ...(value.stack ? { stack: scrub(value.stack) } : {}) };
+    }
+    if (value === null || typeof value !== 'object' || value instanceof Date) return value;
+    if (depth >= 5) return '[truncated]';
+    if (Array.isArray(value)) return value.map(item => redact(item, null, depth + 1));
+    return Object.fromEntries(Object.entries(value).map(([field, fieldValue]) => [field, redact(fieldValue, field, depth + 1)]));
+}
+
+// --- Output ---
+
+function write(level: LogLevel, scope: string, msg: string, fields?: LogFields): void {
+    if (LEVELS[level] < LEVELS[LOG_LEVEL]) return;
+
+    const spanContext = trace.getActiveSpan()?.spanContext();
+    const entry: LogFields = {
+        time: new Date().toISOString(),
+        level,
+        scope,
+        msg: scrub(msg),
+        requestId: currentRequestId(),
+        traceId: spanContext && trace.isSpanContextValid(spanContext) ? spanContext.traceId : undefined,
+        spanId: spanContext && trace.isSpanContextValid(spanContext) ? spanContext.spanId : undefined,
+        ...(fields ? redact(fields, null, 0) as LogFields : {}),
+    };
+
+    let line: string;
+    if (LOG_FORMAT === 'pretty') {
+        const { time, level: _level, scope: _scope, msg: message, requestId, traceId: _traceId, spanId: _spanId, ...rest } = entry;
+        const details = Object.entries(rest).filter(([, value]) => value !== undefined)
+            .map(([field, value]) => `${field}=${typeof value === 'string' ? value : JSON.stringify(value)}`).join(' ');
+        line = `${time} ${level.toUpperCase().padEnd(5)} [${scope}] ${message}${details ? ` ${details}` : ''}${requestId ? ` (req ${requestId})` : ''}`;
+    } else {
+        line = JSON.stringify(entry);
+    }
+    (LEVELS[level] >= LEVELS.warn ? process.stderr : process.stdout).write(line + '\n');
+}
+
+export function createLogger(scope: string): Logger {
+    return {
+        debug: (msg, fields) => write('debug', scope, msg, fields),
+        info: (msg, fields) => write('info', scope, msg, fields),
+        warn: (msg, fields) => write('warn', scope, msg, fields),
+        error: (msg, fields) => write('error', scope, msg, fields),
+    };
+}
+
+// --- Request middleware ---
+
+const httpLogger = createLogger('HTTP');
+
+// Share tokens in /api/shared/<token> grant access on their own, so they are kept out of logs and spans
+function loggablePath(req: Request): string {
+    return req.originalUrl.split('?')[0].replace(/^(\/api\/shared\/)[^/]+/, '$1[token]');
+}
+
+// Gives every request a correlation ID (the caller's X-Request-Id when it looks safe, a new UUID otherwise),
+// returns it in the X-Request-Id response header, runs the rest of the request in its log context and a
+// server span, and logs one line when the response is finished.
+export function requestLogging(req: Request, res: Response, next: NextFunction): void {
+    const incoming = req.get(REQUEST_ID_HEADER);
+    const requestId = incoming && INCOMING_REQUEST_ID.test(incoming) ? incoming : randomUUID();
+    res.setHeader(REQUEST_ID_HEADER, requestId);
+
+    const startedAt = Date.now();
+    const path = loggablePath(req);
+    const span = tracer.startSpan(`${req.method} ${path}`, {
+        kind: SpanKind.SERVER,
+        attributes: { 'http.request.method': req.method, 'url.path': path, 'request.id': requestId },
+    });
+    res.on('finish', () => {
+        const status = res.statusCode;
+        span.setAttribute('http.response.status_code', status);
+        if (status >= 500) span.setStatus({ code: SpanStatusCode.ERROR });
+        const fields = { method: req.method, path, status, durationMs: Date.now() - startedAt, userId: req.auth?.userId };
+        otelContext.with(trace.setSpan(otelContext.active(), span), () => requestContext.run({ requestId }, () => {
+            if (status >= 500) httpLogger.error('Request failed', fields);
+            else httpLogger.info('Request completed', fields);
+        }));
+        span.end();
+    });
+
+    otelContext.with(trace.setSpan(otelContext.active(), span), () => requestContext.run({ requestId }, () => next()));
+}
@@ -0,0 +1,61 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// A cached answer to a first question (no earlier turns) for one knowledge base text and model.
+// MongoDB removes entries once expiresAt has passed.
+export interface IAnswerCacheEntry extends Document {
+    questionKey: string;     // Normalized question
+    tokens: string[];        // Stemmed keywords, for near-duplicate matching
+    contentHash: string;     // Knowledge base content the answer was produced from
+    llmModel: string;        // Model that produced the answer ("model" is reserved by mongoose Documents)
+    provider: string;
+    response: any;           // LLMStructuredResponse, never of type "error"
+    hits: number;
+    expiresAt: Date;
+    createdAt: Date;
+}
+
+const AnswerCacheEntrySchema: Schema<IAnswerCacheEntry> = new Schema(
+    {
+        questionKey: {
+            type: String,
+            required: true,
+        },
+        tokens: {
+            type: [String],
+            default: [],
+        },
+        contentHash: {
+            type: String,
+            required: true,
+        },
+        llmModel: {
+            type: String,
+            required: true,
+        },
+        provider: {
+            type: String,
+            required: true,
+        },
+        response: {
+            type: Schema.Types.Mixed,
+            required: true,
+        },
+        hits: {
+            type: Number,
+            default: 0,
+        },
+        expiresAt: {
+            type: Date,
+            required: true,
+        },
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+    }
+);
+
+AnswerCacheEntrySchema.index({ questionKey: 1, contentHash: 1, llmModel: 1 }, { unique: true });
+AnswerCacheEntrySchema.index({ contentHash: 1, llmModel: 1, tokens: 1 });
+AnswerCacheEntrySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IAnswerCacheEntry>('AnswerCacheEntry', AnswerCacheEntrySchema);
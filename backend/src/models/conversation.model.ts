@@ -0,0 +1,36 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export const DEFAULT_CONVERSATION_TITLE = 'New conversation';
+
+// A conversation thread groups QAHistory entries so follow-up questions keep their context.
+// The turns themselves live in QAHistory (linked by conversationId); this document only holds thread metadata.
+export interface IConversation extends Document {
+    userId: string;
+    title: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const ConversationSchema: Schema<IConversation> = new Schema(
+    {
+        userId: {
+            type: String,
+            required: true,
+            index: true, // Index for listing a user's threads
+        },
+        title: {
+            type: String,
+            required: true,
+            trim: true,
+            maxlength: 200,
+            default: DEFAULT_CONVERSATION_TITLE,
+        },
+    },
+    {
+        timestamps: true, // Adds createdAt / updatedAt; updatedAt is bumped on each new turn for sidebar ordering
+    }
+);
+
+ConversationSchema.index({ userId: 1, updatedAt: -1 });
+
+export default mongoose.model<IConversation>('Conversation', ConversationSchema);
@@ -0,0 +1,55 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export const INJECTION_SOURCES = ['question', 'knowledge_base', 'output'] as const;
+export type InjectionSource = typeof INJECTION_SOURCES[number];
+
+// One detected prompt-injection attempt, written by promptInjection.ts. Counted per user by the admin security routes.
+export interface IInjectionAttempt extends Document {
+    userId: string | null;      // Asking user, or the admin who uploaded the document; null when unknown
+    source: InjectionSource;    // A question, an uploaded knowledge base text or a model answer
+    patterns: string[];         // Names of the matched detection patterns
+    action: 'blocked' | 'warned';
+    excerpt: string;            // The start of the offending text, for review
+    documentSlug?: string | null;
+    createdAt: Date;
+}
+
+const InjectionAttemptSchema: Schema<IInjectionAttempt> = new Schema(
+    {
+        userId: {
+            type: String,
+            default: null,
+            index: true,
+        },
+        source: {
+            type: String,
+            enum: INJECTION_SOURCES,
+            required: true,
+        },
+        patterns: {
+            type: [String],
+            default: [],
+        },
+        action: {
+            type: String,
+            enum: ['blocked', 'warned'],
+            required: true,
+        },
+        excerpt: {
+            type: String,
+            default: '',
+            maxlength: 500,
+        },
+        documentSlug: {
+            type: String,
+            default: null,
+        },
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+    }
+);
+
+InjectionAttemptSchema.index({ createdAt: -1 });
+
+export default mongoose.model<IInjectionAttempt>('InjectionAttempt', InjectionAttemptSchema);
@@ -0,0 +1,57 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// A knowledge base document (one guide). Its text lives in KnowledgeDocumentVersion;
+// this document only points at the version currently used to answer questions.
+export interface IKnowledgeDocument extends Document {
+    slug: string;            // Stable key used in admin routes, e.g. "raise-millions"
+    title: string;
+    activeVersion: number;   // Version number in KnowledgeDocumentVersion that answers questions
+    latestVersion: number;   // Highest version number uploaded so far
+    isDefault: boolean;      // The document the bot answers from
+    createdBy: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const KnowledgeDocumentSchema: Schema<IKnowledgeDocument> = new Schema(
+    {
+        slug: {
+            type: String,
+            required: true,
+            unique: true,
+            trim: true,
+            lowercase: true,
+            match: /^[a-z0-9][a-z0-9-]{0,63}$/,
+        },
+        title: {
+            type: String,
+            required: true,
+            trim: true,
+            maxlength: 200,
+        },
+        activeVersion: {
+            type: Number,
+            required: true,
+            min: 1,
+        },
+        latestVersion: {
+            type: Number,
+            required: true,
+            min: 1,
+        },
+        isDefault: {
+            type: Boolean,
+            default: false,
+            index: true,
+        },
+        createdBy: {
+            type: String,
+            required: true,
+        },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+export default mongoose.model<IKnowledgeDocument>('KnowledgeDocument', KnowledgeDocumentSchema);
@@ -0,0 +1,66 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// One immutable upload of a knowledge base document. Versions are never edited or deleted,
+// so a QAHistory entry's (documentId, version) can always be traced back to the exact text.
+export interface IKnowledgeDocumentVersion extends Document {
+    documentId: mongoose.Types.ObjectId;
+    version: number;
+    content: string;
+    contentHash: string;     // sha256 of content, also used to detect no-op uploads
+    sizeChars: number;
+    note?: string | null;    // Optional change description
+    uploadedBy: string;
+    injectionFindings: { sectionId: string; title: string; patterns: string[] }[]; // Sections that look like prompt injections (stored under the "warn" policy)
+    createdAt: Date;
+}
+
+const KnowledgeDocumentVersionSchema: Schema<IKnowledgeDocumentVersion> = new Schema(
+    {
+        documentId: {
+            type: Schema.Types.ObjectId,
+            ref: 'KnowledgeDocument',
+            required: true,
+        },
+        version: {
+            type: Number,
+            required: true,
+            min: 1,
+        },
+        content: {
+            type: String,
+            required: true,
+        },
+        contentHash: {
+            type: String,
+            required: true,
+        },
+        sizeChars: {
+            type: Number,
+            required: true,
+        },
+        note: {
+            type: String,
+            default: null,
+            maxlength: 500,
+        },
+        uploadedBy: {
+            type: String,
+            required: true,
+        },
+        injectionFindings: {
+            type: [new Schema({
+                sectionId: { type: String, required: true },
+                title: { type: String, default: '' },
+                patterns: { type: [String], default: [] },
+            }, { _id: false })],
+            default: [],
+        },
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+    }
+);
+
+KnowledgeDocumentVersionSchema.index({ documentId: 1, version: -1 }, { unique: true });
+
+export default mongoose.model<IKnowledgeDocumentVersion>('KnowledgeDocumentVersion', KnowledgeDocumentVersionSchema);
@@ -0,0 +1,42 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { HISTORY_VISIBILITIES, HistoryVisibility } from './qaHistory.model';
+
+// Settings of one organization (a Clerk organization, or the org_id of local tokens), managed by its
+// org admins through /api/org/settings. Organizations without a document use the defaults in orgSettings.ts.
+export interface IOrgSettings extends Document {
+    orgId: string;
+    knowledgeDocumentSlug?: string | null; // Guide the organization's questions are answered from; null: the default document
+    defaultVisibility: HistoryVisibility;  // Visibility of new history entries asked in the organization
+    updatedBy: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const OrgSettingsSchema: Schema<IOrgSettings> = new Schema(
+    {
+        orgId: {
+            type: String,
+            required: true,
+            unique: true,
+        },
+        knowledgeDocumentSlug: {
+            type: String,
+            default: null,
+            lowercase: true,
+        },
+        defaultVisibility: {
+            type: String,
+            enum: HISTORY_VISIBILITIES,
+            default: 'private',
+        },
+        updatedBy: {
+            type: String,
+            required: true,
+        },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+export default mongoose.model<IOrgSettings>('OrgSettings', OrgSettingsSchema);
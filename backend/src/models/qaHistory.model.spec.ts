@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import QAHistoryModel, { HISTORY_TEXT_INDEX_NAME } from './qaHistory.model';
+import { LLMStructuredResponse } from '../shared/llmResponseSchema';
+
+// Fields that hold no searchable answer text
+const NOT_SEARCHED = new Set(['type', 'follow_up', 'source_section_id', 'source_section_title', 'evidence', 'grounding']);
+
+// Dotted paths of the string values in a response, array positions left out as MongoDB paths do
+function stringPaths(value: unknown, path: string, paths: Set<string>): Set<string> {
+    if (typeof value === 'string') paths.add(path);
+    else if (Array.isArray(value)) value.forEach(item => stringPaths(item, path, paths));
+    else if (value && typeof value === 'object') {
+        for (const [key, child] of Object.entries(value)) {
+            if (!path && NOT_SEARCHED.has(key)) continue;
+            stringPaths(child, path ? `${path}.${key}` : key, paths);
+        }
+    }
+    return paths;
+}
+
+const RESPONSES: LLMStructuredResponse[] = [
+    { type: 'text', answer: 'A SAFE converts later.' },
+    { type: 'list', title: 'Terms', items: [{ point: 'Cap', detail: 'The valuation cap.' }] },
+    { type: 'table', title: 'Rounds', columns: ['Stage', 'Size'], rows: [['Seed', '$2M']] },
+    { type: 'steps', title: 'Raising', steps: [{ title: 'Prepare', detail: 'Build the deck.', sub_points: ['Metrics'] }] },
+    { type: 'comparison', title: 'SAFE vs note', options: ['SAFE', 'Note'], criteria: [{ criterion: 'Interest', values: ['None', 'Yes'] }], summary: 'SAFEs are simpler.' },
+];
+
+describe('history text index', () => {
+    const definition = QAHistoryModel.schema.indexes().find(([, options]) => options.name === HISTORY_TEXT_INDEX_NAME);
+    const indexedFields = Object.keys(definition?.[0] ?? {});
+
+    it.each(RESPONSES.map(response => [response.type, response] as const))('covers the text of %s answers', (_type, response) => {
+        const paths = [...stringPaths(response, '', new Set())].map(path => `llmResponse.${path}`);
+        expect(indexedFields).toEqual(expect.arrayContaining(paths));
+    });
+
+    it('weighs the question above the answer', () => {
+        expect(definition?.[1].weights).toEqual({ question: 3 });
+        expect(indexedFields).toContain('question');
+    });
+});
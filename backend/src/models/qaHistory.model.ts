@@ -1,23 +1,82 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import type { LLMStructuredResponse } from '../shared/llmResponseSchema';
+import type { TriageDecision } from '../triage';
 
-// Define the structure of the LLM response you're storing
-// This should match your LLMStructuredResponse from llmService.ts
-// For simplicity, we'll use Schema.Types.Mixed, but you could define sub-schemas.
-interface ILLMResponseData {
-    type: "text" | "list" | "error";
-    answer?: string;
-    title?: string;
-    items?: { point: string; detail: string }[];
-    message?: string; // For error type
-    follow_up?: string | null;
-    source_section_id?: string | null;
-    source_section_title?: string | null;
+// The stored answer has the shape of the shared response schema (validated before it is saved)
+type ILLMResponseData = LLMStructuredResponse;
+
+// Which knowledge base text produced the answer, so old answers can be audited after the guide changes
+interface IKnowledgeBaseRef {
+    documentId: string | null;   // null when answered from the bundled file or env override
+    documentSlug: string;
+    version: number;
+    contentHash: string;
+}
+
+// Reason categories users can pick when rating an answer down
+export const FEEDBACK_REASONS = ['not_in_guide', 'wrong', 'incomplete', 'bad_format'] as const;
+export type FeedbackReason = typeof FEEDBACK_REASONS[number];
+
+// The asking user's rating of the answer; submitting again replaces it
+export interface IAnswerFeedback {
+    rating: 'up' | 'down';
+    reason?: FeedbackReason | null;
+    comment?: string | null;
+    updatedAt: Date;
 }
 
+// Who besides the asker can read an entry: nobody, or the members of the organization it was asked in
+export const HISTORY_VISIBILITIES = ['private', 'org'] as const;
+export type HistoryVisibility = typeof HISTORY_VISIBILITIES[number];
+
+// Injection patterns matched by a question answered under the "warn" policy, and output checks the model failed
+interface IPromptInjectionFindings {
+    patterns: string[];
+    outputFlags: string[];
+}
+
+// One provider attempt of the fallback path, in the order they were made
+interface ILLMCallRecord {
+    provider: string;
+    model: string;
+    outcome: 'success' | 'failed' | 'skipped' | 'invalid';
+    reason?: string | null;
+    repairs: number;
+    durationMs: number;
+    promptTokens: number | null;     // null when the API reported no usage
+    completionTokens: number | null;
+    costUsd: number | null;          // Estimated from the price table; null when the model has no price
+}
+
+// Token, latency and cost accounting for the request. Cached and triaged answers have no calls.
+interface ILLMUsage {
+    calls: ILLMCallRecord[];
+    promptTokens: number;
+    completionTokens: number;
+    costUsd: number | null;
+    latencyMs: number;               // From receiving the question to saving the entry
+}
+
+// Requests that failed after calling a model are saved with an error llmResponse, for usage accounting only.
+// Lists shown to the user (history, conversation turns) leave them out with this filter.
+export const ANSWERED_ONLY = { 'llmResponse.type': { $ne: 'error' } };
+
 export interface IQAHistory extends Document {
     userId: string;
+    orgId?: string | null;       // The asker's active organization when asking, null outside one
+    visibility: HistoryVisibility; // 'org' entries show up in the organization's shared history
+    conversationId?: mongoose.Types.ObjectId | null; // Thread this turn belongs to, null for one-off questions
     question: string;
     llmResponse: ILLMResponseData; // Store the full structured LLM response
+    knowledgeBase?: IKnowledgeBaseRef | null;
+    provider?: string | null;    // Provider and model that produced the answer
+    llmModel?: string | null;    // ("model" is reserved by mongoose Documents)
+    repairAttempts?: number;     // Repair prompts needed before the output passed validation
+    grounding?: { confidence: number; rejected: boolean } | null; // Grounding check; rejected answers were replaced by the "cannot find" reply
+    triage?: TriageDecision | null; // How the pre-LLM triage classified the question; non in_scope ones got a templated reply
+    promptInjection?: IPromptInjectionFindings | null; // Set when the question or a model output was flagged but still answered
+    feedback?: IAnswerFeedback | null;
+    usage?: ILLMUsage | null;    // null for entries saved before usage was recorded
     timestamp: Date;
 }
 
@@ -27,6 +86,21 @@ const QAHistorySchema: Schema<IQAHistory> = new Schema({
         required: true,
         index: true, // Index for faster queries by userId
     },
+    orgId: {
+        type: String,
+        default: null,
+    },
+    visibility: {
+        type: String,
+        enum: HISTORY_VISIBILITIES,
+        default: 'private',
+    },
+    conversationId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Conversation',
+        default: null,
+        index: true, // Index for loading a thread's turns
+    },
     question: {
         type: String,
         required: true,
@@ -35,6 +109,82 @@ const QAHistorySchema: Schema<IQAHistory> = new Schema({
         type: Schema.Types.Mixed, // Allows storing any valid JSON structure
         required: true,
     },
+    knowledgeBase: {
+        type: new Schema({
+            documentId: { type: String, default: null },
+            documentSlug: { type: String, required: true },
+            version: { type: Number, required: true },
+            contentHash: { type: String, required: true },
+        }, { _id: false }),
+        default: null,
+    },
+    provider: {
+        type: String,
+        default: null,
+    },
+    llmModel: {
+        type: String,
+        default: null,
+    },
+    repairAttempts: {
+        type: Number,
+        default: 0,
+    },
+    grounding: {
+        type: new Schema({
+            confidence: { type: Number, required: true },
+            rejected: { type: Boolean, required: true },
+        }, { _id: false }),
+        default: null,
+    },
+    triage: {
+        type: new Schema({
+            category: { type: String, enum: ['in_scope', 'greeting', 'off_topic', 'abusive'], required: true },
+            reason: { type: String, default: null },
+            coverage: { type: Number, default: null },
+            topScore: { type: Number, default: null },
+        }, { _id: false }),
+        default: null,
+    },
+    promptInjection: {
+        type: new Schema({
+            patterns: { type: [String], default: [] },
+            outputFlags: { type: [String], default: [] },
+        }, { _id: false }),
+        default: null,
+    },
+    feedback: {
+        type: new Schema({
+            rating: { type: String, enum: ['up', 'down'], required: true },
+            reason: { type: String, enum: [...FEEDBACK_REASONS, null], default: null },
+            comment: { type: String, default: null, maxlength: 2000 },
+            updatedAt: { type: Date, default: Date.now },
+        }, { _id: false }),
+        default: null,
+    },
+    usage: {
+        type: new Schema({
+            calls: {
+                type: [new Schema({
+                    provider: { type: String, required: true },
+                    model: { type: String, required: true },
+                    outcome: { type: String, enum: ['success', 'failed', 'skipped', 'invalid'], required: true },
+                    reason: { type: String, default: null },
+                    repairs: { type: Number, default: 0 },
+                    durationMs: { type: Number, required: true },
+                    promptTokens: { type: Number, default: null },
+                    completionTokens: { type: Number, default: null },
+                    costUsd: { type: Number, default: null },
+                }, { _id: false })],
+                default: [],
+            },
+            promptTokens: { type: Number, default: 0 },
+            completionTokens: { type: Number, default: 0 },
+            costUsd: { type: Number, default: null },
+            latencyMs: { type: Number, required: true },
+        }, { _id: false }),
+        default: null,
+    },
     timestamp: {
         type: Date,
         default: Date.now,
@@ -42,6 +192,37 @@ const QAHistorySchema: Schema<IQAHistory> = new Schema({
     },
 });
 
+// Full-text search over the question and the text of every answer type (GET /api/history?q=). A collection
+// can only have one text index; the question weighs more so matches on what was asked rank first.
+// MongoDB keeps an existing index of the same name as it was: after changing the fields, run
+// `npm run migrate:history-search` to drop and rebuild it.
+export const HISTORY_TEXT_INDEX_NAME = 'history_text_search';
+QAHistorySchema.index(
+    {
+        question: 'text',
+        'llmResponse.answer': 'text',
+        'llmResponse.title': 'text',
+        'llmResponse.items.point': 'text',
+        'llmResponse.items.detail': 'text',
+        'llmResponse.columns': 'text',
+        'llmResponse.rows': 'text',
+        'llmResponse.steps.title': 'text',
+        'llmResponse.steps.detail': 'text',
+        'llmResponse.steps.sub_points': 'text',
+        'llmResponse.options': 'text',
+        'llmResponse.criteria.criterion': 'text',
+        'llmResponse.criteria.values': 'text',
+        'llmResponse.summary': 'text',
+    },
+    { name: HISTORY_TEXT_INDEX_NAME, weights: { question: 3 } }
+);
+// Feedback analytics only look at rated entries
+QAHistorySchema.index({ 'feedback.updatedAt': -1 }, { sparse: true });
+// Newest-first pages per user
+QAHistorySchema.index({ userId: 1, timestamp: -1, _id: -1 });
+// Newest-first pages of an organization's shared history
+QAHistorySchema.index({ orgId: 1, visibility: 1, timestamp: -1, _id: -1 }, { partialFilterExpression: { visibility: 'org' } });
+
 // Optional: TTL index to automatically delete documents after some time (e.g., 90 days)
 // Ensure TTL is enabled on your Atlas cluster for this collection if you use it.
 // QAHistorySchema.index({ timestamp: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
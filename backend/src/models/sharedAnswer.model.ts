@@ -0,0 +1,59 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// A public, read-only link to one QAHistory entry. The entry itself is read when the link is opened,
+// so deleting it from the history also takes the shared page down.
+export interface ISharedAnswer extends Document {
+    slug: string;                         // Unguessable, URL-safe; the only thing a visitor needs
+    historyId: mongoose.Types.ObjectId;
+    userId: string;                       // Owner, the user who asked the question
+    expiresAt?: Date | null;              // null: never expires
+    revokedAt?: Date | null;              // Set when the owner revokes the link; revoked links are never reused
+    viewCount: number;
+    lastViewedAt?: Date | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const SharedAnswerSchema: Schema<ISharedAnswer> = new Schema(
+    {
+        slug: {
+            type: String,
+            required: true,
+            unique: true,
+        },
+        historyId: {
+            type: Schema.Types.ObjectId,
+            ref: 'QAHistory',
+            required: true,
+            index: true, // Index for finding the link of an entry
+        },
+        userId: {
+            type: String,
+            required: true,
+        },
+        expiresAt: {
+            type: Date,
+            default: null,
+        },
+        revokedAt: {
+            type: Date,
+            default: null,
+        },
+        viewCount: {
+            type: Number,
+            default: 0,
+        },
+        lastViewedAt: {
+            type: Date,
+            default: null,
+        },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+// Newest-first list of a user's links
+SharedAnswerSchema.index({ userId: 1, createdAt: -1 });
+
+export default mongoose.model<ISharedAnswer>('SharedAnswer', SharedAnswerSchema);
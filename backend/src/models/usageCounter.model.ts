@@ -0,0 +1,42 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Question counters of one user, shared by every backend instance. Updated atomically by rateLimit.ts.
+export interface IUsageCounter extends Document {
+    userId: string;
+    recentRequests: Date[];   // Accepted questions inside the current sliding window, oldest first
+    day: string;              // UTC day (YYYY-MM-DD) that dayCount belongs to
+    dayCount: number;         // Accepted questions on that day
+    lastAllowed: boolean;     // Outcome of the most recent check
+    updatedAt: Date;
+}
+
+const UsageCounterSchema: Schema<IUsageCounter> = new Schema(
+    {
+        userId: {
+            type: String,
+            required: true,
+            unique: true,
+        },
+        recentRequests: {
+            type: [Date],
+            default: [],
+        },
+        day: {
+            type: String,
+            required: true,
+        },
+        dayCount: {
+            type: Number,
+            default: 0,
+        },
+        lastAllowed: {
+            type: Boolean,
+            default: true,
+        },
+    },
+    {
+        timestamps: { createdAt: false, updatedAt: true },
+    }
+);
+
+export default mongoose.model<IUsageCounter>('UsageCounter', UsageCounterSchema);
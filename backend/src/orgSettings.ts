@@ -0,0 +1,67 @@
+import mongoose from 'mongoose';
+import OrgSettingsModel from './models/orgSettings.model';
+import type { HistoryVisibility } from './models/qaHistory.model';
+import { createLogger } from './logger';
+import { config } from './config';
+
+const logger = createLogger('Org Settings');
+
+// Settings are read on every question of an organization member, so they are cached like the knowledge base:
+// changes made on this instance apply immediately, other instances pick them up within the refresh interval.
+const SETTINGS_REFRESH_INTERVAL_MS = config.knowledgeBase.refreshIntervalMs;
+
+export interface OrgSettings {
+    orgId: string;
+    knowledgeDocumentSlug: string | null;
+    defaultVisibility: HistoryVisibility;
+    updatedBy: string | null;    // null until an org admin saves the settings
+    updatedAt: Date | null;
+}
+
+const cache = new Map<string, { settings: OrgSettings; checkedAt: number }>();
+
+function defaultSettings(orgId: string): OrgSettings {
+    return { orgId, knowledgeDocumentSlug: null, defaultVisibility: 'private', updatedBy: null, updatedAt: null };
+}
+
+// The organization's settings, or the defaults when it has none. Without a database connection the last
+// known settings (or the defaults) are returned, so questions are still answered.
+export async function getOrgSettings(orgId: string): Promise<OrgSettings> {
+    const cached = cache.get(orgId);
+    if (cached && Date.now() - cached.checkedAt <= SETTINGS_REFRESH_INTERVAL_MS) return cached.settings;
+    if (mongoose.connection.readyState !== 1) return cached?.settings ?? defaultSettings(orgId);
+
+    try {
+        const stored = await OrgSettingsModel.findOne({ orgId }).lean();
+        const settings: OrgSettings = stored
+            ? {
+                orgId,
+                knowledgeDocumentSlug: stored.knowledgeDocumentSlug ?? null,
+                defaultVisibility: stored.defaultVisibility,
+                updatedBy: stored.updatedBy,
+                updatedAt: stored.updatedAt,
+            }
+            : defaultSettings(orgId);
+        cache.set(orgId, { settings, checkedAt: Date.now() });
+        return settings;
+    } catch (error: any) {
+        logger.error(`Failed to load the settings of organization ${orgId}.`, { error: error.message });
+        return cached?.settings ?? defaultSettings(orgId);
+    }
+}
+
+// Saves the given fields, keeping the others. The caller checks that the document exists.
+export async function updateOrgSettings(
+    orgId: string,
+    changes: { knowledgeDocumentSlug?: string | null; defaultVisibility?: HistoryVisibility },
+    userId: string
+): Promise<OrgSettings> {
+    await OrgSettingsModel.updateOne(
+        { orgId },
+        { $set: { ...changes, updatedBy: userId } },
+        { upsert: true, runValidators: true }
+    );
+    cache.delete(orgId);
+    logger.info(`Organization ${orgId} settings updated.`, { userId, ...changes });
+    return getOrgSettings(orgId);
+}
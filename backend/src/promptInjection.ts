@@ -0,0 +1,110 @@
+import mongoose from 'mongoose';
+import InjectionAttemptModel, { InjectionSource } from './models/injectionAttempt.model';
+import { splitIntoSections } from './knowledgeBase';
+import type { LLMStructuredResponse } from './shared/llmResponseSchema';
+import { createLogger } from './logger';
+import { config, InjectionPolicy } from './config';
+
+const logger = createLogger('Prompt Injection');
+
+// --- Configuration ---
+// What happens when a question matches an injection pattern: "block" answers with a refusal without
+// calling the model, "warn" answers normally. Both log the attempt and count it against the user.
+export type { InjectionPolicy };
+const PROMPT_INJECTION_POLICY: InjectionPolicy = config.promptInjection.policy;
+// The same for uploaded knowledge base texts: "block" rejects the upload, "warn" stores it with the findings
+const PROMPT_INJECTION_KB_POLICY: InjectionPolicy = config.promptInjection.knowledgeBasePolicy;
+// Runs of this many words copied from the system prompt make an answer an echo of the instructions
+const ECHO_SHINGLE_WORDS = 8;
+const ECHO_MIN_SHINGLES = 3;
+
+// Phrasings of the common attacks: overriding the instructions, switching roles, extracting the prompt,
+// breaking the output format and faking chat-template or section markers. Each one has to be aimed at the
+// assistant's own instructions or prompt: founders legitimately ask about skipping rules, ignoring previous
+// investors or raising without the guide's advice.
+const INJECTION_PATTERNS: { name: string; pattern: RegExp }[] = [
+    { name: 'ignore_instructions', pattern: /\b(ignore|disregard|forget|override|bypass)\b.{0,20}\b((your|previous|prior|above|earlier|system|these) (instructions?|prompts?)|(instructions?|prompts?) above)\b/ },
+    { name: 'new_instructions', pattern: /\b(new|updated|real|actual|following) (instructions?|rules|system prompt)\s*:/ },
+    { name: 'role_switch', pattern: /\b(you are now|from now on,? you (are|will)|act as (an?|my) (unrestricted|unfiltered|different|new|evil)\b|pretend (to be|you are)|roleplay as|role-play as|developer mode|jailbreak|\bdan mode\b|do anything now)/ },
+    { name: 'prompt_extraction', pattern: /\b(reveal|show|print|repeat|output|tell me|give me|what (is|are)|leak|display)\b.{0,30}\b(system prompt|your (instructions|prompt)|initial prompt|hidden prompt|the (instructions|prompt) above)\b/ },
+    { name: 'format_override', pattern: /\b(do not|don't|stop|never) (respond|reply|answer|output|use|write)\b.{0,20}\b(in )?json\b|\b(respond|reply|answer) (only )?(in|with) (plain text|markdown|html|yaml|xml|code)\b/ },
+    { name: 'answer_outside_document', pattern: /\b(answer|respond|reply)\b.{0,30}\b(without|outside|beyond|instead of) (using |relying on )?(the|this|your) (document|guide|context)\b|\b(use|using|from|based on|rely on|relying on) your (own |general |outside |external |prior |world )*knowledge\b/ },
+    { name: 'template_markers', pattern: /<\|?(im_start|im_end|system|endoftext)\|?>|\[\/?inst\]|<\/?(system|user_question|document)>|^\s*(system|assistant)\s*:|###\s*(system|instruction)/m },
+];
+
+// --- Detection ---
+// Returns the names of the matched patterns, empty when the text looks harmless
+export function detectInjection(text: string): string[] {
+    const normalized = text.toLowerCase().replace(/[’`]/g, "'").replace(/[ \t]+/g, ' ');
+    return INJECTION_PATTERNS.filter(({ pattern }) => pattern.test(normalized)).map(({ name }) => name);
+}
+
+export interface SectionFindings { sectionId: string; title: string; patterns: string[]; }
+
+// Knowledge base texts are checked per section, so the findings say where to look
+export function scanKnowledgeContent(content: string): SectionFindings[] {
+    return splitIntoSections(content)
+        .map(section => ({ sectionId: section.id, title: section.title, patterns: detectInjection(`${section.title}\n${section.content}`) }))
+        .filter(findings => findings.patterns.length > 0);
+}
+
+function shingles(text: string): Set<string> {
+    const words = text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+    const result = new Set<string>();
+    for (let i = 0; i + ECHO_SHINGLE_WORDS <= words.length; i++) result.add(words.slice(i, i + ECHO_SHINGLE_WORDS).join(' '));
+    return result;
+}
+
+// True when the output repeats parts of the instructions, e.g. after "print your system prompt".
+// Quoted strings (the example values and the "cannot find" reply) are left out: answers legitimately copy them.
+export function echoesSystemPrompt(output: string, systemPrompt: string): boolean {
+    const instructions = shingles(systemPrompt.replace(/"(?:[^"\\]|\\.)*"/g, ' '));
+    let copied = 0;
+    for (const shingle of shingles(output)) {
+        if (instructions.has(shingle) && ++copied >= ECHO_MIN_SHINGLES) return true;
+    }
+    return false;
+}
+
+// --- Policy ---
+export function getInjectionPolicy(): InjectionPolicy {
+    return PROMPT_INJECTION_POLICY;
+}
+
+export function getKnowledgeInjectionPolicy(): InjectionPolicy {
+    return PROMPT_INJECTION_KB_POLICY;
+}
+
+export function blockedQuestionResponse(): LLMStructuredResponse {
+    return {
+        type: "error",
+        code: 'PROMPT_INJECTION',
+        message: "Your question looks like an attempt to change how the assistant works, so it wasn't answered. Please ask about startup fundraising. (E:PI01)",
+    };
+}
+
+// --- Logging ---
+// Failing to record an attempt never fails the request
+export async function recordInjectionAttempt(attempt: {
+    userId: string | null | undefined;
+    source: InjectionSource;
+    patterns: string[];
+    action: 'blocked' | 'warned';
+    text: string;
+    documentSlug?: string;
+}): Promise<void> {
+    logger.warn(`${attempt.action} ${attempt.source}`, { userId: attempt.userId, documentSlug: attempt.documentSlug, patterns: attempt.patterns });
+    if (mongoose.connection.readyState !== 1) return;
+    try {
+        await InjectionAttemptModel.create({
+            userId: attempt.userId || null,
+            source: attempt.source,
+            patterns: attempt.patterns,
+            action: attempt.action,
+            excerpt: attempt.text.substring(0, 500),
+            documentSlug: attempt.documentSlug ?? null,
+        });
+    } catch (error: any) {
+        logger.error('Failed to record the attempt.', { error: error.message });
+    }
+}
@@ -0,0 +1,56 @@
+import { createLogger } from '../logger';
+
+const logger = createLogger('CircuitBreaker');
+
+// Skips a provider after repeated failures so every request doesn't wait out its timeout.
+//  - closed:    calls go through; consecutive failures are counted.
+//  - open:      after `failureThreshold` consecutive failures, calls are skipped for `cooldownMs`.
+//  - half-open: once the cooldown has passed, one trial call is let through. Success closes the
+//               circuit, failure opens it again for another cooldown.
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export class CircuitBreaker {
+    private consecutiveFailures = 0;
+    private openedAt: number | null = null;
+    private trialInFlight = false;
+
+    constructor(
+        public readonly name: string,
+        private readonly failureThreshold: number,
+        private readonly cooldownMs: number,
+        private readonly now: () => number = Date.now
+    ) {}
+
+    get state(): CircuitState {
+        if (this.openedAt === null) return 'closed';
+        return this.now() - this.openedAt >= this.cooldownMs ? 'half-open' : 'open';
+    }
+
+    // Returns false when the call should be skipped.
+    tryAcquire(): boolean {
+        const state = this.state;
+        if (state === 'closed') return true;
+        if (state === 'half-open' && !this.trialInFlight) {
+            this.trialInFlight = true;
+            return true;
+        }
+        return false;
+    }
+
+    recordSuccess(): void {
+        if (this.openedAt !== null) logger.info(`${this.name}: trial call succeeded, closing circuit.`);
+        this.consecutiveFailures = 0;
+        this.openedAt = null;
+        this.trialInFlight = false;
+    }
+
+    recordFailure(): void {
+        this.consecutiveFailures++;
+        const wasTrial = this.trialInFlight;
+        this.trialInFlight = false;
+        if (wasTrial || this.consecutiveFailures >= this.failureThreshold) {
+            this.openedAt = this.now();
+            logger.warn(`${this.name}: opened after ${this.consecutiveFailures} consecutive failure(s); skipping for ${this.cooldownMs}ms.`);
+        }
+    }
+}
@@ -0,0 +1,82 @@
+import { GoogleGenerativeAI, UsageMetadata } from "@google/generative-ai"; // Google AI SDK
+import { LLMProvider, LLMPrompt, LLMCallOptions } from './types';
+import { buildSinglePrompt } from './promptFormat';
+import { createLogger } from '../logger';
+
+const logger = createLogger('Google AI');
+
+function reportUsage(usageMetadata: UsageMetadata | undefined, options: LLMCallOptions): void {
+    if (!usageMetadata) return;
+    options.onUsage?.({ promptTokens: usageMetadata.promptTokenCount ?? 0, completionTokens: usageMetadata.candidatesTokenCount ?? 0 });
+}
+
+export function createGoogleAIProvider(apiKey: string, modelName: string): LLMProvider {
+    const createModel = () => {
+        const genAI = new GoogleGenerativeAI(apiKey);
+        return genAI.getGenerativeModel({
+            model: modelName,
+            generationConfig: {
+                responseMimeType: "application/json",
+                temperature: 0.2,
+                maxOutputTokens: 2000, // Match OpenRouter for consistency
+            },
+            // Safety settings can be adjusted if needed, though default is usually fine
+            // safetySettings: [
+            //   { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+            // ]
+        });
+    };
+
+    return {
+        name: 'googleai',
+        label: 'GoogleAI',
+        model: modelName,
+
+        isConfigured: () => !!apiKey,
+
+        async generate(prompt: LLMPrompt, options: LLMCallOptions): Promise<string> {
+            logger.info('Request.', { model: modelName, question: prompt.question });
+            try {
+                const result = await createModel().generateContent(buildSinglePrompt(prompt), { signal: options.signal });
+                const response = result.response;
+                reportUsage(response.usageMetadata, options);
+                const rawContent = response.text(); // text() is a function that needs to be called
+
+                if (!rawContent || rawContent.trim() === "") {
+                    logger.warn('LLM returned empty content.', { finishReason: response.candidates?.[0]?.finishReason, promptFeedback: response.promptFeedback });
+                    throw new Error("Google AI service returned empty content. (E:GA_LR01)");
+                }
+                logger.debug('Raw content received.', { rawContent });
+                return rawContent;
+            } catch (error: any) {
+                logger.error('API call failed.', { model: modelName, error: error.message || String(error) });
+                throw new Error(`Google AI service failed: ${error.message || 'Unknown Google AI Error'} (E:GA_AX)`);
+            }
+        },
+
+        async stream(prompt: LLMPrompt, options: LLMCallOptions, onToken: (text: string) => void): Promise<string> {
+            logger.info('Streaming request.', { model: modelName, question: prompt.question });
+            try {
+                const result = await createModel().generateContentStream(buildSinglePrompt(prompt), { signal: options.signal });
+                let rawContent = '';
+                for await (const chunk of result.stream) {
+                    const delta = chunk.text();
+                    if (delta) {
+                        rawContent += delta;
+                        onToken(delta);
+                    }
+                }
+                reportUsage((await result.response).usageMetadata, options); // Totals for the whole stream
+
+                if (rawContent.trim() === "") {
+                    throw new Error("Google AI service streamed empty content. (E:GA_LR01)");
+                }
+                logger.debug('Raw content streamed.', { rawContent });
+                return rawContent;
+            } catch (error: any) {
+                logger.error('Stream failed.', { model: modelName, error: error.message || String(error) });
+                throw new Error(`Google AI service failed: ${error.message || 'Unknown Google AI Error'} (E:GA_AX)`);
+            }
+        },
+    };
+}
@@ -0,0 +1,72 @@
+import { LLMProvider } from './types';
+import { ProviderChain, ChainEntry, ProviderSettings } from './providerChain';
+import { CircuitBreaker } from './circuitBreaker';
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider';
+import { createGoogleAIProvider } from './googleAIProvider';
+import { createMockProvider } from './mockProvider';
+import { createRecordedProvider } from './recordedProvider';
+import { createLogger } from '../logger';
+import { config, ProviderName } from '../config';
+
+const logger = createLogger('ProviderChain');
+
+// --- Configuration ---
+// Keys, models, timeouts and retries come from config.llm. The chain is an ordered list of provider names:
+// "local" talks to an OpenAI-compatible server (Ollama, LM Studio...), "mock" answers deterministically without
+// any network for tests and offline development, "recorded" replays answers saved by an evaluation run
+// (LLM_RECORDINGS_FILE).
+const OPENROUTER_API_BASE_URL = 'https://openrouter.ai/api/v1';
+
+const providerFactories: Record<ProviderName, () => LLMProvider> = {
+    openrouter: () => createOpenAICompatibleProvider({
+        name: 'openrouter',
+        label: 'OpenRouter',
+        baseUrl: OPENROUTER_API_BASE_URL,
+        model: config.llm.openrouter.model,
+        apiKey: config.llm.openrouter.apiKey ?? undefined,
+        requireApiKey: true,
+        extraHeaders: {
+            'HTTP-Referer': config.llm.openrouter.siteUrl,
+            'X-Title': config.llm.openrouter.appName,
+        },
+        streamUsage: true,
+    }),
+    googleai: () => createGoogleAIProvider(config.llm.googleai.apiKey ?? '', config.llm.googleai.model),
+    local: () => createOpenAICompatibleProvider({
+        name: 'local',
+        label: 'Local',
+        baseUrl: config.llm.local.baseUrl,
+        model: config.llm.local.model,
+        apiKey: config.llm.local.apiKey ?? undefined,
+        requireApiKey: false,
+        jsonMode: config.llm.local.jsonMode,
+    }),
+    mock: createMockProvider,
+    recorded: createRecordedProvider,
+};
+
+function providerSettings(name: ProviderName): ProviderSettings {
+    const { timeoutMs, retries } = config.llm[name];
+    return { timeoutMs, retries };
+}
+
+export function buildProviderChain(names: ProviderName[] = config.llm.providerChain): ProviderChain {
+    const entries: ChainEntry[] = [];
+    for (const name of names) {
+        const provider = providerFactories[name]();
+        if (!provider.isConfigured()) {
+            logger.warn(`Provider '${name}' is listed but not configured (missing API key); it will be skipped.`);
+        }
+        entries.push({
+            provider,
+            settings: providerSettings(name),
+            breaker: new CircuitBreaker(provider.label, config.llm.circuitFailureThreshold, config.llm.circuitCooldownMs),
+        });
+    }
+    logger.info(`Order: ${entries.map(entry => `${entry.provider.name} (${entry.provider.model})`).join(' -> ') || 'empty'}`);
+    return new ProviderChain(entries);
+}
+
+export type { LLMProvider, LLMPrompt, TokenUsage } from './types';
+export { ProviderChain, ProviderChainError } from './providerChain';
+export type { ProviderAttempt, ChainResult } from './providerChain';
@@ -0,0 +1,47 @@
+import { LLMProvider, LLMPrompt } from './types';
+import { NOT_FOUND_ANSWER } from '../llmService';
+import { createLogger } from '../logger';
+
+const logger = createLogger('Mock');
+
+// Deterministic provider for tests and offline development. It never calls a network:
+// the answer is the opening sentences of the first retrieved section, cited by its ID and quoted as evidence,
+// or the standard "cannot find" reply when retrieval found nothing.
+export function createMockProvider(): LLMProvider {
+    const buildAnswer = (prompt: LLMPrompt): string => {
+        const sectionMatch = prompt.documentContext.match(/\[SECTION ([^\]]+)\][^\n]*\n([\s\S]*?)(?=\n\n\[SECTION |$)/);
+        if (!sectionMatch) {
+            return JSON.stringify({ type: "text", answer: NOT_FOUND_ANSWER, follow_up: null, source_section_id: null });
+        }
+        const [, sectionId, sectionContent] = sectionMatch;
+        const sentences = sectionContent.replace(/\s+/g, ' ').trim().match(/[^.!?]+[.!?]+/g) || [sectionContent.trim()];
+        const answerSentences = sentences.slice(0, 2).map(sentence => sentence.trim());
+        return JSON.stringify({
+            type: "text",
+            answer: answerSentences.join(' '),
+            follow_up: null,
+            source_section_id: sectionId,
+            evidence: answerSentences.map(sentence => ({ claim: sentence, quotes: [sentence] })),
+        });
+    };
+
+    return {
+        name: 'mock',
+        label: 'Mock',
+        model: 'mock-deterministic',
+
+        isConfigured: () => true,
+
+        async generate(prompt: LLMPrompt): Promise<string> {
+            logger.info('Answering.', { question: prompt.question });
+            return buildAnswer(prompt);
+        },
+
+        async stream(prompt: LLMPrompt, _options, onToken: (text: string) => void): Promise<string> {
+            const rawContent = buildAnswer(prompt);
+            // Emits fixed-size chunks so streaming clients can be exercised offline
+            for (let i = 0; i < rawContent.length; i += 16) onToken(rawContent.slice(i, i + 16));
+            return rawContent;
+        },
+    };
+}
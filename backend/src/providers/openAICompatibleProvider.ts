@@ -0,0 +1,143 @@
+import axios, { AxiosError } from 'axios';
+import { LLMProvider, LLMPrompt, LLMCallOptions, TokenUsage } from './types';
+import { buildChatMessages } from './promptFormat';
+import { createLogger } from '../logger';
+
+interface OpenAICompatibleOptions {
+    name: string;
+    label: string;
+    baseUrl: string;            // e.g. "https://openrouter.ai/api/v1" or "http://localhost:11434/v1"
+    model: string;
+    apiKey?: string;
+    requireApiKey: boolean;     // Local servers usually accept any key, hosted ones don't
+    extraHeaders?: Record<string, string>;
+    jsonMode?: boolean;         // Sends response_format json_object; some local servers reject it
+    streamUsage?: boolean;      // Asks for token counts in the last chunk of a stream (stream_options.include_usage)
+}
+
+// The fields of an OpenAI-style `usage` block we read; servers may leave any of them out
+interface OpenAIUsage {
+    prompt_tokens?: unknown;
+    completion_tokens?: unknown;
+}
+
+// OpenAI-style `usage` block, found in the response body or in the last chunk of a stream
+function readUsage(usage: unknown): TokenUsage | null {
+    if (!usage || typeof usage !== 'object') return null;
+    const { prompt_tokens, completion_tokens } = usage as OpenAIUsage;
+    if (typeof prompt_tokens !== 'number') return null;
+    return { promptTokens: prompt_tokens, completionTokens: typeof completion_tokens === 'number' ? completion_tokens : 0 };
+}
+
+// Works with any server that implements POST /chat/completions the OpenAI way:
+// OpenRouter, and local servers such as Ollama, LM Studio, llama.cpp or vLLM.
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): LLMProvider {
+    const url = `${options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+    const errorPrefix = options.name.toUpperCase().substring(0, 2);
+
+    const buildBody = (prompt: LLMPrompt, stream: boolean) => ({
+        model: options.model,
+        messages: buildChatMessages(prompt),
+        ...(options.jsonMode !== false ? { response_format: { type: 'json_object' } } : {}),
+        temperature: 0.2, max_tokens: 2000,
+        stream,
+        ...(stream && options.streamUsage ? { stream_options: { include_usage: true } } : {}),
+    });
+
+    const headers = () => ({
+        ...(options.apiKey ? { 'Authorization': `Bearer ${options.apiKey}` } : {}),
+        'Content-Type': 'application/json',
+        ...options.extraHeaders,
+    });
+
+    const logger = createLogger(options.label);
+    const logError = (error: unknown) => {
+        const errorMessage = error instanceof AxiosError && error.response ?
+            `Status: ${error.response.status}, Data: ${error.config?.responseType === 'stream' ? '(stream)' : JSON.stringify(error.response.data)}` :
+            (error instanceof Error ? error.message : String(error));
+        logger.error('API call failed.', { model: options.model, error: errorMessage });
+    };
+
+    return {
+        name: options.name,
+        label: options.label,
+        model: options.model,
+
+        isConfigured: () => !options.requireApiKey || !!options.apiKey,
+
+        async generate(prompt: LLMPrompt, callOptions: LLMCallOptions): Promise<string> {
+            logger.info('Request.', { model: options.model, question: prompt.question });
+            try {
+                const llmApiResponse = await axios.post(url, buildBody(prompt, false), {
+                    headers: headers(),
+                    signal: callOptions.signal,
+                });
+                const usage = readUsage(llmApiResponse.data?.usage);
+                if (usage) callOptions.onUsage?.(usage); // Reported even when the content turns out to be unusable
+                const rawContent = llmApiResponse.data?.choices?.[0]?.message?.content;
+                if (!rawContent || typeof rawContent !== 'string' || rawContent.trim() === "") {
+                    throw new Error(`${options.label} AI service returned empty or invalid content. (E:${errorPrefix}_LR01)`);
+                }
+                logger.debug('Raw content received.', { rawContent });
+                return rawContent;
+            } catch (error) {
+                logError(error);
+                throw error; // Re-throw so the provider chain can retry or fall back
+            }
+        },
+
+        // Streams OpenAI-style SSE: "data: {json}" lines, ": comment" keep-alives and a final "data: [DONE]".
+        async stream(prompt: LLMPrompt, callOptions: LLMCallOptions, onToken: (text: string) => void): Promise<string> {
+            logger.info('Streaming request.', { model: options.model, question: prompt.question });
+            try {
+                const llmApiResponse = await axios.post(url, buildBody(prompt, true), {
+                    headers: headers(),
+                    responseType: 'stream',
+                    signal: callOptions.signal,
+                });
+
+                let rawContent = '';
+                let buffered = '';
+                let usage: TokenUsage | null = null;
+                for await (const chunk of llmApiResponse.data as AsyncIterable<Buffer>) {
+                    buffered += chunk.toString('utf-8');
+                    const lines = buffered.split('\n');
+                    buffered = lines.pop() ?? ''; // Keep the incomplete last line for the next chunk
+                    for (const line of lines) {
+                        const trimmed = line.trim();
+                        if (!trimmed.startsWith('data:')) continue; // Skips blank lines and ": OPENROUTER PROCESSING" comments
+                        const payload = trimmed.slice('data:'.length).trim();
+                        if (payload === '[DONE]') continue;
+
+                        let parsedChunk: any;
+                        try {
+                            parsedChunk = JSON.parse(payload);
+                        } catch {
+                            logger.warn('Skipping unparseable stream chunk.', { chunkChars: payload.length });
+                            continue;
+                        }
+                        if (parsedChunk.error) {
+                            throw new Error(`${options.label} stream error: ${parsedChunk.error.message || JSON.stringify(parsedChunk.error)} (E:${errorPrefix}_ST01)`);
+                        }
+                        usage = readUsage(parsedChunk.usage) ?? usage;
+                        const delta = parsedChunk.choices?.[0]?.delta?.content;
+                        if (typeof delta === 'string' && delta !== '') {
+                            rawContent += delta;
+                            onToken(delta);
+                        }
+                    }
+                }
+                if (usage) callOptions.onUsage?.(usage);
+
+                if (rawContent.trim() === "") {
+                    throw new Error(`${options.label} AI service streamed empty content. (E:${errorPrefix}_LR01)`);
+                }
+                logger.debug('Raw content streamed.', { rawContent });
+                return rawContent;
+            } catch (error) {
+                logError(error);
+                throw error;
+            }
+        },
+    };
+}
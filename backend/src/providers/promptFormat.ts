@@ -0,0 +1,79 @@
+import type { LLMStructuredResponse } from '../llmService';
+import { LLMPrompt } from './types';
+
+export interface ChatMessage { role: 'system' | 'user' | 'assistant'; content: string; }
+
+// Flattens a structured answer into the plain text the model sees as its own previous reply.
+export function responseToPlainText(response: LLMStructuredResponse): string {
+    switch (response.type) {
+        case 'text':
+            return response.answer;
+        case 'list':
+            return `${response.title}\n${response.items.map(item => `- ${item.point}: ${item.detail}`).join('\n')}`;
+        case 'table':
+            return [response.title, response.columns.join(' | '), ...response.rows.map(row => row.join(' | '))].join('\n');
+        case 'steps':
+            return `${response.title}\n${response.steps.map((step, index) =>
+                [`${index + 1}. ${step.title}: ${step.detail}`, ...(step.sub_points ?? []).map(point => `   - ${point}`)].join('\n')).join('\n')}`;
+        case 'comparison':
+            return [
+                `${response.title} (${response.options.join(' vs. ')})`,
+                ...response.criteria.map(criterion => `- ${criterion.criterion}: ${criterion.values.map((value, index) => `${response.options[index]}: ${value}`).join('; ')}`),
+                ...(response.summary ? [response.summary] : []),
+            ].join('\n');
+        case 'error':
+            return response.message;
+    }
+}
+
+// Follows an invalid answer: tells the model what failed validation and asks for the corrected JSON only
+export function buildRepairInstruction(errors: string[]): string {
+    return `Your previous response could not be used because it does not match the required JSON format:\n` +
+        `${errors.map(error => `- ${error}`).join('\n')}\n` +
+        `Reply again with ONLY the corrected JSON object, following the structures described in the instructions. Keep the content of your answer.`;
+}
+
+// Untrusted text goes between tags the system prompt declares to be data. Tags inside the text itself are
+// neutralized so a question can't close its section early and continue as instructions.
+const DELIMITER_TAGS = /<\/?\s*(document|user_question|system)\s*>/gi;
+
+export function delimit(tag: 'document' | 'user_question', text: string): string {
+    return `<${tag}>\n${text.replace(DELIMITER_TAGS, '[tag removed]')}\n</${tag}>`;
+}
+
+// OpenAI-style chat layout. Previous answers are replayed as JSON so the model keeps following the JSON-only contract.
+export function buildChatMessages(prompt: LLMPrompt): ChatMessage[] {
+    return [
+        { role: 'system', content: prompt.systemPrompt },
+        ...prompt.previousTurns.flatMap(turn => [
+            { role: 'user' as const, content: delimit('user_question', turn.question) },
+            { role: 'assistant' as const, content: JSON.stringify({ ...turn.response, grounding: undefined }) }, // Grounding results aren't model output
+        ]),
+        { role: 'user', content: `${delimit('document', prompt.documentContext)}\n${delimit('user_question', prompt.question)}` },
+        ...(prompt.repair ? [
+            { role: 'assistant' as const, content: prompt.repair.previousOutput },
+            { role: 'user' as const, content: buildRepairInstruction(prompt.repair.errors) },
+        ] : []),
+    ];
+}
+
+// Single-prompt layout for APIs without a separate system role in this integration (Gemini).
+export function buildSinglePrompt(prompt: LLMPrompt): string {
+    const conversationBlock = prompt.previousTurns.length > 0
+        ? `CONVERSATION SO FAR (use it only to understand the new question):\n${prompt.previousTurns.map(turn => `User: ${delimit('user_question', turn.question)}\nAssistant: ${responseToPlainText(turn.response)}`).join('\n\n')}\n`
+        : '';
+    const repairBlock = prompt.repair
+        ? `YOUR PREVIOUS RESPONSE:\n${prompt.repair.previousOutput}\n\n${buildRepairInstruction(prompt.repair.errors)}\n`
+        : '';
+    return `
+        ${prompt.systemPrompt} 
+
+        ${delimit('document', prompt.documentContext)}
+
+        ${conversationBlock}
+        ${delimit('user_question', prompt.question)}
+
+        ${repairBlock}
+        JSON RESPONSE (ONLY the JSON object, no other text or markdown):
+    `;
+}
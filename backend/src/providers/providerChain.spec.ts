@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { CircuitBreaker } from './circuitBreaker';
+import { ProviderChain, ProviderChainError } from './providerChain';
+import { LLMPrompt, LLMProvider } from './types';
+
+const PROMPT: LLMPrompt = { systemPrompt: 'system', documentContext: '', question: 'What is a SAFE?', previousTurns: [] };
+const COOLDOWN_MS = 1000;
+
+// A provider whose calls follow `script`: a string is returned, an Error is thrown. Its last step repeats.
+function scriptedProvider(name: string, script: (string | Error)[]): LLMProvider & { calls: number } {
+    const provider = {
+        name,
+        label: name,
+        model: `${name}-model`,
+        calls: 0,
+        isConfigured: () => true,
+        async generate(): Promise<string> {
+            const step = script[Math.min(provider.calls++, script.length - 1)];
+            if (step instanceof Error) throw step;
+            return step;
+        },
+    };
+    return provider;
+}
+
+function setup(primaryScript: (string | Error)[], retries = 0) {
+    let now = 0;
+    const clock = { advance: (ms: number) => { now += ms; } };
+    const breaker = new CircuitBreaker('primary', 2, COOLDOWN_MS, () => now);
+    const primary = scriptedProvider('primary', primaryScript);
+    const fallback = scriptedProvider('fallback', ['fallback answer']);
+    const chain = new ProviderChain([
+        { provider: primary, settings: { timeoutMs: 1000, retries }, breaker },
+        { provider: fallback, settings: { timeoutMs: 1000, retries: 0 }, breaker: new CircuitBreaker('fallback', 2, COOLDOWN_MS, () => now) },
+    ]);
+    return { chain, breaker, primary, fallback, clock };
+}
+
+describe('ProviderChain', () => {
+    it('answers from the first provider that succeeds', async () => {
+        const { chain, fallback } = setup(['primary answer']);
+        const result = await chain.run(PROMPT);
+        expect(result.rawContent).toBe('primary answer');
+        expect(result.provider.name).toBe('primary');
+        expect(fallback.calls).toBe(0);
+    });
+
+    it('retries a failing provider, then falls back to the next one', async () => {
+        const { chain, primary } = setup([new Error('timeout')], 1);
+        const result = await chain.run(PROMPT);
+        expect(result.rawContent).toBe('fallback answer');
+        expect(primary.calls).toBe(2);
+        expect(result.attempts.map(attempt => `${attempt.provider}:${attempt.outcome}`)).toEqual(['primary:failed', 'primary:failed', 'fallback:success']);
+    });
+
+    it('opens the circuit after consecutive failures and skips the provider while open', async () => {
+        const { chain, breaker, primary } = setup([new Error('down')]);
+        await chain.run(PROMPT);
+        expect(breaker.state).toBe('closed');
+        await chain.run(PROMPT);
+        expect(breaker.state).toBe('open');
+
+        const result = await chain.run(PROMPT);
+        expect(primary.calls).toBe(2);
+        expect(result.attempts[0]).toMatchObject({ provider: 'primary', outcome: 'skipped', reason: 'circuit open' });
+        expect(result.rawContent).toBe('fallback answer');
+    });
+
+    it('lets one trial call through after the cooldown and closes the circuit when it succeeds', async () => {
+        const { chain, breaker, primary, clock } = setup([new Error('down'), new Error('down'), 'primary answer']);
+        await chain.run(PROMPT);
+        await chain.run(PROMPT);
+        clock.advance(COOLDOWN_MS);
+        expect(breaker.state).toBe('half-open');
+
+        const result = await chain.run(PROMPT);
+        expect(result.rawContent).toBe('primary answer');
+        expect(primary.calls).toBe(3);
+        expect(breaker.state).toBe('closed');
+    });
+
+    it('reopens the circuit when the trial call fails', async () => {
+        const { chain, breaker, primary, clock } = setup([new Error('down')]);
+        await chain.run(PROMPT);
+        await chain.run(PROMPT);
+        clock.advance(COOLDOWN_MS);
+
+        await chain.run(PROMPT);
+        expect(primary.calls).toBe(3);
+        expect(breaker.state).toBe('open');
+        clock.advance(COOLDOWN_MS - 1);
+        expect(breaker.state).toBe('open');
+    });
+
+    it('allows a single trial call while half-open', () => {
+        let now = 0;
+        const breaker = new CircuitBreaker('solo', 1, COOLDOWN_MS, () => now);
+        breaker.recordFailure();
+        now += COOLDOWN_MS;
+        expect(breaker.tryAcquire()).toBe(true);
+        expect(breaker.tryAcquire()).toBe(false);
+    });
+
+    it('sends invalid answers back for repair before moving on', async () => {
+        const { chain, primary } = setup(['bad', 'good']);
+        const result = await chain.run(PROMPT, { validate: raw => raw === 'good' ? [] : ['not good'], maxRepairs: 1 });
+        expect(result.rawContent).toBe('good');
+        expect(result.repairAttempts).toBe(1);
+        expect(primary.calls).toBe(2);
+    });
+
+    it('throws ProviderChainError with every attempt when no provider answers', async () => {
+        const failing = scriptedProvider('only', [new Error('boom')]);
+        const chain = new ProviderChain([{ provider: failing, settings: { timeoutMs: 1000, retries: 0 }, breaker: new CircuitBreaker('only', 2, COOLDOWN_MS) }]);
+        const error = await chain.run(PROMPT).catch(caught => caught);
+        expect(error).toBeInstanceOf(ProviderChainError);
+        expect(error.message).toBe('boom');
+        expect(error.attempts).toHaveLength(1);
+    });
+});
@@ -0,0 +1,161 @@
+import { LLMProvider, LLMPrompt, TokenUsage } from './types';
+import { CircuitBreaker } from './circuitBreaker';
+import { Span, SpanStatusCode, context as otelContext, trace } from '@opentelemetry/api';
+import { createLogger } from '../logger';
+import { tracer } from '../tracing';
+
+const logger = createLogger('ProviderChain');
+
+export interface ProviderSettings {
+    timeoutMs: number;
+    retries: number; // Extra attempts on the same provider before moving to the next one
+}
+
+export interface ChainEntry {
+    provider: LLMProvider;
+    settings: ProviderSettings;
+    breaker: CircuitBreaker;
+}
+
+export interface ProviderAttempt {
+    provider: string;
+    model: string;
+    outcome: 'success' | 'failed' | 'skipped' | 'invalid'; // invalid: output still failed validation after the repairs
+    reason?: string;     // Error message, validation errors, or why the provider was skipped
+    repairs?: number;    // Repair prompts sent to this provider
+    durationMs: number;
+    usage: TokenUsage | null; // Summed over the attempt's calls, repairs included; null when the API reported none
+}
+
+export interface ChainResult {
+    rawContent: string;
+    provider: LLMProvider;
+    attempts: ProviderAttempt[];
+    repairAttempts: number; // Across all providers tried
+}
+
+interface RunOptions {
+    onToken?: (text: string) => void;             // When set, providers that support it are streamed
+    onAttemptStart?: (provider: LLMProvider) => void;
+    // Returns what is wrong with a raw answer (empty when it is usable). Invalid answers are sent back to
+    // the same provider with these errors up to `maxRepairs` times, then the next provider is tried.
+    validate?: (rawContent: string, provider: LLMProvider) => string[];
+    maxRepairs?: number;
+}
+
+// Thrown when no provider in the chain produced an answer. `attempts` records what was tried.
+export class ProviderChainError extends Error {
+    constructor(message: string, public readonly attempts: ProviderAttempt[]) {
+        super(message);
+        this.name = 'ProviderChainError';
+    }
+}
+
+export class ProviderChain {
+    constructor(public readonly entries: ChainEntry[]) {}
+
+    get configuredProviders(): LLMProvider[] {
+        return this.entries.filter(entry => entry.provider.isConfigured()).map(entry => entry.provider);
+    }
+
+    // Tries each configured provider in order, with its own timeout and retries, skipping any whose
+    // circuit is open. Resolves with the first valid raw answer; rejects with ProviderChainError otherwise.
+    async run(prompt: LLMPrompt, options: RunOptions = {}): Promise<ChainResult> {
+        const attempts: ProviderAttempt[] = [];
+        let repairAttempts = 0;
+        // Every attempt, skipped ones included, gets its own span that ends when the attempt is recorded
+        const record = (span: Span, attempt: ProviderAttempt) => {
+            attempts.push(attempt);
+            span.setAttributes({
+                'llm.outcome': attempt.outcome,
+                'llm.repairs': attempt.repairs ?? 0,
+                ...(attempt.usage ? { 'llm.usage.prompt_tokens': attempt.usage.promptTokens, 'llm.usage.completion_tokens': attempt.usage.completionTokens } : {}),
+            });
+            if (attempt.outcome !== 'success') span.setStatus({ code: SpanStatusCode.ERROR, message: attempt.reason });
+            span.end();
+        };
+
+        providers: for (const { provider, settings, breaker } of this.entries) {
+            if (!provider.isConfigured()) continue;
+
+            for (let attempt = 0; attempt <= settings.retries; attempt++) {
+                const span = tracer.startSpan('llm.provider_attempt', {
+                    attributes: { 'llm.provider': provider.name, 'llm.model': provider.model, 'llm.try': attempt + 1 },
+                });
+                if (!breaker.tryAcquire()) {
+                    logger.warn(`Skipping ${provider.label}: circuit ${breaker.state}.`, { provider: provider.name });
+                    record(span, { provider: provider.name, model: provider.model, outcome: 'skipped', reason: `circuit ${breaker.state}`, durationMs: 0, usage: null });
+                    break;
+                }
+
+                logger.info(`Attempting ${provider.label} (${provider.model}), try ${attempt + 1}/${settings.retries + 1}`, { provider: provider.name, model: provider.model });
+                options.onAttemptStart?.(provider);
+                const startedAt = Date.now();
+                let repairs = 0;
+                let usage: TokenUsage | null = null;
+                const addUsage = (callUsage: TokenUsage) => {
+                    usage = { promptTokens: (usage?.promptTokens ?? 0) + callUsage.promptTokens, completionTokens: (usage?.completionTokens ?? 0) + callUsage.completionTokens };
+                };
+                // Provider calls run inside the attempt's span
+                const call = (callPrompt: LLMPrompt) => otelContext.with(trace.setSpan(otelContext.active(), span),
+                    () => callWithTimeout(provider, callPrompt, settings.timeoutMs, addUsage, options.onToken));
+                try {
+                    let rawContent = await call(prompt);
+                    let errors = options.validate?.(rawContent, provider) ?? [];
+                    while (errors.length > 0 && repairs < (options.maxRepairs ?? 0)) {
+                        repairs++;
+                        repairAttempts++;
+                        logger.warn(`${provider.label} output invalid, repair ${repairs}/${options.maxRepairs}.`, { provider: provider.name, errors });
+                        options.onAttemptStart?.(provider);
+                        rawContent = await call({ ...prompt, repair: { previousOutput: rawContent, errors } });
+                        errors = options.validate!(rawContent, provider);
+                    }
+                    // The provider answered, so its circuit stays closed even if the answer was unusable
+                    breaker.recordSuccess();
+                    if (errors.length > 0) {
+                        record(span, { provider: provider.name, model: provider.model, outcome: 'invalid', reason: `Invalid response: ${errors.join('; ')}`, repairs, durationMs: Date.now() - startedAt, usage });
+                        logger.warn(`${provider.label} output still invalid after ${repairs} repair(s); trying the next provider.`, { provider: provider.name });
+                        continue providers;
+                    }
+                    record(span, { provider: provider.name, model: provider.model, outcome: 'success', repairs, durationMs: Date.now() - startedAt, usage });
+                    return { rawContent, provider, attempts, repairAttempts };
+                } catch (error: any) {
+                    breaker.recordFailure();
+                    const reason = error?.message || String(error);
+                    span.recordException(error instanceof Error ? error : reason);
+                    record(span, { provider: provider.name, model: provider.model, outcome: 'failed', reason, repairs, durationMs: Date.now() - startedAt, usage });
+                    logger.warn(`${provider.label} failed (try ${attempt + 1}): ${reason}`, { provider: provider.name });
+                }
+            }
+        }
+
+        const lastFailure = [...attempts].reverse().find(attempt => attempt.outcome === 'failed' || attempt.outcome === 'invalid');
+        throw new ProviderChainError(lastFailure?.reason || 'No provider could be attempted.', attempts);
+    }
+}
+
+async function callWithTimeout(
+    provider: LLMProvider,
+    prompt: LLMPrompt,
+    timeoutMs: number,
+    onUsage: (usage: TokenUsage) => void,
+    onToken?: (text: string) => void
+): Promise<string> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+        if (onToken && provider.stream) {
+            return await provider.stream(prompt, { signal: controller.signal, onUsage }, onToken);
+        }
+        const rawContent = await provider.generate(prompt, { signal: controller.signal, onUsage });
+        onToken?.(rawContent); // Non-streaming providers deliver their answer as a single chunk
+        return rawContent;
+    } catch (error) {
+        if (controller.signal.aborted) {
+            throw new Error(`${provider.label} timed out after ${timeoutMs}ms. (E:PRV_TO)`);
+        }
+        throw error;
+    } finally {
+        clearTimeout(timer);
+    }
+}
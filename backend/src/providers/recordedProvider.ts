@@ -0,0 +1,54 @@
+import fs from 'fs';
+import { LLMProvider, LLMPrompt } from './types';
+import { normalizeQuestion } from '../answerCache';
+import { createLogger } from '../logger';
+import { config } from '../config';
+
+const logger = createLogger('Recorded');
+
+// Replays answers recorded by `npm run eval -- --record <file>`, so an evaluation can be repeated
+// offline and for free. The file is named by LLM_RECORDINGS_FILE. Questions without a recording fail
+// like an unavailable provider would.
+export interface Recordings {
+    version: 1;
+    recordedAt: string;
+    providers: { name: string; model: string }[];
+    answers: Record<string, string>; // Normalized question -> raw model output
+}
+
+export function createRecordedProvider(): LLMProvider {
+    const filePath = config.llm.recorded.recordingsFile;
+    let recordings: Recordings | null = null;
+    if (filePath) {
+        try {
+            recordings = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Recordings;
+            logger.info(`Loaded ${Object.keys(recordings.answers).length} answers from ${filePath}.`);
+        } catch (error: any) {
+            logger.error(`Could not read LLM_RECORDINGS_FILE ${filePath}.`, { error: error.message });
+        }
+    }
+
+    const replay = (prompt: LLMPrompt): string => {
+        const rawContent = recordings?.answers[normalizeQuestion(prompt.question)];
+        if (rawContent === undefined) throw new Error(`No recorded answer for "${prompt.question.substring(0, 70)}"`);
+        return rawContent;
+    };
+
+    return {
+        name: 'recorded',
+        label: 'Recorded',
+        model: `recorded:${recordings?.providers.map(provider => provider.model).join('+') || 'none'}`,
+
+        isConfigured: () => recordings !== null,
+
+        async generate(prompt: LLMPrompt): Promise<string> {
+            return replay(prompt);
+        },
+
+        async stream(prompt: LLMPrompt, _options, onToken: (text: string) => void): Promise<string> {
+            const rawContent = replay(prompt);
+            onToken(rawContent);
+            return rawContent;
+        },
+    };
+}
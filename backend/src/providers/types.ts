@@ -0,0 +1,35 @@
+import type { ConversationTurn } from '../llmService';
+
+// Everything a provider needs to build its request. Each provider lays these parts out
+// in the shape its API expects (chat messages for OpenAI-style APIs, one prompt for Gemini).
+export interface LLMPrompt {
+    systemPrompt: string;
+    documentContext: string;
+    question: string;
+    previousTurns: ConversationTurn[];
+    repair?: {                   // Set when asking the model to fix an answer that failed validation
+        previousOutput: string;
+        errors: string[];
+    };
+}
+
+// Token counts as reported by the provider's API for one call
+export interface TokenUsage {
+    promptTokens: number;
+    completionTokens: number;
+}
+
+export interface LLMCallOptions {
+    signal: AbortSignal; // Aborted when the per-provider timeout expires
+    onUsage?: (usage: TokenUsage) => void; // Called once per call when the API reports token counts
+}
+
+export interface LLMProvider {
+    readonly name: string;   // Key used in LLM_PROVIDER_CHAIN and per-provider env vars (e.g. "openrouter")
+    readonly label: string;  // Human readable, used in logs and error codes (e.g. "OpenRouter")
+    readonly model: string;
+    isConfigured(): boolean;
+    // Both return the raw text produced by the model; parsing and validation happen in llmService.
+    generate(prompt: LLMPrompt, options: LLMCallOptions): Promise<string>;
+    stream?(prompt: LLMPrompt, options: LLMCallOptions, onToken: (text: string) => void): Promise<string>;
+}
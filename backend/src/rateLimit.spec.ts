@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import mongoose from 'mongoose';
+
+// Read once by the config module: limits on, with small tiers that are quick to exhaust
+vi.hoisted(() => {
+    process.env.RATE_LIMIT_ENABLED = 'true';
+    process.env.RATE_LIMIT_TIERS = JSON.stringify({ free: { windowSeconds: 60, maxPerWindow: 2, dailyQuota: 5 } });
+    process.env.RATE_LIMIT_USER_TIERS = 'user_unlimited:unlimited';
+});
+vi.mock('./db', async importOriginal => ({ ...await importOriginal<typeof import('./db')>(), ensureDbConnection: vi.fn(async () => undefined) }));
+
+import UsageCounterModel from './models/usageCounter.model';
+import { enforceRateLimit, resolveTier } from './rateLimit';
+import { AuthInfo } from './auth';
+
+// --- A stand-in for MongoDB's update pipeline, covering the operators consume() uses ---
+type Document = Record<string, any>;
+
+function evaluate(expression: any, document: Document, variables: Document = {}): any {
+    const evaluateIn = (inner: any) => evaluate(inner, document, variables);
+    if (typeof expression === 'string' && expression.startsWith('$$')) return variables[expression.slice(2)];
+    if (typeof expression === 'string' && expression.startsWith('$')) return document[expression.slice(1)];
+    if (Array.isArray(expression)) return expression.map(evaluateIn);
+    if (expression === null || typeof expression !== 'object' || expression instanceof Date) return expression;
+    const [operator, argument] = Object.entries(expression)[0] as [string, any];
+    switch (operator) {
+        case '$filter': return evaluateIn(argument.input).filter((item: unknown) => evaluate(argument.cond, document, { ...variables, this: item }));
+        case '$ifNull': return evaluateIn(argument[0]) ?? evaluateIn(argument[1]);
+        case '$cond': return evaluateIn(argument[0]) ? evaluateIn(argument[1]) : evaluateIn(argument[2]);
+        case '$eq': return evaluateIn(argument[0]) === evaluateIn(argument[1]);
+        case '$gt': return evaluateIn(argument[0]) > evaluateIn(argument[1]);
+        case '$lt': return evaluateIn(argument[0]) < evaluateIn(argument[1]);
+        case '$size': return evaluateIn(argument).length;
+        case '$and': return argument.every(evaluateIn);
+        case '$concatArrays': return argument.flatMap(evaluateIn);
+        case '$add': return evaluateIn(argument[0]) + evaluateIn(argument[1]);
+        default: throw new Error(`Unsupported operator ${operator}`);
+    }
+}
+
+const counters = new Map<string, Document>();
+
+function applyPipeline(filter: { userId: string }, pipeline: { $set: Document }[]): Document {
+    let document: Document = counters.get(filter.userId) ?? { userId: filter.userId };
+    for (const { $set } of pipeline) {
+        const current = document;
+        document = { ...current, ...Object.fromEntries(Object.entries($set).map(([field, expression]) => [field, evaluate(expression, current)])) };
+    }
+    counters.set(filter.userId, document);
+    return document;
+}
+
+// --- The app under test ---
+function appFor(auth: Partial<AuthInfo>) {
+    const app = express();
+    app.post('/ask', (req, _res, next) => {
+        req.auth = { userId: 'user_free', sessionId: null, roles: ['user'], orgId: null, claims: {}, provider: 'local', ...auth };
+        next();
+    }, enforceRateLimit, (_req, res) => {
+        res.status(200).json({ type: 'text', answer: 'ok' });
+    });
+    return app;
+}
+
+// Connected unless a test says otherwise (the property can only be spied on once)
+let readyState = 1;
+vi.spyOn(mongoose.connection, 'readyState', 'get').mockImplementation(() => readyState);
+
+const START = new Date('2026-03-10T12:00:00Z');
+const ask = (userId = 'user_free') => request(appFor({ userId })).post('/ask');
+
+describe('enforceRateLimit', () => {
+    beforeEach(() => {
+        counters.clear();
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(START);
+        readyState = 1;
+        vi.spyOn(UsageCounterModel, 'findOneAndUpdate').mockImplementation(((filter: { userId: string }, pipeline: { $set: Document }[]) =>
+            ({ lean: async () => applyPipeline(filter, pipeline) })) as any);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.mocked(UsageCounterModel.findOneAndUpdate).mockRestore();
+    });
+
+    it('allows the window limit, then answers 429 until the oldest question leaves the window', async () => {
+        expect((await ask()).status).toBe(200);
+        vi.setSystemTime(new Date(START.getTime() + 20_000));
+        expect((await ask()).status).toBe(200);
+
+        const limited = await ask();
+        expect(limited.status).toBe(429);
+        expect(limited.body).toMatchObject({ type: 'error', code: 'RATE_LIMITED' });
+        expect(limited.headers['retry-after']).toBe('40');
+
+        vi.setSystemTime(new Date(START.getTime() + 60_001));
+        expect((await ask()).status).toBe(200);
+    });
+
+    it('does not count refused questions', async () => {
+        await ask();
+        await ask();
+        await ask();
+        await ask();
+        expect(counters.get('user_free')).toMatchObject({ dayCount: 2 });
+        expect(counters.get('user_free')!.recentRequests).toHaveLength(2);
+    });
+
+    it('enforces the daily quota until the next UTC day', async () => {
+        // Two minutes apart, so the window limit never applies
+        for (let i = 0; i < 5; i++) {
+            vi.setSystemTime(new Date(START.getTime() + i * 120_000));
+            const res = await ask();
+            expect(res.status).toBe(200);
+            expect(res.headers['x-quota-remaining']).toBe(String(4 - i));
+        }
+        vi.setSystemTime(new Date('2026-03-10T23:00:00Z'));
+        const exhausted = await ask();
+        expect(exhausted.status).toBe(429);
+        expect(exhausted.body.code).toBe('DAILY_QUOTA_EXCEEDED');
+        expect(exhausted.headers['retry-after']).toBe('3600');
+
+        vi.setSystemTime(new Date('2026-03-11T00:00:01Z'));
+        const nextDay = await ask();
+        expect(nextDay.status).toBe(200);
+        expect(nextDay.headers['x-quota-remaining']).toBe('4');
+    });
+
+    it('keeps separate counters per user and never limits the unlimited tier', async () => {
+        await ask();
+        await ask();
+        expect((await ask('user_other')).status).toBe(200);
+        for (let i = 0; i < 10; i++) expect((await ask('user_unlimited')).status).toBe(200);
+    });
+
+    it('lets questions through while MongoDB is unavailable', async () => {
+        readyState = 0;
+        for (let i = 0; i < 4; i++) expect((await ask()).status).toBe(200);
+        expect(UsageCounterModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+});
+
+describe('resolveTier', () => {
+    const requestWith = (auth: Partial<AuthInfo>) => ({ auth: { userId: 'user_x', claims: {}, ...auth } }) as any;
+
+    it('prefers RATE_LIMIT_USER_TIERS, then the token, then the default tier', () => {
+        expect(resolveTier(requestWith({ userId: 'user_unlimited', claims: { tier: 'pro' } }))).toBe('unlimited');
+        expect(resolveTier(requestWith({ claims: { metadata: { tier: 'pro' } } }))).toBe('pro');
+        expect(resolveTier(requestWith({ claims: { tier: 'pro' } }))).toBe('pro');
+        expect(resolveTier(requestWith({ claims: { tier: 'platinum' } }))).toBe('free');
+    });
+});
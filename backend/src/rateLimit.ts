@@ -0,0 +1,197 @@
+import mongoose from 'mongoose';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import UsageCounterModel, { IUsageCounter } from './models/usageCounter.model';
+import { ensureDbConnection } from './db';
+import { LLMStructuredResponse } from './llmService';
+import { createLogger } from './logger';
+import { config } from './config';
+
+const logger = createLogger('Rate Limit');
+
+// --- Configuration ---
+// A limit of null means "no limit".
+export interface TierLimits {
+    windowSeconds: number;        // Length of the sliding window
+    maxPerWindow: number | null;  // Questions allowed inside any window
+    dailyQuota: number | null;    // Questions allowed per UTC day
+}
+
+const DEFAULT_TIERS: Record<string, TierLimits> = {
+    free: { windowSeconds: 60, maxPerWindow: 5, dailyQuota: 50 },
+    pro: { windowSeconds: 60, maxPerWindow: 20, dailyQuota: 500 },
+    unlimited: { windowSeconds: 60, maxPerWindow: null, dailyQuota: null },
+};
+
+const RATE_LIMIT_ENABLED = config.rateLimit.enabled;
+const DEFAULT_TIER = config.rateLimit.defaultTier;
+
+// RATE_LIMIT_TIERS is JSON merged over the defaults, e.g. {"free":{"dailyQuota":20},"team":{"windowSeconds":60,"maxPerWindow":10,"dailyQuota":200}}
+function loadTiers(): Record<string, TierLimits> {
+    const tiers: Record<string, TierLimits> = { ...DEFAULT_TIERS };
+    for (const [name, limits] of Object.entries(config.rateLimit.tierOverrides)) {
+        tiers[name] = { ...(tiers[name] ?? DEFAULT_TIERS.free), ...limits };
+    }
+    return tiers;
+}
+
+const TIERS = loadTiers();
+// RATE_LIMIT_USER_TIERS assigns tiers to Clerk user IDs: "user_abc:pro,user_def:unlimited"
+const USER_TIERS = new Map(Object.entries(config.rateLimit.userTiers));
+
+// --- Type Definitions ---
+export type RateLimitCode = 'RATE_LIMITED' | 'DAILY_QUOTA_EXCEEDED';
+
+export interface UsageStatus {
+    tier: string;
+    window: { seconds: number; limit: number | null; used: number; remaining: number | null };
+    daily: { limit: number | null; used: number; remaining: number | null; resetsAt: string };
+}
+
+interface LimitDecision {
+    allowed: boolean;
+    code?: RateLimitCode;
+    retryAfterSeconds?: number;
+    usage: UsageStatus;
+}
+
+// --- Tier resolution ---
+// The tier comes from RATE_LIMIT_USER_TIERS, then from a "tier" value in the Clerk session token
+// (e.g. a custom claim "metadata": "{{user.public_metadata}}"), then RATE_LIMIT_DEFAULT_TIER.
+export function resolveTier(req: Request): string {
+    const userId = req.auth?.userId;
+    const claims = req.auth?.claims as Record<string, any> | undefined;
+    const candidates = [
+        userId ? USER_TIERS.get(userId) : undefined,
+        claims?.metadata?.tier,
+        claims?.tier,
+    ];
+    const tier = candidates.find((candidate): candidate is string => typeof candidate === 'string' && candidate in TIERS);
+    return tier ?? (DEFAULT_TIER in TIERS ? DEFAULT_TIER : 'free');
+}
+
+// --- Counters ---
+function utcDay(date: Date): string {
+    return date.toISOString().slice(0, 10);
+}
+
+function nextUtcMidnight(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1));
+}
+
+function toUsageStatus(tier: string, limits: TierLimits, recentRequests: Date[], dayCount: number, now: Date): UsageStatus {
+    const remaining = (limit: number | null, used: number) => limit === null ? null : Math.max(0, limit - used);
+    return {
+        tier,
+        window: { seconds: limits.windowSeconds, limit: limits.maxPerWindow, used: recentRequests.length, remaining: remaining(limits.maxPerWindow, recentRequests.length) },
+        daily: { limit: limits.dailyQuota, used: dayCount, remaining: remaining(limits.dailyQuota, dayCount), resetsAt: nextUtcMidnight(now).toISOString() },
+    };
+}
+
+// Drops expired window entries, resets the day count on a new day and, if both limits allow it,
+// records the question — all in one atomic update, so concurrent instances can't overshoot.
+async function consume(userId: string, tier: string, limits: TierLimits, now: Date): Promise<LimitDecision> {
+    const windowStart = new Date(now.getTime() - limits.windowSeconds * 1000);
+    const day = utcDay(now);
+    const conditions: unknown[] = [];
+    if (limits.maxPerWindow !== null) conditions.push({ $lt: [{ $size: '$recentRequests' }, limits.maxPerWindow] });
+    if (limits.dailyQuota !== null) conditions.push({ $lt: ['$dayCount', limits.dailyQuota] });
+
+    const counter = await UsageCounterModel.findOneAndUpdate(
+        { userId },
+        [
+            {
+                $set: {
+                    recentRequests: { $filter: { input: { $ifNull: ['$recentRequests', []] }, cond: { $gt: ['$$this', windowStart] } } },
+                    dayCount: { $cond: [{ $eq: ['$day', day] }, { $ifNull: ['$dayCount', 0] }, 0] },
+                    day,
+                    updatedAt: now,
+                },
+            },
+            { $set: { lastAllowed: conditions.length > 0 ? { $and: conditions } : true } },
+            {
+                $set: {
+                    recentRequests: { $cond: ['$lastAllowed', { $concatArrays: ['$recentRequests', [now]] }, '$recentRequests'] },
+                    dayCount: { $cond: ['$lastAllowed', { $add: ['$dayCount', 1] }, '$dayCount'] },
+                },
+            },
+        ],
+        { upsert: true, new: true, timestamps: false }
+    ).lean<IUsageCounter>();
+
+    const recentRequests = counter?.recentRequests ?? [now];
+    const dayCount = counter?.dayCount ?? 1;
+    const usage = toUsageStatus(tier, limits, recentRequests, dayCount, now);
+    if (!counter || counter.lastAllowed) return { allowed: true, usage };
+
+    if (limits.maxPerWindow !== null && recentRequests.length >= limits.maxPerWindow) {
+        // A slot frees up when the oldest question that still counts leaves the window
+        const oldestCounted = recentRequests[recentRequests.length - limits.maxPerWindow];
+        const retryAfterMs = new Date(oldestCounted).getTime() + limits.windowSeconds * 1000 - now.getTime();
+        return { allowed: false, code: 'RATE_LIMITED', retryAfterSeconds: Math.max(1, Math.ceil(retryAfterMs / 1000)), usage };
+    }
+    const retryAfterMs = nextUtcMidnight(now).getTime() - now.getTime();
+    return { allowed: false, code: 'DAILY_QUOTA_EXCEEDED', retryAfterSeconds: Math.max(1, Math.ceil(retryAfterMs / 1000)), usage };
+}
+
+// Current usage without counting a question (GET /api/usage)
+export async function getUsageStatus(userId: string, tier: string): Promise<UsageStatus> {
+    const limits = TIERS[tier];
+    const now = new Date();
+    const counter = mongoose.connection.readyState === 1 ? await UsageCounterModel.findOne({ userId }).lean<IUsageCounter>() : null;
+    const windowStart = now.getTime() - limits.windowSeconds * 1000;
+    const recentRequests = (counter?.recentRequests ?? []).filter(date => new Date(date).getTime() > windowStart);
+    const dayCount = counter && counter.day === utcDay(now) ? counter.dayCount : 0;
+    return toUsageStatus(tier, limits, recentRequests, dayCount, now);
+}
+
+function formatWait(seconds: number): string {
+    if (seconds < 90) return `${seconds} second${seconds === 1 ? '' : 's'}`;
+    if (seconds < 90 * 60) return `${Math.ceil(seconds / 60)} minutes`;
+    return `${Math.ceil(seconds / 3600)} hours`;
+}
+
+// --- Middleware ---
+// Use after requireAuth. Counts the question against the user's tier and answers 429 with
+// { type: "error", code, message } and a Retry-After header when a limit is reached.
+// Counters need MongoDB; while it is unreachable questions are let through rather than refused.
+export const enforceRateLimit: RequestHandler = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const userId = req.auth?.userId;
+    if (!RATE_LIMIT_ENABLED || !userId) {
+        next();
+        return;
+    }
+
+    const tier = resolveTier(req);
+    let decision: LimitDecision;
+    try {
+        await ensureDbConnection();
+        if (mongoose.connection.readyState !== 1) {
+            logger.warn('MongoDB unavailable, not limiting the request.', { userId });
+            next();
+            return;
+        }
+        decision = await consume(userId, tier, TIERS[tier], new Date());
+    } catch (error: any) {
+        logger.error('Check failed, letting the request through.', { userId, error: error.message });
+        next();
+        return;
+    }
+
+    const { usage } = decision;
+    if (usage.daily.limit !== null) {
+        res.set('X-Quota-Limit', String(usage.daily.limit));
+        res.set('X-Quota-Remaining', String(usage.daily.remaining));
+    }
+    if (decision.allowed) {
+        next();
+        return;
+    }
+
+    const retryAfter = decision.retryAfterSeconds!;
+    const message = decision.code === 'RATE_LIMITED'
+        ? `You're asking questions too quickly (${usage.window.limit} per ${usage.window.seconds} seconds). Please try again in ${formatWait(retryAfter)}. (E:RL429)`
+        : `You've used all ${usage.daily.limit} questions for today. Your quota resets in ${formatWait(retryAfter)}. (E:RLDAY)`;
+    logger.warn(`${decision.code}, retry after ${retryAfter}s.`, { userId, tier });
+    res.set('Retry-After', String(retryAfter));
+    res.status(429).json({ type: "error", code: decision.code, message } as LLMStructuredResponse);
+};
@@ -0,0 +1,255 @@
+import { Router, Request, Response, NextFunction, RequestHandler } from 'express';
+import mongoose from 'mongoose';
+import { getAnswerFromLLM, streamAnswerFromLLM, failedAnswer, LLMStructuredResponse, LLMAnswer, ConversationTurn, LLMStreamEvent } from '../llmService';
+import { requireAuth } from '../authMiddleware';
+import { enforceRateLimit } from '../rateLimit';
+import { triageQuestion, triagedAnswer, TriageDecision } from '../triage';
+import { detectInjection, getInjectionPolicy, blockedQuestionResponse, recordInjectionAttempt } from '../promptInjection';
+import { ensureDbConnection } from '../db';
+import QAHistoryModel, { ANSWERED_ONLY } from '../models/qaHistory.model';
+import { getOrgSettings } from '../orgSettings';
+import ConversationModel, { IConversation, DEFAULT_CONVERSATION_TITLE } from '../models/conversation.model';
+import { createLogger, LogFields } from '../logger';
+import { withSpan } from '../tracing';
+import { SpanStatusCode } from '@opentelemetry/api';
+
+const router = Router();
+const logger = createLogger('API /ask');
+
+router.use(requireAuth);
+
+interface AskContext {
+    receivedAt: number;              // For the latency recorded with the history entry
+    userId: string | undefined;
+    orgId: string | null;            // Active organization: its guide answers, its default visibility applies
+    question: string;
+    conversation: IConversation | null;
+    previousTurns: ConversationTurn[];
+    triage: TriageDecision;
+    injection: { patterns: string[]; action: 'blocked' | 'warned' } | null; // Set when the question matched injection patterns
+}
+
+// Validates the body shared by /api/ask and /api/ask/stream, answering 400 when invalid. Runs before
+// enforceRateLimit, so only questions that can be answered count against the user's limit and daily quota.
+const validateAskBody: RequestHandler = (req: Request, res: Response, next: NextFunction) => {
+    const { question, conversationId } = req.body ?? {};
+    if (!question || typeof question !== 'string' || question.trim() === "") {
+        res.status(400).json({
+            type: "error",
+            message: 'Question is required and must be a non-empty string.'
+        } as LLMStructuredResponse);
+        return;
+    }
+    if (conversationId !== undefined && conversationId !== null && !mongoose.isValidObjectId(conversationId)) {
+        res.status(400).json({ type: "error", message: 'conversationId must be a valid conversation id.' } as LLMStructuredResponse);
+        return;
+    }
+    next();
+};
+
+// Loads the conversation and its previous turns. Sends a 404 and returns null if the thread isn't the user's.
+async function loadAskContext(req: Request, res: Response): Promise<AskContext | null> {
+    const receivedAt = Date.now();
+    const { question, conversationId } = req.body;
+    const userId = req.auth?.userId;
+    const orgId = req.auth?.orgId ?? null;
+
+    let conversation: IConversation | null = null;
+    let previousTurns: ConversationTurn[] = [];
+    if (conversationId) {
+        conversation = await ConversationModel.findOne({ _id: conversationId, userId: userId });
+        if (!conversation) {
+            res.status(404).json({ type: "error", message: 'Conversation not found.' } as LLMStructuredResponse);
+            return null;
+        }
+        const turns = await QAHistoryModel.find({ conversationId: conversation._id, userId: userId, ...ANSWERED_ONLY }).sort({ timestamp: 1 });
+        previousTurns = turns.map(turn => ({ question: turn.question, response: turn.llmResponse as LLMStructuredResponse }));
+    }
+    const triage = await triageQuestion(question, previousTurns, orgId);
+
+    let injection: AskContext['injection'] = null;
+    const patterns = detectInjection(question);
+    if (patterns.length > 0) {
+        injection = { patterns, action: getInjectionPolicy() === 'block' ? 'blocked' : 'warned' };
+        await recordInjectionAttempt({ userId, source: 'question', patterns, action: injection.action, text: question });
+    }
+    return { receivedAt, userId, orgId, question, conversation, previousTurns, triage, injection };
+}
+
+// Blocked injection attempts and questions triage handled itself are answered without an LLM call
+async function answerWithoutLLM(context: AskContext): Promise<LLMAnswer | null> {
+    if (context.injection?.action === 'blocked') return failedAnswer(blockedQuestionResponse());
+    if (context.triage.category !== 'in_scope') return triagedAnswer(context.triage, context.question, context.orgId);
+    return null;
+}
+
+// Model outputs that failed the output checks were rejected (and repaired or replaced), but still count against the user
+async function recordOutputFlags(context: AskContext, answer: LLMAnswer): Promise<void> {
+    const flags = answer.metadata.outputFlags;
+    if (flags.length === 0) return;
+    await recordInjectionAttempt({ userId: context.userId, source: 'output', patterns: flags, action: 'blocked', text: context.question });
+}
+
+// Saves answers to QAHistory and bumps the conversation. Failures are saved too once a model was called, so their
+// tokens and cost are accounted for; errors raised before that (blocked questions, missing config) are not.
+// DB failures are logged, never sent to the user.
+// Returns the id of a saved answer (used by the client to attach feedback), or null for failures and when nothing was saved.
+async function saveInteraction(context: AskContext, answer: LLMAnswer): Promise<string | null> {
+    const { userId, orgId, question, conversation, previousTurns, triage, injection } = context;
+    const llmResponse = answer.response;
+    const { usage } = answer.metadata;
+    const failed = llmResponse.type === 'error';
+
+    if (failed && usage.calls.length === 0) {
+        if (userId) logger.info('Request failed before any model call, not saving the interaction.', { userId, errorMessage: llmResponse.message });
+        return null;
+    }
+    if (!userId) return null;
+    return withSpan('db.save_history', { 'qa.failed': failed }, async span => {
+        try {
+            const historyEntry = new QAHistoryModel({
+                userId: userId,
+                orgId: orgId,
+                visibility: orgId ? (await getOrgSettings(orgId)).defaultVisibility : 'private',
+                conversationId: conversation?._id ?? null,
+                question: question,
+                llmResponse: llmResponse,
+                knowledgeBase: answer.metadata.knowledgeBase,
+                provider: answer.metadata.provider,
+                llmModel: answer.metadata.model,
+                repairAttempts: answer.metadata.repairAttempts,
+                grounding: answer.metadata.grounding,
+                triage: triage,
+                promptInjection: injection || answer.metadata.outputFlags.length > 0
+                    ? { patterns: injection?.patterns ?? [], outputFlags: answer.metadata.outputFlags }
+                    : null,
+                usage: {
+                    calls: usage.calls.map(call => ({
+                        provider: call.provider,
+                        model: call.model,
+                        outcome: call.outcome,
+                        reason: call.reason ?? null,
+                        repairs: call.repairs ?? 0,
+                        durationMs: call.durationMs,
+                        promptTokens: call.usage?.promptTokens ?? null,
+                        completionTokens: call.usage?.completionTokens ?? null,
+                        costUsd: call.costUsd,
+                    })),
+                    promptTokens: usage.promptTokens,
+                    completionTokens: usage.completionTokens,
+                    costUsd: usage.costUsd,
+                    latencyMs: Date.now() - context.receivedAt,
+                },
+            });
+            await historyEntry.save();
+            logger.info(`Saved ${failed ? 'failed request' : 'Q&A history'}.`, { userId, historyId: String(historyEntry._id) });
+            if (failed) return null; // Failures aren't part of the thread and can't be rated
+            if (conversation) {
+                // A thread created without a title is named after its first question
+                if (previousTurns.length === 0 && conversation.title === DEFAULT_CONVERSATION_TITLE) {
+                    conversation.title = question.trim().substring(0, 80);
+                }
+                conversation.updatedAt = new Date(); // Moves the thread to the top of the sidebar
+                await conversation.save();
+            }
+            return String(historyEntry._id);
+        } catch (dbError: any) {
+            span.recordException(dbError);
+            span.setStatus({ code: SpanStatusCode.ERROR, message: dbError.message });
+            logger.error('Failed to save Q&A history.', { userId, error: dbError.message });
+            return null;
+        }
+    });
+}
+
+// The question is logged redacted unless LOG_INCLUDE_CONTENT is set
+function contextFields(context: AskContext): LogFields {
+    return {
+        userId: context.userId,
+        conversationId: context.conversation ? String(context.conversation._id) : undefined,
+        previousTurns: context.previousTurns.length,
+        question: context.question,
+    };
+}
+
+function answerFields(answer: LLMAnswer): LogFields {
+    return { responseType: answer.response.type, provider: answer.metadata.provider, model: answer.metadata.model, cache: answer.metadata.cache.status };
+}
+
+router.post('/', validateAskBody, enforceRateLimit, async (req: Request, res: Response, next: NextFunction): Promise<void> => { // Explicitly return Promise<void>
+    try {
+        await ensureDbConnection();
+        const context = await loadAskContext(req, res);
+        if (!context) return;
+
+        logger.info('Received question.', contextFields(context));
+        const answer: LLMAnswer = await answerWithoutLLM(context) ?? await getAnswerFromLLM(context.question, context.previousTurns, context.orgId);
+
+        logger.info('Answered.', answerFields(answer));
+        await recordOutputFlags(context, answer);
+        const historyId = await saveInteraction(context, answer);
+
+        res.set('X-Answer-Cache', answer.metadata.cache.status);
+        if (historyId) res.set('X-History-Id', historyId);
+        res.status(200).json(answer.response);
+        // No explicit return needed here, res.json() ends the request-response cycle for this path.
+    } catch (error: any) {
+        logger.error('Error processing question.', { userId: req.auth?.userId, error: error.message });
+        next(error); // Pass error to global error handler
+    }
+});
+
+// --- Server-Sent Events variant of /api/ask ---
+// Events: "progress" ({ stage, provider? }), "token" ({ text }), "metadata" ({ historyId, cache, provider, model, repairAttempts, grounding, triage }) and a closing "final" carrying the
+// validated LLMStructuredResponse. Validation and DB errors are sent as a 4xx/5xx JSON body before the
+// stream opens; after that, failures are reported as a "final" event with an error response.
+router.post('/stream', validateAskBody, enforceRateLimit, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    let context: AskContext | null;
+    try {
+        await ensureDbConnection();
+        context = await loadAskContext(req, res);
+        if (!context) return;
+    } catch (error: any) {
+        logger.error('Error preparing streamed question.', { userId: req.auth?.userId, error: error.message });
+        next(error);
+        return;
+    }
+
+    res.status(200).set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no', // Stops proxies like nginx from buffering the stream
+    });
+    res.flushHeaders();
+
+    let clientGone = false;
+    res.on('close', () => { clientGone = true; });
+    const sendEvent = (event: string, data: unknown) => {
+        if (clientGone) return;
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    logger.info('Received streamed question.', contextFields(context));
+    let answer: LLMAnswer;
+    try {
+        answer = await answerWithoutLLM(context) ?? await streamAnswerFromLLM(context.question, context.previousTurns, context.orgId, (event: LLMStreamEvent) => {
+            if (event.type === 'token') sendEvent('token', { text: event.text });
+            else sendEvent('progress', { stage: event.stage, provider: event.provider });
+        });
+    } catch (error: any) {
+        logger.error('Error processing streamed question.', { userId: context.userId, error: error.message });
+        answer = failedAnswer({ type: "error", message: `Streaming failed: ${error.message || 'Unknown error'} (E:ST01)` });
+    }
+
+    logger.info('Answered.', answerFields(answer));
+    await recordOutputFlags(context, answer);
+    // Saved even if the client disconnected, exactly as /api/ask would have
+    const historyId = await saveInteraction(context, answer);
+
+    sendEvent('metadata', { historyId, cache: answer.metadata.cache, provider: answer.metadata.provider, model: answer.metadata.model, repairAttempts: answer.metadata.repairAttempts, grounding: answer.metadata.grounding, triage: context.triage.category });
+    sendEvent('final', answer.response);
+    res.end();
+});
+
+export default router;
@@ -0,0 +1,48 @@
+import { Router, Request, Response } from 'express';
+import { LLMStructuredResponse } from '../llmService';
+import { config } from '../config';
+import { ROLES, Role, signLocalToken } from '../auth';
+import { createLogger } from '../logger';
+
+// Sign-in for AUTH_MODE=local. Mounted at /api/auth; public, since this is where tokens come from.
+// With Clerk, sign-in happens in the frontend and these routes only report the mode.
+const router = Router();
+const logger = createLogger('API /auth');
+const ID_PATTERN = /^[A-Za-z0-9._-]{1,64}$/; // User and organization IDs
+
+function sendError(res: Response, status: number, message: string): void {
+    res.status(status).json({ type: "error", message } as LLMStructuredResponse);
+}
+
+// GET /api/auth/mode -> { mode: "clerk" | "local" }
+router.get('/mode', (req: Request, res: Response): void => {
+    res.status(200).json({ mode: config.auth.mode });
+});
+
+// POST /api/auth/dev/token  Body: { "userId": "alice", "roles"?: ["admin"], "orgId"?: "acme" } -> { token, userId, roles, orgId, expiresAt }
+// Signs a local token for any user, roles and organization, so it only exists in local mode.
+router.post('/dev/token', (req: Request, res: Response): void => {
+    if (config.auth.mode !== 'local') {
+        sendError(res, 404, "Dev sign-in is only available with AUTH_MODE=local.");
+        return;
+    }
+    const { userId, roles = [], orgId = null } = req.body ?? {};
+    if (typeof userId !== 'string' || !ID_PATTERN.test(userId)) {
+        sendError(res, 400, "userId must be 1-64 letters, digits, '.', '_' or '-'.");
+        return;
+    }
+    if (!Array.isArray(roles) || !roles.every(role => (ROLES as readonly unknown[]).includes(role))) {
+        sendError(res, 400, `roles must be a list of: ${ROLES.join(', ')}.`);
+        return;
+    }
+    if (orgId !== null && (typeof orgId !== 'string' || !ID_PATTERN.test(orgId))) {
+        sendError(res, 400, "orgId must be null or 1-64 letters, digits, '.', '_' or '-'.");
+        return;
+    }
+
+    const { token, claims } = signLocalToken(userId, [...new Set<Role>(['user', ...roles])], config.auth.localJwtSecret!, config.auth.localTokenTtlSeconds, orgId);
+    logger.info(`Signed a local token for ${userId}.`, { roles: claims.roles, orgId });
+    res.status(200).json({ token, userId, roles: claims.roles, orgId, expiresAt: new Date(claims.exp * 1000).toISOString() });
+});
+
+export default router;
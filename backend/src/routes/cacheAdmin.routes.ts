@@ -0,0 +1,32 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { requireAuth, requireAdmin } from '../authMiddleware';
+import { ensureDbConnection } from '../db';
+import { invalidateAnswerCache, AnswerCacheFilter } from '../answerCache';
+import { createLogger } from '../logger';
+
+// Admin routes for the answer cache. Mounted at /api/admin/cache.
+const router = Router();
+const logger = createLogger('API /admin/cache');
+
+router.use(requireAuth);
+router.use(requireAdmin);
+
+// Removes cached answers. Optional query filters: ?question=, ?contentHash=, ?model=; none clears everything.
+router.delete('/', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const filter: AnswerCacheFilter = {};
+    if (typeof req.query.question === 'string') filter.question = req.query.question;
+    if (typeof req.query.contentHash === 'string') filter.contentHash = req.query.contentHash;
+    if (typeof req.query.model === 'string') filter.model = req.query.model;
+
+    try {
+        await ensureDbConnection();
+        const deleted = await invalidateAnswerCache(filter);
+        logger.info(`User ${req.auth?.userId} invalidated ${deleted} cached answers.`);
+        res.status(200).json({ deleted });
+    } catch (error: any) {
+        logger.error(`Error invalidating the answer cache.`, { error: error.message });
+        next(error);
+    }
+});
+
+export default router;
@@ -0,0 +1,126 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { requireAuth } from '../authMiddleware';
+import { ensureDbConnection } from '../db';
+import { LLMStructuredResponse } from '../llmService';
+import ConversationModel from '../models/conversation.model';
+import QAHistoryModel, { ANSWERED_ONLY } from '../models/qaHistory.model';
+import { createLogger } from '../logger';
+
+const router = Router();
+const logger = createLogger('API /conversations');
+const MAX_TITLE_LENGTH = 200;
+
+router.use(requireAuth);
+
+// Loads a conversation only if it belongs to the requesting user; sends 400/404 and returns null otherwise.
+async function findOwnedConversation(req: Request, res: Response) {
+    const userId = req.auth?.userId;
+    const { id } = req.params;
+    if (!mongoose.isValidObjectId(id)) {
+        res.status(400).json({ type: "error", message: "Invalid conversation id." } as LLMStructuredResponse);
+        return null;
+    }
+    const conversation = await ConversationModel.findOne({ _id: id, userId: userId });
+    if (!conversation) {
+        res.status(404).json({ type: "error", message: "Conversation not found." } as LLMStructuredResponse);
+        return null;
+    }
+    return conversation;
+}
+
+function parseTitle(rawTitle: unknown): string | null {
+    if (typeof rawTitle !== 'string' || rawTitle.trim() === "") return null;
+    return rawTitle.trim().substring(0, MAX_TITLE_LENGTH);
+}
+
+router.post('/', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const userId = req.auth?.userId;
+    if (!userId) {
+        res.status(401).json({ type: "error", message: "User not authenticated." } as LLMStructuredResponse);
+        return;
+    }
+
+    try {
+        await ensureDbConnection();
+        const title = parseTitle(req.body?.title);
+        const conversation = await ConversationModel.create(title ? { userId, title } : { userId });
+        logger.info(`Created conversation ${conversation._id} for user ${userId}`);
+        res.status(201).json(conversation);
+    } catch (error: any) {
+        logger.error(`Error creating conversation for user ${userId}.`, { error: error.message });
+        next(error);
+    }
+});
+
+router.get('/', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const userId = req.auth?.userId;
+    if (!userId) {
+        res.status(401).json({ type: "error", message: "User not authenticated." } as LLMStructuredResponse);
+        return;
+    }
+
+    try {
+        await ensureDbConnection();
+        const conversations = await ConversationModel.find({ userId: userId }).sort({ updatedAt: -1 }).limit(100);
+        res.status(200).json(conversations);
+    } catch (error: any) {
+        logger.error(`Error listing conversations for user ${userId}.`, { error: error.message });
+        next(error);
+    }
+});
+
+router.get('/:id/messages', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        await ensureDbConnection();
+        const conversation = await findOwnedConversation(req, res);
+        if (!conversation) return;
+
+        const turns = await QAHistoryModel.find({ conversationId: conversation._id, userId: conversation.userId, ...ANSWERED_ONLY })
+                                          .sort({ timestamp: 1 });
+        res.status(200).json(turns);
+    } catch (error: any) {
+        logger.error(`Error loading messages for conversation ${req.params.id}.`, { error: error.message });
+        next(error);
+    }
+});
+
+router.patch('/:id', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const title = parseTitle(req.body?.title);
+    if (!title) {
+        res.status(400).json({ type: "error", message: "Title is required and must be a non-empty string." } as LLMStructuredResponse);
+        return;
+    }
+
+    try {
+        await ensureDbConnection();
+        const conversation = await findOwnedConversation(req, res);
+        if (!conversation) return;
+
+        conversation.title = title;
+        await conversation.save();
+        res.status(200).json(conversation);
+    } catch (error: any) {
+        logger.error(`Error renaming conversation ${req.params.id}.`, { error: error.message });
+        next(error);
+    }
+});
+
+// Deleting a thread also deletes its turns, since they are not meaningful without it.
+router.delete('/:id', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        await ensureDbConnection();
+        const conversation = await findOwnedConversation(req, res);
+        if (!conversation) return;
+
+        const { deletedCount } = await QAHistoryModel.deleteMany({ conversationId: conversation._id, userId: conversation.userId });
+        await conversation.deleteOne();
+        logger.info(`Deleted conversation ${conversation._id} and ${deletedCount} turn(s)`);
+        res.status(204).end();
+    } catch (error: any) {
+        logger.error(`Error deleting conversation ${req.params.id}.`, { error: error.message });
+        next(error);
+    }
+});
+
+export default router;
@@ -0,0 +1,241 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { requireAuth, requireAdmin } from '../authMiddleware';
+import { ensureDbConnection } from '../db';
+import { LLMStructuredResponse, NOT_FOUND_ANSWER } from '../llmService';
+import QAHistoryModel from '../models/qaHistory.model';
+import { createLogger } from '../logger';
+
+// Aggregations over QAHistory for the admin dashboard. Mounted at /api/admin/dashboard.
+// Both routes take `from` / `to` and default to the last DEFAULT_RANGE_DAYS days.
+const router = Router();
+const logger = createLogger('API /admin/dashboard');
+const DEFAULT_RANGE_DAYS = 30;
+const DEFAULT_QUESTION_LIMIT = 20;
+const MAX_QUESTION_LIMIT = 200;
+const ERROR_CODE_LIMIT = 30;
+
+router.use(requireAuth);
+router.use(requireAdmin);
+
+function sendError(res: Response, status: number, message: string): void {
+    res.status(status).json({ type: "error", message } as LLMStructuredResponse);
+}
+
+function parseDate(raw: unknown): Date | null | undefined {
+    if (raw === undefined || raw === '') return undefined;
+    const date = new Date(String(raw));
+    return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// Sends a 400 and returns null when a bound is invalid
+function parseRange(req: Request, res: Response): { from: Date; to: Date | null } | null {
+    const from = parseDate(req.query.from);
+    const to = parseDate(req.query.to);
+    if (from === null || to === null) {
+        sendError(res, 400, "from and to must be valid dates (e.g. 2025-01-31 or an ISO timestamp).");
+        return null;
+    }
+    return { from: from ?? new Date(Date.now() - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000), to: to ?? null };
+}
+
+function rangeMatch(range: { from: Date; to: Date | null }): Record<string, any> {
+    return { timestamp: range.to ? { $gte: range.from, $lte: range.to } : { $gte: range.from } };
+}
+
+const countWhere = (condition: unknown) => ({ $sum: { $cond: [condition, 1, 0] } });
+const ratio = (part: number, total: number) => total > 0 ? Math.round((part / total) * 1000) / 1000 : 0;
+// Failed requests, and answers that were the "cannot find" reply (including off-topic questions and rejected answers)
+const isUnanswered = { $or: [{ $eq: ['$llmResponse.type', 'error'] }, { $eq: ['$llmResponse.answer', NOT_FOUND_ANSWER] }] };
+
+// Calls of one provider, from the providerCalls facet of the overview
+interface ProviderCallRow {
+    _id: string;
+    calls: number;
+    succeeded: number;
+    failed: number;
+    invalid: number;
+    skipped: number;
+    avgDurationMs: number | null;  // null when every call was skipped
+}
+
+// The overview's $facet, one list per facet
+interface OverviewFacets {
+    totals: { questions: number; users: number; failed: number; unanswered: number }[];
+    days: { day: string; activeUsers: number; questions: number; failed: number }[];
+    responseTypes: { type: string; count: number }[];
+    answeredBy: { _id: string; answered: number }[];
+    providerCalls: ProviderCallRow[];
+    fallback: { requests: number; fellBack: number; allFailed: number }[];
+    errorCodes: { code: string; requests: number }[];
+}
+
+// A question of GET /questions, grouped ignoring case
+interface QuestionRow {
+    question: string;
+    count: number;
+    users: number;
+    unanswered: number;
+    lastAskedAt: Date;
+}
+
+// GET /api/admin/dashboard/overview?from=2025-01-01&to=2025-02-01
+// Totals, daily active users and questions (UTC days), the share of each response type, provider health
+// (calls, failures and latency per provider, how often the chain fell back) and the most frequent error codes.
+// Error codes are read from failed answers and from the reasons of failed provider calls, and counted once per request.
+router.get('/overview', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const range = parseRange(req, res);
+    if (!range) return;
+
+    try {
+        await ensureDbConnection();
+        const [result] = await QAHistoryModel.aggregate<OverviewFacets>([
+            { $match: rangeMatch(range) },
+            {
+                $facet: {
+                    totals: [
+                        { $group: { _id: null, questions: { $sum: 1 }, users: { $addToSet: '$userId' }, failed: countWhere({ $eq: ['$llmResponse.type', 'error'] }), unanswered: countWhere(isUnanswered) } },
+                        { $set: { users: { $size: '$users' } } },
+                        { $project: { _id: 0 } },
+                    ],
+                    days: [
+                        { $group: { _id: { $dateToString: { format: '%Y-%m-%d', date: '$timestamp' } }, users: { $addToSet: '$userId' }, questions: { $sum: 1 }, failed: countWhere({ $eq: ['$llmResponse.type', 'error'] }) } },
+                        { $project: { _id: 0, day: '$_id', activeUsers: { $size: '$users' }, questions: 1, failed: 1 } },
+                        { $sort: { day: 1 } },
+                    ],
+                    responseTypes: [
+                        { $group: { _id: '$llmResponse.type', count: { $sum: 1 } } },
+                        { $project: { _id: 0, type: '$_id', count: 1 } },
+                        { $sort: { count: -1 } },
+                    ],
+                    answeredBy: [
+                        { $match: { provider: { $ne: null } } },
+                        { $group: { _id: '$provider', answered: { $sum: 1 } } },
+                    ],
+                    providerCalls: [
+                        { $unwind: '$usage.calls' },
+                        {
+                            $group: {
+                                _id: '$usage.calls.provider',
+                                calls: { $sum: 1 },
+                                succeeded: countWhere({ $eq: ['$usage.calls.outcome', 'success'] }),
+                                failed: countWhere({ $eq: ['$usage.calls.outcome', 'failed'] }),
+                                invalid: countWhere({ $eq: ['$usage.calls.outcome', 'invalid'] }),
+                                skipped: countWhere({ $eq: ['$usage.calls.outcome', 'skipped'] }),
+                                avgDurationMs: { $avg: { $cond: [{ $eq: ['$usage.calls.outcome', 'skipped'] }, null, '$usage.calls.durationMs'] } },
+                            },
+                        },
+                    ],
+                    // Requests whose first provider call didn't produce the answer
+                    fallback: [
+                        { $match: { 'usage.calls.0': { $exists: true } } },
+                        {
+                            $group: {
+                                _id: null,
+                                requests: { $sum: 1 },
+                                fellBack: countWhere({ $ne: [{ $arrayElemAt: ['$usage.calls.outcome', 0] }, 'success'] }),
+                                allFailed: countWhere({ $eq: ['$llmResponse.type', 'error'] }),
+                            },
+                        },
+                    ],
+                    errorCodes: [
+                        {
+                            $project: {
+                                messages: {
+                                    $concatArrays: [
+                                        [{ $cond: [{ $eq: ['$llmResponse.type', 'error'] }, '$llmResponse.message', null] }],
+                                        { $map: { input: { $ifNull: ['$usage.calls', []] }, as: 'call', in: '$$call.reason' } },
+                                    ],
+                                },
+                            },
+                        },
+                        { $unwind: '$messages' },
+                        { $match: { messages: { $type: 'string' } } },
+                        { $project: { codes: { $regexFindAll: { input: '$messages', regex: 'E:([A-Za-z0-9_]+)' } } } },
+                        { $unwind: '$codes' },
+                        { $group: { _id: { entry: '$_id', code: { $arrayElemAt: ['$codes.captures', 0] } } } },
+                        { $group: { _id: '$_id.code', requests: { $sum: 1 } } },
+                        { $project: { _id: 0, code: '$_id', requests: 1 } },
+                        { $sort: { requests: -1, code: 1 } },
+                        { $limit: ERROR_CODE_LIMIT },
+                    ],
+                },
+            },
+        ]);
+
+        const totals = result.totals[0] ?? { questions: 0, users: 0, failed: 0, unanswered: 0 };
+        const answered = new Map<string, number>(result.answeredBy.map(entry => [entry._id, entry.answered]));
+        const providers = result.providerCalls.map(entry => ({
+            provider: entry._id,
+            calls: entry.calls,
+            succeeded: entry.succeeded,
+            failed: entry.failed,
+            invalid: entry.invalid,
+            skipped: entry.skipped,
+            failureRate: ratio(entry.failed + entry.invalid, entry.calls - entry.skipped),
+            avgDurationMs: entry.avgDurationMs === null ? null : Math.round(entry.avgDurationMs),
+            answered: answered.get(entry._id) ?? 0,
+        })).sort((a, b) => b.calls - a.calls);
+        const fallback = result.fallback[0] ?? { requests: 0, fellBack: 0, allFailed: 0 };
+
+        res.status(200).json({
+            from: range.from,
+            to: range.to,
+            totals,
+            days: result.days,
+            responseTypes: result.responseTypes.map(entry => ({ ...entry, share: ratio(entry.count, totals.questions) })),
+            providers,
+            fallback: { requests: fallback.requests, fellBack: fallback.fellBack, allFailed: fallback.allFailed, rate: ratio(fallback.fellBack, fallback.requests) },
+            errorCodes: result.errorCodes,
+        });
+    } catch (error: any) {
+        logger.error(`Error aggregating the overview.`, { error: error.message });
+        next(error);
+    }
+});
+
+// GET /api/admin/dashboard/questions?from=2025-01-01&to=2025-02-01&limit=20
+// The most asked questions (greetings and abusive messages left out) and the questions most often left
+// unanswered, grouped ignoring case and surrounding whitespace. `question` is the latest wording.
+router.get('/questions', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const range = parseRange(req, res);
+    if (!range) return;
+    const limit = req.query.limit === undefined ? DEFAULT_QUESTION_LIMIT : Number(req.query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_QUESTION_LIMIT) {
+        sendError(res, 400, `limit must be an integer between 1 and ${MAX_QUESTION_LIMIT}.`);
+        return;
+    }
+
+    const groupByQuestion = [
+        {
+            $group: {
+                _id: { $toLower: { $trim: { input: '$question' } } },
+                question: { $first: '$question' },
+                count: { $sum: 1 },
+                users: { $addToSet: '$userId' },
+                unanswered: countWhere(isUnanswered),
+                lastAskedAt: { $first: '$timestamp' },
+            },
+        },
+        { $project: { _id: 0, question: 1, count: 1, users: { $size: '$users' }, unanswered: 1, lastAskedAt: 1 } },
+    ];
+
+    try {
+        await ensureDbConnection();
+        const [result] = await QAHistoryModel.aggregate<{ top: QuestionRow[]; unanswered: QuestionRow[] }>([
+            { $match: { ...rangeMatch(range), 'triage.category': { $nin: ['greeting', 'abusive'] } } },
+            { $sort: { timestamp: -1 } },
+            {
+                $facet: {
+                    top: [...groupByQuestion, { $sort: { count: -1, lastAskedAt: -1 } }, { $limit: limit }],
+                    unanswered: [{ $match: { $expr: isUnanswered } }, ...groupByQuestion, { $sort: { count: -1, lastAskedAt: -1 } }, { $limit: limit }],
+                },
+            },
+        ]);
+        res.status(200).json({ from: range.from, to: range.to, top: result.top, unanswered: result.unanswered });
+    } catch (error: any) {
+        logger.error(`Error aggregating questions.`, { error: error.message });
+        next(error);
+    }
+});
+
+export default router;
@@ -0,0 +1,92 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { requireAuth } from '../authMiddleware';
+import { ensureDbConnection } from '../db';
+import { LLMStructuredResponse } from '../llmService';
+import QAHistoryModel, { ANSWERED_ONLY, FEEDBACK_REASONS, FeedbackReason, IAnswerFeedback } from '../models/qaHistory.model';
+import { createLogger } from '../logger';
+
+// Ratings of answers by the user who asked. Mounted at /api/feedback.
+const router = Router();
+const logger = createLogger('API /feedback');
+const MAX_COMMENT_LENGTH = 2000;
+
+router.use(requireAuth);
+
+function sendError(res: Response, status: number, message: string): void {
+    res.status(status).json({ type: "error", message } as LLMStructuredResponse);
+}
+
+// PUT /api/feedback/:historyId  Body: { "rating": "up" | "down", "reason"?: "not_in_guide" | "wrong" | "incomplete" | "bad_format", "comment"?: "..." }
+// Reasons describe what was wrong, so they are only kept for "down" ratings.
+router.put('/:historyId', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const userId = req.auth?.userId;
+    const { historyId } = req.params;
+    const { rating, reason, comment } = req.body ?? {};
+
+    if (!mongoose.isValidObjectId(historyId)) {
+        sendError(res, 400, "Invalid history entry id.");
+        return;
+    }
+    if (rating !== 'up' && rating !== 'down') {
+        sendError(res, 400, 'rating must be "up" or "down".');
+        return;
+    }
+    if (reason !== undefined && reason !== null && !FEEDBACK_REASONS.includes(reason)) {
+        sendError(res, 400, `reason must be one of: ${FEEDBACK_REASONS.join(', ')}.`);
+        return;
+    }
+    if (comment !== undefined && comment !== null && typeof comment !== 'string') {
+        sendError(res, 400, "comment must be a string.");
+        return;
+    }
+
+    const feedback: IAnswerFeedback = {
+        rating,
+        reason: rating === 'down' ? (reason as FeedbackReason | undefined) ?? null : null,
+        comment: comment?.trim() ? comment.trim().substring(0, MAX_COMMENT_LENGTH) : null,
+        updatedAt: new Date(),
+    };
+
+    try {
+        await ensureDbConnection();
+        const entry = await QAHistoryModel.findOneAndUpdate(
+            { _id: historyId, userId: userId, ...ANSWERED_ONLY },
+            { $set: { feedback } },
+            { new: true }
+        ).select('feedback');
+        if (!entry) {
+            sendError(res, 404, "History entry not found.");
+            return;
+        }
+        logger.info(`User ${userId} rated ${historyId} ${rating}`, { reason: feedback.reason });
+        res.status(200).json(entry.feedback);
+    } catch (error: any) {
+        logger.error(`Error saving feedback on ${historyId} for user ${userId}.`, { error: error.message });
+        next(error);
+    }
+});
+
+router.delete('/:historyId', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const userId = req.auth?.userId;
+    const { historyId } = req.params;
+    if (!mongoose.isValidObjectId(historyId)) {
+        sendError(res, 400, "Invalid history entry id.");
+        return;
+    }
+
+    try {
+        await ensureDbConnection();
+        const result = await QAHistoryModel.updateOne({ _id: historyId, userId: userId }, { $set: { feedback: null } });
+        if (result.matchedCount === 0) {
+            sendError(res, 404, "History entry not found.");
+            return;
+        }
+        res.status(204).end();
+    } catch (error: any) {
+        logger.error(`Error removing feedback on ${historyId} for user ${userId}.`, { error: error.message });
+        next(error);
+    }
+});
+
+export default router;
@@ -0,0 +1,122 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { requireAuth, requireAdmin } from '../authMiddleware';
+import { ensureDbConnection } from '../db';
+import { LLMStructuredResponse } from '../llmService';
+import QAHistoryModel, { FEEDBACK_REASONS } from '../models/qaHistory.model';
+import { createLogger } from '../logger';
+
+// Admin analytics over answer feedback. Mounted at /api/admin/feedback.
+const router = Router();
+const logger = createLogger('API /admin/feedback');
+const DEFAULT_GROUP_LIMIT = 50;
+const MAX_GROUP_LIMIT = 500;
+const COMMENTS_PER_GROUP = 5;
+
+router.use(requireAuth);
+router.use(requireAdmin);
+
+// What each grouping buckets rated entries by
+const GROUP_KEYS: Record<string, unknown> = {
+    question: { $toLower: { $trim: { input: '$question' } } },
+    type: '$llmResponse.type',
+    model: { $ifNull: ['$llmModel', 'unknown'] },
+    section: { $ifNull: ['$llmResponse.source_section_id', 'none'] },
+};
+
+function sendError(res: Response, status: number, message: string): void {
+    res.status(status).json({ type: "error", message } as LLMStructuredResponse);
+}
+
+function parseDate(raw: unknown): Date | null | undefined {
+    if (raw === undefined || raw === '') return undefined;
+    const date = new Date(String(raw));
+    return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// GET /api/admin/feedback/summary?groupBy=section&from=2025-01-01&to=2025-02-01&limit=50
+// Groups are sorted by thumbs-down count, so the answers, models or guide sections needing work come first.
+// Each group has up/down counts, the down rate, counts per reason and its latest comments.
+router.get('/summary', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const groupBy = typeof req.query.groupBy === 'string' ? req.query.groupBy : 'section';
+    if (!GROUP_KEYS[groupBy]) {
+        sendError(res, 400, `groupBy must be one of: ${Object.keys(GROUP_KEYS).join(', ')}.`);
+        return;
+    }
+    const limit = req.query.limit === undefined ? DEFAULT_GROUP_LIMIT : Number(req.query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_GROUP_LIMIT) {
+        sendError(res, 400, `limit must be an integer between 1 and ${MAX_GROUP_LIMIT}.`);
+        return;
+    }
+    const from = parseDate(req.query.from);
+    const to = parseDate(req.query.to);
+    if (from === null || to === null) {
+        sendError(res, 400, "from and to must be valid dates (e.g. 2025-01-31 or an ISO timestamp).");
+        return;
+    }
+
+    const match: Record<string, any> = { feedback: { $ne: null } };
+    if (from || to) {
+        match['feedback.updatedAt'] = {};
+        if (from) match['feedback.updatedAt'].$gte = from;
+        if (to) match['feedback.updatedAt'].$lte = to;
+    }
+    const countWhere = (condition: unknown) => ({ $sum: { $cond: [condition, 1, 0] } });
+    const reasonCounts = Object.fromEntries(FEEDBACK_REASONS.map(reason => [reason, countWhere({ $eq: ['$feedback.reason', reason] })]));
+
+    try {
+        await ensureDbConnection();
+        const [result] = await QAHistoryModel.aggregate([
+            { $match: match },
+            { $sort: { 'feedback.updatedAt': -1 } },
+            {
+                $facet: {
+                    totals: [
+                        { $group: { _id: null, rated: { $sum: 1 }, up: countWhere({ $eq: ['$feedback.rating', 'up'] }), down: countWhere({ $eq: ['$feedback.rating', 'down'] }) } },
+                        { $project: { _id: 0 } },
+                    ],
+                    groups: [
+                        {
+                            $group: {
+                                _id: GROUP_KEYS[groupBy],
+                                label: { $first: groupBy === 'section' ? '$llmResponse.source_section_title' : '$question' },
+                                total: { $sum: 1 },
+                                up: countWhere({ $eq: ['$feedback.rating', 'up'] }),
+                                down: countWhere({ $eq: ['$feedback.rating', 'down'] }),
+                                ...reasonCounts,
+                                comments: { $push: { rating: '$feedback.rating', reason: '$feedback.reason', comment: '$feedback.comment', question: '$question', at: '$feedback.updatedAt' } },
+                            },
+                        },
+                        {
+                            $project: {
+                                _id: 0,
+                                key: '$_id',
+                                label: 1,
+                                total: 1,
+                                up: 1,
+                                down: 1,
+                                downRate: { $round: [{ $divide: ['$down', '$total'] }, 3] },
+                                reasons: Object.fromEntries(FEEDBACK_REASONS.map(reason => [reason, `$${reason}`])),
+                                comments: { $slice: [{ $filter: { input: '$comments', cond: { $ne: ['$$this.comment', null] } } }, COMMENTS_PER_GROUP] },
+                            },
+                        },
+                        { $sort: { down: -1, total: -1 } },
+                        { $limit: limit },
+                    ],
+                },
+            },
+        ]);
+
+        res.status(200).json({
+            groupBy,
+            from: from ?? null,
+            to: to ?? null,
+            totals: result.totals[0] ?? { rated: 0, up: 0, down: 0 },
+            groups: result.groups,
+        });
+    } catch (error: any) {
+        logger.error(`Error aggregating feedback by ${groupBy}.`, { error: error.message });
+        next(error);
+    }
+});
+
+export default router;
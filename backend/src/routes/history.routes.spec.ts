@@ -0,0 +1,203 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.hoisted(() => {
+    process.env.HISTORY_EXPORT_MAX_ENTRIES = '3';
+    process.env.HISTORY_EXPORT_MAX_IDS = '2';
+});
+
+import request from 'supertest';
+import mongoose from 'mongoose';
+import app from '../index';
+import { config } from '../config';
+import { signLocalToken } from '../auth/localJwtAdapter';
+import QAHistoryModel from '../models/qaHistory.model';
+
+// --- An in-memory stand-in for QAHistoryModel.find, covering the operators the history routes use ---
+type Entry = Record<string, any>;
+let entries: Entry[] = [];
+let lastFilter: Record<string, any> | null = null;
+
+const valueAt = (entry: Entry, path: string) => path.split('.').reduce((value, key) => value?.[key], entry);
+const comparable = (value: unknown) => value instanceof Date ? value.getTime() : String(value);
+const compare = (a: unknown, b: unknown) => comparable(a) < comparable(b) ? -1 : comparable(a) > comparable(b) ? 1 : 0;
+
+function matches(entry: Entry, filter: Record<string, any>): boolean {
+    return Object.entries(filter).every(([key, condition]) => {
+        if (key === '$or') return condition.some((alternative: Record<string, any>) => matches(entry, alternative));
+        if (key === '$text') return true; // Ranking is MongoDB's; the specs check the filter sent
+        const value = valueAt(entry, key);
+        if (condition === null || typeof condition !== 'object' || condition instanceof Date || condition instanceof mongoose.Types.ObjectId) {
+            return compare(value, condition) === 0;
+        }
+        return Object.entries(condition).every(([operator, argument]: [string, any]) => {
+            switch (operator) {
+                case '$ne': return compare(value, argument) !== 0;
+                case '$lt': return compare(value, argument) < 0;
+                case '$gte': return compare(value, argument) >= 0;
+                case '$lte': return compare(value, argument) <= 0;
+                case '$in': return argument.some((candidate: unknown) => compare(value, candidate) === 0);
+                default: throw new Error(`Unsupported operator ${operator}`);
+            }
+        });
+    });
+}
+
+class FakeQuery implements PromiseLike<Entry[]> {
+    private results: Entry[];
+
+    constructor(filter: Record<string, any>, projection?: string | null) {
+        lastFilter = filter;
+        const excluded = (projection ?? '').split(' ').filter(field => field.startsWith('-')).map(field => field.slice(1));
+        this.results = entries.filter(entry => matches(entry, filter))
+            .map(entry => Object.fromEntries(Object.entries(entry).filter(([field]) => !excluded.includes(field))));
+    }
+
+    sort(order: Record<string, 1 | -1>): this {
+        this.results.sort((a, b) => {
+            for (const [field, direction] of Object.entries(order)) {
+                const result = compare(a[field], b[field]) * direction;
+                if (result !== 0) return result;
+            }
+            return 0;
+        });
+        return this;
+    }
+
+    limit(count: number): this {
+        this.results = this.results.slice(0, count);
+        return this;
+    }
+
+    select(): this {
+        return this;
+    }
+
+    lean(): this {
+        return this;
+    }
+
+    then<R1 = Entry[], R2 = never>(onFulfilled?: ((value: Entry[]) => R1 | PromiseLike<R1>) | null, onRejected?: ((reason: unknown) => R2 | PromiseLike<R2>) | null): PromiseLike<R1 | R2> {
+        return Promise.resolve(this.results).then(onFulfilled, onRejected);
+    }
+}
+
+// --- Fixtures ---
+const USER = 'user_spec';
+const bearer = (userId = USER, orgId: string | null = null) => `Bearer ${signLocalToken(userId, [], config.auth.localJwtSecret!, 60, orgId).token}`;
+let nextId = 1;
+
+function entry(minute: number, fields: Entry = {}): Entry {
+    const _id = new mongoose.Types.ObjectId((nextId++).toString(16).padStart(24, '0'));
+    return {
+        _id,
+        userId: USER,
+        orgId: null,
+        visibility: 'private',
+        question: `Question ${_id}`,
+        llmResponse: { type: 'text', answer: `Answer ${_id}` },
+        feedback: { rating: 'up', updatedAt: new Date() },
+        timestamp: new Date(Date.UTC(2026, 2, 10, 12, minute)),
+        ...fields,
+    };
+}
+
+beforeEach(() => {
+    entries = [];
+    lastFilter = null;
+    vi.spyOn(QAHistoryModel, 'find').mockImplementation(((filter: Record<string, any>, projection?: string | null) => new FakeQuery(filter, projection)) as any);
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('GET /api/history', () => {
+    it('pages newest first with a cursor, breaking timestamp ties by id, without repeating or skipping entries', async () => {
+        // Three entries share a timestamp, so the cursor must carry the id as well
+        entries = [entry(1), entry(2), entry(2), entry(2), entry(3)];
+        const seen: string[] = [];
+        let cursor: string | null = null;
+        let pages = 0;
+        do {
+            const res: request.Response = await request(app).get('/api/history').query({ limit: 2, ...(cursor ? { cursor } : {}) }).set('Authorization', bearer());
+            expect(res.status).toBe(200);
+            seen.push(...res.body.items.map((item: Entry) => item._id));
+            cursor = res.body.nextCursor;
+            pages++;
+        } while (cursor);
+
+        const expected = [...entries].sort((a, b) => compare(b.timestamp, a.timestamp) || compare(b._id, a._id)).map(item => String(item._id));
+        expect(seen).toEqual(expected);
+        expect(pages).toBe(3);
+    });
+
+    it('has no next page when the last page is full', async () => {
+        entries = [entry(1), entry(2)];
+        const res = await request(app).get('/api/history?limit=2').set('Authorization', bearer());
+        expect(res.body.items).toHaveLength(2);
+        expect(res.body.nextCursor).toBeNull();
+    });
+
+    it("lists only the user's own answered entries", async () => {
+        entries = [entry(1), entry(2, { userId: 'user_other' }), entry(3, { llmResponse: { type: 'error', message: 'Timed out.' } })];
+        const res = await request(app).get('/api/history').set('Authorization', bearer());
+        expect(res.body.items.map((item: Entry) => item._id)).toEqual([String(entries[0]._id)]);
+    });
+
+    it('passes the search and date range to the query', async () => {
+        entries = [entry(1), entry(30)];
+        const res = await request(app).get('/api/history').query({ q: 'valuation', from: '2026-03-10T12:10:00Z' }).set('Authorization', bearer());
+        expect(lastFilter).toMatchObject({ userId: USER, $text: { $search: 'valuation' }, timestamp: { $gte: new Date('2026-03-10T12:10:00Z') } });
+        expect(res.body.items).toHaveLength(1);
+    });
+
+    it("lists the organization's shared entries without the askers' feedback", async () => {
+        entries = [entry(1, { userId: 'user_other', orgId: 'org_1', visibility: 'org' }), entry(2, { userId: 'user_other', orgId: 'org_1' })];
+        const res = await request(app).get('/api/history?scope=org').set('Authorization', bearer(USER, 'org_1'));
+        expect(res.body.items).toHaveLength(1);
+        expect(res.body.items[0]).not.toHaveProperty('feedback');
+    });
+
+    it.each([
+        ['an invalid cursor', { cursor: 'not-a-cursor' }, 'Invalid cursor.'],
+        ['a limit out of range', { limit: 1000 }, 'limit must be an integer between 1 and 100.'],
+        ['an invalid date', { from: 'yesterday' }, 'from and to must be valid dates (e.g. 2025-01-31 or an ISO timestamp).'],
+        ['scope=org without an organization', { scope: 'org' }, 'scope=org needs an active organization.'],
+    ])('answers 400 for %s', async (_label, query, message) => {
+        const res = await request(app).get('/api/history').query(query).set('Authorization', bearer());
+        expect(res.status).toBe(400);
+        expect(res.body).toEqual({ type: 'error', message });
+    });
+});
+
+describe('GET /api/history/export', () => {
+    it('exports the newest entries oldest first and says when some were left out', async () => {
+        entries = [entry(1), entry(2), entry(3), entry(4)];
+        const res = await request(app).get('/api/history/export?format=json').set('Authorization', bearer());
+        expect(res.status).toBe(200);
+        expect(res.headers['content-type']).toBe('application/json; charset=utf-8');
+        expect(res.headers['content-disposition']).toMatch(/^attachment; filename="qa-history-\d{4}-\d{2}-\d{2}\.json"$/);
+        expect(res.headers['x-export-truncated']).toBe('true');
+        expect(res.body.entries.map((item: Entry) => item.id)).toEqual(entries.slice(1).map(item => String(item._id)));
+    });
+
+    it('exports only the selected entries', async () => {
+        entries = [entry(1), entry(2), entry(3)];
+        const ids = [entries[0]._id, entries[2]._id].map(String);
+        const res = await request(app).get('/api/history/export').query({ format: 'markdown', ids: ids.join(',') }).set('Authorization', bearer());
+        expect(res.status).toBe(200);
+        expect(res.headers['x-export-truncated']).toBe('false');
+        expect(res.text).toContain('2 entries.');
+        expect(lastFilter).toMatchObject({ userId: USER, _id: { $in: ids } });
+    });
+
+    it.each([
+        ['an unknown format', { format: 'docx' }, 'format must be one of: markdown, csv, json, pdf.'],
+        ['too many ids', { ids: Array.from({ length: 3 }, () => new mongoose.Types.ObjectId().toString()).join(',') }, 'ids must be a comma-separated list of at most 2 history entry ids.'],
+        ['an invalid id', { ids: 'abc' }, 'ids must be a comma-separated list of at most 2 history entry ids.'],
+    ])('answers 400 for %s', async (_label, query, message) => {
+        const res = await request(app).get('/api/history/export').query(query).set('Authorization', bearer());
+        expect(res.status).toBe(400);
+        expect(res.body).toEqual({ type: 'error', message });
+    });
+});
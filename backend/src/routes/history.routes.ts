@@ -0,0 +1,302 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { requireAuth } from '../authMiddleware';
+import { ensureDbConnection } from '../db';
+import { LLMStructuredResponse } from '../llmService';
+import QAHistoryModel, { ANSWERED_ONLY, HISTORY_VISIBILITIES, HistoryVisibility } from '../models/qaHistory.model';
+import type { AuthInfo } from '../auth';
+import { EXPORT_FILE_TYPES, EXPORT_FORMATS, ExportFormat, renderCsv, renderJson, renderMarkdown, renderPdf, toExportEntry } from '../historyExport';
+import { createLogger } from '../logger';
+import { config } from '../config';
+
+// Q&A history of the signed-in user, and the history shared with their organization. Mounted at /api/history.
+// Lists are scoped to req.auth.userId, or with ?scope=org to the entries shared with req.auth.orgId;
+// changes (visibility, deletes) are only ever made by the user who asked.
+const router = Router();
+const logger = createLogger('API /history');
+const DEFAULT_PAGE_SIZE = config.history.pageSize;
+const MAX_PAGE_SIZE = config.history.maxPageSize;
+const EXPORT_MAX_ENTRIES = config.history.exportMaxEntries;
+const EXPORT_MAX_IDS = config.history.exportMaxIds;
+const HISTORY_SCOPES = ['mine', 'org'] as const;
+// Other members see what was asked and answered, not the asker's rating or usage accounting
+const ORG_MEMBER_PROJECTION = '-feedback -usage -promptInjection';
+
+router.use(requireAuth);
+
+// Position of the last entry of a page: newest first, ties on timestamp broken by _id
+interface HistoryCursor {
+    timestamp: Date;
+    id: string;
+}
+
+function sendError(res: Response, status: number, message: string): void {
+    res.status(status).json({ type: "error", message } as LLMStructuredResponse);
+}
+
+function encodeCursor(timestamp: Date, id: unknown): string {
+    return Buffer.from(JSON.stringify({ t: timestamp.toISOString(), id: String(id) })).toString('base64url');
+}
+
+function decodeCursor(raw: string): HistoryCursor | null {
+    try {
+        const { t, id } = JSON.parse(Buffer.from(raw, 'base64url').toString('utf-8'));
+        const timestamp = new Date(t);
+        if (Number.isNaN(timestamp.getTime()) || !mongoose.isValidObjectId(id)) return null;
+        return { timestamp, id };
+    } catch {
+        return null;
+    }
+}
+
+function parseDate(raw: unknown): Date | null | undefined {
+    if (raw === undefined || raw === '') return undefined;
+    const date = new Date(String(raw));
+    return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// Filter shared by the list and the export: `scope` picks the user's own entries (mine, the default) or those
+// shared with their organization (org), `q` is a full-text search over the question and the answer, `from`/`to`
+// bound the timestamp. Returns an error message when a parameter is invalid.
+function buildHistoryFilter(auth: AuthInfo, query: Request['query']): Record<string, any> | string {
+    const scope = query.scope ?? 'mine';
+    if (!(HISTORY_SCOPES as readonly unknown[]).includes(scope)) return `scope must be one of: ${HISTORY_SCOPES.join(', ')}.`;
+    if (scope === 'org' && !auth.orgId) return "scope=org needs an active organization.";
+    const from = parseDate(query.from);
+    const to = parseDate(query.to);
+    if (from === null || to === null) return "from and to must be valid dates (e.g. 2025-01-31 or an ISO timestamp).";
+    const search = typeof query.q === 'string' ? query.q.trim() : '';
+
+    const filter: Record<string, any> = scope === 'org'
+        ? { orgId: auth.orgId, visibility: 'org', ...ANSWERED_ONLY }
+        : { userId: auth.userId, ...ANSWERED_ONLY };
+    if (search) filter.$text = { $search: search };
+    if (from || to) {
+        filter.timestamp = {};
+        if (from) filter.timestamp.$gte = from;
+        if (to) filter.timestamp.$lte = to;
+    }
+    return filter;
+}
+
+// GET /api/history?scope=mine|org&limit=20&cursor=...&q=valuation&from=2025-01-01&to=2025-02-01
+// Newest first. `scope=org` lists what the members of the user's organization (the user included) shared with it;
+// `q` is a full-text search over the question and the answer; `from`/`to` bound the timestamp.
+// Responds with { items, nextCursor }, nextCursor being null on the last page.
+router.get('/', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const userId = req.auth?.userId;
+    if (!req.auth || !userId) {
+        sendError(res, 401, "User not authenticated.");
+        return;
+    }
+
+    const limit = req.query.limit === undefined ? DEFAULT_PAGE_SIZE : Number(req.query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+        sendError(res, 400, `limit must be an integer between 1 and ${MAX_PAGE_SIZE}.`);
+        return;
+    }
+    const cursor = typeof req.query.cursor === 'string' && req.query.cursor ? decodeCursor(req.query.cursor) : undefined;
+    if (cursor === null) {
+        sendError(res, 400, "Invalid cursor.");
+        return;
+    }
+    const filter = buildHistoryFilter(req.auth, req.query);
+    if (typeof filter === 'string') {
+        sendError(res, 400, filter);
+        return;
+    }
+    if (cursor) {
+        filter.$or = [
+            { timestamp: { $lt: cursor.timestamp } },
+            { timestamp: cursor.timestamp, _id: { $lt: new mongoose.Types.ObjectId(cursor.id) } },
+        ];
+    }
+
+    try {
+        await ensureDbConnection();
+        const orgScope = filter.visibility === 'org';
+        logger.info(`Fetching ${orgScope ? `organization ${filter.orgId} history` : 'history'} for user ${userId}${filter.$text ? ' (search)' : ''}${cursor ? ' after cursor' : ''}`);
+        // One extra entry tells whether there is a next page
+        const entries = await QAHistoryModel.find(filter, orgScope ? ORG_MEMBER_PROJECTION : null).sort({ timestamp: -1, _id: -1 }).limit(limit + 1);
+        const items = entries.slice(0, limit);
+        const last = items[items.length - 1];
+        const nextCursor = entries.length > limit && last ? encodeCursor(last.timestamp, last._id) : null;
+        res.status(200).json({ items, nextCursor });
+    } catch (error: any) {
+        logger.error(`Error fetching history for user ${userId}.`, { error: error.message });
+        next(error);
+    }
+});
+
+// GET /api/history/export?format=markdown|csv|json|pdf&scope=mine|org&q=...&from=...&to=...&ids=id1,id2
+// Downloads the entries matching the same filters as the list, oldest first; `ids` narrows it to selected entries.
+// At most EXPORT_MAX_ENTRIES entries, the newest ones; X-Export-Truncated tells when some were left out.
+router.get('/export', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const userId = req.auth?.userId;
+    if (!req.auth || !userId) {
+        sendError(res, 401, "User not authenticated.");
+        return;
+    }
+
+    const format = (req.query.format ?? 'markdown') as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+        sendError(res, 400, `format must be one of: ${EXPORT_FORMATS.join(', ')}.`);
+        return;
+    }
+    const filter = buildHistoryFilter(req.auth, req.query);
+    if (typeof filter === 'string') {
+        sendError(res, 400, filter);
+        return;
+    }
+    if (req.query.ids !== undefined) {
+        const ids = typeof req.query.ids === 'string' ? req.query.ids.split(',').map(id => id.trim()).filter(Boolean) : [];
+        if (ids.length === 0 || ids.length > EXPORT_MAX_IDS || !ids.every(id => mongoose.isValidObjectId(id))) {
+            sendError(res, 400, `ids must be a comma-separated list of at most ${EXPORT_MAX_IDS} history entry ids.`);
+            return;
+        }
+        filter._id = { $in: ids };
+    }
+
+    try {
+        await ensureDbConnection();
+        const found = await QAHistoryModel.find(filter).sort({ timestamp: -1, _id: -1 }).limit(EXPORT_MAX_ENTRIES + 1)
+            .select('conversationId question llmResponse timestamp').lean();
+        const entries = found.slice(0, EXPORT_MAX_ENTRIES).reverse().map(toExportEntry);
+        const exportedAt = new Date();
+        logger.info(`Exporting ${entries.length} entries as ${format} for user ${userId}`);
+
+        const { contentType, extension } = EXPORT_FILE_TYPES[format];
+        res.set({
+            'Content-Type': contentType,
+            'Content-Disposition': `attachment; filename="qa-history-${exportedAt.toISOString().substring(0, 10)}.${extension}"`,
+            'Cache-Control': 'no-store',
+            'X-Export-Truncated': String(found.length > EXPORT_MAX_ENTRIES),
+        });
+        switch (format) {
+            case 'markdown': res.status(200).send(renderMarkdown(entries, exportedAt)); break;
+            case 'csv': res.status(200).send(renderCsv(entries)); break;
+            case 'json': res.status(200).send(renderJson(entries, exportedAt)); break;
+            case 'pdf': res.status(200).send(await renderPdf(entries, exportedAt)); break;
+        }
+    } catch (error: any) {
+        logger.error(`Error exporting history for user ${userId}.`, { error: error.message });
+        next(error);
+    }
+});
+
+// One of the user's own entries, or one shared with their organization
+router.get('/:id', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const userId = req.auth?.userId;
+    const orgId = req.auth?.orgId;
+    if (!mongoose.isValidObjectId(req.params.id)) {
+        sendError(res, 400, "Invalid history entry id.");
+        return;
+    }
+
+    try {
+        await ensureDbConnection();
+        let entry = await QAHistoryModel.findOne({ _id: req.params.id, userId: userId, ...ANSWERED_ONLY });
+        if (!entry && orgId) {
+            entry = await QAHistoryModel.findOne({ _id: req.params.id, orgId: orgId, visibility: 'org', ...ANSWERED_ONLY }, ORG_MEMBER_PROJECTION);
+        }
+        if (!entry) {
+            sendError(res, 404, "History entry not found.");
+            return;
+        }
+        res.status(200).json(entry);
+    } catch (error: any) {
+        logger.error(`Error fetching entry ${req.params.id} for user ${userId}.`, { error: error.message });
+        next(error);
+    }
+});
+
+// PATCH /api/history/:id  Body: { "visibility": "private" | "org" } -> the updated entry
+// Only the asker can change it. Sharing needs an active organization: entries asked outside one join it,
+// entries asked in another organization can't be shared with this one.
+router.patch('/:id', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const userId = req.auth?.userId;
+    const orgId = req.auth?.orgId ?? null;
+    if (!mongoose.isValidObjectId(req.params.id)) {
+        sendError(res, 400, "Invalid history entry id.");
+        return;
+    }
+    const visibility = req.body?.visibility as HistoryVisibility;
+    if (!HISTORY_VISIBILITIES.includes(visibility)) {
+        sendError(res, 400, `visibility must be one of: ${HISTORY_VISIBILITIES.join(', ')}.`);
+        return;
+    }
+    if (visibility === 'org' && !orgId) {
+        sendError(res, 400, "Sharing with your organization needs an active organization.");
+        return;
+    }
+
+    try {
+        await ensureDbConnection();
+        const entry = await QAHistoryModel.findOne({ _id: req.params.id, userId: userId, ...ANSWERED_ONLY });
+        if (!entry) {
+            sendError(res, 404, "History entry not found.");
+            return;
+        }
+        if (visibility === 'org') {
+            if (entry.orgId && entry.orgId !== orgId) {
+                sendError(res, 409, "This entry was asked in another organization and can only be shared with that one.");
+                return;
+            }
+            entry.orgId = orgId;
+        }
+        entry.visibility = visibility;
+        await entry.save();
+        logger.info(`Entry ${req.params.id} of user ${userId} is now ${visibility}`, { orgId: entry.orgId });
+        res.status(200).json(entry);
+    } catch (error: any) {
+        logger.error(`Error updating entry ${req.params.id} for user ${userId}.`, { error: error.message });
+        next(error);
+    }
+});
+
+router.delete('/:id', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const userId = req.auth?.userId;
+    if (!mongoose.isValidObjectId(req.params.id)) {
+        sendError(res, 400, "Invalid history entry id.");
+        return;
+    }
+
+    try {
+        await ensureDbConnection();
+        const result = await QAHistoryModel.deleteOne({ _id: req.params.id, userId: userId });
+        if (result.deletedCount === 0) {
+            sendError(res, 404, "History entry not found.");
+            return;
+        }
+        logger.info(`Deleted entry ${req.params.id} for user ${userId}`);
+        res.status(204).end();
+    } catch (error: any) {
+        logger.error(`Error deleting entry ${req.params.id} for user ${userId}.`, { error: error.message });
+        next(error);
+    }
+});
+
+// Deletes every entry of the user. Requires ?confirm=true so a stray DELETE can't wipe the history.
+router.delete('/', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const userId = req.auth?.userId;
+    if (!userId) {
+        sendError(res, 401, "User not authenticated.");
+        return;
+    }
+    if (req.query.confirm !== 'true') {
+        sendError(res, 400, "Add ?confirm=true to delete your entire history.");
+        return;
+    }
+
+    try {
+        await ensureDbConnection();
+        const result = await QAHistoryModel.deleteMany({ userId: userId });
+        logger.info(`Deleted all ${result.deletedCount} entries for user ${userId}`);
+        res.status(200).json({ deleted: result.deletedCount });
+    } catch (error: any) {
+        logger.error(`Error deleting history for user ${userId}.`, { error: error.message });
+        next(error);
+    }
+});
+
+export default router;
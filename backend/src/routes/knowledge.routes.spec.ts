@@ -0,0 +1,55 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import request from 'supertest';
+
+// Records the order of the database connection and the knowledge base load
+const calls = vi.hoisted(() => [] as string[]);
+
+vi.mock('../db', async importOriginal => ({
+    ...await importOriginal<typeof import('../db')>(),
+    ensureDbConnection: vi.fn(async () => { calls.push('connect'); }),
+}));
+vi.mock('../knowledgeStore', async importOriginal => {
+    const actual = await importOriginal<typeof import('../knowledgeStore')>();
+    return { ...actual, getActiveKnowledgeBase: vi.fn(async (orgId?: string | null) => { calls.push('load'); return actual.getActiveKnowledgeBase(orgId); }) };
+});
+
+import app from '../index';
+import { config } from '../config';
+import { signLocalToken } from '../auth/localJwtAdapter';
+
+const bearer = `Bearer ${signLocalToken('user_spec', [], config.auth.localJwtSecret!, 60).token}`;
+
+describe('GET /api/knowledge/sections', () => {
+    beforeEach(() => {
+        calls.length = 0;
+    });
+
+    it('connects to the database before loading the guide', async () => {
+        const res = await request(app).get('/api/knowledge/sections').set('Authorization', bearer);
+        expect(res.status).toBe(200);
+        expect(res.body.sections.length).toBeGreaterThan(0);
+        expect(calls).toEqual(['connect', 'load']);
+    });
+
+    it('ranks the sections matching a search', async () => {
+        const res = await request(app).get('/api/knowledge/sections?q=safe&limit=3').set('Authorization', bearer);
+        expect(res.status).toBe(200);
+        expect(res.body.query).toBe('safe');
+        expect(res.body.sections.length).toBeLessThanOrEqual(3);
+        expect(res.body.sections[0]).toEqual(expect.objectContaining({ score: expect.any(Number), snippet: expect.any(String) }));
+    });
+
+    it('connects first for a single section and answers 404 for an unknown one', async () => {
+        const list = await request(app).get('/api/knowledge/sections').set('Authorization', bearer);
+        const [first] = list.body.sections;
+        calls.length = 0;
+
+        const res = await request(app).get(`/api/knowledge/sections/${encodeURIComponent(first.id)}`).set('Authorization', bearer);
+        expect(res.status).toBe(200);
+        expect(res.body.section.id).toBe(first.id);
+        expect(calls).toEqual(['connect', 'load']);
+
+        const missing = await request(app).get('/api/knowledge/sections/no-such-section').set('Authorization', bearer);
+        expect(missing.status).toBe(404);
+    });
+});
@@ -0,0 +1,115 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { requireAuth } from '../authMiddleware';
+import { getActiveKnowledgeBase } from '../knowledgeStore';
+import { ensureDbConnection } from '../db';
+import { tokenize, KnowledgeSection, LoadedKnowledgeBase } from '../knowledgeBase';
+import { locateQuote } from '../grounding';
+import { LLMStructuredResponse } from '../llmService';
+import { createLogger } from '../logger';
+
+// Read-only browsing of the guide the bot answers the user from (their organization's, if it set one). Mounted at /api/knowledge.
+const router = Router();
+const logger = createLogger('API /knowledge');
+const DEFAULT_SEARCH_LIMIT = 20;
+const MAX_SEARCH_LIMIT = 100;
+const MAX_QUOTES = 20;          // Passages highlighted per request (an answer's grounding quotes)
+const MAX_QUOTE_CHARS = 1000;
+const SNIPPET_CHARS_BEFORE = 60;
+const SNIPPET_CHARS_AFTER = 180;
+
+router.use(requireAuth);
+
+function sendError(res: Response, status: number, message: string): void {
+    res.status(status).json({ type: "error", message } as LLMStructuredResponse);
+}
+
+function describeKnowledgeBase(knowledgeBase: LoadedKnowledgeBase) {
+    return { documentSlug: knowledgeBase.ref.documentSlug, version: knowledgeBase.ref.version, title: knowledgeBase.title };
+}
+
+function sectionSummary(section: KnowledgeSection) {
+    return { id: section.id, title: section.title, order: section.order, chars: section.content.length };
+}
+
+// A bit of text around the first word that matches a search term, cut at word boundaries
+function snippet(content: string, terms: Set<string>): string {
+    const match = Array.from(content.matchAll(/[A-Za-z0-9]+/g)).find(word => tokenize(word[0]).some(token => terms.has(token)));
+    const position = match?.index ?? 0;
+    let start = Math.max(0, position - SNIPPET_CHARS_BEFORE);
+    let end = Math.min(content.length, position + SNIPPET_CHARS_AFTER);
+    if (start > 0) start = content.indexOf(' ', start) + 1 || start;
+    if (end < content.length) end = content.lastIndexOf(' ', end) > start ? content.lastIndexOf(' ', end) : end;
+    return `${start > 0 ? '…' : ''}${content.substring(start, end).replace(/\s+/g, ' ').trim()}${end < content.length ? '…' : ''}`;
+}
+
+// GET /api/knowledge/sections?q=safe&limit=20
+// Without `q`, every section of the active guide in document order. With `q`, the best matches first
+// (the same BM25 ranking retrieval uses), each with its score and a snippet around the first match.
+router.get('/sections', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    const limit = req.query.limit === undefined ? DEFAULT_SEARCH_LIMIT : Number(req.query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+        sendError(res, 400, `limit must be an integer between 1 and ${MAX_SEARCH_LIMIT}.`);
+        return;
+    }
+
+    try {
+        // Connected first: on a cold instance the store would fall back to the bundled guide, not the one answers use
+        await ensureDbConnection();
+        const knowledgeBase = await getActiveKnowledgeBase(req.auth?.orgId ?? null);
+        if (!query) {
+            res.status(200).json({ knowledgeBase: describeKnowledgeBase(knowledgeBase), query: null, sections: knowledgeBase.index.sections.map(sectionSummary) });
+            return;
+        }
+        const terms = new Set(tokenize(query));
+        const sections = knowledgeBase.index.search(query, limit).map(section => ({
+            ...sectionSummary(section),
+            score: Math.round(section.score * 100) / 100,
+            snippet: snippet(section.content, terms),
+        }));
+        res.status(200).json({ knowledgeBase: describeKnowledgeBase(knowledgeBase), query, sections });
+    } catch (error: any) {
+        logger.error('Error listing sections.', { query, error: error.message });
+        next(error);
+    }
+});
+
+// GET /api/knowledge/sections/:id?quote=...&quote=...
+// One section with its neighbours. Each `quote` (e.g. from an answer's grounding) that can be found in the
+// section is returned as a character range in `highlights`; quotes from other sections are ignored.
+router.get('/sections/:id', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const rawQuotes = req.query.quote === undefined ? [] : Array.isArray(req.query.quote) ? req.query.quote : [req.query.quote];
+    if (rawQuotes.length > MAX_QUOTES || rawQuotes.some(quote => typeof quote !== 'string' || quote.length > MAX_QUOTE_CHARS)) {
+        sendError(res, 400, `quote must be at most ${MAX_QUOTES} strings of up to ${MAX_QUOTE_CHARS} characters.`);
+        return;
+    }
+
+    try {
+        await ensureDbConnection();
+        const knowledgeBase = await getActiveKnowledgeBase(req.auth?.orgId ?? null);
+        const sections = knowledgeBase.index.sections;
+        const position = sections.findIndex(section => section.id === req.params.id);
+        if (position === -1) {
+            sendError(res, 404, `Section '${req.params.id}' is not in the current version of the guide.`);
+            return;
+        }
+        const section = sections[position];
+        const highlights = (rawQuotes as string[])
+            .map(quote => locateQuote(quote, section.content))
+            .filter((range): range is { start: number; end: number } => range !== null)
+            .sort((a, b) => a.start - b.start);
+
+        res.status(200).json({
+            knowledgeBase: describeKnowledgeBase(knowledgeBase),
+            section: { ...sectionSummary(section), content: section.content },
+            previous: position > 0 ? sectionSummary(sections[position - 1]) : null,
+            next: position < sections.length - 1 ? sectionSummary(sections[position + 1]) : null,
+            highlights,
+        });
+    } catch (error: any) {
+        logger.error(`Error loading section '${req.params.id}'.`, { error: error.message });
+        next(error);
+    }
+});
+
+export default router;
@@ -0,0 +1,212 @@
+import express, { Router, Request, Response, NextFunction } from 'express';
+import { requireAuth, requireAdmin } from '../authMiddleware';
+import { ensureDbConnection } from '../db';
+import { LLMStructuredResponse } from '../llmService';
+import {
+    KnowledgeStoreError, listDocuments, findDocument, documentExists, createDocument, addVersion,
+    activateVersion, setDefaultDocument, listVersions, getVersion, getActiveKnowledgeBase,
+} from '../knowledgeStore';
+import { ingestDocument, detectFormat, IngestionError, SUPPORTED_FORMATS } from '../ingestion';
+import { createLogger } from '../logger';
+import { config } from '../config';
+
+// Admin routes for managing knowledge base documents. Mounted at /api/admin/knowledge.
+const router = Router();
+const logger = createLogger('API /admin/knowledge');
+
+router.use(requireAuth);
+router.use(requireAdmin);
+
+function sendError(res: Response, status: number, message: string): void {
+    res.status(status).json({ type: "error", message } as LLMStructuredResponse);
+}
+
+// KnowledgeStoreErrors carry their own status; anything else goes to the global error handler.
+function handleStoreError(error: any, res: Response, next: NextFunction, context: string): void {
+    if (error instanceof KnowledgeStoreError || error instanceof IngestionError) {
+        sendError(res, error.status, error.message);
+        return;
+    }
+    logger.error(`Error ${context}.`, { error: error.message });
+    next(error);
+}
+
+function parseVersionParam(raw: unknown): number | null {
+    const version = Number(raw);
+    return Number.isInteger(version) && version >= 1 ? version : null;
+}
+
+function parseContent(raw: unknown): string | null {
+    return typeof raw === 'string' && raw.trim() !== '' ? raw : null;
+}
+
+// Which document/version the bot is answering from right now on this instance
+router.get('/active', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        await ensureDbConnection();
+        const knowledgeBase = await getActiveKnowledgeBase();
+        res.status(200).json({ ...knowledgeBase.ref, title: knowledgeBase.title, sectionCount: knowledgeBase.index.sections.length });
+    } catch (error: any) {
+        handleStoreError(error, res, next, 'reading the active knowledge base');
+    }
+});
+
+router.get('/documents', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        await ensureDbConnection();
+        res.status(200).json(await listDocuments());
+    } catch (error: any) {
+        handleStoreError(error, res, next, 'listing documents');
+    }
+});
+
+router.post('/documents', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { slug, title, note, makeDefault } = req.body;
+    const content = parseContent(req.body.content);
+    if (typeof slug !== 'string' || !/^[a-z0-9][a-z0-9-]{0,63}$/i.test(slug)) {
+        sendError(res, 400, "slug is required: letters, digits and dashes, up to 64 characters.");
+        return;
+    }
+    if (typeof title !== 'string' || title.trim() === '') {
+        sendError(res, 400, "title is required and must be a non-empty string.");
+        return;
+    }
+    if (!content) {
+        sendError(res, 400, "content is required and must be a non-empty string.");
+        return;
+    }
+
+    try {
+        await ensureDbConnection();
+        const document = await createDocument({ slug, title, content, note, makeDefault: makeDefault === true }, req.auth!.userId!);
+        logger.info(`User ${req.auth?.userId} created document '${document.slug}'.`);
+        res.status(201).json(document);
+    } catch (error: any) {
+        handleStoreError(error, res, next, `creating document '${slug}'`);
+    }
+});
+
+router.get('/documents/:slug', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        await ensureDbConnection();
+        res.status(200).json(await findDocument(req.params.slug));
+    } catch (error: any) {
+        handleStoreError(error, res, next, `reading document '${req.params.slug}'`);
+    }
+});
+
+// Replaces the document's text: stored as a new version, which becomes active.
+router.put('/documents/:slug', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const content = parseContent(req.body.content);
+    if (!content) {
+        sendError(res, 400, "content is required and must be a non-empty string.");
+        return;
+    }
+
+    try {
+        await ensureDbConnection();
+        const version = await addVersion(req.params.slug, content, req.body.note, req.auth!.userId!);
+        logger.info(`User ${req.auth?.userId} uploaded v${version.version} of '${req.params.slug}'.`);
+        const { content: _omitted, ...versionSummary } = version.toObject();
+        res.status(201).json(versionSummary);
+    } catch (error: any) {
+        handleStoreError(error, res, next, `uploading a version of '${req.params.slug}'`);
+    }
+});
+
+router.get('/documents/:slug/versions', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        await ensureDbConnection();
+        res.status(200).json(await listVersions(req.params.slug));
+    } catch (error: any) {
+        handleStoreError(error, res, next, `listing versions of '${req.params.slug}'`);
+    }
+});
+
+router.get('/documents/:slug/versions/:version', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const versionNumber = parseVersionParam(req.params.version);
+    if (!versionNumber) {
+        sendError(res, 400, "version must be a positive integer.");
+        return;
+    }
+
+    try {
+        await ensureDbConnection();
+        res.status(200).json(await getVersion(req.params.slug, versionNumber));
+    } catch (error: any) {
+        handleStoreError(error, res, next, `reading v${versionNumber} of '${req.params.slug}'`);
+    }
+});
+
+// Uploads a PDF, Markdown, HTML, DOCX or text file as-is. The request body is the raw file; the format
+// comes from ?filename= or the Content-Type. Creates the document if needed (?title=, ?makeDefault=true),
+// otherwise stores the extracted text as a new active version. Responds with the extraction report.
+router.post('/documents/:slug/ingest', express.raw({ type: '*/*', limit: config.knowledgeBase.uploadLimit }), async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const slug = req.params.slug;
+    const fileName = typeof req.query.filename === 'string' ? req.query.filename : null;
+    const format = detectFormat(fileName, req.get('content-type'));
+    if (!/^[a-z0-9][a-z0-9-]{0,63}$/i.test(slug)) {
+        sendError(res, 400, "slug must be letters, digits and dashes, up to 64 characters.");
+        return;
+    }
+    if (!format) {
+        sendError(res, 415, `Unsupported file type. Send ?filename= or a Content-Type for one of: ${SUPPORTED_FORMATS.join(', ')}.`);
+        return;
+    }
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        sendError(res, 400, "The request body must be the file to ingest.");
+        return;
+    }
+
+    try {
+        const { content, report } = await ingestDocument(req.body, format, fileName);
+        const note = typeof req.query.note === 'string' ? req.query.note : `Ingested from ${fileName || format}`;
+        await ensureDbConnection();
+
+        if (!(await documentExists(slug))) {
+            const title = (typeof req.query.title === 'string' && req.query.title.trim()) || report.title || slug;
+            const document = await createDocument({ slug, title, content, note, makeDefault: req.query.makeDefault === 'true' }, req.auth!.userId!);
+            logger.info(`User ${req.auth?.userId} created '${document.slug}' from ${fileName || format}.`);
+            res.status(201).json({ document, version: 1, report });
+            return;
+        }
+
+        const version = await addVersion(slug, content, note, req.auth!.userId!);
+        logger.info(`User ${req.auth?.userId} ingested v${version.version} of '${slug}' from ${fileName || format}.`);
+        res.status(201).json({ document: await findDocument(slug), version: version.version, report });
+    } catch (error: any) {
+        handleStoreError(error, res, next, `ingesting a file into '${slug}'`);
+    }
+});
+
+// Rolls back (or forward) to an existing version. Body: { "version": 3 }
+router.post('/documents/:slug/activate', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const versionNumber = parseVersionParam(req.body.version);
+    if (!versionNumber) {
+        sendError(res, 400, "version must be a positive integer.");
+        return;
+    }
+
+    try {
+        await ensureDbConnection();
+        const document = await activateVersion(req.params.slug, versionNumber);
+        logger.info(`User ${req.auth?.userId} activated v${versionNumber} of '${document.slug}'.`);
+        res.status(200).json(document);
+    } catch (error: any) {
+        handleStoreError(error, res, next, `activating v${versionNumber} of '${req.params.slug}'`);
+    }
+});
+
+// Makes this document the one the bot answers from.
+router.post('/documents/:slug/default', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        await ensureDbConnection();
+        const document = await setDefaultDocument(req.params.slug);
+        logger.info(`User ${req.auth?.userId} made '${document.slug}' the default document.`);
+        res.status(200).json(document);
+    } catch (error: any) {
+        handleStoreError(error, res, next, `setting '${req.params.slug}' as default`);
+    }
+});
+
+export default router;
@@ -0,0 +1,134 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { requireAuth, requireAdmin } from '../authMiddleware';
+import { ensureDbConnection } from '../db';
+import { LLMStructuredResponse } from '../llmService';
+import QAHistoryModel from '../models/qaHistory.model';
+import { createLogger } from '../logger';
+
+// Admin accounting of LLM tokens, latency and estimated cost, from the usage recorded on each history entry
+// (failed requests included). Mounted at /api/admin/llm-usage.
+const router = Router();
+const logger = createLogger('API /admin/llm-usage');
+const DEFAULT_USER_LIMIT = 50;
+const MAX_USER_LIMIT = 500;
+
+router.use(requireAuth);
+router.use(requireAdmin);
+
+function sendError(res: Response, status: number, message: string): void {
+    res.status(status).json({ type: "error", message } as LLMStructuredResponse);
+}
+
+function parseDate(raw: unknown): Date | null | undefined {
+    if (raw === undefined || raw === '') return undefined;
+    const date = new Date(String(raw));
+    return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// GET /api/admin/llm-usage/summary?from=2025-01-01&to=2025-02-01&limit=50
+// Totals, then per UTC day, per provider and model, and per user (most expensive first, at most `limit`).
+// Days and users count requests; models count provider calls, so one request that fell back counts for each
+// model it tried. costUsd sums the known costs; unpricedRequests and unpricedCalls count what had no price and is left out.
+router.get('/summary', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const limit = req.query.limit === undefined ? DEFAULT_USER_LIMIT : Number(req.query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_USER_LIMIT) {
+        sendError(res, 400, `limit must be an integer between 1 and ${MAX_USER_LIMIT}.`);
+        return;
+    }
+    const from = parseDate(req.query.from);
+    const to = parseDate(req.query.to);
+    if (from === null || to === null) {
+        sendError(res, 400, "from and to must be valid dates (e.g. 2025-01-31 or an ISO timestamp).");
+        return;
+    }
+
+    const match: Record<string, any> = { usage: { $ne: null } };
+    if (from || to) {
+        match.timestamp = {};
+        if (from) match.timestamp.$gte = from;
+        if (to) match.timestamp.$lte = to;
+    }
+    const countWhere = (condition: unknown) => ({ $sum: { $cond: [condition, 1, 0] } });
+    // Per-request figures, shared by the totals, days and users
+    const requestFields = {
+        requests: { $sum: 1 },
+        failed: countWhere({ $eq: ['$llmResponse.type', 'error'] }),
+        // Retries against the same provider are not a fallback: count requests that reached a second provider
+        fallbacks: countWhere({ $gt: [{ $size: { $setUnion: ['$usage.calls.provider', []] } }, 1] }),
+        promptTokens: { $sum: '$usage.promptTokens' },
+        completionTokens: { $sum: '$usage.completionTokens' },
+        costUsd: { $sum: '$usage.costUsd' },
+        unpricedRequests: countWhere({ $eq: ['$usage.costUsd', null] }),
+        avgLatencyMs: { $avg: '$usage.latencyMs' },
+        maxLatencyMs: { $max: '$usage.latencyMs' },
+    };
+    const roundLatency = { avgLatencyMs: { $round: ['$avgLatencyMs', 0] } };
+
+    try {
+        await ensureDbConnection();
+        const [result] = await QAHistoryModel.aggregate([
+            { $match: match },
+            {
+                $facet: {
+                    totals: [
+                        { $group: { _id: null, ...requestFields, users: { $addToSet: '$userId' } } },
+                        { $set: { ...roundLatency, users: { $size: '$users' } } },
+                        { $project: { _id: 0 } },
+                    ],
+                    days: [
+                        { $group: { _id: { $dateToString: { format: '%Y-%m-%d', date: '$timestamp' } }, ...requestFields } },
+                        { $set: { ...roundLatency, day: '$_id' } },
+                        { $project: { _id: 0 } },
+                        { $sort: { day: 1 } },
+                    ],
+                    models: [
+                        { $unwind: '$usage.calls' },
+                        {
+                            $group: {
+                                _id: { provider: '$usage.calls.provider', model: '$usage.calls.model' },
+                                calls: { $sum: 1 },
+                                succeeded: countWhere({ $eq: ['$usage.calls.outcome', 'success'] }),
+                                failed: countWhere({ $eq: ['$usage.calls.outcome', 'failed'] }),
+                                invalid: countWhere({ $eq: ['$usage.calls.outcome', 'invalid'] }),
+                                skipped: countWhere({ $eq: ['$usage.calls.outcome', 'skipped'] }),
+                                promptTokens: { $sum: '$usage.calls.promptTokens' },
+                                completionTokens: { $sum: '$usage.calls.completionTokens' },
+                                costUsd: { $sum: '$usage.calls.costUsd' },
+                                unpricedCalls: countWhere({ $eq: ['$usage.calls.costUsd', null] }),
+                                avgDurationMs: { $avg: { $cond: [{ $eq: ['$usage.calls.outcome', 'skipped'] }, null, '$usage.calls.durationMs'] } },
+                            },
+                        },
+                        {
+                            $project: {
+                                _id: 0, provider: '$_id.provider', model: '$_id.model', calls: 1, succeeded: 1, failed: 1, invalid: 1, skipped: 1,
+                                promptTokens: 1, completionTokens: 1, costUsd: 1, unpricedCalls: 1, avgDurationMs: { $round: ['$avgDurationMs', 0] },
+                            },
+                        },
+                        { $sort: { calls: -1 } },
+                    ],
+                    users: [
+                        { $group: { _id: '$userId', ...requestFields, lastRequestAt: { $max: '$timestamp' } } },
+                        { $set: { ...roundLatency, userId: '$_id' } },
+                        { $project: { _id: 0 } },
+                        { $sort: { costUsd: -1, promptTokens: -1 } },
+                        { $limit: limit },
+                    ],
+                },
+            },
+        ]);
+
+        res.status(200).json({
+            from: from ?? null,
+            to: to ?? null,
+            totals: result.totals[0] ?? { requests: 0, failed: 0, fallbacks: 0, promptTokens: 0, completionTokens: 0, costUsd: 0, unpricedRequests: 0, avgLatencyMs: null, maxLatencyMs: null, users: 0 },
+            days: result.days,
+            models: result.models,
+            users: result.users,
+        });
+    } catch (error: any) {
+        logger.error(`Error aggregating LLM usage.`, { error: error.message });
+        next(error);
+    }
+});
+
+export default router;
@@ -0,0 +1,14 @@
+import { Router, Request, Response } from 'express';
+import { requireAuth, isAdmin } from '../authMiddleware';
+
+// Who the signed-in user is to the backend. Mounted at /api/me; the frontend uses it to show the admin view.
+const router = Router();
+
+router.use(requireAuth);
+
+// GET /api/me -> { userId, roles: ["user", "org_admin"?, "admin"?], orgId, admin }
+router.get('/', (req: Request, res: Response): void => {
+    res.status(200).json({ userId: req.auth?.userId ?? null, roles: req.auth?.roles ?? [], orgId: req.auth?.orgId ?? null, admin: isAdmin(req) });
+});
+
+export default router;
@@ -0,0 +1,91 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { requireAuth, requireRole } from '../authMiddleware';
+import { ensureDbConnection } from '../db';
+import { LLMStructuredResponse } from '../llmService';
+import { documentExists, getActiveKnowledgeBase, listDocuments } from '../knowledgeStore';
+import { getOrgSettings, updateOrgSettings } from '../orgSettings';
+import { HISTORY_VISIBILITIES, HistoryVisibility } from '../models/qaHistory.model';
+import { createLogger } from '../logger';
+
+// Settings of the user's active organization (req.auth.orgId). Mounted at /api/org. Members can read them;
+// org admins pick the knowledge base document the organization's questions are answered from and the
+// default visibility of new history entries.
+const router = Router();
+const logger = createLogger('API /org');
+
+router.use(requireAuth);
+router.use((req: Request, res: Response, next: NextFunction) => {
+    if (!req.auth?.orgId) {
+        sendError(res, 400, "You are not in an organization. Switch to one first.");
+        return;
+    }
+    next();
+});
+
+function sendError(res: Response, status: number, message: string): void {
+    res.status(status).json({ type: "error", message } as LLMStructuredResponse);
+}
+
+// GET /api/org/settings -> { orgId, knowledgeDocumentSlug, defaultVisibility, updatedBy, updatedAt, knowledgeBase }
+// `knowledgeBase` is the guide actually answering: the default one when the picked document is unavailable.
+router.get('/settings', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const orgId = req.auth!.orgId!;
+    try {
+        await ensureDbConnection();
+        const settings = await getOrgSettings(orgId);
+        const knowledgeBase = await getActiveKnowledgeBase(orgId);
+        res.status(200).json({ ...settings, knowledgeBase: { documentSlug: knowledgeBase.ref.documentSlug, version: knowledgeBase.ref.version, title: knowledgeBase.title } });
+    } catch (error: any) {
+        logger.error(`Error reading the settings of organization ${orgId}.`, { error: error.message });
+        next(error);
+    }
+});
+
+// GET /api/org/documents -> [{ slug, title, isDefault }], the documents an org admin can pick from
+router.get('/documents', requireRole('org_admin'), async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        await ensureDbConnection();
+        const documents = await listDocuments();
+        res.status(200).json(documents.map(document => ({ slug: document.slug, title: document.title, isDefault: document.isDefault })));
+    } catch (error: any) {
+        logger.error('Error listing documents.', { error: error.message });
+        next(error);
+    }
+});
+
+// PUT /api/org/settings  Body: { "knowledgeDocumentSlug"?: "cohort-guide" | null, "defaultVisibility"?: "private" | "org" }
+// Omitted fields are kept; a null document goes back to the default one. The new visibility applies to entries
+// saved from now on, existing ones keep theirs.
+router.put('/settings', requireRole('org_admin'), async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const orgId = req.auth!.orgId!;
+    const { knowledgeDocumentSlug, defaultVisibility } = req.body ?? {};
+    if (knowledgeDocumentSlug !== undefined && knowledgeDocumentSlug !== null && typeof knowledgeDocumentSlug !== 'string') {
+        sendError(res, 400, "knowledgeDocumentSlug must be a document slug or null.");
+        return;
+    }
+    if (defaultVisibility !== undefined && !HISTORY_VISIBILITIES.includes(defaultVisibility)) {
+        sendError(res, 400, `defaultVisibility must be one of: ${HISTORY_VISIBILITIES.join(', ')}.`);
+        return;
+    }
+    if (knowledgeDocumentSlug === undefined && defaultVisibility === undefined) {
+        sendError(res, 400, "Nothing to change: send knowledgeDocumentSlug and/or defaultVisibility.");
+        return;
+    }
+
+    try {
+        await ensureDbConnection();
+        if (knowledgeDocumentSlug && !(await documentExists(knowledgeDocumentSlug))) {
+            sendError(res, 404, `Knowledge document '${knowledgeDocumentSlug}' not found.`);
+            return;
+        }
+        const changes: { knowledgeDocumentSlug?: string | null; defaultVisibility?: HistoryVisibility } = {};
+        if (knowledgeDocumentSlug !== undefined) changes.knowledgeDocumentSlug = knowledgeDocumentSlug ? knowledgeDocumentSlug.toLowerCase() : null;
+        if (defaultVisibility !== undefined) changes.defaultVisibility = defaultVisibility;
+        res.status(200).json(await updateOrgSettings(orgId, changes, req.auth!.userId));
+    } catch (error: any) {
+        logger.error(`Error updating the settings of organization ${orgId}.`, { error: error.message });
+        next(error);
+    }
+});
+
+export default router;
@@ -0,0 +1,109 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { requireAuth, requireAdmin } from '../authMiddleware';
+import { ensureDbConnection } from '../db';
+import { LLMStructuredResponse } from '../llmService';
+import InjectionAttemptModel, { INJECTION_SOURCES } from '../models/injectionAttempt.model';
+import { createLogger } from '../logger';
+
+// Admin review of prompt-injection attempts. Mounted at /api/admin/security.
+const router = Router();
+const logger = createLogger('API /admin/security');
+const DEFAULT_USER_LIMIT = 50;
+const MAX_USER_LIMIT = 500;
+const EXCERPTS_PER_USER = 5;
+
+router.use(requireAuth);
+router.use(requireAdmin);
+
+function sendError(res: Response, status: number, message: string): void {
+    res.status(status).json({ type: "error", message } as LLMStructuredResponse);
+}
+
+function parseDate(raw: unknown): Date | null | undefined {
+    if (raw === undefined || raw === '') return undefined;
+    const date = new Date(String(raw));
+    return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// GET /api/admin/security/injections?from=2025-01-01&to=2025-02-01&limit=50
+// Attempts counted per user, most attempts first, with counts per source and action, the matched
+// patterns and the latest excerpts. Uploads of knowledge base texts count against the uploading admin.
+router.get('/injections', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const limit = req.query.limit === undefined ? DEFAULT_USER_LIMIT : Number(req.query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_USER_LIMIT) {
+        sendError(res, 400, `limit must be an integer between 1 and ${MAX_USER_LIMIT}.`);
+        return;
+    }
+    const from = parseDate(req.query.from);
+    const to = parseDate(req.query.to);
+    if (from === null || to === null) {
+        sendError(res, 400, "from and to must be valid dates (e.g. 2025-01-31 or an ISO timestamp).");
+        return;
+    }
+
+    const match: Record<string, any> = {};
+    if (from || to) {
+        match.createdAt = {};
+        if (from) match.createdAt.$gte = from;
+        if (to) match.createdAt.$lte = to;
+    }
+    const countWhere = (condition: unknown) => ({ $sum: { $cond: [condition, 1, 0] } });
+    const sourceCounts = Object.fromEntries(INJECTION_SOURCES.map(source => [source, countWhere({ $eq: ['$source', source] })]));
+
+    try {
+        await ensureDbConnection();
+        const [result] = await InjectionAttemptModel.aggregate([
+            { $match: match },
+            { $sort: { createdAt: -1 } },
+            {
+                $facet: {
+                    totals: [
+                        { $group: { _id: null, attempts: { $sum: 1 }, blocked: countWhere({ $eq: ['$action', 'blocked'] }), warned: countWhere({ $eq: ['$action', 'warned'] }), users: { $addToSet: '$userId' } } },
+                        { $project: { _id: 0, attempts: 1, blocked: 1, warned: 1, users: { $size: '$users' } } },
+                    ],
+                    users: [
+                        {
+                            $group: {
+                                _id: '$userId',
+                                attempts: { $sum: 1 },
+                                blocked: countWhere({ $eq: ['$action', 'blocked'] }),
+                                warned: countWhere({ $eq: ['$action', 'warned'] }),
+                                ...sourceCounts,
+                                patterns: { $push: '$patterns' },
+                                lastAttemptAt: { $first: '$createdAt' },
+                                recent: { $push: { source: '$source', action: '$action', patterns: '$patterns', excerpt: '$excerpt', documentSlug: '$documentSlug', at: '$createdAt' } },
+                            },
+                        },
+                        {
+                            $project: {
+                                _id: 0,
+                                userId: '$_id',
+                                attempts: 1,
+                                blocked: 1,
+                                warned: 1,
+                                sources: Object.fromEntries(INJECTION_SOURCES.map(source => [source, `$${source}`])),
+                                patterns: { $setUnion: { $reduce: { input: '$patterns', initialValue: [], in: { $concatArrays: ['$$value', '$$this'] } } } },
+                                lastAttemptAt: 1,
+                                recent: { $slice: ['$recent', EXCERPTS_PER_USER] },
+                            },
+                        },
+                        { $sort: { attempts: -1, lastAttemptAt: -1 } },
+                        { $limit: limit },
+                    ],
+                },
+            },
+        ]);
+
+        res.status(200).json({
+            from: from ?? null,
+            to: to ?? null,
+            totals: result.totals[0] ?? { attempts: 0, blocked: 0, warned: 0, users: 0 },
+            users: result.users,
+        });
+    } catch (error: any) {
+        logger.error(`Error aggregating injection attempts.`, { error: error.message });
+        next(error);
+    }
+});
+
+export default router;
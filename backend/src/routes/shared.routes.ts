@@ -0,0 +1,63 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { ensureDbConnection } from '../db';
+import { LLMStructuredResponse } from '../llmService';
+import QAHistoryModel from '../models/qaHistory.model';
+import SharedAnswerModel from '../models/sharedAnswer.model';
+import { createLogger } from '../logger';
+
+// Public, read-only answers behind the links created through /api/shares. Mounted at /api/shared
+// WITHOUT authentication: only the question and the answer are sent, never who asked or their feedback.
+const router = Router();
+const logger = createLogger('API /shared');
+const SLUG_PATTERN = /^[A-Za-z0-9_-]{16,64}$/;
+
+function sendError(res: Response, status: number, message: string): void {
+    res.status(status).json({ type: "error", message } as LLMStructuredResponse);
+}
+
+// GET /api/shared/:slug
+// Counts a view. 404 for unknown links (or a deleted history entry), 410 for revoked or expired ones.
+router.get('/:slug', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { slug } = req.params;
+    if (!SLUG_PATTERN.test(slug)) {
+        sendError(res, 404, "Shared answer not found.");
+        return;
+    }
+
+    try {
+        await ensureDbConnection();
+        const now = new Date();
+        const link = await SharedAnswerModel.findOneAndUpdate(
+            { slug, revokedAt: null, $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }] },
+            { $inc: { viewCount: 1 }, $set: { lastViewedAt: now } },
+            { new: true }
+        );
+        if (!link) {
+            const inactive = await SharedAnswerModel.findOne({ slug }).select('revokedAt');
+            if (inactive) sendError(res, 410, inactive.revokedAt ? "This link has been revoked by its owner." : "This link has expired.");
+            else sendError(res, 404, "Shared answer not found.");
+            return;
+        }
+
+        const entry = await QAHistoryModel.findById(link.historyId).select('question llmResponse timestamp');
+        if (!entry) {
+            sendError(res, 404, "Shared answer not found.");
+            return;
+        }
+        res.set('Cache-Control', 'no-store'); // Every visit goes through the expiry check and the view count
+        res.status(200).json({
+            slug: link.slug,
+            question: entry.question,
+            llmResponse: entry.llmResponse,
+            answeredAt: entry.timestamp,
+            sharedAt: link.createdAt,
+            expiresAt: link.expiresAt ?? null,
+            viewCount: link.viewCount,
+        });
+    } catch (error: any) {
+        logger.error(`Error loading shared answer.`, { error: error.message });
+        next(error);
+    }
+});
+
+export default router;
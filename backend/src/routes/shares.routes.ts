@@ -0,0 +1,177 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { requireAuth } from '../authMiddleware';
+import { ensureDbConnection } from '../db';
+import { LLMStructuredResponse } from '../llmService';
+import QAHistoryModel, { ANSWERED_ONLY } from '../models/qaHistory.model';
+import SharedAnswerModel, { ISharedAnswer } from '../models/sharedAnswer.model';
+import { createLogger } from '../logger';
+
+// Public links to single answers, managed by the user who asked. Mounted at /api/shares;
+// the links themselves are served without authentication by shared.routes.ts.
+const router = Router();
+const logger = createLogger('API /shares');
+const SLUG_BYTES = 16; // 128 random bits, 22 base64url characters
+
+router.use(requireAuth);
+
+function sendError(res: Response, status: number, message: string): void {
+    res.status(status).json({ type: "error", message } as LLMStructuredResponse);
+}
+
+// undefined when absent, null to clear the expiry, false when invalid (not a date or not in the future)
+function parseExpiry(raw: unknown): Date | null | undefined | false {
+    if (raw === undefined) return undefined;
+    if (raw === null) return null;
+    if (typeof raw !== 'string') return false;
+    const date = new Date(raw);
+    return Number.isNaN(date.getTime()) || date.getTime() <= Date.now() ? false : date;
+}
+
+function describeLink(link: ISharedAnswer, question?: string) {
+    const status = link.revokedAt ? 'revoked' : link.expiresAt && link.expiresAt.getTime() <= Date.now() ? 'expired' : 'active';
+    return {
+        slug: link.slug,
+        historyId: String(link.historyId),
+        question: question ?? null,
+        status,
+        expiresAt: link.expiresAt ?? null,
+        revokedAt: link.revokedAt ?? null,
+        viewCount: link.viewCount,
+        lastViewedAt: link.lastViewedAt ?? null,
+        createdAt: link.createdAt,
+    };
+}
+
+// POST /api/shares  Body: { "historyId": "...", "expiresAt"?: "2025-03-01T00:00:00Z" | null }
+// Publishes one of the user's history entries. An entry has at most one live link: sharing it again
+// returns that link (with the new expiry, if one is given) instead of creating another.
+router.post('/', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const userId = req.auth?.userId;
+    const { historyId } = req.body ?? {};
+    const expiresAt = parseExpiry(req.body?.expiresAt);
+    if (!mongoose.isValidObjectId(historyId)) {
+        sendError(res, 400, "historyId must be a valid history entry id.");
+        return;
+    }
+    if (expiresAt === false) {
+        sendError(res, 400, "expiresAt must be a future date (ISO timestamp) or null.");
+        return;
+    }
+
+    try {
+        await ensureDbConnection();
+        const entry = await QAHistoryModel.findOne({ _id: historyId, userId: userId, ...ANSWERED_ONLY }).select('question');
+        if (!entry) {
+            sendError(res, 404, "History entry not found.");
+            return;
+        }
+
+        const existing = await SharedAnswerModel.findOne({
+            historyId: entry._id, userId: userId, revokedAt: null,
+            $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }],
+        });
+        if (existing) {
+            if (expiresAt !== undefined) {
+                existing.expiresAt = expiresAt;
+                await existing.save();
+            }
+            res.status(200).json(describeLink(existing, entry.question));
+            return;
+        }
+
+        const link = await SharedAnswerModel.create({
+            slug: crypto.randomBytes(SLUG_BYTES).toString('base64url'),
+            historyId: entry._id,
+            userId: userId,
+            expiresAt: expiresAt ?? null,
+        });
+        logger.info(`User ${userId} shared history entry ${historyId}`, { expiresAt: link.expiresAt });
+        res.status(201).json(describeLink(link, entry.question));
+    } catch (error: any) {
+        logger.error(`Error sharing entry ${historyId} for user ${userId}.`, { error: error.message });
+        next(error);
+    }
+});
+
+// GET /api/shares?historyId=...&includeInactive=true
+// The user's links, newest first. Revoked and expired links are left out unless includeInactive=true.
+router.get('/', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const userId = req.auth?.userId;
+    const historyId = req.query.historyId;
+    if (historyId !== undefined && !mongoose.isValidObjectId(historyId)) {
+        sendError(res, 400, "historyId must be a valid history entry id.");
+        return;
+    }
+
+    const filter: Record<string, any> = { userId: userId };
+    if (historyId !== undefined) filter.historyId = historyId;
+    if (req.query.includeInactive !== 'true') {
+        filter.revokedAt = null;
+        filter.$or = [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }];
+    }
+
+    try {
+        await ensureDbConnection();
+        const links = await SharedAnswerModel.find(filter).sort({ createdAt: -1 });
+        const entries = await QAHistoryModel.find({ _id: { $in: links.map(link => link.historyId) }, userId: userId }).select('question');
+        const questions = new Map(entries.map(entry => [String(entry._id), entry.question]));
+        res.status(200).json(links.map(link => describeLink(link, questions.get(String(link.historyId)))));
+    } catch (error: any) {
+        logger.error(`Error listing links for user ${userId}.`, { error: error.message });
+        next(error);
+    }
+});
+
+// PATCH /api/shares/:slug  Body: { "expiresAt": "2025-03-01T00:00:00Z" | null }
+router.patch('/:slug', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const userId = req.auth?.userId;
+    const expiresAt = parseExpiry(req.body?.expiresAt);
+    if (expiresAt === undefined || expiresAt === false) {
+        sendError(res, 400, "expiresAt must be a future date (ISO timestamp) or null.");
+        return;
+    }
+
+    try {
+        await ensureDbConnection();
+        const link = await SharedAnswerModel.findOneAndUpdate(
+            { slug: req.params.slug, userId: userId, revokedAt: null },
+            { $set: { expiresAt } },
+            { new: true }
+        );
+        if (!link) {
+            sendError(res, 404, "Shared link not found.");
+            return;
+        }
+        res.status(200).json(describeLink(link));
+    } catch (error: any) {
+        logger.error(`Error updating link for user ${userId}.`, { error: error.message });
+        next(error);
+    }
+});
+
+// DELETE /api/shares/:slug revokes the link. It stays listed (includeInactive=true) with its view count.
+router.delete('/:slug', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const userId = req.auth?.userId;
+
+    try {
+        await ensureDbConnection();
+        const link = await SharedAnswerModel.findOneAndUpdate(
+            { slug: req.params.slug, userId: userId, revokedAt: null },
+            { $set: { revokedAt: new Date() } },
+            { new: true }
+        );
+        if (!link) {
+            sendError(res, 404, "Shared link not found.");
+            return;
+        }
+        logger.info(`User ${userId} revoked the link to history entry ${link.historyId}`);
+        res.status(200).json(describeLink(link));
+    } catch (error: any) {
+        logger.error(`Error revoking link for user ${userId}.`, { error: error.message });
+        next(error);
+    }
+});
+
+export default router;
@@ -0,0 +1,31 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { requireAuth } from '../authMiddleware';
+import { ensureDbConnection } from '../db';
+import { getUsageStatus, resolveTier } from '../rateLimit';
+import { createLogger } from '../logger';
+
+// Question quota of the signed-in user. Mounted at /api/usage; reading it doesn't count as a question.
+const router = Router();
+const logger = createLogger('API /usage');
+
+router.use(requireAuth);
+
+// GET /api/usage -> { tier, window: { seconds, limit, used, remaining }, daily: { limit, used, remaining, resetsAt } }
+// Limits and remaining counts are null when the tier has no such limit.
+router.get('/', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const userId = req.auth?.userId;
+    if (!userId) {
+        res.status(401).json({ type: "error", message: "User not authenticated." });
+        return;
+    }
+
+    try {
+        await ensureDbConnection();
+        res.status(200).json(await getUsageStatus(userId, resolveTier(req)));
+    } catch (error: any) {
+        logger.error(`Error fetching usage for user ${userId}.`, { error: error.message });
+        next(error);
+    }
+});
+
+export default router;
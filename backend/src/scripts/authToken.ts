@@ -0,0 +1,63 @@
+// Prints a local JWT for AUTH_MODE=local, e.g. for curl or API tests without a running frontend.
+//
+//   npm run auth:token -- <userId> [--roles admin,org_admin] [--org <orgId>]
+//
+// The token is signed with AUTH_LOCAL_JWT_SECRET from the same configuration the server reads, and expires
+// after AUTH_LOCAL_TOKEN_TTL_SECONDS. Use it as `Authorization: Bearer <token>`.
+import { config } from '../config';
+import { ROLES, Role, signLocalToken } from '../auth';
+
+const USAGE = `Usage: npm run auth:token -- <userId> [--roles ${ROLES.join(',')}] [--org <orgId>]`;
+
+function parseArgs(argv: string[]): { userId: string; roles: Role[]; orgId: string | null } {
+    let userId: string | null = null;
+    let orgId: string | null = null;
+    const roles = new Set<Role>(['user']);
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg === '--roles') {
+            const value = argv[++i];
+            if (!value || value.startsWith('--')) throw new Error('--roles needs a value.');
+            for (const role of value.split(',').map(name => name.trim()).filter(Boolean)) {
+                if (!(ROLES as readonly string[]).includes(role)) throw new Error(`Unknown role ${role}.`);
+                roles.add(role as Role);
+            }
+        } else if (arg === '--org') {
+            orgId = argv[++i];
+            if (!orgId || orgId.startsWith('--')) throw new Error('--org needs a value.');
+        } else if (arg.startsWith('--')) {
+            throw new Error(`Unknown option ${arg}.`);
+        } else if (userId) {
+            throw new Error('Only one userId can be given.');
+        } else {
+            userId = arg;
+        }
+    }
+    if (!userId) throw new Error('No userId given.');
+    return { userId, roles: ROLES.filter(role => roles.has(role)), orgId };
+}
+
+function main(): void {
+    let options: { userId: string; roles: Role[]; orgId: string | null };
+    try {
+        options = parseArgs(process.argv.slice(2));
+    } catch (error: any) {
+        console.error(`${error.message}\n${USAGE}`);
+        process.exitCode = 1;
+        return;
+    }
+    if (config.auth.mode !== 'local') {
+        console.error('AUTH_MODE is not local, so the server would not accept this token. Set AUTH_MODE=local.');
+        process.exitCode = 1;
+        return;
+    }
+    if (config.serverProblems.length > 0) {
+        console.error(`The server would refuse to start with this configuration:\n${config.serverProblems.map(problem => `  - ${problem}`).join('\n')}`);
+        process.exitCode = 1;
+        return;
+    }
+    const { token } = signLocalToken(options.userId, options.roles, config.auth.localJwtSecret!, config.auth.localTokenTtlSeconds, options.orgId);
+    console.log(token);
+}
+
+main();
@@ -0,0 +1,156 @@
+// Runs the golden question set through getAnswerFromLLM and writes a JSON and a Markdown report.
+//
+//   npm run eval -- [--set <file>] [--providers <chain>] [--replay <recordings>] [--record <recordings>]
+//                   [--out <path prefix>] [--baseline <report.json>] [--min-overlap <0-1>] [--fail-under <0-1>]
+//                   [--only <id,id>] [--kb <file>] [--verbose]
+//
+// --providers overrides LLM_PROVIDER_CHAIN (e.g. "mock" or "googleai"). --record saves the raw answers of
+// the run; --replay answers from such a file instead of calling any model. --baseline compares with an
+// earlier report, --fail-under exits with code 1 when the pass rate is lower. --kb evaluates a knowledge
+// base text file instead of the bundled one. The answer cache is always off and MongoDB is not used.
+import fs from 'fs';
+import path from 'path';
+import type { Recordings } from '../providers/recordedProvider';
+import type { EvaluationReport } from '../evaluation';
+
+interface CliOptions {
+    set: string;
+    providers: string | null;
+    replay: string | null;
+    record: string | null;
+    out: string;
+    baseline: string | null;
+    minOverlap: number | null;
+    failUnder: number | null;
+    only: string[] | null;
+    kb: string | null;
+    verbose: boolean;
+}
+
+const USAGE = 'Usage: npm run eval -- [--set <file>] [--providers <chain>] [--replay <file>] [--record <file>] [--out <prefix>] ' +
+    '[--baseline <report.json>] [--min-overlap <0-1>] [--fail-under <0-1>] [--only <id,id>] [--kb <file>] [--verbose]';
+const DEFAULT_SET = path.resolve(__dirname, '../../evaluation/golden-set.json');
+const DEFAULT_REPORTS_DIR = path.resolve(__dirname, '../../evaluation/reports');
+
+function parseArgs(argv: string[]): CliOptions {
+    const options: CliOptions = {
+        set: DEFAULT_SET, providers: null, replay: null, record: null,
+        out: path.join(DEFAULT_REPORTS_DIR, new Date().toISOString().replace(/[:.]/g, '-')),
+        baseline: null, minOverlap: null, failUnder: null, only: null, kb: null, verbose: false,
+    };
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        const takeValue = () => {
+            const value = argv[++i];
+            if (!value || value.startsWith('--')) throw new Error(`${arg} needs a value.`);
+            return value;
+        };
+        const takeRate = () => {
+            const value = Number(takeValue());
+            if (!(value >= 0 && value <= 1)) throw new Error(`${arg} must be between 0 and 1.`);
+            return value;
+        };
+        if (arg === '--set') options.set = takeValue();
+        else if (arg === '--providers') options.providers = takeValue();
+        else if (arg === '--replay') options.replay = takeValue();
+        else if (arg === '--record') options.record = takeValue();
+        else if (arg === '--out') options.out = takeValue();
+        else if (arg === '--baseline') options.baseline = takeValue();
+        else if (arg === '--min-overlap') options.minOverlap = takeRate();
+        else if (arg === '--fail-under') options.failUnder = takeRate();
+        else if (arg === '--only') options.only = takeValue().split(',').map(id => id.trim()).filter(Boolean);
+        else if (arg === '--kb') options.kb = takeValue();
+        else if (arg === '--verbose') options.verbose = true;
+        else throw new Error(`Unknown option ${arg}.`);
+    }
+    if (options.replay && options.record) throw new Error('--replay and --record can\'t be combined.');
+    return options;
+}
+
+// The service logs every step of every answer; without --verbose only errors get through
+// Only errors from the service modules; read when the logger is loaded
+function silenceServiceLogs(): void {
+    process.env.LOG_LEVEL = 'error';
+}
+
+function buildRecordings(report: EvaluationReport, normalizeQuestion: (question: string) => string): Recordings {
+    const answers: Record<string, string> = {};
+    for (const result of report.cases) {
+        if (!result.provider || result.response.type === 'error') continue; // Replayed as a failure, as it happened
+        const { source_section_title, ...recorded } = result.response;
+        answers[normalizeQuestion(result.question)] = JSON.stringify(recorded);
+    }
+    return { version: 1, recordedAt: report.run.finishedAt, providers: report.run.providers, answers };
+}
+
+async function main(): Promise<void> {
+    let options: CliOptions;
+    try {
+        options = parseArgs(process.argv.slice(2));
+    } catch (error: any) {
+        console.error(`${error.message}\n${USAGE}`);
+        process.exitCode = 1;
+        return;
+    }
+
+    // Read once by the config module, so set before the service modules are loaded
+    process.env.ANSWER_CACHE_STORE = 'off';
+    if (options.replay) {
+        process.env.LLM_RECORDINGS_FILE = path.resolve(options.replay);
+        process.env.LLM_PROVIDER_CHAIN = options.providers || 'recorded';
+    } else if (options.providers) {
+        process.env.LLM_PROVIDER_CHAIN = options.providers;
+    }
+    if (options.kb) process.env.KNOWLEDGE_BASE_CONTENT_OVERRIDE = fs.readFileSync(options.kb, 'utf-8');
+
+    const print = console.log.bind(console);
+    if (!options.verbose) silenceServiceLogs();
+    const { loadGoldenSet, runEvaluation, compareReports, renderMarkdownReport, DEFAULT_MIN_PASSAGE_OVERLAP } = await import('../evaluation');
+    const { normalizeQuestion } = await import('../answerCache');
+    const { config } = await import('../config');
+
+    const goldenSet = loadGoldenSet(options.set);
+    if (options.only) {
+        const unknown = options.only.filter(id => !goldenSet.cases.some(goldenCase => goldenCase.id === id));
+        if (unknown.length > 0) throw new Error(`Unknown case ids: ${unknown.join(', ')}`);
+        goldenSet.cases = goldenSet.cases.filter(goldenCase => options.only!.includes(goldenCase.id));
+    }
+
+    const providerChain = config.llm.providerChain.join(',');
+    print(`Evaluating ${goldenSet.cases.length} cases of golden set v${goldenSet.version} with ${providerChain}...`);
+    const report = await runEvaluation(goldenSet, {
+        goldenSetFile: path.relative(process.cwd(), path.resolve(options.set)),
+        providerChain,
+        minPassageOverlap: options.minOverlap ?? DEFAULT_MIN_PASSAGE_OVERLAP,
+        onCaseDone: (result, index, total) => print(
+            `  [${index + 1}/${total}] ${result.passed ? 'pass' : 'FAIL'} ${result.id} (${result.latencyMs} ms)` +
+            (result.failures.length ? ` – ${result.failures.join('; ')}` : '')),
+    });
+
+    const baseline: EvaluationReport | null = options.baseline ? JSON.parse(fs.readFileSync(options.baseline, 'utf-8')) : null;
+    const comparison = baseline ? compareReports(report, baseline) : undefined;
+    const markdown = renderMarkdownReport(report, comparison);
+
+    fs.mkdirSync(path.dirname(path.resolve(options.out)), { recursive: true });
+    fs.writeFileSync(`${options.out}.json`, JSON.stringify({ ...report, comparison }, null, 2));
+    fs.writeFileSync(`${options.out}.md`, markdown);
+    if (options.record) {
+        fs.writeFileSync(options.record, JSON.stringify(buildRecordings(report, normalizeQuestion), null, 2));
+        print(`Recorded answers written to ${options.record}`);
+    }
+
+    const { summary } = report;
+    print(`\nPassed ${summary.passed}/${summary.total} (${(summary.passRate * 100).toFixed(1)}%).` +
+        (comparison ? ` ${comparison.changes.filter(change => change.change === 'regressed').length} regressed, ` +
+            `${comparison.changes.filter(change => change.change === 'fixed').length} fixed since the baseline.` : ''));
+    print(`Reports written to ${options.out}.json and ${options.out}.md`);
+    if (options.failUnder !== null && summary.passRate < options.failUnder) {
+        console.error(`Pass rate below ${options.failUnder}.`);
+        process.exitCode = 1;
+    }
+}
+
+main().catch(error => {
+    console.error(`[Evaluation] ${error.message}`);
+    process.exitCode = 1;
+});
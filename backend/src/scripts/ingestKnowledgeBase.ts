@@ -0,0 +1,122 @@
+// Rebuilds the knowledge base from PDF, Markdown, HTML, DOCX or text files.
+//
+//   npm run ingest -- <file...> [--out <path>] [--report <path>] [--upload <slug> [--title <title>] [--default]]
+//
+// Several files are concatenated in the order given. --out writes the text the service loads
+// (e.g. src/knowledge_base.txt), --report writes the extraction report as JSON and --upload stores
+// the result in MongoDB as a new version of <slug>. Without --out or --upload only the report is printed.
+import fs from 'fs';
+import path from 'path';
+import mongoose from 'mongoose';
+import { ingestDocument, detectFormat, IngestionReport, SUPPORTED_FORMATS } from '../ingestion';
+
+interface CliOptions {
+    files: string[];
+    out: string | null;
+    report: string | null;
+    upload: string | null;
+    title: string | null;
+    makeDefault: boolean;
+}
+
+const USAGE = 'Usage: npm run ingest -- <file...> [--out <path>] [--report <path>] [--upload <slug> [--title <title>] [--default]]';
+
+function parseArgs(argv: string[]): CliOptions {
+    const options: CliOptions = { files: [], out: null, report: null, upload: null, title: null, makeDefault: false };
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        const takeValue = () => {
+            const value = argv[++i];
+            if (!value || value.startsWith('--')) throw new Error(`${arg} needs a value.`);
+            return value;
+        };
+        if (arg === '--out') options.out = takeValue();
+        else if (arg === '--report') options.report = takeValue();
+        else if (arg === '--upload') options.upload = takeValue();
+        else if (arg === '--title') options.title = takeValue();
+        else if (arg === '--default') options.makeDefault = true;
+        else if (arg.startsWith('--')) throw new Error(`Unknown option ${arg}.`);
+        else options.files.push(arg);
+    }
+    if (options.files.length === 0) throw new Error('No input files given.');
+    return options;
+}
+
+function printReport(report: IngestionReport): void {
+    console.log(`\n${report.fileName} (${report.format})`);
+    if (report.pageCount !== null) {
+        console.log(`  Pages: ${report.pageCount}` +
+            (report.emptyPages.length ? `, empty: ${report.emptyPages.join(', ')}` : '') +
+            (report.garbledPages.length ? `, garbled: ${report.garbledPages.join(', ')}` : ''));
+    }
+    console.log(`  Headings: ${report.headingCount}, sections: ${report.sectionCount}, characters: ${report.charCount}`);
+    for (const section of report.sections) {
+        console.log(`    - ${section.id} (${section.chars} chars)`);
+    }
+    for (const warning of report.warnings) {
+        console.warn(`  Warning: ${warning}`);
+    }
+}
+
+async function upload(slug: string, title: string, content: string, note: string, makeDefault: boolean): Promise<void> {
+    // Imported lazily so --out runs don't need database configuration
+    const { connectToDatabase } = await import('../db');
+    const { documentExists, createDocument, addVersion, setDefaultDocument } = await import('../knowledgeStore');
+    await connectToDatabase();
+    if (mongoose.connection.readyState !== 1) throw new Error('Could not connect to MongoDB; nothing was uploaded.');
+    try {
+        const uploader = process.env.KB_INGEST_USER || 'cli';
+        if (await documentExists(slug)) {
+            const version = await addVersion(slug, content, note, uploader);
+            if (makeDefault) await setDefaultDocument(slug);
+            console.log(`\nUploaded v${version.version} of '${slug}'.`);
+        } else {
+            await createDocument({ slug, title, content, note, makeDefault }, uploader);
+            console.log(`\nCreated '${slug}' (v1).`);
+        }
+    } finally {
+        await mongoose.disconnect();
+    }
+}
+
+async function main(): Promise<void> {
+    let options: CliOptions;
+    try {
+        options = parseArgs(process.argv.slice(2));
+    } catch (error: any) {
+        console.error(`${error.message}\n${USAGE}`);
+        process.exitCode = 1;
+        return;
+    }
+
+    const contents: string[] = [];
+    const reports: IngestionReport[] = [];
+    for (const file of options.files) {
+        const format = detectFormat(file);
+        if (!format) throw new Error(`Cannot tell the format of ${file}. Supported: ${SUPPORTED_FORMATS.join(', ')}.`);
+        const { content, report } = await ingestDocument(fs.readFileSync(file), format, path.basename(file));
+        contents.push(content);
+        reports.push(report);
+        printReport(report);
+    }
+    const content = contents.join('\n');
+
+    if (options.report) {
+        fs.writeFileSync(options.report, JSON.stringify(reports, null, 2));
+        console.log(`\nReport written to ${options.report}`);
+    }
+    if (options.out) {
+        fs.writeFileSync(options.out, content);
+        console.log(`\nKnowledge base text (${content.length} chars) written to ${options.out}`);
+    }
+    if (options.upload) {
+        const title = options.title || reports[0].title || options.upload;
+        const note = `Ingested from ${options.files.map(file => path.basename(file)).join(', ')}`;
+        await upload(options.upload, title, content, note, options.makeDefault);
+    }
+}
+
+main().catch(error => {
+    console.error(`[Ingestion] ${error.message}`);
+    process.exitCode = 1;
+});
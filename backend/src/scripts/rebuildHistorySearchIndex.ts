@@ -0,0 +1,44 @@
+// Drops and rebuilds the full-text index of the Q&A history when its fields changed.
+//
+//   npm run migrate:history-search
+//
+// MongoDB refuses to replace an index that keeps its name, and a collection can only have one text index,
+// so the server's automatic index build fails until the old history_text_search index is dropped. Safe to
+// run more than once: an index that already covers the fields in qaHistory.model.ts is left alone.
+// Searches return nothing while the index is rebuilt.
+import mongoose from 'mongoose';
+import type { IndexSpecification } from 'mongodb';
+import { connectToDatabase } from '../db';
+import QAHistoryModel, { HISTORY_TEXT_INDEX_NAME } from '../models/qaHistory.model';
+
+const sameFields = (a: string[], b: string[]) => a.length === b.length && a.every(field => b.includes(field));
+
+async function main(): Promise<void> {
+    const definition = QAHistoryModel.schema.indexes().find(([, options]) => options.name === HISTORY_TEXT_INDEX_NAME);
+    if (!definition) throw new Error(`The schema has no index named ${HISTORY_TEXT_INDEX_NAME}.`);
+    const [fields, options] = definition;
+
+    await connectToDatabase();
+    if (mongoose.connection.readyState !== 1) throw new Error('Could not connect to MongoDB; nothing was changed.');
+    try {
+        const existing = (await QAHistoryModel.collection.indexes()).find(index => index.name === HISTORY_TEXT_INDEX_NAME);
+        // Text indexes list their fields under `weights`; the key itself is the generic _fts/_ftsx pair
+        if (existing && sameFields(Object.keys(existing.weights ?? {}), Object.keys(fields))) {
+            console.log(`${HISTORY_TEXT_INDEX_NAME} already covers ${Object.keys(fields).length} fields; nothing to do.`);
+            return;
+        }
+        if (existing) {
+            await QAHistoryModel.collection.dropIndex(HISTORY_TEXT_INDEX_NAME);
+            console.log(`Dropped ${HISTORY_TEXT_INDEX_NAME} (${Object.keys(existing.weights ?? {}).join(', ')}).`);
+        }
+        await QAHistoryModel.collection.createIndex(fields as IndexSpecification, { name: HISTORY_TEXT_INDEX_NAME, weights: options.weights });
+        console.log(`Built ${HISTORY_TEXT_INDEX_NAME} over ${Object.keys(fields).join(', ')}.`);
+    } finally {
+        await mongoose.disconnect();
+    }
+}
+
+main().catch(error => {
+    console.error(`[Migration] ${error.message}`);
+    process.exitCode = 1;
+});
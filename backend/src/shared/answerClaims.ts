@@ -0,0 +1,46 @@
+// Splits an answer into the claims that grounding verification checks, one per sentence, list item,
+// table row, step or comparison criterion. Shared with the frontend, which marks the claims the
+// backend could not ground, so both sides must split answers the same way.
+import type { LLMStructuredResponse } from './llmResponseSchema';
+
+export interface AnswerClaim {
+    target: string; // "<field>.<index>", e.g. "answer.2" or "items.0"
+    text: string;
+}
+
+// Sentences with their trailing whitespace, so joining the pieces gives back the original text.
+// Abbreviations such as "e.g." split a sentence in two, which only makes the claims smaller.
+export function splitSentences(text: string): string[] {
+    return text.match(/[^.!?]+[.!?]*\s*|[.!?]+\s*/g) ?? [];
+}
+
+export function listClaims(response: LLMStructuredResponse): AnswerClaim[] {
+    const sentenceClaims = (field: string, text: string | null | undefined): AnswerClaim[] =>
+        splitSentences(text ?? '')
+            .map((sentence, index) => ({ target: `${field}.${index}`, text: sentence.trim() }))
+            .filter(claim => /[a-z0-9]/i.test(claim.text));
+
+    switch (response.type) {
+        case 'text':
+            return sentenceClaims('answer', response.answer);
+        case 'list':
+            return response.items.map((item, index) => ({ target: `items.${index}`, text: `${item.point}: ${item.detail}` }));
+        case 'table':
+            return response.rows.map((row, index) => ({ target: `rows.${index}`, text: row.join(' | ') }));
+        case 'steps':
+            return response.steps.map((step, index) => ({
+                target: `steps.${index}`,
+                text: [`${step.title}: ${step.detail}`, ...(step.sub_points ?? [])].join(' '),
+            }));
+        case 'comparison':
+            return [
+                ...response.criteria.map((criterion, index) => ({
+                    target: `criteria.${index}`,
+                    text: `${criterion.criterion}: ${criterion.values.map((value, optionIndex) => `${response.options[optionIndex]}: ${value}`).join('; ')}`,
+                })),
+                ...sentenceClaims('summary', response.summary),
+            ];
+        case 'error':
+            return [];
+    }
+}
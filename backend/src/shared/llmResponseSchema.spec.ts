@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { validateLLMResponse, validateStoredResponse } from './llmResponseSchema';
+
+const table = (rows: string[][]) => ({ type: 'table', title: 'Rounds', columns: ['Stage', 'Size'], rows });
+
+describe('validateLLMResponse', () => {
+    it.each([
+        { type: 'text', answer: 'A SAFE converts at the next priced round.', follow_up: null, source_section_id: 'safes' },
+        { type: 'list', title: 'Terms', items: [{ point: 'Cap', detail: 'The highest conversion valuation.' }] },
+        table([['Seed', '$2M']]),
+        { type: 'steps', title: 'Raising', steps: [{ title: 'Prepare', detail: 'Build the deck.', sub_points: ['Metrics', 'Team'] }] },
+        { type: 'comparison', title: 'SAFE vs note', options: ['SAFE', 'Note'], criteria: [{ criterion: 'Interest', values: ['None', 'Accrues'] }], summary: null },
+        { type: 'error', message: 'Something went wrong.', code: 'RATE_LIMITED' },
+    ])('accepts a valid $type response', response => {
+        expect(validateLLMResponse(response)).toEqual({ valid: true, value: response, errors: [] });
+    });
+
+    it('drops unknown keys', () => {
+        const result = validateLLMResponse({ type: 'text', answer: 'Yes.', mood: 'cheerful' });
+        expect(result.value).toEqual({ type: 'text', answer: 'Yes.' });
+    });
+
+    it('names the allowed types for an unknown one', () => {
+        expect(validateLLMResponse({ type: 'poem', answer: 'Roses' }).errors).toEqual([
+            'type: must be one of "text", "list", "table", "steps", "comparison", "error", got "poem"',
+        ]);
+    });
+
+    it('reports every problem with its path', () => {
+        const result = validateLLMResponse({ type: 'list', title: 3, items: [{ point: 'Cap' }, 'Discount'] });
+        expect(result.valid).toBe(false);
+        expect(result.errors).toEqual([
+            'title: expected a string, got number',
+            'items[0].detail: is required',
+            'items[1]: expected an object, got string',
+        ]);
+    });
+
+    it('rejects a non-object', () => {
+        expect(validateLLMResponse(['text']).errors).toEqual(['response: expected a JSON object, got an array']);
+    });
+
+    it('rejects blank required text and empty lists', () => {
+        expect(validateLLMResponse({ type: 'text', answer: '   ' }).errors).toEqual(['answer: must not be empty']);
+        expect(validateLLMResponse({ type: 'list', title: 'Terms', items: [] }).errors).toEqual(['items: expected at least 1 item']);
+        expect(validateLLMResponse({ type: 'comparison', title: 'One', options: ['SAFE'], criteria: [{ criterion: 'Cost', values: ['Low'] }] }).errors)
+            .toEqual(['options: expected at least 2 items']);
+    });
+
+    it('requires one cell per column and one value per option', () => {
+        expect(validateLLMResponse(table([['Seed', '$2M'], ['Series A']])).errors)
+            .toEqual(['rows[1]: expected 2 cells (one per column), got 1']);
+        expect(validateLLMResponse({ type: 'comparison', title: 'SAFE vs note', options: ['SAFE', 'Note'], criteria: [{ criterion: 'Interest', values: ['None'] }] }).errors)
+            .toEqual(['criteria[0].values: expected 2 values (one per option), got 1']);
+    });
+});
+
+describe('validateStoredResponse', () => {
+    it('reads saved answers with empty fields or lists that the model may no longer produce', () => {
+        expect(validateStoredResponse({ type: 'text', answer: '' }).valid).toBe(true);
+        expect(validateStoredResponse({ type: 'list', title: '', items: [] }).valid).toBe(true);
+        expect(validateStoredResponse({ type: 'steps', title: 'Raising', steps: [] }).valid).toBe(true);
+    });
+
+    it('still rejects answers of the wrong shape', () => {
+        expect(validateStoredResponse({ type: 'text' }).errors).toEqual(['answer: is required']);
+        expect(validateStoredResponse({ type: 'list', title: 'Terms', items: 'Cap' }).errors).toEqual(['items: expected an array, got string']);
+        expect(validateStoredResponse(table([['Seed']])).valid).toBe(false);
+    });
+});
@@ -0,0 +1,314 @@
+// The response types the bot can produce, defined once as a runtime schema.
+//
+// This module is shared with the frontend (re-exported there by src/utils/llmResponse.ts), so it must stay
+// free of Node APIs and dependencies. The TypeScript types are derived from the schema, which keeps the
+// validator, the backend and ChatInterface from drifting apart.
+
+// --- Schema building blocks ---
+// Lenient checks skip the "not empty" and "at least N items" rules: stored answers were accepted when saved,
+// possibly under older rules, and stay readable. The model's output is always checked strictly.
+export interface ValidationRules {
+    lenient: boolean;
+}
+
+const STRICT_RULES: ValidationRules = { lenient: false };
+const STORED_RULES: ValidationRules = { lenient: true };
+
+export interface Schema<T> {
+    readonly optional: boolean;
+    // Returns the value when valid; otherwise pushes "path: problem" messages onto `errors`
+    check(value: unknown, path: string, errors: string[], rules: ValidationRules): T | undefined;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K]['optional'] extends true ? K : never }[keyof S];
+type InferShape<S extends Shape> = Flatten<
+    { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } &
+    { [K in OptionalKeys<S>]?: Infer<S[K]> }
+>;
+type Flatten<T> = { [K in keyof T]: T[K] };
+
+const describe = (value: unknown): string => value === null ? 'null' : Array.isArray(value) ? 'an array' : typeof value;
+const at = (path: string, key: string | number): string => typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+function string(options: { nonEmpty?: boolean } = {}): Schema<string> {
+    return {
+        optional: false,
+        check(value, path, errors, rules) {
+            if (typeof value !== 'string') errors.push(`${path}: expected a string, got ${describe(value)}`);
+            else if (options.nonEmpty && !rules.lenient && value.trim() === '') errors.push(`${path}: must not be empty`);
+            else return value;
+            return undefined;
+        },
+    };
+}
+
+function number(options: { min?: number; max?: number } = {}): Schema<number> {
+    return {
+        optional: false,
+        check(value, path, errors) {
+            if (typeof value !== 'number' || !Number.isFinite(value)) errors.push(`${path}: expected a number, got ${describe(value)}`);
+            else if ((options.min !== undefined && value < options.min) || (options.max !== undefined && value > options.max)) {
+                errors.push(`${path}: must be between ${options.min ?? '-∞'} and ${options.max ?? '∞'}`);
+            }
+            else return value;
+            return undefined;
+        },
+    };
+}
+
+function boolean(): Schema<boolean> {
+    return {
+        optional: false,
+        check(value, path, errors) {
+            if (typeof value === 'boolean') return value;
+            errors.push(`${path}: expected a boolean, got ${describe(value)}`);
+            return undefined;
+        },
+    };
+}
+
+function literal<T extends string>(expected: T): Schema<T> {
+    return {
+        optional: false,
+        check(value, path, errors) {
+            if (value === expected) return expected;
+            errors.push(`${path}: expected "${expected}", got ${JSON.stringify(value)}`);
+            return undefined;
+        },
+    };
+}
+
+function nullable<T>(inner: Schema<T>): Schema<T | null> {
+    return {
+        optional: inner.optional,
+        check: (value, path, errors, rules) => value === null ? null : inner.check(value, path, errors, rules),
+    };
+}
+
+// Missing (undefined) is accepted and left out of the result
+function optional<T>(inner: Schema<T>): Schema<T> & { readonly optional: true } {
+    return {
+        optional: true,
+        check: (value, path, errors, rules) => value === undefined ? undefined : inner.check(value, path, errors, rules),
+    };
+}
+
+function array<T>(items: Schema<T>, options: { minItems?: number } = {}): Schema<T[]> {
+    return {
+        optional: false,
+        check(value, path, errors, rules) {
+            if (!Array.isArray(value)) {
+                errors.push(`${path}: expected an array, got ${describe(value)}`);
+                return undefined;
+            }
+            if (options.minItems && !rules.lenient && value.length < options.minItems) {
+                errors.push(`${path}: expected at least ${options.minItems} item${options.minItems === 1 ? '' : 's'}`);
+                return undefined;
+            }
+            const errorCount = errors.length;
+            const result = value.map((item, index) => items.check(item, at(path, index), errors, rules));
+            return errors.length === errorCount ? result as T[] : undefined;
+        },
+    };
+}
+
+// Unknown keys are dropped from the result
+function object<S extends Shape>(shape: S): Schema<InferShape<S>> {
+    return {
+        optional: false,
+        check(value, path, errors, rules) {
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                errors.push(`${path || 'response'}: expected an object, got ${describe(value)}`);
+                return undefined;
+            }
+            const errorCount = errors.length;
+            const result: Record<string, unknown> = {};
+            for (const [key, fieldSchema] of Object.entries(shape)) {
+                const fieldValue = (value as Record<string, unknown>)[key];
+                if (fieldValue === undefined && !fieldSchema.optional) {
+                    errors.push(`${at(path, key)}: is required`);
+                    continue;
+                }
+                const checked = fieldSchema.check(fieldValue, at(path, key), errors, rules);
+                if (checked !== undefined) result[key] = checked;
+            }
+            return errors.length === errorCount ? result as InferShape<S> : undefined;
+        },
+    };
+}
+
+// Adds a check across fields of an already valid value; `rule` returns a problem or null
+function refine<T>(inner: Schema<T>, rule: (value: T) => { path: string; problem: string } | null): Schema<T> {
+    return {
+        optional: inner.optional,
+        check(value, path, errors, rules) {
+            const checked = inner.check(value, path, errors, rules);
+            if (checked === undefined) return undefined;
+            const failure = rule(checked);
+            if (!failure) return checked;
+            errors.push(`${failure.path ? at(path, failure.path) : path}: ${failure.problem}`);
+            return undefined;
+        },
+    };
+}
+
+// Picks the variant by the value of `key`, so errors talk about the variant the model meant to produce
+function discriminatedUnion<K extends string, V extends Record<string, Schema<unknown>>>(key: K, variants: V): Schema<Infer<V[keyof V]>> {
+    return {
+        optional: false,
+        check(value, path, errors, rules) {
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                errors.push(`${path || 'response'}: expected a JSON object, got ${describe(value)}`);
+                return undefined;
+            }
+            const tag = (value as Record<string, unknown>)[key];
+            const variant = typeof tag === 'string' && Object.prototype.hasOwnProperty.call(variants, tag) ? variants[tag] : undefined;
+            if (!variant) {
+                errors.push(`${at(path, key)}: must be one of ${Object.keys(variants).map(name => `"${name}"`).join(', ')}, got ${JSON.stringify(tag)}`);
+                return undefined;
+            }
+            return variant.check(value, path, errors, rules) as Infer<V[keyof V]> | undefined;
+        },
+    };
+}
+
+// --- Response schema ---
+// Quotes from the document the model gives for a claim of its answer. Replaced by `grounding` once checked.
+export const evidenceSchema = object({
+    claim: string(),
+    quotes: array(string()),
+});
+
+// Added by the backend after checking the quotes against the knowledge base (see answerClaims.ts for the targets)
+export const groundingClaimSchema = object({
+    target: string({ nonEmpty: true }), // e.g. "answer.2" for the third sentence, "items.0" for the first list item
+    grounded: boolean(),
+    quote: nullable(string()),          // The best matching quote, null when the model gave none that matched
+    similarity: number({ min: 0, max: 1 }),
+});
+
+export const groundingSchema = object({
+    confidence: number({ min: 0, max: 1 }), // Share of the claims that are grounded
+    claims: array(groundingClaimSchema),
+});
+
+const answerFields = {
+    follow_up: optional(nullable(string())),
+    source_section_id: optional(nullable(string())),
+    source_section_title: optional(nullable(string())),
+    evidence: optional(nullable(array(evidenceSchema))),
+    grounding: optional(nullable(groundingSchema)),
+};
+
+export const textResponseSchema = object({
+    type: literal('text'),
+    answer: string({ nonEmpty: true }),
+    ...answerFields,
+});
+
+export const listItemSchema = object({
+    point: string({ nonEmpty: true }),
+    detail: string({ nonEmpty: true }),
+});
+
+export const listResponseSchema = object({
+    type: literal('list'),
+    title: string({ nonEmpty: true }),
+    items: array(listItemSchema, { minItems: 1 }),
+    ...answerFields,
+});
+
+// Every row has one cell per column
+export const tableResponseSchema = refine(object({
+    type: literal('table'),
+    title: string({ nonEmpty: true }),
+    columns: array(string({ nonEmpty: true }), { minItems: 1 }),
+    rows: array(array(string()), { minItems: 1 }),
+    ...answerFields,
+}), table => {
+    const index = table.rows.findIndex(row => row.length !== table.columns.length);
+    return index === -1 ? null : { path: `rows[${index}]`, problem: `expected ${table.columns.length} cells (one per column), got ${table.rows[index].length}` };
+});
+
+export const stepSchema = object({
+    title: string({ nonEmpty: true }),
+    detail: string({ nonEmpty: true }),
+    sub_points: optional(nullable(array(string({ nonEmpty: true })))),
+});
+
+export const stepsResponseSchema = object({
+    type: literal('steps'),
+    title: string({ nonEmpty: true }),
+    steps: array(stepSchema, { minItems: 1 }),
+    ...answerFields,
+});
+
+export const comparisonCriterionSchema = object({
+    criterion: string({ nonEmpty: true }),
+    values: array(string()), // One per option, in the order of `options`
+});
+
+export const comparisonResponseSchema = refine(object({
+    type: literal('comparison'),
+    title: string({ nonEmpty: true }),
+    options: array(string({ nonEmpty: true }), { minItems: 2 }),
+    criteria: array(comparisonCriterionSchema, { minItems: 1 }),
+    summary: optional(nullable(string())),
+    ...answerFields,
+}), comparison => {
+    const index = comparison.criteria.findIndex(criterion => criterion.values.length !== comparison.options.length);
+    return index === -1 ? null : {
+        path: `criteria[${index}].values`,
+        problem: `expected ${comparison.options.length} values (one per option), got ${comparison.criteria[index].values.length}`,
+    };
+});
+
+export const errorResponseSchema = object({
+    type: literal('error'),
+    message: string(),
+    code: optional(string()), // Stable machine-readable reason for errors clients may handle (e.g. "RATE_LIMITED")
+});
+
+export const llmResponseSchema = discriminatedUnion('type', {
+    text: textResponseSchema,
+    list: listResponseSchema,
+    table: tableResponseSchema,
+    steps: stepsResponseSchema,
+    comparison: comparisonResponseSchema,
+    error: errorResponseSchema,
+});
+
+export type LLMTextResponse = Infer<typeof textResponseSchema>;
+export type LLMListItem = Infer<typeof listItemSchema>;
+export type LLMListResponse = Infer<typeof listResponseSchema>;
+export type LLMTableResponse = Infer<typeof tableResponseSchema>;
+export type LLMStep = Infer<typeof stepSchema>;
+export type LLMStepsResponse = Infer<typeof stepsResponseSchema>;
+export type LLMComparisonCriterion = Infer<typeof comparisonCriterionSchema>;
+export type LLMComparisonResponse = Infer<typeof comparisonResponseSchema>;
+export type LLMErrorResponse = Infer<typeof errorResponseSchema>;
+export type LLMEvidence = Infer<typeof evidenceSchema>;
+export type LLMGroundingClaim = Infer<typeof groundingClaimSchema>;
+export type LLMGrounding = Infer<typeof groundingSchema>;
+export type LLMStructuredResponse = Infer<typeof llmResponseSchema>;
+export type LLMResponseType = LLMStructuredResponse['type'];
+
+export type ValidationResult =
+    | { valid: true; value: LLMStructuredResponse; errors: [] }
+    | { valid: false; value: null; errors: string[] };
+
+// Validates an already parsed value (e.g. JSON from the model or an SSE "final" event)
+export function validateLLMResponse(value: unknown, rules: ValidationRules = STRICT_RULES): ValidationResult {
+    const errors: string[] = [];
+    const checked = llmResponseSchema.check(value, '', errors, rules);
+    if (checked === undefined || errors.length > 0) return { valid: false, value: null, errors: errors.length ? errors : ['response: invalid'] };
+    return { valid: true, value: checked, errors: [] };
+}
+
+// Validates a saved answer (a history entry, a thread turn, an export) with the lenient rules
+export function validateStoredResponse(value: unknown): ValidationResult {
+    return validateLLMResponse(value, STORED_RULES);
+}
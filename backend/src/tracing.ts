@@ -0,0 +1,63 @@
+import { Attributes, Span, SpanStatusCode, trace } from '@opentelemetry/api';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import { BatchSpanProcessor, NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
+import { ATTR_SERVICE_NAME } from '@opentelemetry/semantic-conventions';
+import { config } from './config';
+
+// OpenTelemetry tracing. Spans are exported over OTLP/HTTP when OTEL_EXPORTER_OTLP_ENDPOINT (or
+// OTEL_EXPORTER_OTLP_TRACES_ENDPOINT) is set, e.g. http://localhost:4318 for a local collector; the exporter
+// reads the standard OTEL_EXPORTER_OTLP_* variables (headers, timeout) itself. Without an endpoint the API's
+// no-op tracer is used and spans cost nothing.
+const OTLP_ENDPOINT = config.tracing.otlpEndpoint;
+const SERVICE_NAME = config.tracing.serviceName;
+
+let tracerProvider: NodeTracerProvider | null = null;
+
+if (OTLP_ENDPOINT) {
+    tracerProvider = new NodeTracerProvider({
+        resource: resourceFromAttributes({ [ATTR_SERVICE_NAME]: SERVICE_NAME }),
+        spanProcessors: [new BatchSpanProcessor(new OTLPTraceExporter())],
+    });
+    tracerProvider.register(); // Also installs the async context manager that carries spans across awaits
+    // Flush what is still buffered, then let the signal end the process: listening to SIGTERM turns off
+    // Node's default exit, and `once` has removed this listener by the time it is raised again
+    process.once('SIGTERM', () => {
+        tracerProvider!.shutdown().catch(() => undefined).finally(() => process.kill(process.pid, 'SIGTERM'));
+    });
+}
+
+export const tracingEnabled = tracerProvider !== null;
+export const tracer = trace.getTracer(SERVICE_NAME);
+
+function recordError(span: Span, error: unknown): void {
+    span.recordException(error instanceof Error ? error : String(error));
+    span.setStatus({ code: SpanStatusCode.ERROR, message: error instanceof Error ? error.message : String(error) });
+}
+
+// Runs `fn` in a child span of the active one. The span ends when `fn` settles and is marked as an error if it throws.
+export async function withSpan<T>(name: string, attributes: Attributes, fn: (span: Span) => Promise<T>): Promise<T> {
+    return tracer.startActiveSpan(name, { attributes }, async span => {
+        try {
+            return await fn(span);
+        } catch (error) {
+            recordError(span, error);
+            throw error;
+        } finally {
+            span.end();
+        }
+    });
+}
+
+export function withSpanSync<T>(name: string, attributes: Attributes, fn: (span: Span) => T): T {
+    return tracer.startActiveSpan(name, { attributes }, span => {
+        try {
+            return fn(span);
+        } catch (error) {
+            recordError(span, error);
+            throw error;
+        } finally {
+            span.end();
+        }
+    });
+}
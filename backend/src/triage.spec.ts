@@ -0,0 +1,55 @@
+import { describe, expect, it, vi } from 'vitest';
+import { getBundledKnowledgeBase } from './knowledgeBase';
+
+vi.mock('./knowledgeStore', async importOriginal => {
+    const actual = await importOriginal<typeof import('./knowledgeStore')>();
+    const { getBundledKnowledgeBase: bundled } = await import('./knowledgeBase');
+    // Organization "acme" answers from its own handbook; everyone else from the bundled guide
+    return {
+        ...actual,
+        getActiveKnowledgeBase: vi.fn(async (orgId?: string | null) => orgId === 'acme' ? { ...bundled(), title: 'Acme Investor Handbook' } : bundled()),
+    };
+});
+
+import { classifyQuestion, triagedAnswer } from './triage';
+
+describe('classifyQuestion', () => {
+    const knowledgeBase = getBundledKnowledgeBase();
+
+    it.each([
+        ['Hello there!', 'greeting'],
+        ['Thanks a lot', 'greeting'],
+        ['You are useless', 'abusive'],
+        ['What if my dog ate my homework?', 'off_topic'],
+        ['What is a SAFE?', 'in_scope'],
+        ['Hi, how do I pitch to angel investors?', 'in_scope'],
+    ])('classifies %j as %s', (question, category) => {
+        expect(classifyQuestion(question, knowledgeBase).category).toBe(category);
+    });
+
+    it('judges a follow-up together with the previous question', () => {
+        expect(classifyQuestion('and what about later?', knowledgeBase, 'How does a Series A valuation work?').category).toBe('in_scope');
+    });
+});
+
+describe('triagedAnswer', () => {
+    const decision = (category: 'greeting' | 'off_topic') => ({ category, reason: 'spec', coverage: null, topScore: null });
+
+    it("names the organization's guide in the greeting and the off-topic reply", async () => {
+        const greeting = await triagedAnswer(decision('greeting'), 'Hello', 'acme');
+        const offTopic = await triagedAnswer(decision('off_topic'), 'What is the best pizza?', 'acme');
+        expect(greeting.response).toMatchObject({ type: 'text', answer: expect.stringContaining('"Acme Investor Handbook"') });
+        expect(offTopic.response).toMatchObject({ type: 'text', answer: expect.stringContaining('cannot find specific information on that topic within "Acme Investor Handbook"') });
+    });
+
+    it('names the bundled guide without an organization', async () => {
+        const { response } = await triagedAnswer(decision('greeting'), 'Hi');
+        expect(response).toMatchObject({ answer: expect.stringContaining('"Raise Millions"') });
+        expect(response).not.toMatchObject({ answer: expect.stringContaining('Acme') });
+    });
+
+    it('answers without a model call', async () => {
+        const { metadata } = await triagedAnswer(decision('off_topic'), 'What is the best pizza?');
+        expect(metadata).toMatchObject({ provider: null, cache: { status: 'bypass' } });
+    });
+});
@@ -0,0 +1,133 @@
+import { tokenize, LoadedKnowledgeBase } from './knowledgeBase';
+import { getActiveKnowledgeBase } from './knowledgeStore';
+import { NOT_FOUND_ANSWER, LLMAnswer, LLMStructuredResponse, ConversationTurn, summarizeUsage } from './llmService';
+import { createLogger } from './logger';
+import { config } from './config';
+
+const logger = createLogger('Triage');
+
+// --- Configuration ---
+// A cheap check before the LLM call: greetings get a canned reply, abusive and clearly off-topic
+// questions a templated one, and only the rest pays for a model call with the guide attached.
+const TRIAGE_ENABLED = config.triage.enabled;
+// Share of a question's keywords that must occur in the guide for it to count as on topic
+const TRIAGE_MIN_COVERAGE = config.triage.minCoverage;
+// Occurrences in the guide for a keyword to count; rarer words are mostly incidental (a "dog" in an anecdote)
+const TRIAGE_MIN_TERM_FREQUENCY = config.triage.minTermFrequency;
+// Extra comma-separated words or phrases treated as abusive
+const TRIAGE_BLOCKED_TERMS = config.triage.blockedTerms;
+
+// Fundraising vocabulary (tokenized form) that keeps a question on topic even if the guide rarely uses the word
+const DOMAIN_TERMS = new Set(tokenize(
+    'angel investor venture vc fund fundraise fundraising raise round seed pre-seed series ipo safe safes convertible note ' +
+    'equity share stock option dilution dilute valuation cap table vesting cliff term sheet pitch deck accelerator incubator ' +
+    'founder cofounder startup investor lp gp limited partner pro rata mfn discount preferred liquidation board runway ' +
+    'due diligence data room c-corp delaware incorporate bridge syndicate crowdfunding unicorn exit acquisition'
+));
+
+const GREETING_PATTERN = /^(hi|hello|hey|hiya|howdy|yo|greetings|good (morning|afternoon|evening|day)|thanks|thank you|thx|ty|cheers|bye|goodbye|see you|ok|okay|cool|great|nice|how are you|how is it going|what'?s up|who are you|what can you do|what do you do)\b/;
+const THANKS_PATTERN = /^(thanks|thank you|thx|ty|cheers)\b/;
+// Words that may follow a greeting without turning it into a question
+const GREETING_FILLER = /\b(hi|hello|hey|there|all|everyone|bot|assistant|again|so|very|much|a lot|lots|a|the|for|your|the help|help|helpful|that|this|it|me|you|morning|afternoon|evening|day|good|thanks|thank|ok|okay|great|nice|cool|bye|goodbye|see|later|how are you|how is it going|what'?s up|who are you|what can you do|what do you do)\b/g;
+const ABUSIVE_PATTERNS = [
+    /\b(fuck\w*|shit\w*|bitch\w*|cunt\w*|asshole\w*|bastard\w*|dickhead\w*|motherfuck\w*|retard\w*)\b/,
+    /\byou('re| are)? (an? )?(stupid|idiot|moron|dumb|useless|worthless|pathetic)\b/,
+    /\b(kill yourself|kys|go to hell|shut up)\b/,
+];
+
+// --- Type Definitions ---
+export type TriageCategory = 'in_scope' | 'greeting' | 'off_topic' | 'abusive';
+
+// Saved with the history entry, so thresholds can be tuned against real questions
+export interface TriageDecision {
+    category: TriageCategory;
+    reason: string;
+    coverage: number | null;  // Share of the question's keywords found in the guide; null when not computed
+    topScore: number | null;  // BM25 score of the best matching section
+}
+
+// --- Classification ---
+function normalize(question: string): string {
+    return question.toLowerCase().replace(/[’`]/g, "'").replace(/[^a-z0-9' ]+/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function isAbusive(normalized: string): boolean {
+    return ABUSIVE_PATTERNS.some(pattern => pattern.test(normalized)) ||
+        TRIAGE_BLOCKED_TERMS.some(term => ` ${normalized} `.includes(` ${term} `));
+}
+
+// A greeting, thanks or small talk with nothing left to answer once the pleasantries are removed
+function isGreeting(normalized: string): boolean {
+    if (normalized === '' || !GREETING_PATTERN.test(normalized)) return false;
+    return normalized.replace(GREETING_FILLER, ' ').replace(/[' ]+/g, '') === '';
+}
+
+// Follow-ups like "what about for Series A?" are judged together with the previous question, as retrieval does
+export function classifyQuestion(question: string, knowledgeBase: LoadedKnowledgeBase, previousQuestion?: string): TriageDecision {
+    const normalized = normalize(question);
+    if (isAbusive(normalized)) return { category: 'abusive', reason: 'abusive language', coverage: null, topScore: null };
+    if (isGreeting(normalized)) return { category: 'greeting', reason: 'greeting or small talk', coverage: null, topScore: null };
+
+    const query = previousQuestion ? `${previousQuestion} ${question}` : question;
+    const terms = Array.from(new Set(tokenize(query)));
+    const topScore = knowledgeBase.index.search(query, 1)[0]?.score ?? 0;
+    const rounded = (value: number) => Math.round(value * 100) / 100;
+    if (terms.length === 0) return { category: 'in_scope', reason: 'no keywords to judge by', coverage: null, topScore: rounded(topScore) };
+
+    const domainTerms = terms.filter(term => DOMAIN_TERMS.has(term));
+    const coverage = terms.filter(term => knowledgeBase.index.collectionFrequency(term) >= TRIAGE_MIN_TERM_FREQUENCY).length / terms.length;
+    if (domainTerms.length > 0) {
+        return { category: 'in_scope', reason: `fundraising terms: ${domainTerms.join(', ')}`, coverage: rounded(coverage), topScore: rounded(topScore) };
+    }
+    if (topScore > 0 && coverage >= TRIAGE_MIN_COVERAGE) {
+        return { category: 'in_scope', reason: 'keywords found in the guide', coverage: rounded(coverage), topScore: rounded(topScore) };
+    }
+    return { category: 'off_topic', reason: `keyword coverage below ${TRIAGE_MIN_COVERAGE}`, coverage: rounded(coverage), topScore: rounded(topScore) };
+}
+
+// Coverage is measured against the guide the question will be answered from, the organization's if it set one
+export async function triageQuestion(question: string, previousTurns: ConversationTurn[] = [], orgId: string | null = null): Promise<TriageDecision> {
+    if (!TRIAGE_ENABLED) return { category: 'in_scope', reason: 'triage disabled', coverage: null, topScore: null };
+    const knowledgeBase = await getActiveKnowledgeBase(orgId);
+    const previousQuestion = previousTurns[previousTurns.length - 1]?.question;
+    const decision = classifyQuestion(question, knowledgeBase, previousQuestion);
+    logger.info(`${decision.category} (${decision.reason})`, { coverage: decision.coverage, topScore: decision.topScore, question });
+    return decision;
+}
+
+// --- Templated responses ---
+// `guideTitle` is the title of the guide the organization answers from, so the reply names the right document
+function templatedResponse(decision: TriageDecision, question: string, guideTitle: string): LLMStructuredResponse {
+    switch (decision.category) {
+        case 'greeting':
+            return THANKS_PATTERN.test(normalize(question))
+                ? { type: 'text', answer: "You're welcome! Ask me anything else about raising money for your startup.", follow_up: null, source_section_id: null, source_section_title: null }
+                : {
+                    type: 'text',
+                    answer: `Hi! I answer questions about startup fundraising, based on "${guideTitle}": rounds, investors, SAFEs, valuations, cap tables and more.`,
+                    follow_up: "What are the stages of fundraising for a startup?",
+                    source_section_id: null,
+                    source_section_title: null,
+                };
+        case 'abusive':
+            return { type: 'text', answer: "I'm here to help with questions about startup fundraising. Please keep the conversation respectful.", follow_up: null, source_section_id: null, source_section_title: null };
+        case 'off_topic':
+            return { type: 'text', answer: notFoundIn(guideTitle), follow_up: null, source_section_id: null, source_section_title: null };
+        case 'in_scope': // Not answered here; kept for exhaustiveness
+            return { type: 'text', answer: NOT_FOUND_ANSWER, follow_up: null, source_section_id: null, source_section_title: null };
+    }
+}
+
+// The standard "cannot find" sentence, naming the guide
+function notFoundIn(guideTitle: string): string {
+    return `I'm sorry, but I cannot find specific information on that topic within "${guideTitle}".`;
+}
+
+// The answer for a question triage handled itself, shaped like one from the LLM service
+export async function triagedAnswer(decision: TriageDecision, question: string, orgId: string | null = null): Promise<LLMAnswer> {
+    const knowledgeBase = await getActiveKnowledgeBase(orgId);
+    return {
+        response: templatedResponse(decision, question, knowledgeBase.title),
+        metadata: { knowledgeBase: null, provider: null, model: null, cache: { status: 'bypass' }, repairAttempts: 0, grounding: null, outputFlags: [], usage: summarizeUsage([]) },
+    };
+}
@@ -0,0 +1,23 @@
+import { defineConfig } from 'vitest/config';
+
+// Tests run under the test profile with the mock provider and no database, whatever the developer's .env says.
+export default defineConfig({
+    test: {
+        include: ['src/**/*.spec.ts'],
+        environment: 'node',
+        setupFiles: ['vitest.setup.ts'],
+        env: {
+            APP_ENV: 'test',
+            AUTH_MODE: 'local',
+            AUTH_LOCAL_JWT_SECRET: 'vitest-local-jwt-secret',
+            LLM_PROVIDER_CHAIN: 'mock',
+            RATE_LIMIT_ENABLED: 'false',
+            ANSWER_CACHE_STORE: 'memory',
+            MONGODB_URI: '',
+            OTEL_EXPORTER_OTLP_ENDPOINT: '',
+            OTEL_EXPORTER_OTLP_TRACES_ENDPOINT: '',
+            ADMIN_USER_IDS: '',
+            LOG_LEVEL: 'error',
+        },
+    },
+});
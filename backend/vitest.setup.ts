@@ -0,0 +1,4 @@
+import mongoose from 'mongoose';
+
+// No MongoDB in tests: fail model calls at once instead of buffering them until the connection timeout.
+mongoose.set('bufferCommands', false);
@@ -2,30 +2,20 @@
 // React import is often not needed with modern JSX transform
 import { ConfigProvider, Layout, Typography } from 'antd'; // Removed unused 'theme as antdTheme'
 import ChatInterface from './components/ChatInterface';
-import {
-  ClerkProvider,
-  SignIn,
-  SignedIn,
-  SignedOut,
-  UserButton,
-} from '@clerk/clerk-react';
-// Removed: import { useNavigate, Routes, Route, Link } from 'react-router-dom';
+import SharedAnswerPage from './components/SharedAnswerPage';
+import AdminDashboard from './components/AdminDashboard';
+import AdminNavLink from './components/AdminNavLink';
+import AuthProvider from './components/AuthProvider';
+import AuthGate from './components/AuthGate';
+import UserMenu from './components/UserMenu';
+import { Routes, Route } from 'react-router-dom';
 
 const { Header, Content } = Layout;
 const { Title } = Typography;
 
-const clerkPubKey = 'API-KEY';
-
-if (!clerkPubKey) {
-  throw new Error("Missing Clerk Publishable Key. Did you set VITE_CLERK_PUBLISHABLE_KEY in .env.local?");
-}
-
 function App() {
   return (
-    <ClerkProvider
-      publishableKey={clerkPubKey}
-      // No navigate prop needed if not using react-router-dom for Clerk's navigation
-    >
+    <AuthProvider>
       <ConfigProvider
         theme={{
           token: {
@@ -38,36 +28,38 @@ function App() {
             <Title level={3} className="!mb-0 text-blue-600">
               Fundraising Q&A Bot
             </Title>
-            <SignedIn>
-              <UserButton afterSignOutUrl="/" />
-            </SignedIn>
+            <AuthGate showSignIn={false}>
+              <div className="flex items-center gap-3">
+                <AdminNavLink />
+                <UserMenu />
+              </div>
+            </AuthGate>
           </Header>
           <Content className="p-0 flex items-center justify-center">
-            <SignedIn>
-              <ChatInterface />
-            </SignedIn>
-            <SignedOut>
-              <div className="text-center p-10 max-w-md mx-auto"> {/* Added max-width for better centering */}
-                <Title level={2}>Welcome!</Title>
-                <p className="mb-6 text-lg">Please sign in to ask questions about startup fundraising.</p>
-                <SignIn
-                  // For the simplest setup without full react-router-dom integration for these pages,
-                  // Clerk's default modal or redirect behavior might be preferred.
-                  // If using paths, ensure your hosting (like Vercel) can handle client-side routing for /sign-in and /sign-up.
-                  // routing="path" // Using path routing assumes you have routes defined for these or rely on Clerk to manage them
-                  // path="/sign-in"
-                  // signUpUrl="/sign-up"
-                  afterSignInUrl="/"
-                  afterSignUpUrl="/"
-                  // For non-path routing (modal/redirects), you might not need 'path' and 'routing' here.
-                  // Or, use routing="hash" if you prefer hash-based navigation for these Clerk UIs.
-                />
-              </div>
-            </SignedOut>
+            <Routes>
+              {/* Shared answers are public: no sign-in required */}
+              <Route path="/shared/:slug" element={<SharedAnswerPage />} />
+              {/* Admin-only; the backend checks access */}
+              <Route path="/admin" element={
+                <AuthGate afterSignInUrl="/admin">
+                  <AdminDashboard />
+                </AuthGate>
+              } />
+              <Route path="*" element={
+                <AuthGate signedOut={
+                  <>
+                    <Title level={2}>Welcome!</Title>
+                    <p className="mb-6 text-lg">Please sign in to ask questions about startup fundraising.</p>
+                  </>
+                }>
+                  <ChatInterface />
+                </AuthGate>
+              } />
+            </Routes>
           </Content>
         </Layout>
       </ConfigProvider>
-    </ClerkProvider>
+    </AuthProvider>
   );
 }
 
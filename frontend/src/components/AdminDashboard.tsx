@@ -0,0 +1,201 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Alert, Button, Card, DatePicker, Progress, Spin, Statistic, Table, Tag, Typography } from 'antd';
+import { ReloadOutlined } from '@ant-design/icons';
+import axios, { AxiosError } from 'axios';
+import { config } from '../config';
+import { useAppAuth } from '../utils/auth';
+
+const { Text, Title } = Typography;
+
+const backendUrl = config.apiBaseUrl;
+
+// Matches GET /api/admin/dashboard/overview
+interface DashboardOverview {
+    totals: { questions: number; users: number; failed: number; unanswered: number };
+    days: { day: string; activeUsers: number; questions: number; failed: number }[];
+    responseTypes: { type: string; count: number; share: number }[];
+    providers: { provider: string; calls: number; succeeded: number; failed: number; invalid: number; skipped: number; failureRate: number; avgDurationMs: number | null; answered: number }[];
+    fallback: { requests: number; fellBack: number; allFailed: number; rate: number };
+    errorCodes: { code: string; requests: number }[];
+}
+
+// Matches GET /api/admin/dashboard/questions
+interface QuestionStat {
+    question: string;
+    count: number;
+    users: number;
+    unanswered: number;
+    lastAskedAt: string;
+}
+interface DashboardQuestions {
+    top: QuestionStat[];
+    unanswered: QuestionStat[];
+}
+
+interface DateRange {
+    from: string | null;
+    to: string | null;
+}
+
+const percent = (share: number): string => `${Math.round(share * 1000) / 10}%`;
+
+const questionColumns = [
+    { title: 'Question', dataIndex: 'question', key: 'question', ellipsis: true },
+    { title: 'Asked', dataIndex: 'count', key: 'count', width: 80 },
+    { title: 'Users', dataIndex: 'users', key: 'users', width: 80 },
+    { title: 'Unanswered', dataIndex: 'unanswered', key: 'unanswered', width: 110 },
+    { title: 'Last asked', dataIndex: 'lastAskedAt', key: 'lastAskedAt', width: 180, render: (value: string) => new Date(value).toLocaleString() },
+];
+
+// Admin-only view (/admin) over the Q&A history: activity, response types, provider health, error codes and questions.
+// Access is checked by the backend; other users get its 403 message.
+const AdminDashboard: React.FC = () => {
+    const { getToken } = useAppAuth();
+    const [range, setRange] = useState<DateRange>({ from: null, to: null }); // Empty: the backend's default (last 30 days)
+    const [overview, setOverview] = useState<DashboardOverview | null>(null);
+    const [questions, setQuestions] = useState<DashboardQuestions | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadDashboard = useCallback(async (dates: DateRange) => {
+        setLoading(true);
+        setError(null);
+        try {
+            const token = await getToken();
+            const headers = token ? { Authorization: `Bearer ${token}` } : {};
+            const params: Record<string, string> = {};
+            if (dates.from) params.from = dates.from;
+            if (dates.to) params.to = dates.to;
+            const [overviewResponse, questionsResponse] = await Promise.all([
+                axios.get<DashboardOverview>(`${backendUrl}/admin/dashboard/overview`, { headers, params }),
+                axios.get<DashboardQuestions>(`${backendUrl}/admin/dashboard/questions`, { headers, params }),
+            ]);
+            setOverview(overviewResponse.data);
+            setQuestions(questionsResponse.data);
+        } catch (err) {
+            console.error("Error loading the admin dashboard:", err);
+            const message = axios.isAxiosError(err) ? (err as AxiosError<{ message?: string }>).response?.data?.message : undefined;
+            setError(message || "Failed to load the dashboard.");
+        } finally {
+            setLoading(false);
+        }
+    }, [getToken]);
+
+    useEffect(() => {
+        loadDashboard(range);
+    }, [range, loadDashboard]);
+
+    const busiestDay = Math.max(1, ...(overview?.days.map(day => day.questions) ?? []));
+
+    return (
+        <div className="w-full max-w-6xl mx-auto p-4 md:p-6 space-y-4 self-start">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <Title level={3} className="!mb-0">Admin dashboard</Title>
+                <div className="flex gap-2">
+                    <DatePicker.RangePicker
+                        allowEmpty={[true, true]}
+                        onChange={(dates) => setRange({
+                            from: dates?.[0]?.startOf('day').toISOString() ?? null,
+                            to: dates?.[1]?.endOf('day').toISOString() ?? null,
+                        })}
+                    />
+                    <Button icon={<ReloadOutlined />} onClick={() => loadDashboard(range)} loading={loading}>Refresh</Button>
+                </div>
+            </div>
+
+            {error && <Alert message={error} type="error" showIcon />}
+            {loading && !overview && <div className="text-center p-10"><Spin size="large" /></div>}
+
+            {overview && (
+                <>
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                        <Card><Statistic title="Questions" value={overview.totals.questions} /></Card>
+                        <Card><Statistic title="Active users" value={overview.totals.users} /></Card>
+                        <Card><Statistic title="Unanswered" value={overview.totals.unanswered} suffix={<Text type="secondary" className="text-sm">({percent(overview.totals.questions ? overview.totals.unanswered / overview.totals.questions : 0)})</Text>} /></Card>
+                        <Card><Statistic title="Failed" value={overview.totals.failed} /></Card>
+                        <Card><Statistic title="Fallback rate" value={percent(overview.fallback.rate)} /></Card>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <Card title="Daily activity" size="small">
+                            <Table
+                                size="small"
+                                rowKey="day"
+                                pagination={{ pageSize: 10, hideOnSinglePage: true }}
+                                dataSource={[...overview.days].reverse()}
+                                columns={[
+                                    { title: 'Day', dataIndex: 'day', key: 'day', width: 110 },
+                                    { title: 'Active users', dataIndex: 'activeUsers', key: 'activeUsers', width: 100 },
+                                    {
+                                        title: 'Questions', dataIndex: 'questions', key: 'questions',
+                                        render: (value: number) => (
+                                            <div className="flex items-center gap-2">
+                                                <div className="h-2 bg-blue-500 rounded" style={{ width: `${(value / busiestDay) * 100}%`, minWidth: 2 }} />
+                                                <span>{value}</span>
+                                            </div>
+                                        ),
+                                    },
+                                    { title: 'Failed', dataIndex: 'failed', key: 'failed', width: 70 },
+                                ]}
+                            />
+                        </Card>
+
+                        <Card title="Response types" size="small">
+                            {overview.responseTypes.length === 0 && <Text type="secondary">No questions in this period.</Text>}
+                            {overview.responseTypes.map(entry => (
+                                <div key={entry.type} className="flex items-center gap-3">
+                                    <Tag color={entry.type === 'error' ? 'red' : 'blue'} className="w-24 text-center">{entry.type}</Tag>
+                                    <Progress percent={Math.round(entry.share * 1000) / 10} size="small" status={entry.type === 'error' ? 'exception' : 'normal'} className="flex-grow !mb-0" />
+                                    <Text type="secondary" className="w-12 text-right">{entry.count}</Text>
+                                </div>
+                            ))}
+                        </Card>
+
+                        <Card title="Providers" size="small" extra={<Text type="secondary" className="text-xs">{overview.fallback.fellBack} of {overview.fallback.requests} requests fell back, {overview.fallback.allFailed} failed everywhere</Text>}>
+                            <Table
+                                size="small"
+                                rowKey="provider"
+                                pagination={false}
+                                dataSource={overview.providers}
+                                columns={[
+                                    { title: 'Provider', dataIndex: 'provider', key: 'provider' },
+                                    { title: 'Calls', dataIndex: 'calls', key: 'calls' },
+                                    { title: 'Answered', dataIndex: 'answered', key: 'answered' },
+                                    { title: 'Failure rate', dataIndex: 'failureRate', key: 'failureRate', render: (value: number) => percent(value) },
+                                    { title: 'Skipped', dataIndex: 'skipped', key: 'skipped' },
+                                    { title: 'Avg latency', dataIndex: 'avgDurationMs', key: 'avgDurationMs', render: (value: number | null) => value === null ? '–' : `${(value / 1000).toFixed(1)} s` },
+                                ]}
+                            />
+                        </Card>
+
+                        <Card title="Error codes" size="small">
+                            <Table
+                                size="small"
+                                rowKey="code"
+                                pagination={{ pageSize: 10, hideOnSinglePage: true }}
+                                dataSource={overview.errorCodes}
+                                columns={[
+                                    { title: 'Code', dataIndex: 'code', key: 'code', render: (value: string) => <Text code>E:{value}</Text> },
+                                    { title: 'Requests', dataIndex: 'requests', key: 'requests' },
+                                ]}
+                            />
+                        </Card>
+                    </div>
+                </>
+            )}
+
+            {questions && (
+                <div className="grid grid-cols-1 gap-4">
+                    <Card title="Most asked questions" size="small">
+                        <Table size="small" rowKey="question" pagination={false} dataSource={questions.top} columns={questionColumns} />
+                    </Card>
+                    <Card title="Most often unanswered" size="small">
+                        <Table size="small" rowKey="question" pagination={false} dataSource={questions.unanswered} columns={questionColumns} />
+                    </Card>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default AdminDashboard;
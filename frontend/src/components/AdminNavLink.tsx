@@ -0,0 +1,37 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from 'antd';
+import { DashboardOutlined, MessageOutlined } from '@ant-design/icons';
+import { Link, useLocation } from 'react-router-dom';
+import axios from 'axios';
+import { config } from '../config';
+import { useAppAuth } from '../utils/auth';
+
+const backendUrl = config.apiBaseUrl;
+
+// Header link between the chat and the admin dashboard, shown only to users the backend treats as admins (GET /api/me)
+const AdminNavLink: React.FC = () => {
+    const { getToken } = useAppAuth();
+    const location = useLocation();
+    const [admin, setAdmin] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        (async () => {
+            try {
+                const token = await getToken();
+                const response = await axios.get<{ admin: boolean }>(`${backendUrl}/me`, { headers: token ? { Authorization: `Bearer ${token}` } : {} });
+                if (!cancelled) setAdmin(response.data.admin);
+            } catch (err) {
+                console.error("Error checking admin access:", err);
+            }
+        })();
+        return () => { cancelled = true; };
+    }, [getToken]);
+
+    if (!admin) return null;
+    return location.pathname.startsWith('/admin')
+        ? <Link to="/"><Button type="text" icon={<MessageOutlined />}>Chat</Button></Link>
+        : <Link to="/admin"><Button type="text" icon={<DashboardOutlined />}>Admin</Button></Link>;
+};
+
+export default AdminNavLink;
@@ -0,0 +1,176 @@
+import React from 'react';
+import { Button, List, Typography, Table, Steps, Tooltip } from 'antd';
+import { InfoCircleOutlined, ExclamationCircleFilled, WarningOutlined } from '@ant-design/icons';
+import { splitSentences, type LLMStructuredResponse } from '../utils/llmResponse';
+import { type SectionTarget } from './KnowledgePanel';
+
+const { Text, Paragraph, Title } = Typography;
+
+interface AnswerContentProps {
+    content: LLMStructuredResponse;
+    onOpenSource?: (target: SectionTarget) => void; // Without it the source is shown as plain text
+}
+
+// Renders a bot answer of any response type. Used by the chat, the history drawer and shared answer pages.
+const AnswerContent: React.FC<AnswerContentProps> = ({ content, onOpenSource }) => {
+    // Opens the cited section with the passages the answer was grounded on highlighted
+    const groundedQuotes = content.type !== 'error' ? content.grounding?.claims.flatMap(claim => claim.grounded && claim.quote ? [claim.quote] : []) ?? [] : [];
+    const renderSource = (sourceId?: string | null, sourceTitle?: string | null) => {
+        if (sourceTitle && sourceId && onOpenSource) {
+            return (
+                <Text italic type="secondary" className="block mt-2 text-xs">
+                    (Source: <Button type="link" size="small" className="!p-0 !h-auto !text-xs italic" onClick={() => onOpenSource({ sectionId: sourceId, quotes: groundedQuotes })}>{sourceTitle}</Button>)
+                </Text>
+            );
+        }
+        if (sourceTitle) {
+            return (
+                <Text italic type="secondary" className="block mt-2 text-xs">
+                    (Source: {sourceTitle})
+                </Text>
+            );
+        }
+        return null;
+    };
+
+    // Claims the backend couldn't back with a quote from the guide (see shared/answerClaims.ts for the targets)
+    const unsupported = new Set(content.type !== 'error' ? content.grounding?.claims.filter(claim => !claim.grounded).map(claim => claim.target) : []);
+    const unsupportedHint = "Not found in the guide";
+    const renderSentences = (field: string, text: string) => splitSentences(text).map((sentence, index) =>
+        unsupported.has(`${field}.${index}`)
+            ? <Tooltip key={index} title={unsupportedHint}><span className="bg-orange-50 underline decoration-dotted decoration-orange-400">{sentence}</span></Tooltip>
+            : <React.Fragment key={index}>{sentence}</React.Fragment>
+    );
+    const renderUnsupportedMark = (target: string) => unsupported.has(target)
+        ? <Tooltip title={unsupportedHint}><WarningOutlined className="text-orange-400 ml-1" /></Tooltip>
+        : null;
+    const renderGroundingNote = () => unsupported.size > 0
+        ? <Text type="warning" className="block mt-1 text-xs">Parts marked in orange could not be verified in the guide.</Text>
+        : null;
+
+    switch (content.type) {
+        case "text":
+            return (
+                <>
+                    <Paragraph className="whitespace-pre-wrap my-1">{content.answer ? renderSentences('answer', content.answer) : "No answer text provided."}</Paragraph>
+                    {content.follow_up && <Text italic type="secondary" className="block mt-1 text-sm">{content.follow_up}</Text>}
+                    {renderGroundingNote()}
+                    {renderSource(content.source_section_id, content.source_section_title)}
+                </>
+            );
+        case "list":
+            return (
+                <div className="space-y-1">
+                    <Title level={5} className="!mb-1.5 !mt-0">{content.title || "List"}</Title>
+                    {content.items && content.items.length > 0 ? (
+                        <List
+                            size="small"
+                            dataSource={content.items}
+                            renderItem={(item, index) => (
+                                <List.Item key={index} className="!py-0.5 !px-0 border-none">
+                                    <List.Item.Meta
+                                        avatar={<InfoCircleOutlined className="text-blue-500 mt-0.5" />}
+                                        title={<><Text strong className="text-sm">{item.point || "N/A"}</Text>{renderUnsupportedMark(`items.${index}`)}</>}
+                                        description={<Paragraph className="!mb-0 whitespace-pre-wrap text-xs">{item.detail || "No detail."}</Paragraph>}
+                                    />
+                                </List.Item>
+                            )}
+                            className="bg-gray-50 p-2 rounded-md"
+                        />
+                    ) : <Paragraph type="secondary" className="text-xs">This list is empty.</Paragraph>}
+                    {content.follow_up && <Text italic type="secondary" className="block mt-1 text-sm">{content.follow_up}</Text>}
+                    {renderGroundingNote()}
+                    {renderSource(content.source_section_id, content.source_section_title)}
+                </div>
+            );
+        case "table":
+            return (
+                <div className="space-y-1">
+                    <Title level={5} className="!mb-1.5 !mt-0">{content.title || "Table"}</Title>
+                    <Table
+                        size="small"
+                        pagination={false}
+                        scroll={{ x: true }}
+                        rowKey="key"
+                        rowClassName={(row) => unsupported.has(`rows.${row.key}`) ? 'bg-orange-50' : ''}
+                        columns={content.columns.map((heading, columnIndex) => ({ title: heading, dataIndex: String(columnIndex), key: String(columnIndex) }))}
+                        dataSource={content.rows.map((row, rowIndex) => ({ key: rowIndex, ...Object.fromEntries(row.map((cell, columnIndex) => [String(columnIndex), cell])) }))}
+                        className="text-xs"
+                    />
+                    {content.follow_up && <Text italic type="secondary" className="block mt-1 text-sm">{content.follow_up}</Text>}
+                    {renderGroundingNote()}
+                    {renderSource(content.source_section_id, content.source_section_title)}
+                </div>
+            );
+        case "steps":
+            return (
+                <div className="space-y-1">
+                    <Title level={5} className="!mb-1.5 !mt-0">{content.title || "Steps"}</Title>
+                    <Steps
+                        direction="vertical"
+                        size="small"
+                        className="bg-gray-50 p-2 rounded-md"
+                        items={content.steps.map((step, stepIndex) => ({
+                            status: 'process' as const,
+                            title: <><Text strong className="text-sm">{step.title}</Text>{renderUnsupportedMark(`steps.${stepIndex}`)}</>,
+                            description: (
+                                <>
+                                    <Paragraph className="!mb-0 whitespace-pre-wrap text-xs">{step.detail}</Paragraph>
+                                    {step.sub_points && step.sub_points.length > 0 && (
+                                        <ul className="list-disc pl-4 mt-1 mb-0 text-xs text-gray-600">
+                                            {step.sub_points.map((point, pointIndex) => <li key={pointIndex}>{point}</li>)}
+                                        </ul>
+                                    )}
+                                </>
+                            ),
+                        }))}
+                    />
+                    {content.follow_up && <Text italic type="secondary" className="block mt-1 text-sm">{content.follow_up}</Text>}
+                    {renderGroundingNote()}
+                    {renderSource(content.source_section_id, content.source_section_title)}
+                </div>
+            );
+        case "comparison":
+            // Options become columns and criteria rows, so each option can be read top to bottom
+            return (
+                <div className="space-y-1">
+                    <Title level={5} className="!mb-1.5 !mt-0">{content.title || "Comparison"}</Title>
+                    <Table
+                        size="small"
+                        pagination={false}
+                        scroll={{ x: true }}
+                        rowKey="key"
+                        rowClassName={(row) => unsupported.has(`criteria.${row.key}`) ? 'bg-orange-50' : ''}
+                        columns={[
+                            { title: '', dataIndex: 'criterion', key: 'criterion', render: (criterion: string) => <Text strong className="text-xs">{criterion}</Text> },
+                            ...content.options.map((option, optionIndex) => ({ title: option, dataIndex: String(optionIndex), key: String(optionIndex) })),
+                        ]}
+                        dataSource={content.criteria.map((criterion, criterionIndex) => ({
+                            key: criterionIndex,
+                            criterion: criterion.criterion,
+                            ...Object.fromEntries(criterion.values.map((value, optionIndex) => [String(optionIndex), value])),
+                        }))}
+                        className="text-xs"
+                    />
+                    {content.summary && <Paragraph className="whitespace-pre-wrap my-1">{renderSentences('summary', content.summary)}</Paragraph>}
+                    {content.follow_up && <Text italic type="secondary" className="block mt-1 text-sm">{content.follow_up}</Text>}
+                    {renderGroundingNote()}
+                    {renderSource(content.source_section_id, content.source_section_title)}
+                </div>
+            );
+        case "error":
+             return (
+                <div className="flex items-center">
+                    <ExclamationCircleFilled className="text-red-500 mr-2 shrink-0" />
+                    <Paragraph className="text-red-600 whitespace-pre-wrap my-1 !mb-0">{content.message || "An unknown error occurred."}</Paragraph>
+                </div>
+            );
+        default:
+            // @ts-expect-error content might be an unexpected type if logic error
+            const unknownType = content?.type;
+            console.warn("AnswerContent: Encountered unknown bot message content type:", unknownType, "Full content:", content);
+            return <Paragraph className="whitespace-pre-wrap my-1 text-orange-600">Received content in an unexpected format (type: {unknownType === undefined ? "undefined" : String(unknownType)}).</Paragraph>;
+    }
+};
+
+export default AnswerContent;
@@ -0,0 +1,28 @@
+import React from 'react';
+import { SignIn } from '@clerk/clerk-react';
+import { useAppAuth } from '../utils/auth';
+import DevSignIn from './DevSignIn';
+
+interface AuthGateProps {
+    children: React.ReactNode;
+    signedOut?: React.ReactNode;  // Shown above the sign-in form
+    showSignIn?: boolean;         // false renders nothing for signed-out users
+    afterSignInUrl?: string;
+}
+
+// Renders its children for signed-in users, otherwise the sign-in form of the configured auth mode
+const AuthGate: React.FC<AuthGateProps> = ({ children, signedOut, showSignIn = true, afterSignInUrl = '/' }) => {
+    const { mode, isSignedIn } = useAppAuth();
+    if (isSignedIn) return <>{children}</>;
+    if (!showSignIn) return null;
+    return (
+        <div className="text-center p-10 max-w-md mx-auto">
+            {signedOut}
+            {mode === 'clerk'
+                ? <SignIn afterSignInUrl={afterSignInUrl} afterSignUpUrl={afterSignInUrl} />
+                : <DevSignIn />}
+        </div>
+    );
+};
+
+export default AuthGate;
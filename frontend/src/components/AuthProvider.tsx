@@ -0,0 +1,77 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { ClerkProvider, useAuth } from '@clerk/clerk-react';
+import { config } from '../config';
+import { AuthContext, type AppAuth, type DevSession } from '../utils/auth';
+
+const DEV_SESSION_KEY = 'devAuthSession';
+
+// Exposes Clerk's session through the app's auth context
+const ClerkAuthBridge: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const { getToken, isSignedIn, userId, orgId, signOut } = useAuth();
+    const value = useMemo<AppAuth>(() => ({
+        mode: 'clerk',
+        isSignedIn: !!isSignedIn,
+        userId: userId ?? null,
+        orgId: orgId ?? null,
+        getToken: () => getToken(),
+        signOut: () => { signOut(); },
+        devSignIn: null,
+    }), [getToken, isSignedIn, userId, orgId, signOut]);
+    return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+function readDevSession(): DevSession | null {
+    try {
+        const session = JSON.parse(localStorage.getItem(DEV_SESSION_KEY) ?? 'null') as DevSession | null;
+        return session && new Date(session.expiresAt).getTime() > Date.now() ? session : null;
+    } catch {
+        return null;
+    }
+}
+
+// Dev sign-in: the token from the backend is kept in localStorage until it expires or the user signs out
+const DevAuthBridge: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const [session, setSession] = useState<DevSession | null>(readDevSession);
+
+    const signOut = useCallback(() => {
+        localStorage.removeItem(DEV_SESSION_KEY);
+        setSession(null);
+    }, []);
+
+    const devSignIn = useCallback((next: DevSession) => {
+        localStorage.setItem(DEV_SESSION_KEY, JSON.stringify(next));
+        setSession(next);
+    }, []);
+
+    const getToken = useCallback(async () => {
+        if (!session) return null;
+        if (new Date(session.expiresAt).getTime() <= Date.now()) {
+            signOut();
+            return null;
+        }
+        return session.token;
+    }, [session, signOut]);
+
+    const value = useMemo<AppAuth>(() => ({
+        mode: 'dev',
+        isSignedIn: !!session,
+        userId: session?.userId ?? null,
+        orgId: session?.orgId ?? null,
+        getToken,
+        signOut,
+        devSignIn,
+    }), [session, getToken, signOut, devSignIn]);
+    return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+// Provides useAppAuth() for the sign-in configured in config.authMode
+const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    if (config.authMode === 'dev') return <DevAuthBridge>{children}</DevAuthBridge>;
+    return (
+        <ClerkProvider publishableKey={config.clerkPublishableKey}>
+            <ClerkAuthBridge>{children}</ClerkAuthBridge>
+        </ClerkProvider>
+    );
+};
+
+export default AuthProvider;
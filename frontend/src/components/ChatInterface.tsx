@@ -1,72 +1,167 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Input, Button, List, Avatar, Spin, Alert, Card, Typography, Tag, Drawer, Empty, Divider } from 'antd';
-import { SendOutlined, RobotOutlined, UserOutlined, LoadingOutlined, QuestionCircleOutlined, InfoCircleOutlined, ExclamationCircleFilled, HistoryOutlined, CloseOutlined } from '@ant-design/icons';
+import { Input, Button, Avatar, Spin, Alert, Card, Typography, Tag, message as antdMessage } from 'antd';
+import { SendOutlined, RobotOutlined, UserOutlined, LoadingOutlined, QuestionCircleOutlined, HistoryOutlined, BookOutlined } from '@ant-design/icons';
 import axios, { AxiosError } from 'axios';
-import { useAuth } from "@clerk/clerk-react";
+import ThreadSidebar, { type Conversation } from './ThreadSidebar';
+import HistoryDrawer from './HistoryDrawer';
+import KnowledgePanel, { type SectionTarget } from './KnowledgePanel';
+import AnswerContent from './AnswerContent';
+import FeedbackControls, { type AnswerFeedback } from './FeedbackControls';
+import ShareControls from './ShareControls';
+import { streamAsk, extractPreviewText, StreamRequestError, type StreamProgress } from '../utils/askStream';
+import { validateLLMResponse, toDisplayableResponse, type LLMStructuredResponse, type LLMErrorResponse } from '../utils/llmResponse';
+import { config } from '../config';
+import { useAppAuth } from '../utils/auth';
 
 const { TextArea } = Input;
 const { Text, Paragraph, Title } = Typography; // Removed AntLink as it was unused
 
-// --- Type Definitions (MUST match backend EXACTLY for LLM responses) ---
-interface LLMBaseResponse {
-    follow_up?: string | null;
-    source_section_id?: string | null;
-    source_section_title?: string | null;
-}
-
-interface LLMTextResponse extends LLMBaseResponse {
-    type: "text";
-    answer: string;
-}
-
-interface LLMListItem {
-    point: string;
-    detail: string;
-}
-interface LLMListResponse extends LLMBaseResponse {
-    type: "list";
-    title: string;
-    items: LLMListItem[];
-}
-
-interface LLMErrorResponse {
-    type: "error";
-    message: string;
-}
-
-type LLMStructuredResponse = LLMTextResponse | LLMListResponse | LLMErrorResponse;
-
+// --- Type Definitions (LLM responses come from the shared schema, see utils/llmResponse) ---
 interface Message {
   id: string;
   sender: 'user' | 'bot';
   content: LLMStructuredResponse | string;
   isProcessing?: boolean;
+  streamedRaw?: string; // Raw JSON received so far while the answer streams in
+  progressLabel?: string;
+  historyId?: string | null; // Saved QAHistory entry; only saved answers can be rated
+  feedback?: AnswerFeedback | null;
+}
+
+const progressLabels: Record<StreamProgress['stage'], string> = {
+  retrieving: 'Searching the guide...',
+  generating: 'Writing an answer...',
+  validating: 'Checking the answer...',
+  verifying: 'Checking the answer against the guide...',
+};
+
+// GET /api/usage; limits are null when the user's tier has none
+interface UsageStatus {
+    tier: string;
+    daily: { limit: number | null; used: number; remaining: number | null; resetsAt: string };
 }
 
 interface QAHistoryItem {
     _id: string;
     userId: string; // userId from Clerk was declared but not used in ChatInterface, keeping it here as it's part of the data model
+    conversationId?: string | null;
     question: string;
-    llmResponse: LLMStructuredResponse;
+    llmResponse: unknown; // Validated before display, see toDisplayableResponse
+    feedback?: AnswerFeedback | null;
+    visibility?: 'private' | 'org'; // 'org': shared with the organization it was asked in
     timestamp: string;
 }
 // --- End Type Definitions ---
 
+// Turns the stored Q&A entries of a thread back into chat bubbles
+const historyToMessages = (items: QAHistoryItem[]): Message[] =>
+    items.flatMap(item => [
+        { id: `${item._id}-user`, sender: 'user' as const, content: item.question },
+        { id: `${item._id}-bot`, sender: 'bot' as const, content: toDisplayableResponse(item.llmResponse), historyId: item._id, feedback: item.feedback },
+    ]);
+
 const ChatInterface: React.FC = () => {
   const [question, setQuestion] = useState<string>('');
   const [messages, setMessages] = useState<Message[]>([]);
   const [isSending, setIsSending] = useState<boolean>(false);
   const [globalError, setGlobalError] = useState<string | null>(null);
-  const { getToken, isSignedIn } = useAuth(); // Removed userId as it was unused in this component directly
+  const { getToken, isSignedIn } = useAppAuth(); // Removed userId as it was unused in this component directly
   const chatContainerRef = useRef<HTMLDivElement>(null);
   const lastMessageRef = useRef<HTMLDivElement>(null);
 
   const [historyDrawerVisible, setHistoryDrawerVisible] = useState(false);
-  const [historyItems, setHistoryItems] = useState<QAHistoryItem[]>([]);
-  const [historyLoading, setHistoryLoading] = useState(false);
-  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [knowledgePanelVisible, setKnowledgePanelVisible] = useState(false);
+  const [knowledgeTarget, setKnowledgeTarget] = useState<SectionTarget | null>(null);
+
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [conversationsLoading, setConversationsLoading] = useState(false);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  const [threadLoading, setThreadLoading] = useState(false);
+  const [usage, setUsage] = useState<UsageStatus | null>(null);
+
+  const backendUrl = config.apiBaseUrl;
 
-  const backendUrl = 'https://backend-phi-one-82.vercel.app/api';
+  const authHeaders = useCallback(async () => {
+    const token = await getToken();
+    if (!token) throw new Error("Authentication error: Token unavailable. Please sign in again.");
+    return { Authorization: `Bearer ${token}` };
+  }, [getToken]);
+
+  const fetchConversations = useCallback(async () => {
+    if (!isSignedIn) return;
+    setConversationsLoading(true);
+    try {
+        const response = await axios.get<Conversation[]>(`${backendUrl}/conversations`, { headers: await authHeaders() });
+        setConversations(response.data);
+    } catch (err) {
+        console.error("Error fetching conversations:", err);
+        setGlobalError("Failed to load conversations.");
+    } finally {
+        setConversationsLoading(false);
+    }
+  }, [isSignedIn, authHeaders, backendUrl]);
+
+  useEffect(() => {
+    fetchConversations();
+  }, [fetchConversations]);
+
+  const fetchUsage = useCallback(async () => {
+    if (!isSignedIn) return;
+    try {
+        const response = await axios.get<UsageStatus>(`${backendUrl}/usage`, { headers: await authHeaders() });
+        setUsage(response.data);
+    } catch (err) {
+        console.error("Error fetching usage:", err); // Only the quota hint is missing; asking still works
+    }
+  }, [isSignedIn, authHeaders, backendUrl]);
+
+  useEffect(() => {
+    fetchUsage();
+  }, [fetchUsage]);
+
+  const selectConversation = async (conversationId: string) => {
+    setActiveConversationId(conversationId);
+    setMessages([]);
+    setGlobalError(null);
+    setThreadLoading(true);
+    try {
+        const response = await axios.get<QAHistoryItem[]>(`${backendUrl}/conversations/${conversationId}/messages`, { headers: await authHeaders() });
+        setMessages(historyToMessages(response.data));
+    } catch (err) {
+        console.error("Error loading conversation:", err);
+        setGlobalError("Failed to load this conversation.");
+    } finally {
+        setThreadLoading(false);
+    }
+  };
+
+  // The thread itself is only created when its first question is sent
+  const startNewConversation = () => {
+    setActiveConversationId(null);
+    setMessages([]);
+    setGlobalError(null);
+  };
+
+  const renameConversation = async (conversationId: string, title: string) => {
+    try {
+        const response = await axios.patch<Conversation>(`${backendUrl}/conversations/${conversationId}`, { title }, { headers: await authHeaders() });
+        setConversations(prev => prev.map(c => c._id === conversationId ? response.data : c));
+    } catch (err) {
+        console.error("Error renaming conversation:", err);
+        antdMessage.error("Failed to rename conversation.");
+    }
+  };
+
+  const deleteConversation = async (conversationId: string) => {
+    try {
+        await axios.delete(`${backendUrl}/conversations/${conversationId}`, { headers: await authHeaders() });
+        setConversations(prev => prev.filter(c => c._id !== conversationId));
+        if (conversationId === activeConversationId) startNewConversation();
+    } catch (err) {
+        console.error("Error deleting conversation:", err);
+        antdMessage.error("Failed to delete conversation.");
+    }
+  };
 
   useEffect(() => {
     if (lastMessageRef.current) {
@@ -109,30 +204,53 @@ const ChatInterface: React.FC = () => {
     setQuestion('');
 
     try {
-      const token = await getToken();
-      if (!token) throw new Error("Authentication error: Token unavailable. Please sign in again.");
-
-      const response = await axios.post<LLMStructuredResponse>(
-        `${backendUrl}/ask`,
-        { question: currentQuestion },
-        { headers: { Authorization: `Bearer ${token}` } }
-      );
+      const headers = await authHeaders();
 
-      if (response.data && typeof response.data === 'object' && response.data.hasOwnProperty('type')) {
-        setMessages(prev => prev.map(msg =>
-          msg.id === botTypingMessageId
-            ? { ...msg, content: response.data, isProcessing: false }
-            : msg
-        ));
-      } else {
-        console.error("[Frontend Error] Backend returned unexpected data structure. Full response:", response);
-        throw new Error(`Received an improperly formatted response from the server. (FE01)`);
+      let conversationId = activeConversationId;
+      if (!conversationId) {
+        const created = await axios.post<Conversation>(`${backendUrl}/conversations`, {}, { headers });
+        conversationId = created.data._id;
+        setActiveConversationId(conversationId);
+        setConversations(prev => [created.data, ...prev]);
       }
+
+      const updateBotMessage = (update: (msg: Message) => Partial<Message>) =>
+        setMessages(prev => prev.map(msg => msg.id === botTypingMessageId ? { ...msg, ...update(msg) } : msg));
+
+      await streamAsk<unknown>(
+        `${backendUrl}/ask/stream`,
+        { question: currentQuestion, conversationId },
+        headers,
+        {
+          onProgress: (progress) => updateBotMessage(() => ({
+            progressLabel: progress.provider && progress.stage === 'generating' ? `${progressLabels.generating} (${progress.provider})` : progressLabels[progress.stage],
+            // A provider starting over (e.g. the fallback) means earlier partial text is stale
+            ...(progress.stage === 'generating' ? { streamedRaw: '' } : {}),
+          })),
+          onToken: (text) => updateBotMessage(msg => ({ streamedRaw: (msg.streamedRaw ?? '') + text })),
+          onMetadata: (metadata) => updateBotMessage(() => ({ historyId: metadata.historyId })),
+          onFinal: (finalResponse) => {
+            const validation = validateLLMResponse(finalResponse);
+            if (!validation.valid) {
+              console.error("[Frontend Error] Backend returned unexpected data structure:", validation.errors, "Final event:", finalResponse);
+              throw new Error(`Received an improperly formatted response from the server. (FE01)`);
+            }
+            updateBotMessage(() => ({ content: validation.value, isProcessing: false, streamedRaw: undefined, progressLabel: undefined }));
+          },
+        }
+      );
+      // The backend names new threads after their first question and bumps updatedAt
+      fetchConversations();
     } catch (err: any) {
       console.error("[Frontend Error] Error in handleSubmit:", err.isAxiosError ? err.toJSON() : err);
       let errorMessage = 'An unexpected error occurred. Please try again. (FE02)';
       if (err.message?.startsWith("Authentication error:") || err.message?.startsWith("Received an improperly formatted response")) {
           errorMessage = err.message;
+      } else if (err instanceof StreamRequestError) {
+          errorMessage = err.message;
+      } else if (err instanceof TypeError) {
+          // fetch() rejects with a TypeError when the server can't be reached
+          errorMessage = "Cannot reach server. Check your internet connection or if the backend is running. (FE_STREQ)";
       } else if (axios.isAxiosError(err as AxiosError)) {
         const axiosError = err as AxiosError<any>;
         if (axiosError.response) {
@@ -150,109 +268,34 @@ const ChatInterface: React.FC = () => {
       setGlobalError(errorMessage);
       setMessages(prev => prev.map(msg =>
         msg.id === botTypingMessageId
-          ? { ...msg, content: { type: "error", message: errorMessage } as LLMErrorResponse, isProcessing: false }
+          ? { ...msg, content: { type: "error", message: errorMessage } as LLMErrorResponse, isProcessing: false, streamedRaw: undefined, progressLabel: undefined }
           : msg
       ));
     } finally {
       setIsSending(false);
+      fetchUsage();
     }
   };
 
-  const fetchHistory = useCallback(async () => {
-    if (!isSignedIn) {
-        setHistoryError("Please sign in to view history.");
-        return;
-    }
-    setHistoryLoading(true);
-    setHistoryError(null);
-    try {
-        const token = await getToken();
-        if (!token) throw new Error("Authentication token not available.");
-
-        const response = await axios.get<QAHistoryItem[]>(`${backendUrl}/history`, {
-            headers: { Authorization: `Bearer ${token}` },
-        });
-        setHistoryItems(response.data);
-    } catch (err) {
-        console.error("Error fetching history:", err);
-        let msg = "Failed to load history.";
-        if (axios.isAxiosError(err) && (err as AxiosError<any>).response?.data?.message) { // Type assertion
-            msg = (err as AxiosError<any>).response!.data.message;
-        }
-        setHistoryError(msg);
-    } finally {
-        setHistoryLoading(false);
-    }
-  }, [isSignedIn, getToken, backendUrl]);
-
-
-  const showHistoryDrawer = () => {
-    setHistoryDrawerVisible(true);
-    fetchHistory();
-  };
-
-  const closeHistoryDrawer = () => {
-    setHistoryDrawerVisible(false);
+  const openKnowledgePanel = (target: SectionTarget | null) => {
+    setKnowledgeTarget(target);
+    setKnowledgePanelVisible(true);
   };
 
-  const renderBotMessageContent = (content: LLMStructuredResponse) => {
-    const renderSource = (sourceTitle?: string | null) => {
-        if (sourceTitle) {
-            return (
-                <Text italic type="secondary" className="block mt-2 text-xs">
-                    (Source: {sourceTitle})
-                </Text>
-            );
-        }
-        return null;
-    };
+  const renderBotMessageContent = (content: LLMStructuredResponse) => <AnswerContent content={content} onOpenSource={openKnowledgePanel} />;
 
-    switch (content.type) {
-        case "text":
-            return (
-                <>
-                    <Paragraph className="whitespace-pre-wrap my-1">{content.answer || "No answer text provided."}</Paragraph>
-                    {content.follow_up && <Text italic type="secondary" className="block mt-1 text-sm">{content.follow_up}</Text>}
-                    {renderSource(content.source_section_title)}
-                </>
-            );
-        case "list":
-            return (
-                <div className="space-y-1">
-                    <Title level={5} className="!mb-1.5 !mt-0">{content.title || "List"}</Title>
-                    {content.items && content.items.length > 0 ? (
-                        <List
-                            size="small"
-                            dataSource={content.items}
-                            renderItem={(item, index) => (
-                                <List.Item key={index} className="!py-0.5 !px-0 border-none">
-                                    <List.Item.Meta
-                                        avatar={<InfoCircleOutlined className="text-blue-500 mt-0.5" />}
-                                        title={<Text strong className="text-sm">{item.point || "N/A"}</Text>}
-                                        description={<Paragraph className="!mb-0 whitespace-pre-wrap text-xs">{item.detail || "No detail."}</Paragraph>}
-                                    />
-                                </List.Item>
-                            )}
-                            className="bg-gray-50 p-2 rounded-md"
-                        />
-                    ) : <Paragraph type="secondary" className="text-xs">This list is empty.</Paragraph>}
-                    {content.follow_up && <Text italic type="secondary" className="block mt-1 text-sm">{content.follow_up}</Text>}
-                    {renderSource(content.source_section_title)}
-                </div>
-            );
-        case "error":
-             return (
-                <div className="flex items-center">
-                    <ExclamationCircleFilled className="text-red-500 mr-2 shrink-0" />
-                    <Paragraph className="text-red-600 whitespace-pre-wrap my-1 !mb-0">{content.message || "An unknown error occurred."}</Paragraph>
-                </div>
-            );
-        default:
-            // @ts-expect-error content might be an unexpected type if logic error
-            const unknownType = content?.type;
-            console.warn("renderBotMessageContent: Encountered unknown bot message content type:", unknownType, "Full content:", content);
-            return <Paragraph className="whitespace-pre-wrap my-1 text-orange-600">Received content in an unexpected format (type: {unknownType === undefined ? "undefined" : String(unknownType)}).</Paragraph>;
-    }
+  // While streaming, show the readable part of the partial JSON; the structured rendering replaces it on "final"
+  const renderStreamingContent = (item: Message) => {
+    const previewText = item.streamedRaw ? extractPreviewText(item.streamedRaw) : '';
+    return (
+        <div>
+            {previewText && <Paragraph className="whitespace-pre-wrap my-1">{previewText}</Paragraph>}
+            <div className="flex items-center gap-2">
+                <Spin indicator={<LoadingOutlined style={{ fontSize: 16 }} spin />} />
+                {item.progressLabel && <Text type="secondary" className="text-xs">{item.progressLabel}</Text>}
+            </div>
+        </div>
+    );
   };
 
   const exampleQuestions: string[] = [ // Explicitly typed as string[]
@@ -266,15 +309,31 @@ const ChatInterface: React.FC = () => {
   ];
 
   return (
-    <div className="w-full max-w-3xl mx-auto p-4 md:p-6 h-[calc(100vh-80px)] flex flex-col">
+    <div className="w-full max-w-5xl mx-auto p-4 md:p-6 h-[calc(100vh-80px)] flex gap-4">
+      <ThreadSidebar
+        conversations={conversations}
+        activeConversationId={activeConversationId}
+        loading={conversationsLoading}
+        disabled={isSending}
+        onSelect={selectConversation}
+        onNew={startNewConversation}
+        onRename={renameConversation}
+        onDelete={deleteConversation}
+      />
       <Card
         title={<Title level={3} className="text-center !mb-0">Fundraising Q&A Bot</Title>}
-        extra={isSignedIn && <Button icon={<HistoryOutlined />} onClick={showHistoryDrawer}>History</Button>}
+        extra={isSignedIn && (
+          <div className="flex gap-2">
+            <Button icon={<BookOutlined />} onClick={() => openKnowledgePanel(null)}>Guide</Button>
+            <Button icon={<HistoryOutlined />} onClick={() => setHistoryDrawerVisible(true)}>History</Button>
+          </div>
+        )}
         className="flex-grow flex flex-col shadow-xl overflow-hidden"
         bodyStyle={{ padding: 0, display: 'flex', flexDirection: 'column', flexGrow: 1, overflow: 'hidden' }}
       >
         <div ref={chatContainerRef} className="flex-grow overflow-y-auto p-4 space-y-4 bg-gray-50">
-          {messages.length === 0 && !isSending && (
+          {threadLoading && <div className="text-center p-10"><Spin /></div>}
+          {messages.length === 0 && !isSending && !threadLoading && (
             <div className="text-center text-gray-500 py-10 flex flex-col items-center justify-center h-full">
                  <QuestionCircleOutlined style={{ fontSize: '48px', color: '#9ca3af' }} className="mb-4" />
                  <Title level={4} className="text-gray-700">Ask about the fundraising guide!</Title>
@@ -302,7 +361,19 @@ const ChatInterface: React.FC = () => {
                 <div key={item.id} ref={isLastMessage ? lastMessageRef : null} className="flex items-start gap-2.5 justify-start">
                   <Avatar icon={<RobotOutlined />} className="bg-blue-500 self-start shrink-0 !flex !items-center !justify-center mt-1" />
                   <div className={`max-w-[75%] p-3 rounded-xl shadow-sm ${(item.content as LLMStructuredResponse)?.type === "error" ? 'bg-red-50 text-red-700 rounded-bl-none border border-red-200' : 'bg-white text-gray-800 rounded-bl-none border border-gray-200'}`}>
-                    {item.isProcessing ? <Spin indicator={<LoadingOutlined style={{ fontSize: 16 }} spin />} /> : renderBotMessageContent(item.content as LLMStructuredResponse)}
+                    {item.isProcessing ? renderStreamingContent(item) : renderBotMessageContent(item.content as LLMStructuredResponse)}
+                    {!item.isProcessing && item.historyId && (
+                      <div className="flex items-start gap-1">
+                        <FeedbackControls
+                          historyId={item.historyId}
+                          feedback={item.feedback}
+                          backendUrl={backendUrl}
+                          authHeaders={authHeaders}
+                          onChange={(feedback) => setMessages(prev => prev.map(msg => msg.id === item.id ? { ...msg, feedback } : msg))}
+                        />
+                        <ShareControls historyId={item.historyId} backendUrl={backendUrl} authHeaders={authHeaders} />
+                      </div>
+                    )}
                   </div>
                 </div>
               );
@@ -316,49 +387,32 @@ const ChatInterface: React.FC = () => {
             <TextArea value={question} onChange={(e) => setQuestion(e.target.value)} placeholder={isSignedIn ? "Type your question here..." : "Please sign in to ask questions."} autoSize={{ minRows: 1, maxRows: 4 }} onPressEnter={(e) => {if (!e.shiftKey && !isSending && isSignedIn) {e.preventDefault(); handleSubmit();}}} disabled={isSending || !isSignedIn} className="flex-grow"/>
             <Button type="primary" icon={<SendOutlined />} onClick={handleSubmit} loading={isSending} disabled={!question.trim() || isSending || !isSignedIn} size="large">Send</Button>
           </div>
-          <Text type="secondary" className="text-xs mt-2 block text-center">Answers based on the "Raise Millions" guide.</Text>
+          <Text type="secondary" className="text-xs mt-2 block text-center">
+            Answers based on the "Raise Millions" guide.
+            {usage?.daily.limit != null && (
+              <Text type={usage.daily.remaining === 0 ? 'danger' : 'secondary'} className="text-xs ml-1">
+                {usage.daily.remaining} of {usage.daily.limit} questions left today.
+              </Text>
+            )}
+          </Text>
         </div>
       </Card>
 
-      <Drawer
-        title="Q&A History"
-        placement="right"
-        closable={true}
-        onClose={closeHistoryDrawer}
+      <HistoryDrawer<QAHistoryItem>
         open={historyDrawerVisible}
-        width={400}
-        closeIcon={<CloseOutlined />}
-        extra={<Button icon={<HistoryOutlined />} onClick={fetchHistory} loading={historyLoading}>Refresh</Button>}
-      >
-        {historyLoading && <div className="text-center p-10"><Spin size="large" /></div>}
-        {historyError && <Alert message={historyError} type="error" showIcon className="m-4" />}
-        {!historyLoading && !historyError && historyItems.length === 0 && (
-            <Empty description="No history found." className="mt-10" />
-        )}
-        {!historyLoading && !historyError && historyItems.length > 0 && (
-            <List
-                className="p-4"
-                itemLayout="vertical"
-                dataSource={historyItems}
-                renderItem={(item: QAHistoryItem) => (
-                    <List.Item key={item._id} className="mb-3 p-3 border rounded-md shadow-sm bg-white hover:shadow-md transition-shadow">
-                        <Title level={5} className="!text-sm !mb-1 text-blue-600">You asked:</Title>
-                        <Paragraph ellipsis={{ rows: 2, expandable: true, symbol: 'more' }} className="text-gray-700 text-sm mb-2">
-                            {item.question}
-                        </Paragraph>
-                        <Divider className="my-2" />
-                        <Title level={5} className="!text-sm !mb-1 text-green-600">Bot replied:</Title>
-                        <div className="text-sm bg-gray-50 p-2 rounded">
-                           {renderBotMessageContent(item.llmResponse)}
-                        </div>
-                        <Text type="secondary" className="text-xs block mt-2 text-right">
-                            {new Date(item.timestamp).toLocaleString()}
-                        </Text>
-                    </List.Item>
-                )}
-            />
-        )}
-      </Drawer>
+        onClose={() => setHistoryDrawerVisible(false)}
+        backendUrl={backendUrl}
+        authHeaders={authHeaders}
+        renderAnswer={(item) => renderBotMessageContent(toDisplayableResponse(item.llmResponse))}
+      />
+
+      <KnowledgePanel
+        open={knowledgePanelVisible}
+        onClose={() => { setKnowledgePanelVisible(false); setKnowledgeTarget(null); }}
+        target={knowledgeTarget}
+        backendUrl={backendUrl}
+        authHeaders={authHeaders}
+      />
     </div>
   );
 };
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { Alert, Button, Card, Checkbox, Input, Typography } from 'antd';
+import { LoginOutlined } from '@ant-design/icons';
+import axios, { AxiosError } from 'axios';
+import { config } from '../config';
+import { useAppAuth, type DevSession, type Role } from '../utils/auth';
+
+const { Text } = Typography;
+
+const ROLE_OPTIONS: { label: string; value: Role }[] = [
+    { label: 'Organization admin', value: 'org_admin' },
+    { label: 'Admin', value: 'admin' },
+];
+
+// Sign-in without Clerk, for development against a backend running with AUTH_MODE=local.
+// Any user ID, roles and organization are accepted: the backend signs whatever is asked for.
+const DevSignIn: React.FC = () => {
+    const { devSignIn } = useAppAuth();
+    const [userId, setUserId] = useState('');
+    const [orgId, setOrgId] = useState('');
+    const [roles, setRoles] = useState<Role[]>([]);
+    const [signingIn, setSigningIn] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleSignIn = async () => {
+        if (!devSignIn || !userId.trim()) return;
+        setSigningIn(true);
+        setError(null);
+        try {
+            const response = await axios.post<DevSession>(`${config.apiBaseUrl}/auth/dev/token`, { userId: userId.trim(), roles, orgId: orgId.trim() || null });
+            devSignIn(response.data);
+        } catch (err) {
+            console.error("Error signing in:", err);
+            const message = (err as AxiosError<{ message?: string }>).response?.data?.message;
+            setError(message || "Sign-in failed. Is the backend running with AUTH_MODE=local?");
+        } finally {
+            setSigningIn(false);
+        }
+    };
+
+    return (
+        <Card title="Dev sign-in" className="text-left">
+            <Text type="secondary" className="block mb-4">Clerk is not configured. Sign in as any user with a token from the local backend.</Text>
+            {error && <Alert type="error" message={error} showIcon className="mb-4" />}
+            <Input
+                placeholder="User ID, e.g. alice"
+                value={userId}
+                onChange={(e) => setUserId(e.target.value)}
+                onPressEnter={handleSignIn}
+                maxLength={64}
+                className="mb-3"
+            />
+            <Input
+                placeholder="Organization ID (optional), e.g. acme"
+                value={orgId}
+                onChange={(e) => setOrgId(e.target.value)}
+                onPressEnter={handleSignIn}
+                maxLength={64}
+                className="mb-3"
+            />
+            <Checkbox.Group options={ROLE_OPTIONS} value={roles} onChange={(values) => setRoles(values as Role[])} className="mb-4" />
+            <Button type="primary" icon={<LoginOutlined />} onClick={handleSignIn} loading={signingIn} disabled={!userId.trim()} block>
+                Sign in
+            </Button>
+        </Card>
+    );
+};
+
+export default DevSignIn;
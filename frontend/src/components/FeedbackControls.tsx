@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { Button, Input, Popover, Radio, Space, Tooltip, Typography, message as antdMessage } from 'antd';
+import { LikeOutlined, LikeFilled, DislikeOutlined, DislikeFilled } from '@ant-design/icons';
+import axios from 'axios';
+
+const { TextArea } = Input;
+const { Text } = Typography;
+
+export type FeedbackReason = 'not_in_guide' | 'wrong' | 'incomplete' | 'bad_format';
+
+// Matches the feedback stored on a QAHistory entry by PUT /api/feedback/:historyId
+export interface AnswerFeedback {
+    rating: 'up' | 'down';
+    reason?: FeedbackReason | null;
+    comment?: string | null;
+}
+
+const reasonLabels: Record<FeedbackReason, string> = {
+    not_in_guide: 'Not in guide',
+    wrong: 'Wrong',
+    incomplete: 'Incomplete',
+    bad_format: 'Bad format',
+};
+
+interface FeedbackControlsProps {
+    historyId: string;
+    feedback: AnswerFeedback | null | undefined;
+    backendUrl: string;
+    authHeaders: () => Promise<Record<string, string>>;
+    onChange: (feedback: AnswerFeedback | null) => void;
+}
+
+// Thumbs up/down under a bot answer. The rating is saved on click; the popover that opens
+// lets the user add a reason (for thumbs down) and a comment. Clicking the active thumb removes the rating.
+const FeedbackControls: React.FC<FeedbackControlsProps> = ({ historyId, feedback, backendUrl, authHeaders, onChange }) => {
+    const [detailsOpen, setDetailsOpen] = useState(false);
+    const [reason, setReason] = useState<FeedbackReason | null>(feedback?.reason ?? null);
+    const [comment, setComment] = useState(feedback?.comment ?? '');
+    const [saving, setSaving] = useState(false);
+
+    const save = async (next: AnswerFeedback | null) => {
+        setSaving(true);
+        try {
+            const headers = await authHeaders();
+            if (next) {
+                const response = await axios.put<AnswerFeedback>(`${backendUrl}/feedback/${historyId}`, next, { headers });
+                onChange(response.data);
+            } else {
+                await axios.delete(`${backendUrl}/feedback/${historyId}`, { headers });
+                onChange(null);
+            }
+            return true;
+        } catch (err) {
+            console.error("Error saving feedback:", err);
+            antdMessage.error("Failed to save your feedback.");
+            return false;
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const rate = async (rating: 'up' | 'down') => {
+        if (feedback?.rating === rating) {
+            setDetailsOpen(false);
+            await save(null);
+            return;
+        }
+        setReason(null);
+        setComment('');
+        if (await save({ rating })) setDetailsOpen(true);
+    };
+
+    const submitDetails = async () => {
+        if (!feedback) return;
+        if (await save({ rating: feedback.rating, reason: feedback.rating === 'down' ? reason : null, comment: comment.trim() || null })) {
+            setDetailsOpen(false);
+            antdMessage.success("Thanks for your feedback!");
+        }
+    };
+
+    const details = (
+        <div className="w-64 space-y-2">
+            {feedback?.rating === 'down' && (
+                <Radio.Group value={reason} onChange={(e) => setReason(e.target.value)} size="small">
+                    <Space direction="vertical">
+                        {(Object.keys(reasonLabels) as FeedbackReason[]).map(key => (
+                            <Radio key={key} value={key}>{reasonLabels[key]}</Radio>
+                        ))}
+                    </Space>
+                </Radio.Group>
+            )}
+            <TextArea value={comment} onChange={(e) => setComment(e.target.value)} placeholder="Anything else? (optional)" autoSize={{ minRows: 2, maxRows: 4 }} maxLength={2000} />
+            <div className="flex justify-end gap-2">
+                <Button size="small" onClick={() => setDetailsOpen(false)}>Skip</Button>
+                <Button size="small" type="primary" onClick={submitDetails} loading={saving}>Send</Button>
+            </div>
+        </div>
+    );
+
+    return (
+        <div className="flex items-center gap-1 mt-2">
+            <Popover
+                content={details}
+                title={feedback?.rating === 'down' ? "What was wrong?" : "Thanks! Anything to add?"}
+                open={detailsOpen && !!feedback}
+                onOpenChange={(open) => !open && setDetailsOpen(false)}
+                trigger="click"
+                placement="bottomLeft"
+            >
+                <Space size={0}>
+                    <Tooltip title="Helpful">
+                        <Button type="text" size="small" disabled={saving} onClick={() => rate('up')} aria-label="Rate answer helpful"
+                            icon={feedback?.rating === 'up' ? <LikeFilled className="text-green-600" /> : <LikeOutlined />} />
+                    </Tooltip>
+                    <Tooltip title="Not helpful">
+                        <Button type="text" size="small" disabled={saving} onClick={() => rate('down')} aria-label="Rate answer not helpful"
+                            icon={feedback?.rating === 'down' ? <DislikeFilled className="text-red-500" /> : <DislikeOutlined />} />
+                    </Tooltip>
+                </Space>
+            </Popover>
+            {feedback?.reason && <Text type="secondary" className="text-xs">{reasonLabels[feedback.reason]}</Text>}
+        </div>
+    );
+};
+
+export default FeedbackControls;
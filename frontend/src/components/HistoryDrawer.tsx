@@ -0,0 +1,316 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Button, Checkbox, DatePicker, Drawer, Dropdown, Input, List, Segmented, Spin, Alert, Empty, Divider, Popconfirm, Tooltip, Typography, message as antdMessage } from 'antd';
+import { CloseOutlined, DeleteOutlined, DownloadOutlined, HistoryOutlined, LockOutlined, TeamOutlined } from '@ant-design/icons';
+import axios, { AxiosError } from 'axios';
+import { config } from '../config';
+import { useAppAuth } from '../utils/auth';
+
+const { Text, Paragraph, Title } = Typography;
+
+// The fields the drawer needs from a QAHistory entry; the answer itself is rendered by the parent
+export interface HistoryEntry {
+    _id: string;
+    userId: string;
+    question: string;
+    visibility?: HistoryVisibility;
+    timestamp: string;
+}
+
+type HistoryVisibility = 'private' | 'org';
+type HistoryScope = 'mine' | 'org';  // The user's own entries, or those shared with their organization
+
+interface HistoryPage<T> {
+    items: T[];
+    nextCursor: string | null;
+}
+
+// Same filters as GET /api/history and /api/history/export
+interface HistoryFilters {
+    scope: HistoryScope;
+    q: string;
+    from: string | null;
+    to: string | null;
+}
+
+interface HistoryDrawerProps<T extends HistoryEntry> {
+    open: boolean;
+    onClose: () => void;
+    backendUrl: string;
+    authHeaders: () => Promise<Record<string, string>>;
+    renderAnswer: (entry: T) => React.ReactNode;
+}
+
+const SCROLL_LOAD_THRESHOLD_PX = 200; // Load the next page this close to the bottom
+
+const exportFormats = [
+    { key: 'markdown', label: 'Markdown (.md)', extension: 'md' },
+    { key: 'csv', label: 'CSV (.csv)', extension: 'csv' },
+    { key: 'json', label: 'JSON (.json)', extension: 'json' },
+    { key: 'pdf', label: 'PDF (.pdf)', extension: 'pdf' },
+];
+
+const filterParams = (filters: HistoryFilters): Record<string, string> => {
+    const params: Record<string, string> = {};
+    if (filters.scope === 'org') params.scope = 'org';
+    if (filters.q) params.q = filters.q;
+    if (filters.from) params.from = filters.from;
+    if (filters.to) params.to = filters.to;
+    return params;
+};
+
+const errorMessage = (err: unknown, fallback: string): string =>
+    (axios.isAxiosError(err) && (err as AxiosError<{ message?: string }>).response?.data?.message) || fallback;
+
+function HistoryDrawer<T extends HistoryEntry>({ open, onClose, backendUrl, authHeaders, renderAnswer }: HistoryDrawerProps<T>) {
+    const { userId, orgId } = useAppAuth();
+    const [items, setItems] = useState<T[]>([]);
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [loadingMore, setLoadingMore] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [filters, setFilters] = useState<HistoryFilters>({ scope: 'mine', q: '', from: null, to: null });
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const [exporting, setExporting] = useState(false);
+    const requestIdRef = useRef(0); // Responses to superseded requests (e.g. an older search) are dropped
+
+    const loadPage = useCallback(async (cursor: string | null, pageFilters: HistoryFilters) => {
+        const requestId = ++requestIdRef.current;
+        if (cursor) setLoadingMore(true);
+        else setLoading(true);
+        setError(null);
+        try {
+            const params = filterParams(pageFilters);
+            if (cursor) params.cursor = cursor;
+            if (config.historyPageSize) params.limit = String(config.historyPageSize);
+            const response = await axios.get<HistoryPage<T>>(`${backendUrl}/history`, { headers: await authHeaders(), params });
+            if (requestId !== requestIdRef.current) return;
+            setItems(previous => cursor ? [...previous, ...response.data.items] : response.data.items);
+            setNextCursor(response.data.nextCursor);
+        } catch (err) {
+            console.error("Error fetching history:", err);
+            if (requestId === requestIdRef.current) setError(errorMessage(err, "Failed to load history."));
+        } finally {
+            if (requestId === requestIdRef.current) {
+                setLoading(false);
+                setLoadingMore(false);
+            }
+        }
+    }, [backendUrl, authHeaders]);
+
+    useEffect(() => {
+        if (open) loadPage(null, filters);
+    }, [open, filters, loadPage]);
+
+    // Leaving the organization (e.g. switching to a personal account in Clerk) goes back to the user's own entries
+    useEffect(() => {
+        if (!orgId) setFilters(previous => previous.scope === 'org' ? { ...previous, scope: 'mine' } : previous);
+    }, [orgId]);
+
+    const changeScope = (scope: HistoryScope) => {
+        setSelectedIds([]);
+        setFilters(previous => ({ ...previous, scope }));
+    };
+
+    const loadMore = () => {
+        if (nextCursor && !loading && !loadingMore) loadPage(nextCursor, filters);
+    };
+
+    const handleScroll = (event: React.UIEvent<HTMLDivElement>) => {
+        const { scrollHeight, scrollTop, clientHeight } = event.currentTarget;
+        if (scrollHeight - scrollTop - clientHeight < SCROLL_LOAD_THRESHOLD_PX) loadMore();
+    };
+
+    const deleteEntry = async (entryId: string) => {
+        try {
+            await axios.delete(`${backendUrl}/history/${entryId}`, { headers: await authHeaders() });
+            setItems(previous => previous.filter(item => item._id !== entryId));
+            setSelectedIds(previous => previous.filter(id => id !== entryId));
+        } catch (err) {
+            console.error("Error deleting history entry:", err);
+            antdMessage.error(errorMessage(err, "Failed to delete this entry."));
+        }
+    };
+
+    const deleteAll = async () => {
+        try {
+            await axios.delete(`${backendUrl}/history`, { headers: await authHeaders(), params: { confirm: 'true' } });
+            setItems([]);
+            setNextCursor(null);
+            setSelectedIds([]);
+        } catch (err) {
+            console.error("Error deleting history:", err);
+            antdMessage.error(errorMessage(err, "Failed to delete your history."));
+        }
+    };
+
+    // Shares one of the user's entries with their organization, or makes it private again
+    const changeVisibility = async (entryId: string, visibility: HistoryVisibility) => {
+        try {
+            const response = await axios.patch<T>(`${backendUrl}/history/${entryId}`, { visibility }, { headers: await authHeaders() });
+            if (filters.scope === 'org' && visibility === 'private') {
+                setItems(previous => previous.filter(item => item._id !== entryId));
+                setSelectedIds(previous => previous.filter(id => id !== entryId));
+            } else {
+                setItems(previous => previous.map(item => item._id === entryId ? { ...item, visibility: response.data.visibility } : item));
+            }
+            antdMessage.success(visibility === 'org' ? "Shared with your organization." : "Only you can see this entry now.");
+        } catch (err) {
+            console.error("Error changing history entry visibility:", err);
+            antdMessage.error(errorMessage(err, "Failed to change who can see this entry."));
+        }
+    };
+
+    const toggleSelected = (entryId: string, selected: boolean) => {
+        setSelectedIds(previous => selected ? [...previous, entryId] : previous.filter(id => id !== entryId));
+    };
+
+    // Downloads the entries matching the current filters, or only the selected ones
+    const exportHistory = async (format: string) => {
+        setExporting(true);
+        try {
+            const params: Record<string, string> = { ...filterParams(filters), format };
+            if (selectedIds.length > 0) params.ids = selectedIds.join(',');
+            const response = await axios.get<Blob>(`${backendUrl}/history/export`, { headers: await authHeaders(), params, responseType: 'blob' });
+            const extension = exportFormats.find(option => option.key === format)?.extension ?? format;
+            const filename = /filename="([^"]+)"/.exec(String(response.headers['content-disposition'] ?? ''))?.[1] ?? `qa-history.${extension}`;
+            const url = URL.createObjectURL(response.data);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = filename;
+            link.click();
+            setTimeout(() => URL.revokeObjectURL(url), 1000);
+            if (response.headers['x-export-truncated'] === 'true') antdMessage.warning("Only the newest entries were exported. Narrow the dates to export the rest.");
+        } catch (err) {
+            console.error("Error exporting history:", err);
+            antdMessage.error("Failed to export your history.");
+        } finally {
+            setExporting(false);
+        }
+    };
+
+    return (
+        <Drawer
+            title="Q&A History"
+            placement="right"
+            closable={true}
+            onClose={onClose}
+            open={open}
+            width={400}
+            closeIcon={<CloseOutlined />}
+            styles={{ body: { padding: 0, display: 'flex', flexDirection: 'column' } }}
+            extra={
+                <div className="flex gap-2">
+                    <Button icon={<HistoryOutlined />} onClick={() => loadPage(null, filters)} loading={loading}>Refresh</Button>
+                    <Popconfirm title="Delete your entire history?" description="This cannot be undone." okText="Delete all" okButtonProps={{ danger: true }} onConfirm={deleteAll}>
+                        <Button danger icon={<DeleteOutlined />} disabled={items.length === 0 || filters.scope !== 'mine'}>Clear</Button>
+                    </Popconfirm>
+                </div>
+            }
+        >
+            <div className="p-4 pb-0 shrink-0 space-y-2">
+                {orgId && (
+                    <Segmented<HistoryScope>
+                        block
+                        value={filters.scope}
+                        onChange={changeScope}
+                        options={[{ label: 'Mine', value: 'mine' }, { label: 'My organization', value: 'org' }]}
+                    />
+                )}
+                <Input.Search placeholder="Search questions and answers" allowClear onSearch={(value) => setFilters(previous => ({ ...previous, q: value.trim() }))} />
+                <div className="flex gap-2">
+                    <DatePicker.RangePicker
+                        allowEmpty={[true, true]}
+                        className="flex-grow"
+                        onChange={(dates) => setFilters(previous => ({
+                            ...previous,
+                            from: dates?.[0]?.startOf('day').toISOString() ?? null,
+                            to: dates?.[1]?.endOf('day').toISOString() ?? null,
+                        }))}
+                    />
+                    <Dropdown
+                        menu={{ items: exportFormats.map(({ key, label }) => ({ key, label })), onClick: ({ key }) => exportHistory(key) }}
+                        trigger={['click']}
+                        disabled={items.length === 0}
+                    >
+                        <Button icon={<DownloadOutlined />} loading={exporting}>
+                            {selectedIds.length > 0 ? `Export ${selectedIds.length}` : 'Export'}
+                        </Button>
+                    </Dropdown>
+                </div>
+                {selectedIds.length > 0 && (
+                    <Text type="secondary" className="text-xs block">
+                        {selectedIds.length} selected. <Button type="link" size="small" className="!p-0 !h-auto !text-xs" onClick={() => setSelectedIds([])}>Clear selection</Button>
+                    </Text>
+                )}
+            </div>
+            <div className="flex-grow overflow-y-auto" onScroll={handleScroll}>
+                {loading && <div className="text-center p-10"><Spin size="large" /></div>}
+                {error && <Alert message={error} type="error" showIcon className="m-4" />}
+                {!loading && !error && items.length === 0 && (
+                    <Empty
+                        description={filters.q || filters.from || filters.to
+                            ? "No matching history."
+                            : filters.scope === 'org' ? "Nothing has been shared with your organization yet." : "No history found."}
+                        className="mt-10"
+                    />
+                )}
+                {!loading && items.length > 0 && (
+                    <List
+                        className="p-4"
+                        itemLayout="vertical"
+                        dataSource={items}
+                        renderItem={(item: T) => {
+                            const own = item.userId === userId;
+                            const shared = item.visibility === 'org';
+                            return (
+                                <List.Item key={item._id} className="mb-3 p-3 border rounded-md shadow-sm bg-white hover:shadow-md transition-shadow">
+                                    <div className="flex items-start justify-between gap-2">
+                                        <Checkbox checked={selectedIds.includes(item._id)} onChange={(event) => toggleSelected(item._id, event.target.checked)}>
+                                            <Title level={5} className="!text-sm !mb-1 text-blue-600">{own ? 'You' : item.userId} asked:</Title>
+                                        </Checkbox>
+                                        {own && (
+                                            <span className="flex">
+                                                {orgId && (
+                                                    <Tooltip title={shared ? "Shared with your organization. Click to make it private." : "Only you can see this. Click to share it with your organization."}>
+                                                        <Button
+                                                            type="text"
+                                                            size="small"
+                                                            icon={shared ? <TeamOutlined /> : <LockOutlined />}
+                                                            aria-label={shared ? "Make entry private" : "Share entry with organization"}
+                                                            onClick={() => changeVisibility(item._id, shared ? 'private' : 'org')}
+                                                        />
+                                                    </Tooltip>
+                                                )}
+                                                <Popconfirm title="Delete this entry?" okText="Delete" okButtonProps={{ danger: true }} onConfirm={() => deleteEntry(item._id)}>
+                                                    <Button type="text" size="small" icon={<DeleteOutlined />} aria-label="Delete entry" />
+                                                </Popconfirm>
+                                            </span>
+                                        )}
+                                    </div>
+                                    <Paragraph ellipsis={{ rows: 2, expandable: true, symbol: 'more' }} className="text-gray-700 text-sm mb-2">
+                                        {item.question}
+                                    </Paragraph>
+                                    <Divider className="my-2" />
+                                    <Title level={5} className="!text-sm !mb-1 text-green-600">Bot replied:</Title>
+                                    <div className="text-sm bg-gray-50 p-2 rounded">
+                                        {renderAnswer(item)}
+                                    </div>
+                                    <Text type="secondary" className="text-xs block mt-2 text-right">
+                                        {new Date(item.timestamp).toLocaleString()}
+                                    </Text>
+                                </List.Item>
+                            );
+                        }}
+                    />
+                )}
+                {!loading && nextCursor && (
+                    <div className="text-center pb-4">
+                        <Button onClick={loadMore} loading={loadingMore}>Load more</Button>
+                    </div>
+                )}
+            </div>
+        </Drawer>
+    );
+}
+
+export default HistoryDrawer;
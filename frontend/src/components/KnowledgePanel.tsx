@@ -0,0 +1,210 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Button, Drawer, Input, List, Spin, Alert, Empty, Typography } from 'antd';
+import { ArrowLeftOutlined, BookOutlined, CloseOutlined, LeftOutlined, RightOutlined } from '@ant-design/icons';
+import axios, { AxiosError } from 'axios';
+
+const { Text, Paragraph, Title } = Typography;
+
+// A section to open, with the passages to highlight (the quotes an answer was grounded on)
+export interface SectionTarget {
+    sectionId: string;
+    quotes: string[];
+}
+
+// Matches the responses of GET /api/knowledge/sections and /api/knowledge/sections/:id
+interface GuideInfo {
+    documentSlug: string;
+    version: number;
+    title: string;
+}
+
+interface SectionSummary {
+    id: string;
+    title: string;
+    order: number;
+    chars: number;
+    score?: number;   // Search results only
+    snippet?: string;
+}
+
+interface SectionList {
+    knowledgeBase: GuideInfo;
+    query: string | null;
+    sections: SectionSummary[];
+}
+
+interface SectionDetail {
+    knowledgeBase: GuideInfo;
+    section: SectionSummary & { content: string };
+    previous: SectionSummary | null;
+    next: SectionSummary | null;
+    highlights: { start: number; end: number }[];
+}
+
+interface KnowledgePanelProps {
+    open: boolean;
+    onClose: () => void;
+    target: SectionTarget | null; // Opens this section when set, otherwise the table of contents
+    backendUrl: string;
+    authHeaders: () => Promise<Record<string, string>>;
+}
+
+const errorMessage = (err: unknown, fallback: string): string =>
+    (axios.isAxiosError(err) && (err as AxiosError<{ message?: string }>).response?.data?.message) || fallback;
+
+// Splits the section text into plain and highlighted parts; overlapping ranges are merged
+function renderHighlighted(content: string, highlights: SectionDetail['highlights'], firstMarkRef: React.RefObject<HTMLElement | null>) {
+    const merged: { start: number; end: number }[] = [];
+    for (const range of highlights) {
+        const last = merged[merged.length - 1];
+        if (last && range.start <= last.end) last.end = Math.max(last.end, range.end);
+        else merged.push({ ...range });
+    }
+    const parts: React.ReactNode[] = [];
+    let position = 0;
+    merged.forEach((range, index) => {
+        if (range.start > position) parts.push(content.substring(position, range.start));
+        parts.push(<mark key={index} ref={index === 0 ? firstMarkRef : undefined} className="bg-yellow-200 rounded-sm">{content.substring(range.start, range.end)}</mark>);
+        position = range.end;
+    });
+    parts.push(content.substring(position));
+    return parts;
+}
+
+// Browse and search the guide the bot answers from. Opening it with a target shows that section
+// with the answer's passages highlighted; "Back" returns to the table of contents or search results.
+const KnowledgePanel: React.FC<KnowledgePanelProps> = ({ open, onClose, target, backendUrl, authHeaders }) => {
+    const [list, setList] = useState<SectionList | null>(null);
+    const [detail, setDetail] = useState<SectionDetail | null>(null);
+    const [search, setSearch] = useState('');
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const searchRef = useRef(''); // The search survives closing the panel, without reloading on every keystroke
+    const requestIdRef = useRef(0); // Responses to superseded requests (e.g. an older search) are dropped
+    const firstMarkRef = useRef<HTMLElement | null>(null);
+
+    const loadList = useCallback(async (query: string) => {
+        const requestId = ++requestIdRef.current;
+        setLoading(true);
+        setError(null);
+        setDetail(null);
+        try {
+            const response = await axios.get<SectionList>(`${backendUrl}/knowledge/sections`, { headers: await authHeaders(), params: query ? { q: query } : {} });
+            if (requestId === requestIdRef.current) setList(response.data);
+        } catch (err) {
+            console.error("Error fetching guide sections:", err);
+            if (requestId === requestIdRef.current) setError(errorMessage(err, "Failed to load the guide."));
+        } finally {
+            if (requestId === requestIdRef.current) setLoading(false);
+        }
+    }, [backendUrl, authHeaders]);
+
+    const loadSection = useCallback(async (sectionId: string, quotes: string[] = []) => {
+        const requestId = ++requestIdRef.current;
+        setLoading(true);
+        setError(null);
+        try {
+            const response = await axios.get<SectionDetail>(`${backendUrl}/knowledge/sections/${encodeURIComponent(sectionId)}`, {
+                headers: await authHeaders(),
+                params: { quote: quotes },
+                paramsSerializer: { indexes: null }, // quote=a&quote=b rather than quote[]=a
+            });
+            if (requestId === requestIdRef.current) setDetail(response.data);
+        } catch (err) {
+            console.error("Error fetching guide section:", err);
+            if (requestId === requestIdRef.current) setError(errorMessage(err, "Failed to load this section."));
+        } finally {
+            if (requestId === requestIdRef.current) setLoading(false);
+        }
+    }, [backendUrl, authHeaders]);
+
+    useEffect(() => {
+        if (!open) return;
+        if (target) loadSection(target.sectionId, target.quotes);
+        else loadList(searchRef.current);
+    }, [open, target, loadSection, loadList]);
+
+    const runSearch = (value: string) => {
+        searchRef.current = value.trim();
+        setSearch(searchRef.current);
+        loadList(searchRef.current);
+    };
+
+    // Bring the first highlighted passage into view once the section has rendered
+    useEffect(() => {
+        if (detail?.highlights.length) firstMarkRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, [detail]);
+
+    const backToList = () => {
+        setDetail(null);
+        setError(null);
+        if (!list) loadList(search);
+    };
+
+    const renderSectionLink = (summary: SectionSummary, icon: React.ReactNode, placement: 'before' | 'after') => (
+        <Button type="link" size="small" onClick={() => loadSection(summary.id)} className="!px-0 max-w-[45%]">
+            {placement === 'before' && icon}<span className="truncate">{summary.title}</span>{placement === 'after' && icon}
+        </Button>
+    );
+
+    return (
+        <Drawer
+            title={<span><BookOutlined className="mr-2" />{detail?.knowledgeBase.title ?? list?.knowledgeBase.title ?? 'Guide'}</span>}
+            placement="left"
+            closable={true}
+            onClose={onClose}
+            open={open}
+            width={520}
+            closeIcon={<CloseOutlined />}
+            styles={{ body: { padding: 0, display: 'flex', flexDirection: 'column' } }}
+        >
+            {!detail && (
+                <div className="p-4 pb-0 shrink-0">
+                    <Input.Search placeholder="Search the guide" allowClear defaultValue={search} onSearch={runSearch} />
+                </div>
+            )}
+            <div className="flex-grow overflow-y-auto">
+                {loading && <div className="text-center p-10"><Spin size="large" /></div>}
+                {error && <Alert message={error} type="error" showIcon className="m-4" />}
+                {!loading && detail && (
+                    <div className="p-4">
+                        <Button type="text" size="small" icon={<ArrowLeftOutlined />} onClick={backToList} className="!px-0 mb-2">
+                            {search ? 'Back to results' : 'All sections'}
+                        </Button>
+                        <Title level={4} className="!mt-0">{detail.section.title}</Title>
+                        {target?.sectionId === detail.section.id && target.quotes.length > 0 && detail.highlights.length === 0 && (
+                            <Text type="secondary" className="block mb-2 text-xs">The quoted passages could not be found in the current version of the guide.</Text>
+                        )}
+                        <Paragraph className="whitespace-pre-wrap text-sm leading-relaxed">
+                            {renderHighlighted(detail.section.content, detail.highlights, firstMarkRef)}
+                        </Paragraph>
+                        <div className="flex justify-between gap-2 border-t pt-2">
+                            {detail.previous ? renderSectionLink(detail.previous, <LeftOutlined />, 'before') : <span />}
+                            {detail.next ? renderSectionLink(detail.next, <RightOutlined />, 'after') : <span />}
+                        </div>
+                    </div>
+                )}
+                {!loading && !detail && !error && list && list.sections.length === 0 && (
+                    <Empty description={search ? "No matching sections." : "The guide is empty."} className="mt-10" />
+                )}
+                {!loading && !detail && list && list.sections.length > 0 && (
+                    <List
+                        className="p-4"
+                        size="small"
+                        dataSource={list.sections}
+                        renderItem={(section) => (
+                            <List.Item key={section.id} onClick={() => loadSection(section.id)} className="cursor-pointer hover:bg-gray-50 !px-2">
+                                <List.Item.Meta
+                                    title={<Text className="text-sm">{section.title}</Text>}
+                                    description={section.snippet && <Text type="secondary" className="text-xs">{section.snippet}</Text>}
+                                />
+                            </List.Item>
+                        )}
+                    />
+                )}
+            </div>
+        </Drawer>
+    );
+};
+
+export default KnowledgePanel;
@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { Button, Popconfirm, Popover, Select, Spin, Tooltip, Typography, message as antdMessage } from 'antd';
+import { ShareAltOutlined, StopOutlined } from '@ant-design/icons';
+import axios from 'axios';
+
+const { Text } = Typography;
+
+// Matches the links returned by /api/shares
+interface SharedLink {
+    slug: string;
+    historyId: string;
+    status: 'active' | 'expired' | 'revoked';
+    expiresAt: string | null;
+    viewCount: number;
+    createdAt: string;
+}
+
+// Expiry choices, in days from now; 0 means the link never expires
+const expiryOptions = [
+    { value: 0, label: 'Never expires' },
+    { value: 1, label: 'Expires in 1 day' },
+    { value: 7, label: 'Expires in 7 days' },
+    { value: 30, label: 'Expires in 30 days' },
+];
+
+const expiryFromDays = (days: number): string | null => days ? new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString() : null;
+
+const sharedAnswerUrl = (slug: string): string => `${window.location.origin}/shared/${slug}`;
+
+interface ShareControlsProps {
+    historyId: string;
+    backendUrl: string;
+    authHeaders: () => Promise<Record<string, string>>;
+}
+
+// Share button under a bot answer. The popover creates a public read-only link to the answer,
+// shows its views and lets the owner change the expiry or revoke it.
+const ShareControls: React.FC<ShareControlsProps> = ({ historyId, backendUrl, authHeaders }) => {
+    const [open, setOpen] = useState(false);
+    const [link, setLink] = useState<SharedLink | null>(null);
+    const [expiryDays, setExpiryDays] = useState(0);
+    const [loading, setLoading] = useState(false);
+    const [saving, setSaving] = useState(false);
+
+    // The entry's live link, if it was shared before
+    const loadLink = async () => {
+        setLoading(true);
+        try {
+            const response = await axios.get<SharedLink[]>(`${backendUrl}/shares`, { headers: await authHeaders(), params: { historyId } });
+            setLink(response.data[0] ?? null);
+        } catch (err) {
+            console.error("Error loading shared link:", err);
+            antdMessage.error("Failed to load the shared link.");
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleOpenChange = (nextOpen: boolean) => {
+        setOpen(nextOpen);
+        if (nextOpen) loadLink();
+    };
+
+    const createLink = async () => {
+        setSaving(true);
+        try {
+            const response = await axios.post<SharedLink>(`${backendUrl}/shares`, { historyId, expiresAt: expiryFromDays(expiryDays) }, { headers: await authHeaders() });
+            setLink(response.data);
+            await navigator.clipboard?.writeText(sharedAnswerUrl(response.data.slug)).catch(() => undefined);
+            antdMessage.success("Link created and copied.");
+        } catch (err) {
+            console.error("Error sharing answer:", err);
+            antdMessage.error("Failed to create the link.");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    // Before the link exists this picks its expiry; afterwards it updates the link right away
+    const changeExpiry = async (days: number) => {
+        setExpiryDays(days);
+        if (!link) return;
+        setSaving(true);
+        try {
+            const response = await axios.patch<SharedLink>(`${backendUrl}/shares/${link.slug}`, { expiresAt: expiryFromDays(days) }, { headers: await authHeaders() });
+            setLink(response.data);
+        } catch (err) {
+            console.error("Error updating shared link:", err);
+            antdMessage.error("Failed to change the expiry.");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const revokeLink = async () => {
+        if (!link) return;
+        setSaving(true);
+        try {
+            await axios.delete(`${backendUrl}/shares/${link.slug}`, { headers: await authHeaders() });
+            setLink(null);
+            antdMessage.success("Link revoked.");
+        } catch (err) {
+            console.error("Error revoking shared link:", err);
+            antdMessage.error("Failed to revoke the link.");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const content = (
+        <div className="w-72 space-y-2">
+            {loading && <div className="text-center py-2"><Spin size="small" /></div>}
+            {!loading && link && (
+                <>
+                    <Text copyable={{ text: sharedAnswerUrl(link.slug) }} ellipsis className="block text-xs bg-gray-50 p-1 rounded">
+                        {sharedAnswerUrl(link.slug)}
+                    </Text>
+                    <Text type="secondary" className="block text-xs">
+                        Viewed {link.viewCount} {link.viewCount === 1 ? 'time' : 'times'}
+                        {link.expiresAt ? `, expires ${new Date(link.expiresAt).toLocaleString()}` : ', never expires'}.
+                    </Text>
+                </>
+            )}
+            {!loading && !link && <Text type="secondary" className="block text-xs">Anyone with the link can read this question and answer, without signing in.</Text>}
+            {!loading && (
+                <div className="flex items-center justify-between gap-2">
+                    <Select size="small" value={link ? undefined : expiryDays} placeholder="Change expiry" onChange={changeExpiry} options={expiryOptions} disabled={saving} className="w-40" />
+                    {link ? (
+                        <Popconfirm title="Revoke this link?" description="It will stop working for everyone." okText="Revoke" okButtonProps={{ danger: true }} onConfirm={revokeLink}>
+                            <Button size="small" danger icon={<StopOutlined />} loading={saving}>Revoke</Button>
+                        </Popconfirm>
+                    ) : (
+                        <Button size="small" type="primary" onClick={createLink} loading={saving}>Create link</Button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+
+    return (
+        <Popover content={content} title="Share this answer" open={open} onOpenChange={handleOpenChange} trigger="click" placement="bottomLeft">
+            <Tooltip title="Share">
+                <Button type="text" size="small" icon={<ShareAltOutlined />} aria-label="Share answer" className="mt-2" />
+            </Tooltip>
+        </Popover>
+    );
+};
+
+export default ShareControls;
@@ -0,0 +1,74 @@
+import React, { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { Alert, Avatar, Card, Spin, Typography } from 'antd';
+import { RobotOutlined, UserOutlined } from '@ant-design/icons';
+import axios, { AxiosError } from 'axios';
+import AnswerContent from './AnswerContent';
+import { toDisplayableResponse, type LLMStructuredResponse } from '../utils/llmResponse';
+import { config } from '../config';
+
+const { Text, Title } = Typography;
+
+const backendUrl = config.apiBaseUrl;
+
+// Matches GET /api/shared/:slug
+interface SharedAnswer {
+    question: string;
+    llmResponse: unknown; // Validated before display, see toDisplayableResponse
+    answeredAt: string;
+    expiresAt: string | null;
+    viewCount: number;
+}
+
+// Read-only page behind a shared link (/shared/:slug). Works without signing in.
+const SharedAnswerPage: React.FC = () => {
+    const { slug } = useParams<{ slug: string }>();
+    const [shared, setShared] = useState<SharedAnswer | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        axios.get<SharedAnswer>(`${backendUrl}/shared/${encodeURIComponent(slug ?? '')}`)
+            .then(response => { if (!cancelled) setShared(response.data); })
+            .catch((err: unknown) => {
+                console.error("Error loading shared answer:", err);
+                if (cancelled) return;
+                const message = axios.isAxiosError(err) ? (err as AxiosError<{ message?: string }>).response?.data?.message : undefined;
+                setError(message || "This shared answer could not be loaded.");
+            });
+        return () => { cancelled = true; };
+    }, [slug]);
+
+    const response: LLMStructuredResponse | null = shared ? toDisplayableResponse(shared.llmResponse) : null;
+
+    return (
+        <div className="w-full max-w-3xl mx-auto p-4 md:p-6">
+            <Card title={<Title level={4} className="!mb-0">Shared answer</Title>} className="shadow-xl">
+                {!shared && !error && <div className="text-center p-10"><Spin size="large" /></div>}
+                {error && <Alert message={error} type="warning" showIcon />}
+                {shared && response && (
+                    <div className="space-y-4">
+                        <div className="flex items-end gap-2.5 justify-end">
+                            <div className="max-w-[75%] p-3 rounded-xl shadow-sm bg-blue-500 text-white rounded-br-none">
+                                <Text className="text-white whitespace-pre-wrap">{shared.question}</Text>
+                            </div>
+                            <Avatar icon={<UserOutlined />} className="bg-gray-300 self-start shrink-0 !flex !items-center !justify-center" />
+                        </div>
+                        <div className="flex items-start gap-2.5 justify-start">
+                            <Avatar icon={<RobotOutlined />} className="bg-blue-500 self-start shrink-0 !flex !items-center !justify-center mt-1" />
+                            <div className="max-w-[75%] p-3 rounded-xl shadow-sm bg-white text-gray-800 rounded-bl-none border border-gray-200">
+                                <AnswerContent content={response} />
+                            </div>
+                        </div>
+                        <Text type="secondary" className="text-xs block text-center">
+                            Answered {new Date(shared.answeredAt).toLocaleString()} from the "Raise Millions" guide.
+                            {shared.expiresAt && ` This link expires ${new Date(shared.expiresAt).toLocaleString()}.`}
+                        </Text>
+                    </div>
+                )}
+            </Card>
+        </div>
+    );
+};
+
+export default SharedAnswerPage;
@@ -0,0 +1,86 @@
+import React from 'react';
+import { Button, List, Typography, Popconfirm, Spin, Empty } from 'antd';
+import { PlusOutlined, DeleteOutlined, MessageOutlined } from '@ant-design/icons';
+
+const { Text } = Typography;
+
+// Matches the Conversation document returned by /api/conversations
+export interface Conversation {
+    _id: string;
+    title: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+interface ThreadSidebarProps {
+    conversations: Conversation[];
+    activeConversationId: string | null;
+    loading: boolean;
+    disabled: boolean; // True while an answer is in flight, so the active thread can't change under it
+    onSelect: (conversationId: string) => void;
+    onNew: () => void;
+    onRename: (conversationId: string, title: string) => void;
+    onDelete: (conversationId: string) => void;
+}
+
+const ThreadSidebar: React.FC<ThreadSidebarProps> = ({
+    conversations, activeConversationId, loading, disabled, onSelect, onNew, onRename, onDelete,
+}) => {
+    return (
+        <div className="w-60 shrink-0 hidden md:flex flex-col bg-white border rounded-lg shadow-xl overflow-hidden">
+            <div className="p-3 border-b">
+                <Button type="dashed" icon={<PlusOutlined />} onClick={onNew} disabled={disabled} block>New conversation</Button>
+            </div>
+            <div className="flex-grow overflow-y-auto">
+                {loading && conversations.length === 0 && <div className="text-center p-6"><Spin /></div>}
+                {!loading && conversations.length === 0 && (
+                    <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="No conversations yet." className="mt-6" />
+                )}
+                <List
+                    size="small"
+                    dataSource={conversations}
+                    renderItem={(conversation) => {
+                        const isActive = conversation._id === activeConversationId;
+                        return (
+                            <List.Item
+                                key={conversation._id}
+                                onClick={() => !disabled && !isActive && onSelect(conversation._id)}
+                                className={`!px-3 cursor-pointer group ${isActive ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                            >
+                                <div className="flex items-center gap-2 w-full min-w-0">
+                                    <MessageOutlined className={isActive ? 'text-blue-500' : 'text-gray-400'} />
+                                    <Text
+                                        ellipsis={{ tooltip: conversation.title }}
+                                        editable={isActive && !disabled ? { onChange: (title) => title.trim() && title !== conversation.title && onRename(conversation._id, title) } : false}
+                                        className="flex-grow min-w-0 text-sm"
+                                    >
+                                        {conversation.title}
+                                    </Text>
+                                    <Popconfirm
+                                        title="Delete this conversation?"
+                                        description="All of its questions and answers will be removed."
+                                        onConfirm={(e) => { e?.stopPropagation(); onDelete(conversation._id); }}
+                                        onCancel={(e) => e?.stopPropagation()}
+                                        okText="Delete"
+                                        okButtonProps={{ danger: true }}
+                                    >
+                                        <Button
+                                            type="text"
+                                            size="small"
+                                            icon={<DeleteOutlined />}
+                                            disabled={disabled}
+                                            onClick={(e) => e.stopPropagation()}
+                                            className="opacity-0 group-hover:opacity-100"
+                                        />
+                                    </Popconfirm>
+                                </div>
+                            </List.Item>
+                        );
+                    }}
+                />
+            </div>
+        </div>
+    );
+};
+
+export default ThreadSidebar;
@@ -0,0 +1,21 @@
+import React from 'react';
+import { Button, Typography } from 'antd';
+import { LogoutOutlined } from '@ant-design/icons';
+import { UserButton } from '@clerk/clerk-react';
+import { useAppAuth } from '../utils/auth';
+
+const { Text } = Typography;
+
+// Clerk's user button, or the dev user's ID (and organization) with a sign-out button
+const UserMenu: React.FC = () => {
+    const { mode, userId, orgId, signOut } = useAppAuth();
+    if (mode === 'clerk') return <UserButton afterSignOutUrl="/" />;
+    return (
+        <span className="flex items-center gap-2">
+            <Text type="secondary">{userId}{orgId ? ` @ ${orgId}` : ''} (dev)</Text>
+            <Button type="text" icon={<LogoutOutlined />} onClick={signOut}>Sign out</Button>
+        </span>
+    );
+};
+
+export default UserMenu;
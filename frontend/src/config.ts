@@ -0,0 +1,83 @@
+// The frontend's settings, read once from Vite's env variables and validated. Components take their
+// values from `config` instead of hardcoding URLs and keys.
+//
+// Vite picks the profile from its mode: `npm run dev` is development, `vite build` production (and
+// `--mode test` test). It loads .env, .env.local, .env.<mode> and .env.<mode>.local from frontend/, later
+// files winning; only VITE_* variables reach the browser, so no secret belongs here. Problems are listed
+// on screen by main.tsx instead of failing somewhere inside the app.
+
+export type ConfigProfile = 'development' | 'test' | 'production';
+// 'dev' signs in with tokens from the backend's AUTH_MODE=local, without a Clerk tenant
+export type AuthMode = 'clerk' | 'dev';
+
+export interface FrontendConfig {
+    profile: ConfigProfile;
+    apiBaseUrl: string;             // Backend API root including /api, without a trailing slash
+    authMode: AuthMode;
+    clerkPublishableKey: string;    // Empty in dev auth mode
+    historyPageSize: number | null; // null leaves the page size to the backend
+}
+
+type ConfigVariable = 'VITE_BACKEND_API_URL' | 'VITE_AUTH_MODE' | 'VITE_CLERK_PUBLISHABLE_KEY' | 'VITE_HISTORY_PAGE_SIZE';
+
+// Used when a variable is not set
+const PROFILE_DEFAULTS: Record<ConfigProfile, Partial<Record<ConfigVariable, string>>> = {
+    development: { VITE_BACKEND_API_URL: 'http://localhost:3005/api' },
+    test: { VITE_BACKEND_API_URL: 'http://localhost:3005/api' },
+    production: {},
+};
+
+function resolveProfile(mode: string): ConfigProfile {
+    return mode === 'production' || mode === 'test' ? mode : 'development';
+}
+
+function loadConfig(env: ImportMetaEnv): { config: FrontendConfig; problems: string[] } {
+    const problems: string[] = [];
+    const profile = resolveProfile(env.MODE);
+    const read = (name: ConfigVariable): string | undefined => env[name]?.trim() || PROFILE_DEFAULTS[profile][name];
+
+    const apiBaseUrl = read('VITE_BACKEND_API_URL');
+    if (!apiBaseUrl) {
+        problems.push('VITE_BACKEND_API_URL is required: the backend API URL, e.g. https://your-backend.vercel.app/api.');
+    } else if (!/^https?:\/\/\S+$/.test(apiBaseUrl)) {
+        problems.push(`VITE_BACKEND_API_URL must be an http(s) URL (got "${apiBaseUrl}").`);
+    } else if (profile === 'production' && !apiBaseUrl.startsWith('https://')) {
+        problems.push('VITE_BACKEND_API_URL must use https in production.');
+    }
+
+    const clerkPublishableKey = read('VITE_CLERK_PUBLISHABLE_KEY');
+    // Without a Clerk key, development and test builds fall back to dev sign-in
+    const authMode = read('VITE_AUTH_MODE') ?? (clerkPublishableKey || profile === 'production' ? 'clerk' : 'dev');
+    if (authMode !== 'clerk' && authMode !== 'dev') {
+        problems.push(`VITE_AUTH_MODE must be clerk or dev (got "${authMode}").`);
+    } else if (authMode === 'dev' && profile === 'production') {
+        problems.push('VITE_AUTH_MODE=dev must not be used in production builds.');
+    } else if (authMode === 'clerk' && !clerkPublishableKey) {
+        problems.push('VITE_CLERK_PUBLISHABLE_KEY is required: the publishable key from the Clerk dashboard (API Keys). Use VITE_AUTH_MODE=dev to develop without Clerk.');
+    } else if (authMode === 'clerk' && !/^pk_(test|live)_/.test(clerkPublishableKey!)) {
+        problems.push('VITE_CLERK_PUBLISHABLE_KEY must start with pk_test_ or pk_live_.');
+    }
+
+    const pageSize = read('VITE_HISTORY_PAGE_SIZE');
+    const historyPageSize = pageSize === undefined ? null : Number(pageSize);
+    if (historyPageSize !== null && (!Number.isInteger(historyPageSize) || historyPageSize < 1 || historyPageSize > 100)) {
+        problems.push(`VITE_HISTORY_PAGE_SIZE must be an integer between 1 and 100 (got "${pageSize}").`);
+    }
+
+    return {
+        config: {
+            profile,
+            apiBaseUrl: (apiBaseUrl ?? '').replace(/\/+$/, ''),
+            authMode: authMode === 'dev' ? 'dev' : 'clerk',
+            clerkPublishableKey: authMode === 'dev' ? '' : clerkPublishableKey ?? '',
+            historyPageSize: historyPageSize !== null && Number.isInteger(historyPageSize) ? historyPageSize : null,
+        },
+        problems,
+    };
+}
+
+const loaded = loadConfig(import.meta.env);
+
+export const config: FrontendConfig = loaded.config;
+// Empty when the app can start
+export const configProblems: string[] = loaded.problems;
@@ -3,11 +3,27 @@ import ReactDOM from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
 import { BrowserRouter } from 'react-router-dom'; // Import BrowserRouter
+import { configProblems } from './config';
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <BrowserRouter> {/* Wrap App with BrowserRouter */}
-      <App />
-    </BrowserRouter>
-  </React.StrictMode>,
-)
\ No newline at end of file
+const root = ReactDOM.createRoot(document.getElementById('root')!);
+
+if (configProblems.length > 0) {
+  // Nothing works without the API URL and a way to sign in, so say what is missing instead of rendering a broken app
+  root.render(
+    <div style={{ maxWidth: 640, margin: '48px auto', fontFamily: 'sans-serif' }}>
+      <h1>The app is not configured</h1>
+      <ul>
+        {configProblems.map(problem => <li key={problem}>{problem}</li>)}
+      </ul>
+      <p>Set these in frontend/.env.local (or the hosting provider's environment variables) and rebuild.</p>
+    </div>
+  );
+} else {
+  root.render(
+    <React.StrictMode>
+      <BrowserRouter> {/* Wrap App with BrowserRouter */}
+        <App />
+      </BrowserRouter>
+    </React.StrictMode>,
+  );
+}
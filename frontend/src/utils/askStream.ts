@@ -0,0 +1,116 @@
+// Client for POST /api/ask/stream. EventSource only supports GET without headers, so the
+// Server-Sent Events are read from a fetch() body instead.
+
+export interface StreamProgress {
+    stage: 'retrieving' | 'generating' | 'validating' | 'verifying';
+    provider?: string;
+}
+
+// Sent just before "final"
+export interface StreamMetadata {
+    historyId: string | null; // The saved QAHistory entry, null when the answer wasn't saved (errors)
+    cache: { status: 'hit' | 'miss' | 'bypass'; match?: 'exact' | 'similar' };
+    provider: string | null;
+    model: string | null;
+    repairAttempts: number; // Re-asks after answers that failed schema validation
+    grounding: { confidence: number; rejected: boolean } | null; // rejected: replaced by the "cannot find" reply
+    triage: 'in_scope' | 'greeting' | 'off_topic' | 'abusive'; // Anything but in_scope got a templated reply
+}
+
+interface StreamHandlers<TFinal> {
+    onProgress?: (progress: StreamProgress) => void;
+    onToken?: (text: string) => void;
+    onMetadata?: (metadata: StreamMetadata) => void;
+    onFinal: (response: TFinal) => void;
+}
+
+// Thrown when the backend rejects the request before the stream opens (validation, auth, 404...)
+export class StreamRequestError extends Error {
+    status: number;
+    constructor(message: string, status: number) {
+        super(message);
+        this.name = 'StreamRequestError';
+        this.status = status;
+    }
+}
+
+export async function streamAsk<TFinal>(
+    url: string,
+    body: Record<string, unknown>,
+    headers: Record<string, string>,
+    handlers: StreamHandlers<TFinal>
+): Promise<void> {
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: { ...headers, 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+        body: JSON.stringify(body),
+    });
+
+    if (!response.ok || !response.body) {
+        let message = `Server error (${response.status}). Please try again. (FE_ST${response.status})`;
+        try {
+            const data = await response.json();
+            if (data?.type === 'error' && typeof data.message === 'string') message = data.message;
+        } catch {
+            // Body wasn't JSON; keep the generic message
+        }
+        if (response.status === 401 || response.status === 403) message = "Authentication failed. Please sign in again. (FE_ST401/403)";
+        throw new StreamRequestError(message, response.status);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = '';
+    let receivedFinal = false;
+
+    const dispatch = (rawEvent: string) => {
+        let eventName = 'message';
+        const dataLines: string[] = [];
+        for (const line of rawEvent.split('\n')) {
+            if (line.startsWith('event:')) eventName = line.slice(6).trim();
+            else if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart());
+        }
+        if (dataLines.length === 0) return;
+        const data = JSON.parse(dataLines.join('\n'));
+        if (eventName === 'token') handlers.onToken?.(data.text);
+        else if (eventName === 'progress') handlers.onProgress?.(data);
+        else if (eventName === 'metadata') handlers.onMetadata?.(data);
+        else if (eventName === 'final') {
+            receivedFinal = true;
+            handlers.onFinal(data as TFinal);
+        }
+    };
+
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffered += decoder.decode(value, { stream: true });
+        const events = buffered.split('\n\n');
+        buffered = events.pop() ?? ''; // The last piece may be an incomplete event
+        events.forEach(dispatch);
+    }
+    if (buffered.trim()) dispatch(buffered);
+
+    if (!receivedFinal) {
+        throw new StreamRequestError("The answer stream ended before the final response arrived. (FE03)", 0);
+    }
+}
+
+// The models stream raw JSON. While it is incomplete, show the readable string values
+// (answer, titles, item points, details and summaries) instead of the JSON syntax around them.
+export function extractPreviewText(partialJson: string): string {
+    const pattern = /"(answer|title|point|detail|summary)"\s*:\s*"((?:[^"\\]|\\.)*)/g;
+    const pieces: string[] = [];
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(partialJson)) !== null) {
+        const value = match[2]
+            .replace(/\\n/g, '\n')
+            .replace(/\\"/g, '"')
+            .replace(/\\\\/g, '\\')
+            .replace(/\\$/, ''); // A dangling escape at the end of an unfinished chunk
+        if (match[1] === 'point') pieces.push(`• ${value}`);
+        else if (match[1] === 'detail') pieces[pieces.length - 1] = `${pieces[pieces.length - 1] ?? ''}: ${value}`;
+        else pieces.push(value);
+    }
+    return pieces.join('\n');
+}
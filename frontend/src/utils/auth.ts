@@ -0,0 +1,33 @@
+// The signed-in user as the components see it, whichever sign-in is configured (config.authMode):
+// Clerk, or dev sign-in with tokens from the backend's AUTH_MODE=local. Provided by components/AuthProvider.
+import { createContext, useContext } from 'react';
+import type { AuthMode } from '../config';
+
+export type Role = 'user' | 'org_admin' | 'admin';
+
+// A token from POST /api/auth/dev/token, kept in localStorage
+export interface DevSession {
+    token: string;
+    userId: string;
+    roles: Role[];
+    orgId: string | null;
+    expiresAt: string;
+}
+
+export interface AppAuth {
+    mode: AuthMode;
+    isSignedIn: boolean;
+    userId: string | null;
+    orgId: string | null;                         // Active organization, whose shared history the user can see
+    getToken: () => Promise<string | null>;      // Bearer token for the backend, null when signed out
+    signOut: () => void;
+    devSignIn: ((session: DevSession) => void) | null; // Only in dev mode
+}
+
+export const AuthContext = createContext<AppAuth | null>(null);
+
+export function useAppAuth(): AppAuth {
+    const auth = useContext(AuthContext);
+    if (!auth) throw new Error('useAppAuth must be used inside AuthProvider.');
+    return auth;
+}
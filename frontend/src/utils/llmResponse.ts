@@ -0,0 +1,19 @@
+// The response types and their validator are defined once, in the backend's shared schema module,
+// so the chat can't drift from what the backend produces.
+import { validateLLMResponse, validateStoredResponse, type LLMStructuredResponse } from '../../../backend/src/shared/llmResponseSchema';
+
+export { validateLLMResponse };
+export { splitSentences, listClaims, type AnswerClaim } from '../../../backend/src/shared/answerClaims';
+export type {
+    LLMStructuredResponse, LLMTextResponse, LLMListResponse, LLMListItem, LLMTableResponse, LLMStepsResponse, LLMStep,
+    LLMComparisonResponse, LLMComparisonCriterion, LLMErrorResponse, LLMGrounding, LLMGroundingClaim,
+} from '../../../backend/src/shared/llmResponseSchema';
+
+// Stored answers (history, threads) may predate the current schema. They are checked with the lenient rules,
+// and those that still don't match are shown as an error bubble instead of breaking the rendering.
+export function toDisplayableResponse(value: unknown): LLMStructuredResponse {
+    const validation = validateStoredResponse(value);
+    if (validation.valid) return validation.value;
+    console.warn("Stored answer does not match the response schema:", validation.errors, value);
+    return { type: "error", message: "This answer was saved in a format that can no longer be displayed." };
+}
@@ -1 +1,13 @@
 /// <reference types="vite/client" />
+
+// Read by src/config.ts
+interface ImportMetaEnv {
+    readonly VITE_BACKEND_API_URL?: string;
+    readonly VITE_AUTH_MODE?: string;
+    readonly VITE_CLERK_PUBLISHABLE_KEY?: string;
+    readonly VITE_HISTORY_PAGE_SIZE?: string;
+}
+
+interface ImportMeta {
+    readonly env: ImportMetaEnv;
+}
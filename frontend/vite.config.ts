@@ -4,4 +4,10 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  server: {
+    fs: {
+      // The LLM response schema is shared with the backend (see src/utils/llmResponse.ts)
+      allow: ['.', '../backend/src/shared'],
+    },
+  },
 })